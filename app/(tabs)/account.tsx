@@ -114,6 +114,18 @@ export default function AccountScreen() {
     router.push('/settings/sms');
   };
 
+  const handlePropertyCosts = () => {
+    router.push('/reports/properties');
+  };
+
+  const handleYearEndReport = () => {
+    router.push('/reports/year-end');
+  };
+
+  const handleShoppingList = () => {
+    router.push('/reports/shopping-list');
+  };
+
   const handleHelpSupport = async () => {
     const supportUrl = 'https://cleanerscheduler.com/support';
     const canOpen = await Linking.canOpenURL(supportUrl);
@@ -184,6 +196,29 @@ export default function AccountScreen() {
         },
       ],
     },
+    {
+      title: 'Reports',
+      items: [
+        {
+          icon: 'stats-chart-outline',
+          label: 'Property Costs',
+          onPress: handlePropertyCosts,
+          showChevron: true,
+        },
+        {
+          icon: 'document-text-outline',
+          label: 'Year-End 1099 Report',
+          onPress: handleYearEndReport,
+          showChevron: true,
+        },
+        {
+          icon: 'basket-outline',
+          label: 'Shopping List',
+          onPress: handleShoppingList,
+          showChevron: true,
+        },
+      ],
+    },
     {
       title: 'Support',
       items: [
@@ -15,14 +15,15 @@ import { colors, spacing } from '@/constants/theme';
 import { CleanerCard } from '@/components/CleanerCard';
 import { EmptyState } from '@/components/EmptyState';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
-import { getAllCleaners } from '@/services/cleaners.service';
+import { getAllCleaners, getCleanersReliability } from '@/services/cleaners.service';
 import { AuthService } from '@/services/auth.service';
-import type { Cleaner } from '@/types';
+import type { Cleaner, ReliabilityProfile } from '@/types';
 
 export default function CleanersScreen() {
   const router = useRouter();
   const [cleaners, setCleaners] = useState<Cleaner[]>([]);
   const [filteredCleaners, setFilteredCleaners] = useState<Cleaner[]>([]);
+  const [reliability, setReliability] = useState<Record<string, ReliabilityProfile>>({});
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -55,6 +56,10 @@ export default function CleanersScreen() {
       }
 
       setCleaners(data || []);
+
+      // Scores are extra detail, so the list still shows if they fail to load
+      const { data: profiles } = await getCleanersReliability(data || []);
+      setReliability(profiles || {});
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch cleaners';
       setError(errorMessage);
@@ -105,6 +110,7 @@ export default function CleanersScreen() {
   const renderCleaner = ({ item }: { item: Cleaner }) => (
     <CleanerCard
       cleaner={item}
+      reliability={reliability[item.id] ?? null}
       onPress={() => handleCleanerPress(item.id)}
       testID={`cleaner-card-${item.id}`}
     />
@@ -0,0 +1,243 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  SafeAreaView,
+  RefreshControl,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
+import { EmptyState } from '@/components/EmptyState';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { getConversations } from '@/services/messages.service';
+import { useAuthStore } from '@/stores/authStore';
+import { formatRelativeTime } from '@/utils';
+import type { Conversation } from '@/types';
+
+export default function MessagesScreen() {
+  const router = useRouter();
+  const user = useAuthStore((state) => state.user);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchConversations = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await getConversations(user.id);
+
+    if (error) {
+      Alert.alert('Error', error.message);
+    } else {
+      setConversations(data || []);
+    }
+
+    setLoading(false);
+    setRefreshing(false);
+  }, [user]);
+
+  // Reload on focus so unread counts drop after reading a conversation
+  useFocusEffect(
+    useCallback(() => {
+      fetchConversations();
+    }, [fetchConversations])
+  );
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchConversations();
+  }, [fetchConversations]);
+
+  const totalUnread = conversations.reduce((sum, item) => sum + item.unread_count, 0);
+
+  const renderConversation = ({ item }: { item: Conversation }) => {
+    const { cleaner, last_message: lastMessage, unread_count: unreadCount } = item;
+
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => router.push(`/cleaner/${cleaner.id}/messages`)}
+        accessibilityRole="button"
+        accessibilityLabel={`Messages with ${cleaner.name}${
+          unreadCount > 0 ? `, ${unreadCount} unread` : ''
+        }`}
+      >
+        <View style={styles.avatar}>
+          <Ionicons name="person" size={iconSizes.md} color={colors.white} />
+        </View>
+        <View style={styles.rowInfo}>
+          <View style={styles.rowTop}>
+            <Text style={[styles.name, unreadCount > 0 && styles.unread]} numberOfLines={1}>
+              {cleaner.name}
+            </Text>
+            {lastMessage && (
+              <Text style={styles.time}>{formatRelativeTime(lastMessage.created_at)}</Text>
+            )}
+          </View>
+          <View style={styles.rowBottom}>
+            <Text
+              style={[styles.preview, unreadCount > 0 && styles.unread]}
+              numberOfLines={1}
+            >
+              {lastMessage
+                ? `${lastMessage.direction === 'outbound' ? 'You: ' : ''}${lastMessage.message}`
+                : 'No messages yet'}
+            </Text>
+            {unreadCount > 0 && (
+              <View style={styles.badge}>
+                <Text style={styles.badgeText}>{unreadCount}</Text>
+              </View>
+            )}
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.headerTitle}>Messages</Text>
+      {totalUnread > 0 && <Text style={styles.countText}>{totalUnread} unread</Text>}
+    </View>
+  );
+
+  if (loading && !refreshing) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <LoadingSpinner testID="messages-loading" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <FlatList
+        data={conversations}
+        renderItem={renderConversation}
+        keyExtractor={(item) => item.cleaner.id}
+        contentContainerStyle={[
+          styles.listContent,
+          conversations.length === 0 && styles.emptyListContent,
+        ]}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={
+          <EmptyState
+            icon={<Ionicons name="chatbubbles-outline" size={64} color={colors.foggy} />}
+            title="No Conversations"
+            description="Add a cleaner to text them from here. Replies we can't match to a job land here too."
+            testID="empty-messages-state"
+          />
+        }
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.rausch}
+            colors={[colors.rausch]}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: spacing.md,
+    paddingBottom: spacing.md,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: colors.hof,
+  },
+  countText: {
+    fontSize: 14,
+    color: colors.rausch,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  emptyListContent: {
+    flexGrow: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: spacing.md,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.foggy,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTop: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  rowBottom: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  name: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: colors.hof,
+  },
+  time: {
+    fontSize: 12,
+    color: colors.foggy,
+  },
+  preview: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.foggy,
+  },
+  unread: {
+    fontWeight: '700',
+    color: colors.hof,
+  },
+  badge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.rausch,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 6,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.white,
+  },
+});
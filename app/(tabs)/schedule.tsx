@@ -19,6 +19,7 @@ import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { getAllJobs, getUpcomingJobs, JobFilters } from '@/services/jobs.service';
 import { getAllProperties } from '@/services/properties.service';
 import { AuthService } from '@/services/auth.service';
+import { JOB_STATUSES, JOB_STATUS_LABELS } from '@/utils';
 import type { CleaningJob, Property, JobStatus } from '@/types';
 
 interface JobSection {
@@ -262,7 +263,7 @@ export default function ScheduleScreen() {
           >
             <Ionicons name="filter-outline" size={18} color={colors.rausch} />
             <Text style={styles.filterButtonText}>
-              {selectedStatus === 'all' ? 'All Status' : selectedStatus}
+              {selectedStatus === 'all' ? 'All Status' : JOB_STATUS_LABELS[selectedStatus]}
             </Text>
             <Ionicons
               name={showStatusPicker ? 'chevron-up' : 'chevron-down'}
@@ -308,7 +309,7 @@ export default function ScheduleScreen() {
 
         {showStatusPicker && (
           <View style={styles.picker}>
-            {(['all', 'pending', 'confirmed', 'completed'] as const).map(status => (
+            {(['all', ...JOB_STATUSES] as const).map(status => (
               <TouchableOpacity
                 key={status}
                 onPress={() => handleStatusSelect(status)}
@@ -320,7 +321,7 @@ export default function ScheduleScreen() {
                     selectedStatus === status && styles.pickerItemTextSelected,
                   ]}
                 >
-                  {status === 'all' ? 'All Status' : status.charAt(0).toUpperCase() + status.slice(1)}
+                  {status === 'all' ? 'All Status' : JOB_STATUS_LABELS[status]}
                 </Text>
               </TouchableOpacity>
             ))}
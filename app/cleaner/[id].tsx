@@ -15,16 +15,23 @@ import { Ionicons } from '@expo/vector-icons';
 import { Button } from '@/components/Button';
 import { Card } from '@/components/Card';
 import { StatusBadge } from '@/components/StatusBadge';
+import { ReliabilityBadge } from '@/components/ReliabilityBadge';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { EmptyState } from '@/components/EmptyState';
 
 import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
 import type { CleanerWithStats, CleaningJob } from '@/types';
-import { formatDate, formatCurrency, formatPhone } from '@/utils';
-import { getCleanerWithStats } from '@/services/cleaners.service';
-import { getAllJobs, markJobAsPaid } from '@/services/jobs.service';
+import { formatDate, formatCurrency, formatPhone, formatMinutes } from '@/utils';
+import {
+  getCleanerWithStats,
+  startCleanerPayoutOnboarding,
+  payCleanerJobs,
+} from '@/services/cleaners.service';
+import { getAllJobs } from '@/services/jobs.service';
 import { useAuthStore } from '@/stores/authStore';
 
+const formatRate = (rate: number | null) => (rate !== null ? `${Math.round(rate * 100)}%` : '—');
+
 export default function CleanerDetailScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -34,6 +41,7 @@ export default function CleanerDetailScreen() {
   const [recentJobs, setRecentJobs] = useState<CleaningJob[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [payoutLoading, setPayoutLoading] = useState(false);
 
   useEffect(() => {
     if (id) {
@@ -85,40 +93,56 @@ export default function CleanerDetailScreen() {
     }
   };
 
+  // Texts go out from the app's number so replies land in the inbox
   const handleText = () => {
-    if (cleaner?.phone) {
-      const smsUrl = `sms:${cleaner.phone}`;
-      Linking.canOpenURL(smsUrl).then((supported) => {
-        if (supported) {
-          Linking.openURL(smsUrl);
-        } else {
-          Alert.alert('Error', 'Unable to send text messages on this device');
-        }
-      });
-    }
+    router.push(`/cleaner/${id}/messages`);
   };
 
   const handleEdit = () => {
     router.push(`/cleaner/edit/${id}`);
   };
 
-  const handleMarkJobAsPaid = async (jobId: string) => {
+  const handleSetUpPayouts = async () => {
+    if (!id) return;
+
+    setPayoutLoading(true);
+    const { data, error } = await startCleanerPayoutOnboarding(id);
+    setPayoutLoading(false);
+
+    if (error || !data) {
+      Alert.alert('Error', error?.message || 'Unable to start payout setup');
+      return;
+    }
+
+    Linking.openURL(data.url);
+  };
+
+  const handlePayViaStripe = () => {
+    if (!id || !cleaner) return;
+
     Alert.alert(
-      'Mark as Paid',
-      'Are you sure you want to mark this job as paid?',
+      'Pay via Stripe',
+      `Send ${cleaner.name} one transfer for all unpaid completed jobs?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Mark Paid',
+          text: 'Pay',
           onPress: async () => {
-            const { error } = await markJobAsPaid(jobId);
+            setPayoutLoading(true);
+            const { data, error } = await payCleanerJobs(id);
+            setPayoutLoading(false);
 
-            if (error) {
-              Alert.alert('Error', error.message);
+            if (error || !data) {
+              Alert.alert('Error', error?.message || 'Unable to pay cleaner');
             } else {
-              Alert.alert('Success', 'Job marked as paid');
-              loadCleaner(); // Reload to update unpaid amount
-              loadRecentJobs(); // Reload jobs
+              Alert.alert(
+                'Success',
+                `Sent ${formatCurrency(data.amount)} for ${data.job_ids.length} job${
+                  data.job_ids.length === 1 ? '' : 's'
+                }`
+              );
+              loadCleaner();
+              loadRecentJobs();
             }
           },
         },
@@ -252,6 +276,28 @@ export default function CleanerDetailScreen() {
             )}
           </View>
 
+          {cleaner.payouts_enabled ? (
+            cleaner.unpaid_amount > 0 && (
+              <Button
+                title="Pay via Stripe"
+                onPress={handlePayViaStripe}
+                variant="primary"
+                size="medium"
+                loading={payoutLoading}
+                style={styles.paymentButton}
+              />
+            )
+          ) : (
+            <Button
+              title={cleaner.stripe_account_id ? 'Finish Payout Setup' : 'Set Up Payouts'}
+              onPress={handleSetUpPayouts}
+              variant="secondary"
+              size="medium"
+              loading={payoutLoading}
+              style={styles.paymentButton}
+            />
+          )}
+
           <Button
             title="View Payment History"
             onPress={() => router.push(`/cleaner/${id}/payments`)}
@@ -259,6 +305,68 @@ export default function CleanerDetailScreen() {
             size="medium"
             style={styles.paymentButton}
           />
+
+          <Button
+            title="Earnings Statement"
+            onPress={() => router.push(`/cleaner/${id}/statement`)}
+            variant="outline"
+            size="medium"
+            style={styles.paymentButton}
+          />
+        </Card>
+
+        {/* Reliability */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="ribbon" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Reliability</Text>
+            <ReliabilityBadge
+              reliability={cleaner.reliability}
+              size="small"
+              style={styles.reliabilityBadge}
+            />
+          </View>
+
+          <View style={styles.paymentSummary}>
+            <View style={styles.paymentRow}>
+              <Text style={styles.paymentLabel}>Avg Reply Time</Text>
+              <Text style={styles.paymentValue}>
+                {cleaner.reliability.avg_response_minutes !== null
+                  ? formatMinutes(cleaner.reliability.avg_response_minutes)
+                  : '—'}
+              </Text>
+            </View>
+
+            <View style={styles.paymentRow}>
+              <Text style={styles.paymentLabel}>Offers Accepted</Text>
+              <Text style={styles.paymentValue}>
+                {formatRate(cleaner.reliability.confirmation_rate)}
+              </Text>
+            </View>
+
+            <View style={styles.paymentRow}>
+              <Text style={styles.paymentLabel}>Offers Declined</Text>
+              <Text style={styles.paymentValue}>
+                {formatRate(cleaner.reliability.decline_rate)}
+              </Text>
+            </View>
+
+            <View style={styles.paymentRow}>
+              <Text style={styles.paymentLabel}>No-Shows</Text>
+              <Text style={styles.paymentValue}>
+                {cleaner.reliability.no_shows} of {cleaner.reliability.confirmed_jobs}
+              </Text>
+            </View>
+
+            <View style={styles.paymentRow}>
+              <Text style={styles.paymentLabel}>Finished On Time</Text>
+              <Text style={styles.paymentValue}>
+                {formatRate(cleaner.reliability.on_time_rate)}
+              </Text>
+            </View>
+          </View>
+
+          <Text style={styles.reliabilityNote}>Based on the last 12 months of jobs and texts</Text>
         </Card>
 
         {/* Assigned Properties */}
@@ -325,11 +433,12 @@ export default function CleanerDetailScreen() {
                       <TouchableOpacity
                         style={styles.payButton}
                         onPress={(e) => {
+                          // Every payment is recorded, so jobs are paid from the payments screen
                           e.stopPropagation();
-                          handleMarkJobAsPaid(job.id);
+                          router.push(`/cleaner/${id}/payments`);
                         }}
                       >
-                        <Text style={styles.payButtonText}>Mark Paid</Text>
+                        <Text style={styles.payButtonText}>Pay</Text>
                       </TouchableOpacity>
                     )}
                   </View>
@@ -467,6 +576,13 @@ const styles = StyleSheet.create({
   paymentButton: {
     marginTop: spacing.sm,
   },
+  reliabilityBadge: {
+    marginLeft: 'auto',
+  },
+  reliabilityNote: {
+    fontSize: 12,
+    color: colors.foggy,
+  },
   propertiesList: {
     marginBottom: spacing.sm,
   },
@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+
+import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
+import type { Cleaner, SmsLog } from '@/types';
+import { formatDate, isSmsDeliveryFailure } from '@/utils';
+import { getCleanerById } from '@/services/cleaners.service';
+import {
+  getConversation,
+  markConversationRead,
+  sendMessage,
+  retrySms,
+} from '@/services/messages.service';
+
+export default function CleanerMessagesScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const scrollRef = useRef<ScrollView>(null);
+
+  const [cleaner, setCleaner] = useState<Cleaner | null>(null);
+  const [messages, setMessages] = useState<SmsLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (id) {
+      loadConversation();
+    }
+  }, [id]);
+
+  const loadConversation = async () => {
+    if (!id) return;
+
+    setError(null);
+
+    const { data: cleanerData, error: cleanerError } = await getCleanerById(id);
+
+    if (cleanerError || !cleanerData) {
+      setError(cleanerError?.message || 'Cleaner not found');
+      setLoading(false);
+      return;
+    }
+
+    setCleaner(cleanerData);
+
+    const { data, error: fetchError } = await getConversation(cleanerData);
+
+    if (fetchError) {
+      setError(fetchError.message);
+    } else {
+      setMessages(data || []);
+
+      // Opening the conversation counts as reading it
+      if ((data || []).some((log) => log.direction === 'inbound' && !log.read_at)) {
+        markConversationRead(cleanerData);
+      }
+    }
+
+    setLoading(false);
+  };
+
+  const handleSend = async () => {
+    if (!id || !draft.trim()) return;
+
+    setSending(true);
+
+    const { error: sendError } = await sendMessage(id, draft);
+
+    setSending(false);
+
+    if (sendError) {
+      Alert.alert('Error', sendError.message);
+    } else {
+      setDraft('');
+    }
+
+    // Failed sends are logged too, so reload either way
+    loadConversation();
+  };
+
+  const handleRetry = async (log: SmsLog) => {
+    setRetryingId(log.id);
+
+    const { error: retryError } = await retrySms(log.id);
+
+    setRetryingId(null);
+
+    if (retryError) {
+      Alert.alert('Error', retryError.message);
+    }
+
+    loadConversation();
+  };
+
+  const renderMessage = (log: SmsLog) => {
+    const outbound = log.direction === 'outbound';
+    const failed = outbound && isSmsDeliveryFailure(log.status);
+    const retried = messages.some((other) => other.retry_of === log.id);
+
+    return (
+      <TouchableOpacity
+        key={log.id}
+        disabled={!log.cleaning_job_id}
+        onPress={() => router.push(`/job/${log.cleaning_job_id}`)}
+        style={[
+          styles.message,
+          outbound ? styles.outbound : styles.inbound,
+          failed && styles.failed,
+        ]}
+      >
+        <Text style={[styles.messageText, outbound && !failed && styles.messageTextOutbound]}>
+          {log.message}
+        </Text>
+        <Text style={[styles.messageTime, outbound && !failed && styles.messageTimeOutbound]}>
+          {formatDate(log.created_at, 'MMM d, h:mm a')}
+          {log.cleaning_job_id ? ' · View job' : ''}
+        </Text>
+        {failed && (
+          <Text style={styles.failedText}>
+            Not delivered{log.error_message ? `: ${log.error_message}` : ''}
+          </Text>
+        )}
+        {failed && !retried && !cleaner?.sms_opt_out && (
+          <TouchableOpacity
+            onPress={() => handleRetry(log)}
+            disabled={retryingId !== null}
+            style={styles.retryButton}
+          >
+            <Text style={styles.retryText}>
+              {retryingId === log.id ? 'Sending...' : 'Retry'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.keyboardAvoid}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {cleaner?.name || 'Messages'}
+          </Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {loading ? (
+          <LoadingSpinner />
+        ) : error || !cleaner ? (
+          <EmptyState
+            title="Conversation Unavailable"
+            description={error || 'Unable to load this conversation'}
+            actionLabel="Try Again"
+            onAction={loadConversation}
+          />
+        ) : (
+          <>
+            <ScrollView
+              ref={scrollRef}
+              style={styles.scrollView}
+              contentContainerStyle={styles.messages}
+              onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: false })}
+            >
+              {messages.length === 0 ? (
+                <EmptyState
+                  icon={<Ionicons name="chatbubbles-outline" size={64} color={colors.foggy} />}
+                  title="No Messages Yet"
+                  description={`Texts to and from ${cleaner.name} will show up here.`}
+                />
+              ) : (
+                messages.map(renderMessage)
+              )}
+            </ScrollView>
+
+            {cleaner.sms_opt_out ? (
+              <Text style={styles.optOutText}>
+                {cleaner.name} has opted out of text messages.
+              </Text>
+            ) : (
+              <View style={styles.composer}>
+                <TextInput
+                  style={styles.composerInput}
+                  value={draft}
+                  onChangeText={setDraft}
+                  placeholder={`Text ${cleaner.name}`}
+                  placeholderTextColor={colors.foggy}
+                  multiline
+                  editable={!sending}
+                />
+                <TouchableOpacity
+                  onPress={handleSend}
+                  disabled={sending || !draft.trim()}
+                  style={styles.sendButton}
+                  accessibilityLabel="Send message"
+                >
+                  <Ionicons
+                    name={sending ? 'ellipsis-horizontal' : 'send'}
+                    size={iconSizes.md}
+                    color={draft.trim() && !sending ? colors.rausch : colors.foggy}
+                  />
+                </TouchableOpacity>
+              </View>
+            )}
+          </>
+        )}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.white,
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: spacing.sm,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  headerSpacer: {
+    width: iconSizes.md + spacing.sm * 2,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  messages: {
+    flexGrow: 1,
+    padding: spacing.lg,
+    gap: spacing.md,
+  },
+  message: {
+    maxWidth: '80%',
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+  },
+  outbound: {
+    alignSelf: 'flex-end',
+    backgroundColor: colors.rausch,
+  },
+  inbound: {
+    alignSelf: 'flex-start',
+    backgroundColor: colors.backgroundSecondary,
+  },
+  failed: {
+    backgroundColor: colors.white,
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  messageText: {
+    fontSize: 15,
+    color: colors.hof,
+    marginBottom: spacing.xs,
+    lineHeight: 20,
+  },
+  messageTextOutbound: {
+    color: colors.white,
+  },
+  messageTime: {
+    fontSize: 11,
+    color: colors.foggy,
+  },
+  messageTimeOutbound: {
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  failedText: {
+    fontSize: 12,
+    color: colors.error,
+    marginTop: spacing.xs,
+  },
+  retryButton: {
+    alignSelf: 'flex-start',
+    marginTop: spacing.xs,
+  },
+  retryText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.rausch,
+  },
+  optOutText: {
+    fontSize: 13,
+    color: colors.foggy,
+    textAlign: 'center',
+    padding: spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    gap: spacing.sm,
+  },
+  composerInput: {
+    flex: 1,
+    maxHeight: 120,
+    fontSize: 15,
+    color: colors.hof,
+    backgroundColor: colors.backgroundSecondary,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  sendButton: {
+    padding: spacing.sm,
+  },
+});
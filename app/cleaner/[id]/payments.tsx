@@ -0,0 +1,531 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Button } from '@/components/Button';
+import { Card } from '@/components/Card';
+import { Input } from '@/components/Input';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+
+import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
+import type {
+  Cleaner,
+  CleaningJob,
+  CleanerPayment,
+  PayPeriod,
+  PayPeriodFrequency,
+  SettlementMethod,
+} from '@/types';
+import {
+  formatDate,
+  formatCurrency,
+  formatDateRange,
+  groupJobsByPayPeriod,
+  PAY_PERIOD_FREQUENCY_LABELS,
+} from '@/utils';
+import { getCleanerById } from '@/services/cleaners.service';
+import {
+  getUnpaidJobs,
+  getCleanerPayments,
+  settleCleanerJobs,
+} from '@/services/payments.service';
+import { useAuthStore } from '@/stores/authStore';
+
+const SETTLEMENT_METHOD_LABELS: Record<SettlementMethod, string> = {
+  venmo: 'Venmo',
+  zelle: 'Zelle',
+  check: 'Check',
+  cash: 'Cash',
+  stripe: 'Stripe',
+  other: 'Other',
+};
+
+// Stripe payouts are made from the cleaner screen, not recorded by hand
+const MANUAL_METHODS: SettlementMethod[] = ['venmo', 'zelle', 'check', 'cash'];
+
+export default function CleanerPaymentsScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const user = useAuthStore((state) => state.user);
+
+  const [cleaner, setCleaner] = useState<Cleaner | null>(null);
+  const [unpaidJobs, setUnpaidJobs] = useState<CleaningJob[]>([]);
+  const [payments, setPayments] = useState<CleanerPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [frequency, setFrequency] = useState<PayPeriodFrequency>('weekly');
+  const [settlingPeriod, setSettlingPeriod] = useState<string | null>(null);
+  const [method, setMethod] = useState<SettlementMethod>('venmo');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (id) {
+      loadPayments();
+    }
+  }, [id]);
+
+  const loadPayments = async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError(null);
+
+    const [cleanerResult, jobsResult, paymentsResult] = await Promise.all([
+      getCleanerById(id),
+      getUnpaidJobs(id),
+      getCleanerPayments(id),
+    ]);
+
+    const fetchError = cleanerResult.error || jobsResult.error || paymentsResult.error;
+
+    if (fetchError) {
+      setError(fetchError.message);
+      Alert.alert('Error', fetchError.message);
+    } else {
+      setCleaner(cleanerResult.data);
+      setUnpaidJobs(jobsResult.data || []);
+      setPayments(paymentsResult.data || []);
+    }
+
+    setLoading(false);
+  };
+
+  const openSettleForm = (period: PayPeriod) => {
+    setSettlingPeriod(period.start);
+    setMethod('venmo');
+    setReference('');
+    setNotes('');
+  };
+
+  const handleSettle = async (period: PayPeriod) => {
+    if (!user || !id) return;
+
+    setSaving(true);
+
+    const { data, error: settleError } = await settleCleanerJobs(user.id, {
+      cleaner_id: id,
+      job_ids: period.jobs.map((job) => job.id),
+      method,
+      reference,
+      notes,
+      period_start: period.start,
+      period_end: period.end,
+    });
+
+    setSaving(false);
+
+    if (settleError) {
+      Alert.alert('Error', settleError.message);
+    } else if (data) {
+      setSettlingPeriod(null);
+      Alert.alert(
+        'Payment Recorded',
+        `${formatCurrency(data.amount)} paid by ${SETTLEMENT_METHOD_LABELS[data.method]}.`
+      );
+      loadPayments();
+    }
+  };
+
+  const renderSettleForm = (period: PayPeriod) => (
+    <View style={styles.settleForm}>
+      <Text style={styles.sectionLabel}>Paid With</Text>
+      <View style={styles.chipRow}>
+        {MANUAL_METHODS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, method === option && styles.chipActive]}
+            onPress={() => setMethod(option)}
+          >
+            <Text style={[styles.chipText, method === option && styles.chipTextActive]}>
+              {SETTLEMENT_METHOD_LABELS[option]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Input
+        label={method === 'check' ? 'Check Number' : 'Reference'}
+        value={reference}
+        onChangeText={setReference}
+        placeholder={method === 'cash' ? 'Optional' : 'e.g., transaction ID'}
+      />
+      <Input
+        label="Notes"
+        value={notes}
+        onChangeText={setNotes}
+        placeholder="Optional"
+      />
+
+      <View style={styles.settleActions}>
+        <Button
+          title="Cancel"
+          onPress={() => setSettlingPeriod(null)}
+          variant="outline"
+          size="medium"
+          disabled={saving}
+          style={styles.settleActionButton}
+        />
+        <Button
+          title={`Pay ${formatCurrency(period.total)}`}
+          onPress={() => handleSettle(period)}
+          variant="primary"
+          size="medium"
+          loading={saving}
+          disabled={saving}
+          style={styles.settleActionButton}
+        />
+      </View>
+    </View>
+  );
+
+  const renderPeriod = (period: PayPeriod) => (
+    <Card key={period.start} style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Ionicons name="calendar" size={iconSizes.md} color={colors.rausch} />
+        <Text style={styles.cardTitle}>{formatDateRange(period.start, period.end)}</Text>
+        <Text style={styles.periodTotal}>{formatCurrency(period.total)}</Text>
+      </View>
+
+      {period.jobs.map((job) => (
+        <TouchableOpacity
+          key={job.id}
+          style={styles.jobRow}
+          onPress={() => router.push(`/job/${job.id}`)}
+        >
+          <View style={styles.jobInfo}>
+            <Text style={styles.jobProperty}>{job.property?.name || 'Unknown Property'}</Text>
+            <Text style={styles.jobDate}>{formatDate(job.checkout_date, 'EEE, MMM d')}</Text>
+          </View>
+          <Text style={styles.jobAmount}>{formatCurrency(job.amount_owed || 0)}</Text>
+        </TouchableOpacity>
+      ))}
+
+      <View style={styles.runningTotalRow}>
+        <Text style={styles.runningTotalLabel}>Owed through this period</Text>
+        <Text style={styles.runningTotalValue}>{formatCurrency(period.running_total)}</Text>
+      </View>
+
+      {settlingPeriod === period.start ? (
+        renderSettleForm(period)
+      ) : (
+        <Button
+          title="Settle Period"
+          onPress={() => openSettleForm(period)}
+          variant="secondary"
+          size="medium"
+          disabled={settlingPeriod !== null}
+          style={styles.settleButton}
+        />
+      )}
+    </Card>
+  );
+
+  const renderPayment = (payment: CleanerPayment) => (
+    <View key={payment.id} style={styles.paymentRow}>
+      <View style={styles.jobInfo}>
+        <Text style={styles.jobProperty}>
+          {SETTLEMENT_METHOD_LABELS[payment.method]}
+          {payment.reference ? ` · ${payment.reference}` : ''}
+        </Text>
+        <Text style={styles.jobDate}>
+          {formatDate(payment.paid_at, 'MMM d, yyyy')}
+          {payment.jobs ? ` · ${payment.jobs.length} job${payment.jobs.length === 1 ? '' : 's'}` : ''}
+          {payment.period_start && payment.period_end
+            ? ` · ${formatDateRange(payment.period_start, payment.period_end)}`
+            : ''}
+        </Text>
+        {payment.notes && <Text style={styles.jobDate}>{payment.notes}</Text>}
+      </View>
+      <View style={styles.paymentAmount}>
+        <Text style={[styles.jobAmount, payment.reversed_at && styles.reversedAmount]}>
+          {formatCurrency(payment.amount)}
+        </Text>
+        {payment.reversed_at && <Text style={styles.reversedText}>Reversed</Text>}
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !cleaner) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+        </View>
+        <EmptyState
+          title="Cleaner Not Found"
+          description={error || 'Unable to load payments'}
+          actionLabel="Go Back"
+          onAction={() => router.back()}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  const periods = groupJobsByPayPeriod(unpaidJobs, frequency);
+  const totalOwed = periods.length > 0 ? periods[periods.length - 1].running_total : 0;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <ScrollView style={styles.scrollView}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Payments</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={styles.summarySection}>
+          <Text style={styles.cleanerName}>{cleaner.name}</Text>
+          <Text style={styles.totalOwed}>{formatCurrency(totalOwed)}</Text>
+          <Text style={styles.subText}>
+            Owed for {unpaidJobs.length} completed job{unpaidJobs.length === 1 ? '' : 's'}
+          </Text>
+        </View>
+
+        {/* Pay period frequency */}
+        <View style={styles.frequencyRow}>
+          {(Object.keys(PAY_PERIOD_FREQUENCY_LABELS) as PayPeriodFrequency[]).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, frequency === option && styles.chipActive]}
+              onPress={() => {
+                setFrequency(option);
+                setSettlingPeriod(null);
+              }}
+            >
+              <Text style={[styles.chipText, frequency === option && styles.chipTextActive]}>
+                {PAY_PERIOD_FREQUENCY_LABELS[option]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {periods.length === 0 ? (
+          <EmptyState
+            icon={<Ionicons name="checkmark-circle-outline" size={64} color={colors.foggy} />}
+            title="All Paid Up"
+            description={`${cleaner.name} has no unpaid completed jobs.`}
+          />
+        ) : (
+          periods.map(renderPeriod)
+        )}
+
+        {/* Payment History */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="receipt" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Payment History</Text>
+          </View>
+
+          {payments.length === 0 ? (
+            <Text style={styles.subText}>No payments recorded yet</Text>
+          ) : (
+            payments.map(renderPayment)
+          )}
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+  },
+  backButton: {
+    padding: spacing.sm,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  headerSpacer: {
+    width: iconSizes.md + spacing.sm * 2,
+  },
+  summarySection: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.lg,
+    backgroundColor: colors.white,
+    marginBottom: spacing.md,
+  },
+  cleanerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.foggy,
+    marginBottom: spacing.xs,
+  },
+  totalOwed: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: colors.hof,
+    marginBottom: spacing.xs,
+  },
+  subText: {
+    fontSize: 14,
+    color: colors.foggy,
+  },
+  frequencyRow: {
+    flexDirection: 'row',
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginBottom: spacing.md,
+  },
+  chip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.white,
+    marginRight: spacing.sm,
+  },
+  chipActive: {
+    borderColor: colors.rausch,
+    backgroundColor: colors.rausch,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  chipTextActive: {
+    color: colors.white,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+    marginLeft: spacing.sm,
+    flex: 1,
+  },
+  periodTotal: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.hof,
+  },
+  jobRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  jobInfo: {
+    flex: 1,
+  },
+  jobProperty: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.hof,
+  },
+  jobDate: {
+    fontSize: 13,
+    color: colors.foggy,
+    marginTop: 2,
+  },
+  jobAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  runningTotalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.sm,
+  },
+  runningTotalLabel: {
+    fontSize: 13,
+    color: colors.foggy,
+  },
+  runningTotalValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.foggy,
+  },
+  settleButton: {
+    marginTop: spacing.sm,
+  },
+  settleForm: {
+    marginTop: spacing.sm,
+    paddingTop: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.hof,
+    marginBottom: spacing.sm,
+  },
+  settleActions: {
+    flexDirection: 'row',
+    marginTop: spacing.sm,
+  },
+  settleActionButton: {
+    flex: 1,
+    marginHorizontal: spacing.xs,
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  paymentAmount: {
+    alignItems: 'flex-end',
+  },
+  reversedAmount: {
+    textDecorationLine: 'line-through',
+    color: colors.foggy,
+  },
+  reversedText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.error,
+    marginTop: 2,
+  },
+});
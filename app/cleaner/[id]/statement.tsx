@@ -0,0 +1,491 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Linking,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  format as dateFnsFormat,
+  startOfMonth,
+  endOfMonth,
+  startOfYear,
+  endOfYear,
+  subMonths,
+  subYears,
+  parseISO,
+  isValid,
+} from 'date-fns';
+
+import { Button } from '@/components/Button';
+import { Card } from '@/components/Card';
+import { Input } from '@/components/Input';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+
+import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
+import type { CleanerStatement, StatementFormat } from '@/types';
+import { formatDate, formatCurrency, formatDateRange } from '@/utils';
+import { getCleanerStatement, exportCleanerStatement } from '@/services/statements.service';
+
+type RangePreset = 'this_month' | 'last_month' | 'this_year' | 'last_year';
+
+const RANGE_PRESET_LABELS: Record<RangePreset, string> = {
+  this_month: 'This Month',
+  last_month: 'Last Month',
+  this_year: 'This Year',
+  last_year: 'Last Year',
+};
+
+const toDateString = (date: Date) => dateFnsFormat(date, 'yyyy-MM-dd');
+
+function getPresetRange(preset: RangePreset): { start: string; end: string } {
+  const today = new Date();
+
+  switch (preset) {
+    case 'this_month':
+      return { start: toDateString(startOfMonth(today)), end: toDateString(endOfMonth(today)) };
+    case 'last_month': {
+      const lastMonth = subMonths(today, 1);
+      return {
+        start: toDateString(startOfMonth(lastMonth)),
+        end: toDateString(endOfMonth(lastMonth)),
+      };
+    }
+    case 'this_year':
+      return { start: toDateString(startOfYear(today)), end: toDateString(endOfYear(today)) };
+    case 'last_year': {
+      const lastYear = subYears(today, 1);
+      return {
+        start: toDateString(startOfYear(lastYear)),
+        end: toDateString(endOfYear(lastYear)),
+      };
+    }
+  }
+}
+
+const isDateString = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+export default function CleanerStatementScreen() {
+  const router = useRouter();
+  const { id, start, end } = useLocalSearchParams<{ id: string; start?: string; end?: string }>();
+
+  const initialRange =
+    start && end && isDateString(start) && isDateString(end)
+      ? { start, end }
+      : getPresetRange('this_month');
+
+  const [range, setRange] = useState(initialRange);
+  const [startInput, setStartInput] = useState(initialRange.start);
+  const [endInput, setEndInput] = useState(initialRange.end);
+  const [rangeError, setRangeError] = useState<string | undefined>();
+  const [statement, setStatement] = useState<CleanerStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<StatementFormat | null>(null);
+
+  useEffect(() => {
+    if (id) {
+      loadStatement();
+    }
+  }, [id, range]);
+
+  const loadStatement = async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await getCleanerStatement(id, range.start, range.end);
+
+    if (fetchError) {
+      setError(fetchError.message);
+      Alert.alert('Error', fetchError.message);
+    } else {
+      setStatement(data);
+    }
+
+    setLoading(false);
+  };
+
+  const selectPreset = (preset: RangePreset) => {
+    const presetRange = getPresetRange(preset);
+    setStartInput(presetRange.start);
+    setEndInput(presetRange.end);
+    setRangeError(undefined);
+    setRange(presetRange);
+  };
+
+  const handleApplyRange = () => {
+    if (!isDateString(startInput) || !isDateString(endInput)) {
+      setRangeError('Please enter dates as YYYY-MM-DD');
+      return;
+    }
+    if (startInput > endInput) {
+      setRangeError('The start date must be before the end date');
+      return;
+    }
+
+    setRangeError(undefined);
+    setRange({ start: startInput, end: endInput });
+  };
+
+  const handleExport = async (format: StatementFormat) => {
+    if (!id) return;
+
+    setExportingFormat(format);
+
+    const { data, error: exportError } = await exportCleanerStatement(
+      id,
+      range.start,
+      range.end,
+      format
+    );
+
+    setExportingFormat(null);
+
+    if (exportError) {
+      Alert.alert('Error', exportError.message);
+    } else if (data) {
+      await Linking.openURL(data.url);
+    }
+  };
+
+  const activePreset = (Object.keys(RANGE_PRESET_LABELS) as RangePreset[]).find((preset) => {
+    const presetRange = getPresetRange(preset);
+    return presetRange.start === range.start && presetRange.end === range.end;
+  });
+
+  if (loading && !statement) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  if (error && !statement) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+        </View>
+        <EmptyState
+          title="Statement Unavailable"
+          description={error}
+          actionLabel="Go Back"
+          onAction={() => router.back()}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <ScrollView style={styles.scrollView}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Earnings Statement</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={styles.summarySection}>
+          <Text style={styles.cleanerName}>{statement?.cleaner_name}</Text>
+          <Text style={styles.subText}>{formatDateRange(range.start, range.end)}</Text>
+        </View>
+
+        {/* Date range */}
+        <Card style={styles.card}>
+          <View style={styles.presetRow}>
+            {(Object.keys(RANGE_PRESET_LABELS) as RangePreset[]).map((preset) => (
+              <TouchableOpacity
+                key={preset}
+                style={[styles.chip, activePreset === preset && styles.chipActive]}
+                onPress={() => selectPreset(preset)}
+              >
+                <Text style={[styles.chipText, activePreset === preset && styles.chipTextActive]}>
+                  {RANGE_PRESET_LABELS[preset]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.dateRow}>
+            <View style={styles.dateInput}>
+              <Input
+                label="From"
+                value={startInput}
+                onChangeText={setStartInput}
+                placeholder="YYYY-MM-DD"
+              />
+            </View>
+            <View style={styles.dateInput}>
+              <Input
+                label="To"
+                value={endInput}
+                onChangeText={setEndInput}
+                placeholder="YYYY-MM-DD"
+              />
+            </View>
+          </View>
+          {rangeError && <Text style={styles.errorText}>{rangeError}</Text>}
+
+          <Button
+            title="Apply Dates"
+            onPress={handleApplyRange}
+            variant="outline"
+            size="medium"
+            loading={loading}
+          />
+        </Card>
+
+        {statement && (
+          <>
+            {/* Totals */}
+            <Card style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Ionicons name="wallet" size={iconSizes.md} color={colors.rausch} />
+                <Text style={styles.cardTitle}>Totals</Text>
+              </View>
+
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Jobs</Text>
+                <Text style={styles.totalValue}>{statement.summary.total_jobs}</Text>
+              </View>
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Paid</Text>
+                <Text style={styles.totalValue}>
+                  {formatCurrency(statement.summary.total_paid)}
+                </Text>
+              </View>
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Unpaid</Text>
+                <Text style={styles.totalValue}>
+                  {formatCurrency(statement.summary.total_unpaid)}
+                </Text>
+              </View>
+              {statement.summary.last_payment_date && (
+                <View style={styles.totalRow}>
+                  <Text style={styles.totalLabel}>Last Paid</Text>
+                  <Text style={styles.totalValue}>
+                    {formatDate(statement.summary.last_payment_date, 'MMM d, yyyy')}
+                  </Text>
+                </View>
+              )}
+
+              <View style={styles.exportRow}>
+                <Button
+                  title="Export CSV"
+                  onPress={() => handleExport('csv')}
+                  variant="secondary"
+                  size="medium"
+                  loading={exportingFormat === 'csv'}
+                  disabled={exportingFormat !== null}
+                  style={styles.exportButton}
+                />
+                <Button
+                  title="Export PDF"
+                  onPress={() => handleExport('pdf')}
+                  variant="secondary"
+                  size="medium"
+                  loading={exportingFormat === 'pdf'}
+                  disabled={exportingFormat !== null}
+                  style={styles.exportButton}
+                />
+              </View>
+            </Card>
+
+            {/* Jobs */}
+            <Card style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Ionicons name="list" size={iconSizes.md} color={colors.rausch} />
+                <Text style={styles.cardTitle}>Jobs</Text>
+              </View>
+
+              {statement.lines.length === 0 ? (
+                <Text style={styles.subText}>No completed jobs in this period</Text>
+              ) : (
+                statement.lines.map((line) => (
+                  <TouchableOpacity
+                    key={line.job_id}
+                    style={styles.jobRow}
+                    onPress={() => router.push(`/job/${line.job_id}`)}
+                  >
+                    <View style={styles.jobInfo}>
+                      <Text style={styles.jobProperty}>{line.property_name}</Text>
+                      <Text style={styles.jobDate}>
+                        {formatDate(line.checkout_date, 'MMM d, yyyy')}
+                        {line.payment_date
+                          ? ` · Paid ${formatDate(line.payment_date, 'MMM d')}`
+                          : ' · Unpaid'}
+                      </Text>
+                    </View>
+                    <Text style={styles.jobAmount}>{formatCurrency(line.amount)}</Text>
+                  </TouchableOpacity>
+                ))
+              )}
+            </Card>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+  },
+  backButton: {
+    padding: spacing.sm,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  headerSpacer: {
+    width: iconSizes.md + spacing.sm * 2,
+  },
+  summarySection: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.lg,
+    backgroundColor: colors.white,
+    marginBottom: spacing.md,
+  },
+  cleanerName: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.hof,
+    marginBottom: spacing.xs,
+  },
+  subText: {
+    fontSize: 14,
+    color: colors.foggy,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+    marginLeft: spacing.sm,
+    flex: 1,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: spacing.md,
+  },
+  chip: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: borderRadius.md,
+    marginRight: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  chipActive: {
+    borderColor: colors.rausch,
+    backgroundColor: colors.rausch,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  chipTextActive: {
+    color: colors.white,
+  },
+  dateRow: {
+    flexDirection: 'row',
+  },
+  dateInput: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.error,
+    marginBottom: spacing.sm,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  totalLabel: {
+    fontSize: 15,
+    color: colors.foggy,
+  },
+  totalValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    marginTop: spacing.md,
+  },
+  exportButton: {
+    flex: 1,
+    marginHorizontal: spacing.xs,
+  },
+  jobRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  jobInfo: {
+    flex: 1,
+  },
+  jobProperty: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.hof,
+  },
+  jobDate: {
+    fontSize: 13,
+    color: colors.foggy,
+    marginTop: 2,
+  },
+  jobAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+});
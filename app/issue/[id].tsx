@@ -0,0 +1,469 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Image,
+  Modal,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Button } from '@/components/Button';
+import { Card } from '@/components/Card';
+import { SeverityBadge } from '@/components/SeverityBadge';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { Input } from '@/components/Input';
+
+import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
+import type {
+  MaintenanceIssueWithDetails,
+  MaintenanceIssuePhotoWithUrl,
+  UpdateMaintenanceIssueInput,
+} from '@/types';
+import {
+  formatDate,
+  formatCurrency,
+  MAINTENANCE_SEVERITIES,
+  MAINTENANCE_STATUSES,
+  MAINTENANCE_SEVERITY_LABELS,
+  MAINTENANCE_STATUS_LABELS,
+} from '@/utils';
+import { getMaintenanceIssue, updateMaintenanceIssue } from '@/services/maintenance.service';
+
+export default function MaintenanceIssueScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [issue, setIssue] = useState<MaintenanceIssueWithDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [cost, setCost] = useState('');
+  const [costError, setCostError] = useState<string | undefined>();
+  const [viewingPhoto, setViewingPhoto] = useState<MaintenanceIssuePhotoWithUrl | null>(null);
+
+  useEffect(() => {
+    if (id) {
+      loadIssue();
+    }
+  }, [id]);
+
+  const loadIssue = async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await getMaintenanceIssue(id);
+
+    if (fetchError) {
+      setError(fetchError.message);
+    } else if (data) {
+      setIssue(data);
+      setCost(data.cost !== null ? String(data.cost) : '');
+    }
+
+    setLoading(false);
+  };
+
+  const handleUpdate = async (changes: UpdateMaintenanceIssueInput) => {
+    if (!id) return;
+
+    setSaving(true);
+
+    const { error: updateError } = await updateMaintenanceIssue(id, changes);
+
+    setSaving(false);
+
+    if (updateError) {
+      Alert.alert('Error', updateError.message);
+    } else {
+      loadIssue();
+    }
+  };
+
+  const handleSaveCost = () => {
+    const trimmed = cost.trim();
+    const amount = Number(trimmed);
+
+    if (trimmed && (isNaN(amount) || amount < 0)) {
+      setCostError('Please enter an amount like 85.50');
+      return;
+    }
+
+    setCostError(undefined);
+    handleUpdate({ cost: trimmed ? amount : null });
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !issue) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+        </View>
+        <EmptyState
+          title="Issue Not Found"
+          description={error || 'Unable to load this issue'}
+          actionLabel="Go Back"
+          onAction={() => router.back()}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  const timezone = issue.property.timezone;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <ScrollView style={styles.scrollView}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Maintenance Issue</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {/* Issue Info */}
+        <View style={styles.section}>
+          <View style={styles.titleRow}>
+            <SeverityBadge severity={issue.severity} />
+            <Text style={styles.statusText}>{MAINTENANCE_STATUS_LABELS[issue.status]}</Text>
+          </View>
+          <Text style={styles.description}>{issue.description}</Text>
+          <Text style={styles.subValue}>
+            Reported {formatDate(issue.created_at, 'MMM d, h:mm a', timezone)}
+            {issue.cleaner ? ` by ${issue.cleaner.name}` : ''}
+          </Text>
+          {issue.resolved_at && (
+            <Text style={styles.subValue}>
+              {MAINTENANCE_STATUS_LABELS[issue.status]}{' '}
+              {formatDate(issue.resolved_at, 'MMM d, h:mm a', timezone)}
+            </Text>
+          )}
+        </View>
+
+        {/* Where */}
+        <Card style={styles.card}>
+          <TouchableOpacity
+            style={styles.linkRow}
+            onPress={() => router.push(`/property/${issue.property_id}`)}
+          >
+            <Ionicons name="home" size={iconSizes.sm} color={colors.rausch} />
+            <Text style={styles.linkText}>{issue.property.name}</Text>
+            <Ionicons name="chevron-forward" size={iconSizes.sm} color={colors.foggy} />
+          </TouchableOpacity>
+          {issue.cleaning_job_id && (
+            <TouchableOpacity
+              style={styles.linkRow}
+              onPress={() => router.push(`/job/${issue.cleaning_job_id}`)}
+            >
+              <Ionicons name="sparkles" size={iconSizes.sm} color={colors.rausch} />
+              <Text style={styles.linkText}>Found during a cleaning</Text>
+              <Ionicons name="chevron-forward" size={iconSizes.sm} color={colors.foggy} />
+            </TouchableOpacity>
+          )}
+        </Card>
+
+        {/* Status */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="flag" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Status</Text>
+          </View>
+
+          <View style={styles.chipRow}>
+            {MAINTENANCE_STATUSES.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, issue.status === option && styles.chipActive]}
+                onPress={() => handleUpdate({ status: option })}
+                disabled={saving || issue.status === option}
+              >
+                <Text style={[styles.chipText, issue.status === option && styles.chipTextActive]}>
+                  {MAINTENANCE_STATUS_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Severity</Text>
+          <View style={styles.chipRow}>
+            {MAINTENANCE_SEVERITIES.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, issue.severity === option && styles.chipActive]}
+                onPress={() => handleUpdate({ severity: option })}
+                disabled={saving || issue.severity === option}
+              >
+                <Text
+                  style={[styles.chipText, issue.severity === option && styles.chipTextActive]}
+                >
+                  {MAINTENANCE_SEVERITY_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </Card>
+
+        {/* Cost */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="cash" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Cost</Text>
+            {issue.cost !== null && (
+              <Text style={styles.costValue}>{formatCurrency(issue.cost)}</Text>
+            )}
+          </View>
+
+          <Input
+            label="Repair Cost"
+            value={cost}
+            onChangeText={(value) => {
+              setCost(value);
+              setCostError(undefined);
+            }}
+            placeholder="e.g., 85.00"
+            error={costError}
+            keyboardType="decimal-pad"
+          />
+          <Button
+            title="Save Cost"
+            onPress={handleSaveCost}
+            loading={saving}
+            disabled={saving}
+            variant="outline"
+            size="medium"
+          />
+        </Card>
+
+        {/* Photos */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="images" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Photos</Text>
+          </View>
+
+          {issue.photos.length > 0 ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {issue.photos.map((photo) => (
+                <TouchableOpacity
+                  key={photo.id}
+                  onPress={() => setViewingPhoto(photo)}
+                  disabled={!photo.url}
+                  style={styles.photoThumb}
+                  accessibilityLabel={`Photo from ${formatDate(photo.created_at, 'MMM d, h:mm a', timezone)}`}
+                >
+                  {photo.url ? (
+                    <Image source={{ uri: photo.url }} style={styles.photoImage} />
+                  ) : (
+                    <Ionicons name="image-outline" size={iconSizes.md} color={colors.foggy} />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          ) : (
+            <Text style={styles.emptyText}>No photos were sent with this issue.</Text>
+          )}
+        </Card>
+      </ScrollView>
+
+      <Modal
+        visible={viewingPhoto !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setViewingPhoto(null)}
+      >
+        <View style={styles.photoViewer}>
+          <TouchableOpacity
+            onPress={() => setViewingPhoto(null)}
+            style={styles.photoViewerClose}
+            accessibilityLabel="Close photo"
+          >
+            <Ionicons name="close" size={iconSizes.lg} color={colors.white} />
+          </TouchableOpacity>
+          {viewingPhoto?.url && (
+            <Image
+              source={{ uri: viewingPhoto.url }}
+              style={styles.photoViewerImage}
+              resizeMode="contain"
+            />
+          )}
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+  },
+  backButton: {
+    padding: spacing.sm,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  headerSpacer: {
+    width: iconSizes.md + spacing.sm * 2,
+  },
+  section: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.lg,
+    backgroundColor: colors.white,
+    marginBottom: spacing.md,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.foggy,
+  },
+  description: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.hof,
+    lineHeight: 28,
+  },
+  subValue: {
+    fontSize: 14,
+    color: colors.foggy,
+    marginTop: spacing.xs,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+    marginLeft: spacing.sm,
+    flex: 1,
+  },
+  costValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+  },
+  linkText: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.hof,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.hof,
+    marginBottom: spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: borderRadius.full,
+  },
+  chipActive: {
+    borderColor: colors.rausch,
+    backgroundColor: colors.rausch,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  chipTextActive: {
+    color: colors.white,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.foggy,
+    fontStyle: 'italic',
+  },
+  photoThumb: {
+    width: 96,
+    height: 96,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.backgroundSecondary,
+    marginRight: spacing.sm,
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photoImage: {
+    width: '100%',
+    height: '100%',
+  },
+  photoViewer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photoViewerClose: {
+    position: 'absolute',
+    top: spacing.xxl,
+    right: spacing.lg,
+    padding: spacing.sm,
+    zIndex: 1,
+  },
+  photoViewerImage: {
+    width: '100%',
+    height: '80%',
+  },
+});
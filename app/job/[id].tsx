@@ -7,6 +7,8 @@ import {
   TouchableOpacity,
   Alert,
   Linking,
+  Image,
+  Modal,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -21,14 +23,62 @@ import { ConfirmDialog } from '@/components/ConfirmDialog';
 import { Input } from '@/components/Input';
 
 import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
-import type { JobWithDetails, JobStatus } from '@/types';
-import { formatDate, formatCurrency, formatPhone, formatRelativeTime } from '@/utils';
+import type {
+  JobWithDetails,
+  JobStatus,
+  JobPriceBreakdown,
+  JobChecklistItem,
+  JobPhotoWithUrl,
+  SupplyExpense,
+  SmsLog,
+} from '@/types';
+import {
+  formatDate,
+  formatCurrency,
+  formatPhone,
+  formatRelativeTime,
+  getCleaningWindow,
+  getCleaningWindowMinutes,
+  formatCleaningWindow,
+  formatTimeOfDay,
+  parseTimeOfDay,
+  canTransitionJobStatus,
+  CHECKLIST_CATEGORIES,
+  CHECKLIST_CATEGORY_LABELS,
+  getChecklistProgress,
+  isSmsDeliveryFailure,
+} from '@/utils';
 import {
   getJobWithDetails,
   updateJob,
-  markJobAsPaid,
   deleteJob,
+  getJobPrice,
 } from '@/services/jobs.service';
+import { copyChecklistToJob, setChecklistItemCompleted } from '@/services/checklists.service';
+import { addSupplyExpense, deleteSupplyExpense } from '@/services/inventory.service';
+import { retrySms } from '@/services/messages.service';
+
+/**
+ * Describe how a job's amount was worked out, e.g. "3 hrs × $25.00 + $20.00 same-day"
+ */
+function describePrice(price: JobPriceBreakdown): string {
+  const parts = [
+    price.pay_type === 'flat'
+      ? `${formatCurrency(price.base)} flat`
+      : `${price.hours} hrs × ${formatCurrency(price.hourly_rate || 0)}`,
+  ];
+
+  if (price.same_day_premium) parts.push(`${formatCurrency(price.same_day_premium)} same-day`);
+  if (price.laundry_fee) parts.push(`${formatCurrency(price.laundry_fee)} laundry`);
+
+  const description = parts.join(' + ');
+  const labor = price.holiday
+    ? `(${description}) × ${price.holiday_multiplier} for ${price.holiday}`
+    : description;
+  return price.reimbursements
+    ? `${labor} + ${formatCurrency(price.reimbursements)} supplies`
+    : labor;
+}
 
 export default function JobDetailScreen() {
   const router = useRouter();
@@ -41,6 +91,31 @@ export default function JobDetailScreen() {
   const [notes, setNotes] = useState('');
   const [editingNotes, setEditingNotes] = useState(false);
   const [savingNotes, setSavingNotes] = useState(false);
+  const [editingTimes, setEditingTimes] = useState(false);
+  const [savingTimes, setSavingTimes] = useState(false);
+  const [checkoutTime, setCheckoutTime] = useState('');
+  const [checkinTime, setCheckinTime] = useState('');
+  const [timeErrors, setTimeErrors] = useState<{ checkout?: string; checkin?: string }>({});
+  const [price, setPrice] = useState<JobPriceBreakdown | null>(null);
+  const [editingHours, setEditingHours] = useState(false);
+  const [savingHours, setSavingHours] = useState(false);
+  const [actualHours, setActualHours] = useState('');
+  const [hoursError, setHoursError] = useState<string | undefined>();
+  const [editingAmount, setEditingAmount] = useState(false);
+  const [savingAmount, setSavingAmount] = useState(false);
+  const [amountOwed, setAmountOwed] = useState('');
+  const [amountError, setAmountError] = useState<string | undefined>();
+  const [togglingItemId, setTogglingItemId] = useState<string | null>(null);
+  const [addingChecklist, setAddingChecklist] = useState(false);
+  const [viewingPhoto, setViewingPhoto] = useState<JobPhotoWithUrl | null>(null);
+  const [addingExpense, setAddingExpense] = useState(false);
+  const [savingExpense, setSavingExpense] = useState(false);
+  const [expenseDescription, setExpenseDescription] = useState('');
+  const [expenseAmount, setExpenseAmount] = useState('');
+  const [expenseErrors, setExpenseErrors] = useState<{ description?: string; amount?: string }>(
+    {}
+  );
+  const [retryingSmsId, setRetryingSmsId] = useState<string | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -51,6 +126,8 @@ export default function JobDetailScreen() {
   useEffect(() => {
     if (job) {
       setNotes(job.notes || '');
+      setCheckoutTime(job.checkout_time ? formatTimeOfDay(job.checkout_time) : '');
+      setCheckinTime(job.checkin_time ? formatTimeOfDay(job.checkin_time) : '');
     }
   }, [job]);
 
@@ -67,6 +144,9 @@ export default function JobDetailScreen() {
       Alert.alert('Error', fetchError.message);
     } else if (data) {
       setJob(data);
+
+      const { data: priceData } = await getJobPrice(data);
+      setPrice(priceData);
     }
 
     setLoading(false);
@@ -98,31 +178,6 @@ export default function JobDetailScreen() {
     }
   };
 
-  const handleMarkAsPaid = async () => {
-    if (!id) return;
-
-    Alert.alert(
-      'Mark as Paid',
-      'Are you sure you want to mark this job as paid?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Mark Paid',
-          onPress: async () => {
-            const { error } = await markJobAsPaid(id);
-
-            if (error) {
-              Alert.alert('Error', error.message);
-            } else {
-              Alert.alert('Success', 'Job marked as paid');
-              loadJob();
-            }
-          },
-        },
-      ]
-    );
-  };
-
   const handleSaveNotes = async () => {
     if (!id) return;
 
@@ -140,6 +195,151 @@ export default function JobDetailScreen() {
     }
   };
 
+  const handleSaveTimes = async () => {
+    if (!id || !job) return;
+
+    // Blank fields fall back to the property's default times
+    const checkoutOverride = checkoutTime.trim() ? parseTimeOfDay(checkoutTime) : null;
+    const checkinOverride = checkinTime.trim() ? parseTimeOfDay(checkinTime) : null;
+
+    const newErrors: { checkout?: string; checkin?: string } = {};
+    if (checkoutTime.trim() && !checkoutOverride) {
+      newErrors.checkout = 'Enter a time like 11:00 AM';
+    }
+    if (checkinTime.trim() && !checkinOverride) {
+      newErrors.checkin = 'Enter a time like 4:00 PM';
+    }
+    if (!newErrors.checkout && !newErrors.checkin) {
+      const adjustedWindow = getCleaningWindow(
+        { ...job, checkout_time: checkoutOverride, checkin_time: checkinOverride },
+        job.property
+      );
+      if (getCleaningWindowMinutes(adjustedWindow) <= 0) {
+        newErrors.checkin = 'Check-in must be after checkout';
+      }
+    }
+
+    setTimeErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setSavingTimes(true);
+
+    const { error } = await updateJob(id, {
+      checkout_time: checkoutOverride,
+      checkin_time: checkinOverride,
+    });
+
+    setSavingTimes(false);
+
+    if (error) {
+      Alert.alert('Error', error.message);
+    } else {
+      setEditingTimes(false);
+      loadJob();
+    }
+  };
+
+  const handleSaveHours = async () => {
+    if (!id) return;
+
+    // Blank clears the reported hours so the job goes back to the estimate
+    const hours = actualHours.trim() ? Number(actualHours) : null;
+    if (hours !== null && (!Number.isFinite(hours) || hours <= 0 || hours > 24)) {
+      setHoursError('Please enter between 0 and 24 hours');
+      return;
+    }
+
+    setSavingHours(true);
+
+    const { error } = await updateJob(id, { actual_hours: hours });
+
+    setSavingHours(false);
+
+    if (error) {
+      Alert.alert('Error', error.message);
+    } else {
+      setEditingHours(false);
+      loadJob();
+    }
+  };
+
+  const handleSaveAmount = async () => {
+    if (!id) return;
+
+    const amount = Number(amountOwed);
+    if (!amountOwed.trim() || !Number.isFinite(amount) || amount <= 0) {
+      setAmountError('Please enter an amount like 85.00');
+      return;
+    }
+
+    setSavingAmount(true);
+
+    const { error } = await updateJob(id, { amount_owed: Math.round(amount * 100) / 100 });
+
+    setSavingAmount(false);
+
+    if (error) {
+      Alert.alert('Error', error.message);
+    } else {
+      setEditingAmount(false);
+      loadJob();
+    }
+  };
+
+  const handleAddExpense = async () => {
+    if (!id) return;
+
+    const amount = Number(expenseAmount);
+    const newErrors: { description?: string; amount?: string } = {};
+    if (!expenseDescription.trim()) {
+      newErrors.description = 'Please describe what was bought';
+    }
+    if (!expenseAmount.trim() || !Number.isFinite(amount) || amount <= 0) {
+      newErrors.amount = 'Please enter an amount like 12.50';
+    }
+
+    setExpenseErrors(newErrors);
+    if (newErrors.description || newErrors.amount) return;
+
+    setSavingExpense(true);
+
+    const { error } = await addSupplyExpense({
+      cleaning_job_id: id,
+      description: expenseDescription,
+      amount,
+    });
+
+    setSavingExpense(false);
+
+    if (error) {
+      Alert.alert('Error', error.message);
+    } else {
+      setAddingExpense(false);
+      setExpenseDescription('');
+      setExpenseAmount('');
+      loadJob();
+    }
+  };
+
+  const handleDeleteExpense = (expense: SupplyExpense) => {
+    Alert.alert('Remove Expense', `Remove ${expense.description} from this job's payment?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          const { error } = await deleteSupplyExpense(expense);
+
+          if (error) {
+            Alert.alert('Error', error.message);
+          } else {
+            loadJob();
+          }
+        },
+      },
+    ]);
+  };
+
   const handleCancelJob = async () => {
     if (!id) return;
 
@@ -154,18 +354,99 @@ export default function JobDetailScreen() {
     }
   };
 
+  const handleCompleteJob = async () => {
+    if (!id) return;
+
+    const { error } = await updateJob(id, { status: 'completed' });
+
+    if (error) {
+      Alert.alert('Error', error.message);
+    } else {
+      loadJob();
+    }
+  };
+
+  const handleToggleChecklistItem = async (item: JobChecklistItem) => {
+    if (!job) return;
+
+    setTogglingItemId(item.id);
+
+    const { data, error } = await setChecklistItemCompleted(item.id, !item.completed_at);
+
+    setTogglingItemId(null);
+
+    if (error) {
+      Alert.alert('Error', error.message);
+    } else if (data) {
+      setJob({
+        ...job,
+        checklist: job.checklist.map((current) => (current.id === data.id ? data : current)),
+      });
+    }
+  };
+
+  const handleAddChecklist = async () => {
+    if (!job) return;
+
+    setAddingChecklist(true);
+
+    const { data, error } = await copyChecklistToJob(job.id, job.property_id);
+
+    setAddingChecklist(false);
+
+    if (error) {
+      Alert.alert('Error', error.message);
+    } else if (!data || data.length === 0) {
+      Alert.alert('No Checklist', `Add items to ${job.property.name}'s checklist first.`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Edit Checklist',
+          onPress: () => router.push(`/property/${job.property_id}/checklist`),
+        },
+      ]);
+    } else {
+      setJob({ ...job, checklist: data });
+    }
+  };
+
   const handleReassignCleaner = () => {
     router.push(`/job/${id}/reassign`);
   };
 
+  const handleRetrySms = async (log: SmsLog) => {
+    setRetryingSmsId(log.id);
+
+    const { error: retryError } = await retrySms(log.id);
+
+    setRetryingSmsId(null);
+
+    if (retryError) {
+      Alert.alert('Error', retryError.message);
+    } else {
+      Alert.alert('Sent', 'The message has been sent again');
+    }
+
+    loadJob();
+  };
+
   const getStatusColor = (status: JobStatus) => {
     switch (status) {
+      case 'unassigned':
+        return colors.unassigned;
       case 'pending':
         return colors.pending;
+      case 'offered':
+        return colors.offered;
+      case 'declined':
+        return colors.declined;
       case 'confirmed':
         return colors.confirmed;
+      case 'in_progress':
+        return colors.inProgress;
       case 'completed':
         return colors.completed;
+      case 'needs_review':
+        return colors.needsReview;
       case 'cancelled':
         return colors.cancelled;
       default:
@@ -199,6 +480,18 @@ export default function JobDetailScreen() {
     );
   }
 
+  const cleaningWindow = getCleaningWindow(job, job.property);
+  const checklistProgress = getChecklistProgress(job.checklist);
+  const checklistEditable = job.status !== 'cancelled';
+
+  // The latest text that didn't reach the cleaner and hasn't been sent again
+  const undeliveredSms = job.sms_logs.find(
+    (log) =>
+      log.direction === 'outbound' &&
+      isSmsDeliveryFailure(log.status) &&
+      !job.sms_logs.some((other) => other.retry_of === log.id)
+  );
+
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <ScrollView style={styles.scrollView}>
@@ -231,7 +524,7 @@ export default function JobDetailScreen() {
             <View style={styles.dateBox}>
               <Text style={styles.dateLabel}>Checkout</Text>
               <Text style={styles.dateValue}>{formatDate(job.checkout_date, 'MMM d')}</Text>
-              <Text style={styles.dateTime}>{formatDate(job.checkout_date, 'h:mm a')}</Text>
+              <Text style={styles.dateTime}>{formatTimeOfDay(cleaningWindow.start_time)}</Text>
               <Text style={styles.dateYear}>{formatDate(job.checkout_date, 'yyyy')}</Text>
             </View>
             {job.checkin_date && (
@@ -240,12 +533,79 @@ export default function JobDetailScreen() {
                 <View style={styles.dateBox}>
                   <Text style={styles.dateLabel}>Check-in</Text>
                   <Text style={styles.dateValue}>{formatDate(job.checkin_date, 'MMM d')}</Text>
-                  <Text style={styles.dateTime}>{formatDate(job.checkin_date, 'h:mm a')}</Text>
+                  <Text style={styles.dateTime}>
+                    {formatTimeOfDay(cleaningWindow.end_time)}
+                  </Text>
                   <Text style={styles.dateYear}>{formatDate(job.checkin_date, 'yyyy')}</Text>
                 </View>
               </>
             )}
           </View>
+
+          <View style={styles.windowRow}>
+            <View style={styles.windowInfo}>
+              <Text style={styles.windowLabel}>Cleaning Window</Text>
+              <Text style={styles.windowValue}>{formatCleaningWindow(cleaningWindow)}</Text>
+              {cleaningWindow.is_late_checkout && (
+                <Text style={styles.windowNote}>Late checkout</Text>
+              )}
+              {cleaningWindow.is_early_checkin && (
+                <Text style={styles.windowNote}>Early check-in</Text>
+              )}
+            </View>
+            {!editingTimes && (
+              <TouchableOpacity
+                onPress={() => setEditingTimes(true)}
+                style={styles.editNotesButton}
+              >
+                <Ionicons name="create-outline" size={iconSizes.sm} color={colors.rausch} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {editingTimes && (
+            <>
+              <Input
+                label="Checkout Time"
+                value={checkoutTime}
+                onChangeText={setCheckoutTime}
+                placeholder={`Default ${formatTimeOfDay(cleaningWindow.start_time)}`}
+                error={timeErrors.checkout}
+                autoCapitalize="none"
+              />
+              <Input
+                label="Check-in Time"
+                value={checkinTime}
+                onChangeText={setCheckinTime}
+                placeholder={`Default ${formatTimeOfDay(cleaningWindow.end_time)}`}
+                error={timeErrors.checkin}
+                autoCapitalize="none"
+              />
+              <View style={styles.notesActions}>
+                <Button
+                  title="Cancel"
+                  onPress={() => {
+                    setEditingTimes(false);
+                    setTimeErrors({});
+                    setCheckoutTime(job.checkout_time ? formatTimeOfDay(job.checkout_time) : '');
+                    setCheckinTime(job.checkin_time ? formatTimeOfDay(job.checkin_time) : '');
+                  }}
+                  variant="outline"
+                  size="medium"
+                  style={styles.notesButton}
+                />
+                <Button
+                  title="Save"
+                  onPress={handleSaveTimes}
+                  loading={savingTimes}
+                  disabled={savingTimes}
+                  variant="primary"
+                  size="medium"
+                  style={styles.notesButton}
+                />
+              </View>
+            </>
+          )}
         </Card>
 
         {/* Cleaner Info */}
@@ -290,14 +650,68 @@ export default function JobDetailScreen() {
           </Card>
         ) : (
           <Card style={styles.card}>
-            <Text style={styles.noCleanerText}>No cleaner assigned yet</Text>
-            <Button
-              title="Assign Cleaner"
-              onPress={handleReassignCleaner}
-              variant="primary"
-              size="medium"
-              style={styles.assignButton}
-            />
+            <Text style={styles.noCleanerText}>
+              {job.status === 'declined'
+                ? 'Every cleaner asked has declined this job'
+                : 'No cleaner assigned yet'}
+            </Text>
+            {canTransitionJobStatus(job.status, 'pending') && (
+              <Button
+                title="Assign Cleaner"
+                onPress={handleReassignCleaner}
+                variant="primary"
+                size="medium"
+                style={styles.assignButton}
+              />
+            )}
+          </Card>
+        )}
+
+        {/* Undelivered Text */}
+        {undeliveredSms && (
+          <Card style={styles.deliveryCard}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="alert-circle" size={iconSizes.md} color={colors.error} />
+              <Text style={styles.cardTitle}>Text Not Delivered</Text>
+            </View>
+
+            <Text style={styles.deliveryText}>
+              {undeliveredSms.error_message || 'The carrier could not deliver the message'}
+            </Text>
+            <Text style={styles.deliveryTime}>
+              Sent {formatRelativeTime(undeliveredSms.created_at)}: "{undeliveredSms.message}"
+            </Text>
+
+            <View style={styles.cleanerActions}>
+              <Button
+                title="Retry"
+                onPress={() => handleRetrySms(undeliveredSms)}
+                loading={retryingSmsId === undeliveredSms.id}
+                disabled={retryingSmsId !== null}
+                variant="outline"
+                size="medium"
+                style={styles.cleanerButton}
+              />
+              {job.cleaner ? (
+                <Button
+                  title="Call"
+                  onPress={handleCall}
+                  variant="secondary"
+                  size="medium"
+                  style={styles.cleanerButton}
+                  icon={<Ionicons name="call" size={iconSizes.sm} color={colors.white} />}
+                />
+              ) : null}
+              {canTransitionJobStatus(job.status, 'pending') && (
+                <Button
+                  title="Reassign"
+                  onPress={handleReassignCleaner}
+                  variant="outline"
+                  size="medium"
+                  style={styles.cleanerButton}
+                />
+              )}
+            </View>
           </Card>
         )}
 
@@ -324,7 +738,7 @@ export default function JobDetailScreen() {
                       {formatRelativeTime(job.sms_sent_at)}
                     </Text>
                     <Text style={styles.timelineDate}>
-                      {formatDate(job.sms_sent_at, 'MMM d, h:mm a')}
+                      {formatDate(job.sms_sent_at, 'MMM d, h:mm a', job.property.timezone)}
                     </Text>
                   </>
                 ) : (
@@ -348,7 +762,7 @@ export default function JobDetailScreen() {
                       {formatRelativeTime(job.confirmed_at)}
                     </Text>
                     <Text style={styles.timelineDate}>
-                      {formatDate(job.confirmed_at, 'MMM d, h:mm a')}
+                      {formatDate(job.confirmed_at, 'MMM d, h:mm a', job.property.timezone)}
                     </Text>
                   </>
                 ) : (
@@ -357,6 +771,30 @@ export default function JobDetailScreen() {
               </View>
             </View>
 
+            <View style={styles.timelineItem}>
+              <View
+                style={[
+                  styles.timelineDot,
+                  { backgroundColor: job.started_at ? colors.inProgress : colors.foggy },
+                ]}
+              />
+              <View style={styles.timelineContent}>
+                <Text style={styles.timelineLabel}>Started</Text>
+                {job.started_at ? (
+                  <>
+                    <Text style={styles.timelineValue}>
+                      {formatRelativeTime(job.started_at)}
+                    </Text>
+                    <Text style={styles.timelineDate}>
+                      {formatDate(job.started_at, 'MMM d, h:mm a', job.property.timezone)}
+                    </Text>
+                  </>
+                ) : (
+                  <Text style={styles.timelineEmpty}>Not started</Text>
+                )}
+              </View>
+            </View>
+
             <View style={styles.timelineItem}>
               <View
                 style={[
@@ -372,7 +810,7 @@ export default function JobDetailScreen() {
                       {formatRelativeTime(job.completed_at)}
                     </Text>
                     <Text style={styles.timelineDate}>
-                      {formatDate(job.completed_at, 'MMM d, h:mm a')}
+                      {formatDate(job.completed_at, 'MMM d, h:mm a', job.property.timezone)}
                     </Text>
                   </>
                 ) : (
@@ -388,6 +826,138 @@ export default function JobDetailScreen() {
           </View>
         </Card>
 
+        {/* Checklist */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="checkbox" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Checklist</Text>
+            {checklistProgress.total > 0 && (
+              <Text style={styles.checklistCount}>
+                {checklistProgress.completed}/{checklistProgress.total}
+              </Text>
+            )}
+          </View>
+
+          {job.checklist.length > 0 ? (
+            <>
+              <View style={styles.progressTrack}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    {
+                      width: `${(checklistProgress.completed / checklistProgress.total) * 100}%`,
+                    },
+                  ]}
+                />
+              </View>
+              {checklistProgress.mandatory_total > 0 && (
+                <Text style={styles.checklistNote}>
+                  {checklistProgress.mandatory_completed} of {checklistProgress.mandatory_total}{' '}
+                  required done
+                  {job.property.require_checklist_completion
+                    ? '. Required items must be done before the job can be completed.'
+                    : ''}
+                </Text>
+              )}
+
+              {CHECKLIST_CATEGORIES.map((category) => {
+                const items = job.checklist.filter((item) => item.category === category);
+                if (items.length === 0) return null;
+
+                return (
+                  <View key={category} style={styles.checklistSection}>
+                    <Text style={styles.checklistCategory}>
+                      {CHECKLIST_CATEGORY_LABELS[category]}
+                    </Text>
+                    {items.map((item) => (
+                      <TouchableOpacity
+                        key={item.id}
+                        style={styles.checklistItem}
+                        onPress={() => handleToggleChecklistItem(item)}
+                        disabled={!checklistEditable || togglingItemId !== null}
+                        accessibilityRole="checkbox"
+                        accessibilityState={{ checked: !!item.completed_at }}
+                      >
+                        <Ionicons
+                          name={item.completed_at ? 'checkbox' : 'square-outline'}
+                          size={iconSizes.sm}
+                          color={item.completed_at ? colors.success : colors.foggy}
+                        />
+                        <Text
+                          style={[
+                            styles.checklistLabel,
+                            !!item.completed_at && styles.checklistLabelDone,
+                          ]}
+                        >
+                          {job.checklist.indexOf(item) + 1}. {item.label}
+                        </Text>
+                        {item.is_mandatory && <Text style={styles.requiredTag}>Required</Text>}
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                );
+              })}
+            </>
+          ) : (
+            <>
+              <Text style={[styles.notesText, styles.noNotes]}>No checklist for this cleaning</Text>
+              {checklistEditable && job.status !== 'completed' && (
+                <Button
+                  title="Use Property Checklist"
+                  onPress={handleAddChecklist}
+                  loading={addingChecklist}
+                  disabled={addingChecklist}
+                  variant="outline"
+                  size="medium"
+                  style={styles.assignButton}
+                />
+              )}
+            </>
+          )}
+        </Card>
+
+        {/* Photos */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="images" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Photos</Text>
+            {job.photos.length > 0 && (
+              <Text style={styles.checklistCount}>{job.photos.length}</Text>
+            )}
+          </View>
+
+          {job.property.min_completion_photos > 0 && (
+            <Text style={styles.checklistNote}>
+              {Math.min(job.photos.length, job.property.min_completion_photos)} of{' '}
+              {job.property.min_completion_photos} required before the job can be completed
+            </Text>
+          )}
+
+          {job.photos.length > 0 ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {job.photos.map((photo) => (
+                <TouchableOpacity
+                  key={photo.id}
+                  onPress={() => setViewingPhoto(photo)}
+                  disabled={!photo.url}
+                  style={styles.photoThumb}
+                  accessibilityLabel={`Photo from ${formatDate(photo.created_at, 'MMM d, h:mm a', job.property.timezone)}`}
+                >
+                  {photo.url ? (
+                    <Image source={{ uri: photo.url }} style={styles.photoImage} />
+                  ) : (
+                    <Ionicons name="image-outline" size={iconSizes.md} color={colors.foggy} />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          ) : (
+            <Text style={[styles.notesText, styles.noNotes]}>
+              No photos yet. Cleaners can text photos of the unit to your SMS number.
+            </Text>
+          )}
+        </Card>
+
         {/* Payment Section */}
         <Card style={styles.card}>
           <View style={styles.cardHeader}>
@@ -398,11 +968,124 @@ export default function JobDetailScreen() {
           <View style={styles.paymentInfo}>
             <View style={styles.paymentRow}>
               <Text style={styles.paymentLabel}>Amount Owed</Text>
-              <Text style={styles.paymentAmount}>
-                {job.amount_owed ? formatCurrency(job.amount_owed) : '$0.00'}
+              <View style={styles.hoursValue}>
+                <Text style={styles.paymentAmount}>
+                  {job.amount_owed !== null ? formatCurrency(job.amount_owed) : 'Not set'}
+                </Text>
+                {!editingAmount && job.payment_status === 'unpaid' && (
+                  <TouchableOpacity
+                    onPress={() => {
+                      setAmountOwed(job.amount_owed !== null ? String(job.amount_owed) : '');
+                      setAmountError(undefined);
+                      setEditingAmount(true);
+                    }}
+                    style={styles.editNotesButton}
+                  >
+                    <Ionicons name="create-outline" size={iconSizes.sm} color={colors.rausch} />
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+
+            {editingAmount && (
+              <>
+                <Input
+                  label="Amount Owed"
+                  value={amountOwed}
+                  onChangeText={(value) => {
+                    setAmountOwed(value);
+                    setAmountError(undefined);
+                  }}
+                  placeholder="e.g., 85.00"
+                  error={amountError}
+                  keyboardType="decimal-pad"
+                />
+                <View style={styles.notesActions}>
+                  <Button
+                    title="Cancel"
+                    onPress={() => setEditingAmount(false)}
+                    variant="outline"
+                    size="medium"
+                    style={styles.notesButton}
+                  />
+                  <Button
+                    title="Save"
+                    onPress={handleSaveAmount}
+                    loading={savingAmount}
+                    disabled={savingAmount}
+                    variant="primary"
+                    size="medium"
+                    style={styles.notesButton}
+                  />
+                </View>
+              </>
+            )}
+
+            {job.payment_status === 'unpaid' && job.amount_owed === null && !editingAmount && (
+              <Text style={styles.priceBreakdown}>
+                {job.cleaner
+                  ? `${job.cleaner.name}'s rates don't give a price for this job. Tap the pencil to set one.`
+                  : 'Assign a cleaner to price this job.'}
               </Text>
+            )}
+
+            {price && <Text style={styles.priceBreakdown}>{describePrice(price)}</Text>}
+
+            <View style={styles.paymentRow}>
+              <Text style={styles.paymentLabel}>Hours Worked</Text>
+              <View style={styles.hoursValue}>
+                <Text style={styles.paymentValue}>
+                  {job.actual_hours !== null ? `${job.actual_hours} hrs` : 'Not reported'}
+                </Text>
+                {!editingHours && job.payment_status === 'unpaid' && (
+                  <TouchableOpacity
+                    onPress={() => {
+                      setActualHours(job.actual_hours !== null ? String(job.actual_hours) : '');
+                      setHoursError(undefined);
+                      setEditingHours(true);
+                    }}
+                    style={styles.editNotesButton}
+                  >
+                    <Ionicons name="create-outline" size={iconSizes.sm} color={colors.rausch} />
+                  </TouchableOpacity>
+                )}
+              </View>
             </View>
 
+            {editingHours && (
+              <>
+                <Input
+                  label="Hours Worked"
+                  value={actualHours}
+                  onChangeText={(value) => {
+                    setActualHours(value);
+                    setHoursError(undefined);
+                  }}
+                  placeholder="e.g., 3.5"
+                  error={hoursError}
+                  keyboardType="decimal-pad"
+                />
+                <View style={styles.notesActions}>
+                  <Button
+                    title="Cancel"
+                    onPress={() => setEditingHours(false)}
+                    variant="outline"
+                    size="medium"
+                    style={styles.notesButton}
+                  />
+                  <Button
+                    title="Save"
+                    onPress={handleSaveHours}
+                    loading={savingHours}
+                    disabled={savingHours}
+                    variant="primary"
+                    size="medium"
+                    style={styles.notesButton}
+                  />
+                </View>
+              </>
+            )}
+
             <View style={styles.paymentRow}>
               <Text style={styles.paymentLabel}>Payment Status</Text>
               <StatusBadge
@@ -410,12 +1093,20 @@ export default function JobDetailScreen() {
                 size="small"
               />
             </View>
+
+            {job.stripe_transfer_id && (
+              <View style={styles.paymentRow}>
+                <Text style={styles.paymentLabel}>Stripe Transfer</Text>
+                <Text style={styles.transferId}>{job.stripe_transfer_id}</Text>
+              </View>
+            )}
           </View>
 
-          {job.payment_status === 'unpaid' && job.amount_owed && (
+          {/* Every payment is recorded, so jobs are paid from the cleaner's payments screen */}
+          {job.payment_status === 'unpaid' && job.amount_owed && job.cleaner_id && (
             <Button
-              title="Mark as Paid"
-              onPress={handleMarkAsPaid}
+              title="Record Payment"
+              onPress={() => router.push(`/cleaner/${job.cleaner_id}/payments`)}
               variant="secondary"
               size="medium"
               style={styles.payButton}
@@ -423,6 +1114,97 @@ export default function JobDetailScreen() {
           )}
         </Card>
 
+        {/* Supplies Section */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="basket" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Supplies</Text>
+            {!addingExpense && job.payment_status === 'unpaid' && (
+              <TouchableOpacity
+                onPress={() => {
+                  setExpenseErrors({});
+                  setAddingExpense(true);
+                }}
+                style={styles.editNotesButton}
+                accessibilityLabel="Add supply expense"
+              >
+                <Ionicons name="add" size={iconSizes.sm} color={colors.rausch} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {job.expenses.length > 0
+            ? job.expenses.map((expense) => (
+                <View key={expense.id} style={styles.paymentRow}>
+                  <Text style={[styles.paymentLabel, styles.expenseDescription]}>
+                    {expense.description}
+                  </Text>
+                  <View style={styles.hoursValue}>
+                    <Text style={styles.paymentValue}>{formatCurrency(expense.amount)}</Text>
+                    {job.payment_status === 'unpaid' && (
+                      <TouchableOpacity
+                        onPress={() => handleDeleteExpense(expense)}
+                        style={styles.editNotesButton}
+                        accessibilityLabel="Remove expense"
+                      >
+                        <Ionicons name="trash-outline" size={iconSizes.sm} color={colors.foggy} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                </View>
+              ))
+            : !addingExpense && (
+                <Text style={[styles.notesText, styles.noNotes]}>
+                  No supplies bought. Anything the cleaner buys for the unit is paid back with this
+                  job.
+                </Text>
+              )}
+
+          {addingExpense && (
+            <>
+              <Input
+                label="What Was Bought"
+                value={expenseDescription}
+                onChangeText={(value) => {
+                  setExpenseDescription(value);
+                  setExpenseErrors({ ...expenseErrors, description: undefined });
+                }}
+                placeholder="e.g., Coffee pods and dish soap"
+                error={expenseErrors.description}
+              />
+              <Input
+                label="Amount"
+                value={expenseAmount}
+                onChangeText={(value) => {
+                  setExpenseAmount(value);
+                  setExpenseErrors({ ...expenseErrors, amount: undefined });
+                }}
+                placeholder="e.g., 18.40"
+                error={expenseErrors.amount}
+                keyboardType="decimal-pad"
+              />
+              <View style={styles.notesActions}>
+                <Button
+                  title="Cancel"
+                  onPress={() => setAddingExpense(false)}
+                  variant="outline"
+                  size="medium"
+                  style={styles.notesButton}
+                />
+                <Button
+                  title="Add"
+                  onPress={handleAddExpense}
+                  loading={savingExpense}
+                  disabled={savingExpense}
+                  variant="primary"
+                  size="medium"
+                  style={styles.notesButton}
+                />
+              </View>
+            </>
+          )}
+        </Card>
+
         {/* Notes Section */}
         <Card style={styles.card}>
           <View style={styles.cardHeader}>
@@ -507,8 +1289,13 @@ export default function JobDetailScreen() {
                       log.direction === 'outbound' && styles.smsTimeOutbound,
                     ]}
                   >
-                    {formatDate(log.created_at, 'MMM d, h:mm a')}
+                    {formatDate(log.created_at, 'MMM d, h:mm a', job.property.timezone)}
                   </Text>
+                  {log.direction === 'outbound' && isSmsDeliveryFailure(log.status) && (
+                    <Text style={styles.smsFailed}>
+                      Not delivered{log.error_message ? `: ${log.error_message}` : ''}
+                    </Text>
+                  )}
                 </View>
               ))}
             </View>
@@ -517,7 +1304,16 @@ export default function JobDetailScreen() {
 
         {/* Action Buttons */}
         <View style={styles.actions}>
-          {job.cleaner && (
+          {job.status !== 'completed' && canTransitionJobStatus(job.status, 'completed') && (
+            <Button
+              title="Mark Completed"
+              onPress={handleCompleteJob}
+              variant="primary"
+              size="large"
+              style={styles.actionButton}
+            />
+          )}
+          {job.cleaner && canTransitionJobStatus(job.status, 'pending') && (
             <Button
               title="Reassign Cleaner"
               onPress={handleReassignCleaner}
@@ -526,7 +1322,7 @@ export default function JobDetailScreen() {
               style={styles.actionButton}
             />
           )}
-          {job.status !== 'cancelled' && (
+          {job.status !== 'cancelled' && canTransitionJobStatus(job.status, 'cancelled') && (
             <Button
               title="Cancel Job"
               onPress={() => setCancelDialogVisible(true)}
@@ -549,6 +1345,35 @@ export default function JobDetailScreen() {
         onConfirm={handleCancelJob}
         onCancel={() => setCancelDialogVisible(false)}
       />
+
+      <Modal
+        visible={viewingPhoto !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setViewingPhoto(null)}
+      >
+        <View style={styles.photoViewer}>
+          <TouchableOpacity
+            onPress={() => setViewingPhoto(null)}
+            style={styles.photoViewerClose}
+            accessibilityLabel="Close photo"
+          >
+            <Ionicons name="close" size={iconSizes.lg} color={colors.white} />
+          </TouchableOpacity>
+          {viewingPhoto?.url && (
+            <Image
+              source={{ uri: viewingPhoto.url }}
+              style={styles.photoViewerImage}
+              resizeMode="contain"
+            />
+          )}
+          {viewingPhoto && (
+            <Text style={styles.photoViewerCaption}>
+              {formatDate(viewingPhoto.created_at, 'MMM d, h:mm a', job.property.timezone)}
+            </Text>
+          )}
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -650,6 +1475,34 @@ const styles = StyleSheet.create({
     color: colors.foggy,
     marginTop: spacing.xs,
   },
+  windowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.md,
+    paddingTop: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  windowInfo: {
+    flex: 1,
+  },
+  windowLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.foggy,
+    textTransform: 'uppercase',
+    marginBottom: spacing.xs,
+  },
+  windowValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  windowNote: {
+    fontSize: 12,
+    color: colors.warning,
+    marginTop: spacing.xs,
+  },
   cleanerInfo: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -746,6 +1599,95 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.hof,
   },
+  checklistCount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.backgroundSecondary,
+    overflow: 'hidden',
+    marginBottom: spacing.sm,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.success,
+  },
+  checklistNote: {
+    fontSize: 13,
+    color: colors.foggy,
+    marginBottom: spacing.sm,
+  },
+  checklistSection: {
+    marginTop: spacing.sm,
+  },
+  checklistCategory: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.foggy,
+    textTransform: 'uppercase',
+    marginBottom: spacing.xs,
+  },
+  checklistItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  checklistLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.hof,
+  },
+  checklistLabelDone: {
+    color: colors.foggy,
+    textDecorationLine: 'line-through',
+  },
+  requiredTag: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.rausch,
+  },
+  photoThumb: {
+    width: 96,
+    height: 96,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.backgroundSecondary,
+    marginRight: spacing.sm,
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photoImage: {
+    width: '100%',
+    height: '100%',
+  },
+  photoViewer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photoViewerClose: {
+    position: 'absolute',
+    top: spacing.xxl,
+    right: spacing.lg,
+    padding: spacing.sm,
+    zIndex: 1,
+  },
+  photoViewerImage: {
+    width: '100%',
+    height: '80%',
+  },
+  photoViewerCaption: {
+    fontSize: 14,
+    color: colors.white,
+    marginTop: spacing.md,
+  },
   paymentInfo: {
     marginBottom: spacing.md,
   },
@@ -766,6 +1708,27 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: colors.error,
   },
+  transferId: {
+    fontSize: 12,
+    color: colors.hof,
+  },
+  priceBreakdown: {
+    fontSize: 13,
+    color: colors.foggy,
+    paddingTop: spacing.xs,
+  },
+  hoursValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  paymentValue: {
+    fontSize: 16,
+    color: colors.hof,
+  },
+  expenseDescription: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
   payButton: {
     marginTop: spacing.sm,
   },
@@ -821,6 +1784,28 @@ const styles = StyleSheet.create({
   smsTimeOutbound: {
     color: 'rgba(255, 255, 255, 0.8)',
   },
+  smsFailed: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.white,
+    marginTop: spacing.xs,
+  },
+  deliveryCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  deliveryText: {
+    fontSize: 15,
+    color: colors.hof,
+    marginBottom: spacing.xs,
+  },
+  deliveryTime: {
+    fontSize: 13,
+    color: colors.foggy,
+    marginBottom: spacing.md,
+  },
   actions: {
     paddingHorizontal: spacing.lg,
     paddingVertical: spacing.lg,
@@ -0,0 +1,331 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Card } from '@/components/Card';
+import { StatusBadge } from '@/components/StatusBadge';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+
+import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
+import type { JobWithDetails, ReassignCandidate } from '@/types';
+import { formatDate, formatPhone, JOB_STATUS_LABELS } from '@/utils';
+import {
+  getJobWithDetails,
+  getReassignCandidates,
+  reassignJob,
+} from '@/services/jobs.service';
+
+export default function ReassignJobScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [job, setJob] = useState<JobWithDetails | null>(null);
+  const [candidates, setCandidates] = useState<ReassignCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reassigningId, setReassigningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (id) {
+      loadData();
+    }
+  }, [id]);
+
+  const loadData = async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError(null);
+
+    const [jobResult, candidatesResult] = await Promise.all([
+      getJobWithDetails(id),
+      getReassignCandidates(id),
+    ]);
+
+    const fetchError = jobResult.error || candidatesResult.error;
+    if (fetchError) {
+      setError(fetchError.message);
+      Alert.alert('Error', fetchError.message);
+    } else {
+      setJob(jobResult.data);
+      setCandidates(candidatesResult.data || []);
+    }
+
+    setLoading(false);
+  };
+
+  const confirmReassign = (candidate: ReassignCandidate) => {
+    if (!job) return;
+
+    const released = job.cleaner
+      ? ` ${job.cleaner.name} will be told they've been released.`
+      : '';
+    const booked =
+      candidate.booked_jobs.length > 0
+        ? `\n\n${candidate.cleaner.name} already has ${candidate.booked_jobs.length} other cleaning(s) that day.`
+        : '';
+
+    Alert.alert(
+      'Reassign Cleaner',
+      `Send this job to ${candidate.cleaner.name}? They'll get a text asking them to confirm.${released}${booked}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reassign', onPress: () => handleReassign(candidate) },
+      ]
+    );
+  };
+
+  const handleReassign = async (candidate: ReassignCandidate) => {
+    if (!id) return;
+
+    setReassigningId(candidate.cleaner.id);
+
+    const { data, error: reassignError } = await reassignJob(id, candidate.cleaner.id);
+
+    setReassigningId(null);
+
+    if (reassignError) {
+      Alert.alert('Error', reassignError.message);
+    } else if (data) {
+      Alert.alert(
+        'Cleaner Reassigned',
+        data.new_cleaner_notified
+          ? `${candidate.cleaner.name} has been sent the job details.`
+          : `${candidate.cleaner.name} is assigned, but we couldn't text them. Reach out to confirm.`
+      );
+      router.back();
+    }
+  };
+
+  const renderCandidate = (candidate: ReassignCandidate) => (
+    <TouchableOpacity
+      key={candidate.cleaner.id}
+      style={styles.cleanerItem}
+      onPress={() => confirmReassign(candidate)}
+      disabled={reassigningId !== null}
+    >
+      <View style={styles.cleanerAvatar}>
+        <Ionicons name="person" size={iconSizes.sm} color={colors.white} />
+      </View>
+      <View style={styles.cleanerDetails}>
+        <Text style={styles.cleanerName}>{candidate.cleaner.name}</Text>
+        <Text style={styles.cleanerPhone}>{formatPhone(candidate.cleaner.phone)}</Text>
+        {candidate.is_primary && (
+          <StatusBadge status="active" size="small" style={styles.primaryBadge} />
+        )}
+        {candidate.booked_jobs.map((booked) => (
+          <View key={booked.id} style={styles.bookedRow}>
+            <Ionicons name="calendar" size={iconSizes.xs} color={colors.warning} />
+            <Text style={styles.bookedText}>
+              Booked at {booked.property?.name || 'another property'} (
+              {JOB_STATUS_LABELS[booked.status]})
+            </Text>
+          </View>
+        ))}
+      </View>
+      {reassigningId === candidate.cleaner.id ? (
+        <LoadingSpinner size="small" />
+      ) : (
+        <Ionicons name="chevron-forward" size={iconSizes.sm} color={colors.foggy} />
+      )}
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !job) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+        </View>
+        <EmptyState
+          title="Job Not Found"
+          description={error || 'Unable to load job details'}
+          actionLabel="Go Back"
+          onAction={() => router.back()}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  const propertyCleaners = candidates.filter((c) => c.is_property_cleaner);
+  const otherCleaners = candidates.filter((c) => !c.is_property_cleaner);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <ScrollView style={styles.scrollView}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>
+            {job.cleaner ? 'Reassign Cleaner' : 'Assign Cleaner'}
+          </Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {/* Job Summary */}
+        <View style={styles.jobSection}>
+          <Text style={styles.propertyName}>{job.property.name}</Text>
+          <Text style={styles.jobDate}>{formatDate(job.checkout_date, 'EEEE, MMM d, yyyy')}</Text>
+          {job.cleaner && (
+            <Text style={styles.currentCleaner}>Currently assigned to {job.cleaner.name}</Text>
+          )}
+        </View>
+
+        {candidates.length === 0 ? (
+          <EmptyState
+            icon={<Ionicons name="people-outline" size={64} color={colors.foggy} />}
+            title="No Other Cleaners"
+            description="Add another active cleaner to reassign this job."
+            actionLabel="Add Cleaner"
+            onAction={() => router.push('/cleaner/add')}
+          />
+        ) : (
+          <>
+            {propertyCleaners.length > 0 && (
+              <Card style={styles.card}>
+                <View style={styles.cardHeader}>
+                  <Ionicons name="home" size={iconSizes.md} color={colors.rausch} />
+                  <Text style={styles.cardTitle}>Cleaners for This Property</Text>
+                </View>
+                {propertyCleaners.map(renderCandidate)}
+              </Card>
+            )}
+
+            {otherCleaners.length > 0 && (
+              <Card style={styles.card}>
+                <View style={styles.cardHeader}>
+                  <Ionicons name="people" size={iconSizes.md} color={colors.rausch} />
+                  <Text style={styles.cardTitle}>Other Cleaners</Text>
+                </View>
+                {otherCleaners.map(renderCandidate)}
+              </Card>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+  },
+  backButton: {
+    padding: spacing.sm,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  headerSpacer: {
+    width: iconSizes.md + spacing.sm * 2,
+  },
+  jobSection: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.lg,
+    backgroundColor: colors.white,
+    marginBottom: spacing.md,
+  },
+  propertyName: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.hof,
+    marginBottom: spacing.xs,
+  },
+  jobDate: {
+    fontSize: 16,
+    color: colors.hof,
+  },
+  currentCleaner: {
+    fontSize: 14,
+    color: colors.foggy,
+    marginTop: spacing.xs,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+    marginLeft: spacing.sm,
+    flex: 1,
+  },
+  cleanerItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  cleanerAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.rausch,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cleanerDetails: {
+    marginLeft: spacing.md,
+    flex: 1,
+  },
+  cleanerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.hof,
+    marginBottom: spacing.xs,
+  },
+  cleanerPhone: {
+    fontSize: 14,
+    color: colors.foggy,
+  },
+  primaryBadge: {
+    marginTop: spacing.xs,
+  },
+  bookedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.xs,
+  },
+  bookedText: {
+    fontSize: 13,
+    color: colors.warning,
+    marginLeft: spacing.xs,
+  },
+});
@@ -17,18 +17,39 @@ import { Ionicons } from '@expo/vector-icons';
 import { Button } from '@/components/Button';
 import { Card } from '@/components/Card';
 import { StatusBadge } from '@/components/StatusBadge';
+import { SeverityBadge } from '@/components/SeverityBadge';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { EmptyState } from '@/components/EmptyState';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { Input } from '@/components/Input';
 
 import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
-import type { PropertyWithCleaners } from '@/types';
-import { formatDate, formatRelativeTime } from '@/utils';
+import type {
+  PropertyWithCleaners,
+  CalendarFeed,
+  PropertySyncResult,
+  MaintenanceIssue,
+} from '@/types';
+import {
+  formatDate,
+  formatRelativeTime,
+  formatCurrency,
+  validateICalUrl,
+  getCalendarSourceName,
+  getCleaningWindow,
+  formatTimeOfDay,
+  parseTimeOfDay,
+} from '@/utils';
 import {
   getPropertyWithDetails,
+  updateProperty,
   deleteProperty,
   syncPropertyCalendar,
+  addCalendarFeed,
+  removeCalendarFeed,
 } from '@/services/properties.service';
+import { updateCleanerPriorities } from '@/services/cleaners.service';
+import { getPropertyIssues } from '@/services/maintenance.service';
 import { useAuthStore } from '@/stores/authStore';
 
 export default function PropertyDetailScreen() {
@@ -37,10 +58,30 @@ export default function PropertyDetailScreen() {
   const user = useAuthStore((state) => state.user);
 
   const [property, setProperty] = useState<PropertyWithCleaners | null>(null);
+  const [issues, setIssues] = useState<MaintenanceIssue[]>([]);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
+  const [syncResult, setSyncResult] = useState<PropertySyncResult | null>(null);
   const [deleteDialogVisible, setDeleteDialogVisible] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [addingFeed, setAddingFeed] = useState(false);
+  const [savingFeed, setSavingFeed] = useState(false);
+  const [feedName, setFeedName] = useState('');
+  const [feedUrl, setFeedUrl] = useState('');
+  const [feedUrlError, setFeedUrlError] = useState<string | undefined>();
+  const [editingTimes, setEditingTimes] = useState(false);
+  const [savingTimes, setSavingTimes] = useState(false);
+  const [checkoutTime, setCheckoutTime] = useState('');
+  const [checkinTime, setCheckinTime] = useState('');
+  const [timeErrors, setTimeErrors] = useState<{ checkout?: string; checkin?: string }>({});
+  const [editingTimeout, setEditingTimeout] = useState(false);
+  const [savingTimeout, setSavingTimeout] = useState(false);
+  const [timeoutHours, setTimeoutHours] = useState('');
+  const [timeoutError, setTimeoutError] = useState<string | undefined>();
+  const [editingLeadDays, setEditingLeadDays] = useState(false);
+  const [savingLeadDays, setSavingLeadDays] = useState(false);
+  const [leadDays, setLeadDays] = useState('');
+  const [leadDaysError, setLeadDaysError] = useState<string | undefined>();
 
   useEffect(() => {
     if (id) {
@@ -64,6 +105,10 @@ export default function PropertyDetailScreen() {
     }
 
     setLoading(false);
+
+    // Open issues are secondary, so the property still shows if they fail to load
+    const { data: issueData } = await getPropertyIssues(id, true);
+    setIssues(issueData || []);
   };
 
   const handleSync = async () => {
@@ -75,21 +120,202 @@ export default function PropertyDetailScreen() {
 
     if (syncError) {
       Alert.alert('Sync Failed', syncError.message);
-    } else {
-      Alert.alert('Success', 'Calendar synced successfully');
+    } else if (data) {
+      setSyncResult(data);
+      if (data.success) {
+        Alert.alert('Calendar Synced', formatSyncSummary(data));
+      } else {
+        Alert.alert('Sync Incomplete', data.error || 'Some calendars could not be synced');
+      }
       loadProperty(); // Reload property data
     }
 
     setSyncing(false);
   };
 
-  const handleCopyICalUrl = async () => {
-    if (property?.ical_url) {
-      await Clipboard.setStringAsync(property.ical_url);
+  const handleCopyICalUrl = async (url: string) => {
+    if (url) {
+      await Clipboard.setStringAsync(url);
       Alert.alert('Copied', 'iCal URL copied to clipboard');
     }
   };
 
+  const resetFeedForm = () => {
+    setAddingFeed(false);
+    setFeedName('');
+    setFeedUrl('');
+    setFeedUrlError(undefined);
+  };
+
+  const handleAddFeed = async () => {
+    if (!id) return;
+
+    const url = feedUrl.trim();
+    if (!validateICalUrl(url)) {
+      setFeedUrlError('Please enter a valid iCal URL');
+      return;
+    }
+
+    setSavingFeed(true);
+
+    const { error: addError } = await addCalendarFeed(id, {
+      name: feedName.trim() || getCalendarSourceName(url),
+      ical_url: url,
+    });
+
+    setSavingFeed(false);
+
+    if (addError) {
+      Alert.alert('Error', addError.message);
+    } else {
+      resetFeedForm();
+      loadProperty();
+    }
+  };
+
+  const handleRemoveFeed = (feed: CalendarFeed) => {
+    Alert.alert('Remove Calendar', `Stop syncing the ${feed.name} calendar?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          const { error: removeError } = await removeCalendarFeed(feed.id);
+
+          if (removeError) {
+            Alert.alert('Error', removeError.message);
+          } else {
+            loadProperty();
+          }
+        },
+      },
+    ]);
+  };
+
+  const startEditingTimes = () => {
+    if (!property) return;
+
+    setCheckoutTime(formatTimeOfDay(property.default_checkout_time));
+    setCheckinTime(formatTimeOfDay(property.default_checkin_time));
+    setTimeErrors({});
+    setEditingTimes(true);
+  };
+
+  const handleSaveTimes = async () => {
+    if (!id) return;
+
+    const checkout = parseTimeOfDay(checkoutTime);
+    const checkin = parseTimeOfDay(checkinTime);
+
+    const newErrors: { checkout?: string; checkin?: string } = {};
+    if (!checkout) {
+      newErrors.checkout = 'Please enter a time like 11:00 AM';
+    }
+    if (!checkin) {
+      newErrors.checkin = 'Please enter a time like 4:00 PM';
+    }
+
+    setTimeErrors(newErrors);
+    if (!checkout || !checkin) return;
+
+    setSavingTimes(true);
+
+    const { error: updateError } = await updateProperty(id, {
+      default_checkout_time: checkout,
+      default_checkin_time: checkin,
+    });
+
+    setSavingTimes(false);
+
+    if (updateError) {
+      Alert.alert('Error', updateError.message);
+    } else {
+      setEditingTimes(false);
+      loadProperty();
+    }
+  };
+
+  const handleMoveBackupUp = async (cleanerId: string) => {
+    if (!id || !property) return;
+
+    // Primary cleaners are always asked first; only backups are reordered
+    const backupIds = property.cleaners
+      .filter((pc) => !pc.is_primary)
+      .map((pc) => pc.cleaner_id);
+    const index = backupIds.indexOf(cleanerId);
+    if (index <= 0) return;
+
+    [backupIds[index - 1], backupIds[index]] = [backupIds[index], backupIds[index - 1]];
+
+    const { error: reorderError } = await updateCleanerPriorities(id, backupIds);
+
+    if (reorderError) {
+      Alert.alert('Error', reorderError.message);
+    } else {
+      loadProperty();
+    }
+  };
+
+  const handleSaveTimeout = async () => {
+    if (!id) return;
+
+    const hours = Number(timeoutHours);
+    if (!Number.isInteger(hours) || hours < 1 || hours > 72) {
+      setTimeoutError('Please enter between 1 and 72 hours');
+      return;
+    }
+
+    setSavingTimeout(true);
+
+    const { error: updateError } = await updateProperty(id, { offer_timeout_hours: hours });
+
+    setSavingTimeout(false);
+
+    if (updateError) {
+      Alert.alert('Error', updateError.message);
+    } else {
+      setEditingTimeout(false);
+      loadProperty();
+    }
+  };
+
+  const handleSaveLeadDays = async () => {
+    if (!id) return;
+
+    const days = Number(leadDays);
+    if (leadDays.trim() === '' || !Number.isInteger(days) || days < 0 || days > 14) {
+      setLeadDaysError('Please enter between 0 and 14 days');
+      return;
+    }
+
+    setSavingLeadDays(true);
+
+    const { error: updateError } = await updateProperty(id, { sms_lead_days: days });
+
+    setSavingLeadDays(false);
+
+    if (updateError) {
+      Alert.alert('Error', updateError.message);
+    } else {
+      setEditingLeadDays(false);
+      loadProperty();
+    }
+  };
+
+  const handleToggleReliabilityRanking = async () => {
+    if (!id || !property) return;
+
+    const { error: updateError } = await updateProperty(id, {
+      rank_backups_by_reliability: !property.rank_backups_by_reliability,
+    });
+
+    if (updateError) {
+      Alert.alert('Error', updateError.message);
+    } else {
+      loadProperty();
+    }
+  };
+
   const handleDelete = async () => {
     if (!id) return;
 
@@ -109,6 +335,19 @@ export default function PropertyDetailScreen() {
     router.push(`/property/edit/${id}`);
   };
 
+  // Backups are numbered after the primary cleaner, who is listed first
+  const getBackupNumber = (index: number) =>
+    property?.cleaners.some((pc) => pc.is_primary) ? index : index + 1;
+
+  const formatSyncSummary = (result: PropertySyncResult) => {
+    const changes = [
+      `${result.jobs_created} created`,
+      `${result.jobs_updated} updated`,
+      `${result.jobs_cancelled} cancelled`,
+    ].join(', ');
+    return `Cleanings: ${changes}`;
+  };
+
   const maskICalUrl = (url: string) => {
     if (url.length <= 20) return url;
     return `${url.substring(0, 30)}...${url.substring(url.length - 10)}`;
@@ -165,17 +404,97 @@ export default function PropertyDetailScreen() {
             <Text style={styles.cardTitle}>Calendar Sync</Text>
           </View>
 
-          <View style={styles.syncInfo}>
-            <Text style={styles.label}>iCal URL</Text>
-            <View style={styles.urlContainer}>
-              <Text style={styles.urlText} numberOfLines={1}>
-                {maskICalUrl(property.ical_url)}
+          {property.calendar_feeds.length > 0 ? (
+            property.calendar_feeds.map((feed) => (
+              <View key={feed.id} style={styles.syncInfo}>
+                <View style={styles.feedHeader}>
+                  <Text style={styles.label}>{feed.name}</Text>
+                  <TouchableOpacity onPress={() => handleRemoveFeed(feed)}>
+                    <Ionicons name="trash-outline" size={iconSizes.sm} color={colors.foggy} />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.urlContainer}>
+                  <Text style={styles.urlText} numberOfLines={1}>
+                    {maskICalUrl(feed.ical_url)}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => handleCopyICalUrl(feed.ical_url)}
+                    style={styles.copyButton}
+                  >
+                    <Ionicons name="copy-outline" size={iconSizes.sm} color={colors.rausch} />
+                  </TouchableOpacity>
+                </View>
+                <Text style={styles.subValue}>
+                  {feed.last_synced
+                    ? `Synced ${formatRelativeTime(feed.last_synced)}`
+                    : 'Not synced yet'}
+                </Text>
+                {feed.sync_error && (
+                  <View style={[styles.errorBox, styles.feedErrorBox]}>
+                    <Ionicons name="warning" size={iconSizes.sm} color={colors.error} />
+                    <Text style={styles.errorText}>{feed.sync_error}</Text>
+                  </View>
+                )}
+              </View>
+            ))
+          ) : (
+            <View style={styles.syncInfo}>
+              <Text style={styles.subValue}>
+                No calendars connected. Add one to start syncing reservations.
               </Text>
-              <TouchableOpacity onPress={handleCopyICalUrl} style={styles.copyButton}>
-                <Ionicons name="copy-outline" size={iconSizes.sm} color={colors.rausch} />
-              </TouchableOpacity>
             </View>
-          </View>
+          )}
+
+          {addingFeed ? (
+            <View style={styles.syncInfo}>
+              <Input
+                label="Calendar Name"
+                value={feedName}
+                onChangeText={setFeedName}
+                placeholder="e.g., VRBO, Booking.com"
+                autoCapitalize="words"
+              />
+              <Input
+                label="iCal URL"
+                value={feedUrl}
+                onChangeText={(value) => {
+                  setFeedUrl(value);
+                  setFeedUrlError(undefined);
+                }}
+                placeholder="https://..."
+                error={feedUrlError}
+                autoCapitalize="none"
+                keyboardType="url"
+              />
+              <View style={styles.feedActions}>
+                <Button
+                  title="Cancel"
+                  onPress={resetFeedForm}
+                  variant="outline"
+                  size="medium"
+                  style={styles.feedButton}
+                />
+                <Button
+                  title="Add"
+                  onPress={handleAddFeed}
+                  loading={savingFeed}
+                  disabled={savingFeed}
+                  variant="primary"
+                  size="medium"
+                  style={styles.feedButton}
+                />
+              </View>
+            </View>
+          ) : (
+            <Button
+              title="Add Calendar"
+              onPress={() => setAddingFeed(true)}
+              variant="outline"
+              size="medium"
+              style={styles.addButton}
+              icon={<Ionicons name="add" size={iconSizes.sm} color={colors.rausch} />}
+            />
+          )}
 
           {property.last_synced && (
             <View style={styles.syncInfo}>
@@ -192,6 +511,18 @@ export default function PropertyDetailScreen() {
             </View>
           )}
 
+          {syncResult && (
+            <View style={styles.syncInfo}>
+              <Text style={styles.label}>Last Manual Sync</Text>
+              <Text style={styles.value}>{formatSyncSummary(syncResult)}</Text>
+              {syncResult.parse_errors.map((parseError, index) => (
+                <Text key={index} style={styles.subValue}>
+                  {parseError}
+                </Text>
+              ))}
+            </View>
+          )}
+
           <Button
             title={syncing ? 'Syncing...' : 'Sync Now'}
             onPress={handleSync}
@@ -203,6 +534,78 @@ export default function PropertyDetailScreen() {
           />
         </Card>
 
+        {/* Cleaning Times Section */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="alarm" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Cleaning Times</Text>
+          </View>
+
+          {editingTimes ? (
+            <View style={styles.syncInfo}>
+              <Input
+                label="Checkout Time"
+                value={checkoutTime}
+                onChangeText={setCheckoutTime}
+                placeholder="e.g., 11:00 AM"
+                error={timeErrors.checkout}
+                autoCapitalize="none"
+              />
+              <Input
+                label="Check-in Time"
+                value={checkinTime}
+                onChangeText={setCheckinTime}
+                placeholder="e.g., 4:00 PM"
+                error={timeErrors.checkin}
+                autoCapitalize="none"
+              />
+              <View style={styles.feedActions}>
+                <Button
+                  title="Cancel"
+                  onPress={() => setEditingTimes(false)}
+                  variant="outline"
+                  size="medium"
+                  style={styles.feedButton}
+                />
+                <Button
+                  title="Save"
+                  onPress={handleSaveTimes}
+                  loading={savingTimes}
+                  disabled={savingTimes}
+                  variant="primary"
+                  size="medium"
+                  style={styles.feedButton}
+                />
+              </View>
+            </View>
+          ) : (
+            <>
+              <View style={styles.syncInfo}>
+                <Text style={styles.label}>Guests Check Out</Text>
+                <Text style={styles.value}>
+                  {formatTimeOfDay(property.default_checkout_time)}
+                </Text>
+              </View>
+              <View style={styles.syncInfo}>
+                <Text style={styles.label}>Guests Check In</Text>
+                <Text style={styles.value}>
+                  {formatTimeOfDay(property.default_checkin_time)}
+                </Text>
+                <Text style={styles.subValue}>
+                  Times are in {property.timezone}. Individual jobs can override them.
+                </Text>
+              </View>
+              <Button
+                title="Edit Times"
+                onPress={startEditingTimes}
+                variant="outline"
+                size="medium"
+                icon={<Ionicons name="create-outline" size={iconSizes.sm} color={colors.rausch} />}
+              />
+            </>
+          )}
+        </Card>
+
         {/* Assigned Cleaners Section */}
         <Card style={styles.card}>
           <View style={styles.cardHeader}>
@@ -212,7 +615,7 @@ export default function PropertyDetailScreen() {
 
           {property.cleaners && property.cleaners.length > 0 ? (
             <View style={styles.cleanersList}>
-              {property.cleaners.map((pc) => (
+              {property.cleaners.map((pc, index) => (
                 <TouchableOpacity
                   key={pc.id}
                   style={styles.cleanerItem}
@@ -226,11 +629,21 @@ export default function PropertyDetailScreen() {
                       <Text style={styles.cleanerName}>
                         {pc.cleaner?.name || 'Unknown Cleaner'}
                       </Text>
-                      {pc.is_primary && (
+                      {pc.is_primary ? (
                         <StatusBadge status="active" size="small" style={styles.primaryBadge} />
+                      ) : (
+                        <Text style={styles.subValue}>Backup #{getBackupNumber(index)}</Text>
                       )}
                     </View>
                   </View>
+                  {!pc.is_primary && getBackupNumber(index) > 1 && (
+                    <TouchableOpacity
+                      onPress={() => handleMoveBackupUp(pc.cleaner_id)}
+                      style={styles.copyButton}
+                    >
+                      <Ionicons name="arrow-up" size={iconSizes.sm} color={colors.rausch} />
+                    </TouchableOpacity>
+                  )}
                   <Ionicons name="chevron-forward" size={iconSizes.sm} color={colors.foggy} />
                 </TouchableOpacity>
               ))}
@@ -239,6 +652,152 @@ export default function PropertyDetailScreen() {
             <Text style={styles.emptyText}>No cleaners assigned yet</Text>
           )}
 
+          {editingTimeout ? (
+            <View style={styles.syncInfo}>
+              <Input
+                label="Ask Next Cleaner After (Hours)"
+                value={timeoutHours}
+                onChangeText={(value) => {
+                  setTimeoutHours(value);
+                  setTimeoutError(undefined);
+                }}
+                placeholder="e.g., 12"
+                error={timeoutError}
+                keyboardType="number-pad"
+              />
+              <View style={styles.feedActions}>
+                <Button
+                  title="Cancel"
+                  onPress={() => setEditingTimeout(false)}
+                  variant="outline"
+                  size="medium"
+                  style={styles.feedButton}
+                />
+                <Button
+                  title="Save"
+                  onPress={handleSaveTimeout}
+                  loading={savingTimeout}
+                  disabled={savingTimeout}
+                  variant="primary"
+                  size="medium"
+                  style={styles.feedButton}
+                />
+              </View>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.timeoutRow}
+              onPress={() => {
+                setTimeoutHours(String(property.offer_timeout_hours));
+                setTimeoutError(undefined);
+                setEditingTimeout(true);
+              }}
+            >
+              <Text style={[styles.subValue, styles.timeoutText]}>
+                If a cleaner declines or doesn't reply within {property.offer_timeout_hours}{' '}
+                hours, the next cleaner is asked.
+              </Text>
+              <Ionicons name="create-outline" size={iconSizes.sm} color={colors.rausch} />
+            </TouchableOpacity>
+          )}
+
+          {editingLeadDays ? (
+            <View style={styles.syncInfo}>
+              <Input
+                label="Text Cleaners Before Checkout (Days)"
+                value={leadDays}
+                onChangeText={(value) => {
+                  setLeadDays(value);
+                  setLeadDaysError(undefined);
+                }}
+                placeholder="e.g., 3"
+                error={leadDaysError}
+                keyboardType="number-pad"
+              />
+              <View style={styles.feedActions}>
+                <Button
+                  title="Cancel"
+                  onPress={() => setEditingLeadDays(false)}
+                  variant="outline"
+                  size="medium"
+                  style={styles.feedButton}
+                />
+                <Button
+                  title="Save"
+                  onPress={handleSaveLeadDays}
+                  loading={savingLeadDays}
+                  disabled={savingLeadDays}
+                  variant="primary"
+                  size="medium"
+                  style={styles.feedButton}
+                />
+              </View>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.timeoutRow}
+              onPress={() => {
+                setLeadDays(String(property.sms_lead_days));
+                setLeadDaysError(undefined);
+                setEditingLeadDays(true);
+              }}
+            >
+              <Text style={[styles.subValue, styles.timeoutText]}>
+                {property.sms_lead_days === 0
+                  ? 'Cleaners are texted on the day of checkout.'
+                  : `Cleaners are texted ${property.sms_lead_days} ${
+                      property.sms_lead_days === 1 ? 'day' : 'days'
+                    } before checkout and reminded the day before.`}
+              </Text>
+              <Ionicons name="create-outline" size={iconSizes.sm} color={colors.rausch} />
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity style={styles.timeoutRow} onPress={handleToggleReliabilityRanking}>
+            <Text style={[styles.subValue, styles.timeoutText]}>
+              {property.rank_backups_by_reliability
+                ? 'Backups are asked most reliable first, by reply time, no-shows and on-time rate.'
+                : 'Backups are asked in the order above. Tap to ask the most reliable first.'}
+            </Text>
+            <Ionicons
+              name={property.rank_backups_by_reliability ? 'checkbox' : 'square-outline'}
+              size={iconSizes.sm}
+              color={colors.rausch}
+            />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.timeoutRow}
+            onPress={() => router.push(`/property/${id}/checklist`)}
+          >
+            <Text style={[styles.subValue, styles.timeoutText]}>
+              Set the cleaning checklist for each job and what's needed before it counts as done,
+              like photos of the finished unit.
+            </Text>
+            <Ionicons name="checkbox-outline" size={iconSizes.sm} color={colors.rausch} />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.timeoutRow}
+            onPress={() => router.push(`/property/${id}/inventory`)}
+          >
+            <Text style={[styles.subValue, styles.timeoutText]}>
+              Set par levels for supplies like toilet paper and coffee. Cleaners text LOW when
+              they're running out.
+            </Text>
+            <Ionicons name="basket-outline" size={iconSizes.sm} color={colors.rausch} />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.timeoutRow}
+            onPress={() => router.push(`/property/${id}/pricing`)}
+          >
+            <Text style={[styles.subValue, styles.timeoutText]}>
+              Set each cleaner's flat or hourly rate and add-ons like same-day premiums.
+            </Text>
+            <Ionicons name="cash-outline" size={iconSizes.sm} color={colors.rausch} />
+          </TouchableOpacity>
+
           <Button
             title="Add Cleaner"
             onPress={() => router.push(`/property/${id}/assign-cleaner`)}
@@ -267,7 +826,9 @@ export default function PropertyDetailScreen() {
                   <View style={styles.jobInfo}>
                     <Text style={styles.jobDate}>{formatDate(job.checkout_date, 'MMM d')}</Text>
                     <View style={styles.jobDetails}>
-                      <Text style={styles.jobTime}>{formatDate(job.checkout_date, 'h:mm a')}</Text>
+                      <Text style={styles.jobTime}>
+                        {formatTimeOfDay(getCleaningWindow(job, property).start_time)}
+                      </Text>
                       {job.cleaner && (
                         <Text style={styles.jobCleaner}>{job.cleaner.name}</Text>
                       )}
@@ -282,6 +843,51 @@ export default function PropertyDetailScreen() {
           )}
         </Card>
 
+        {/* Maintenance Section */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="construct" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Maintenance</Text>
+          </View>
+
+          {issues.length > 0 ? (
+            <View style={styles.jobsList}>
+              {issues.map((issue) => (
+                <TouchableOpacity
+                  key={issue.id}
+                  style={styles.jobItem}
+                  onPress={() => router.push(`/issue/${issue.id}`)}
+                >
+                  <View style={styles.jobInfo}>
+                    <Text style={styles.jobDate}>{formatDate(issue.created_at, 'MMM d')}</Text>
+                    <View style={styles.jobDetails}>
+                      <Text style={styles.jobTime} numberOfLines={2}>
+                        {issue.description}
+                      </Text>
+                      <Text style={styles.jobCleaner}>
+                        {[
+                          issue.cleaner?.name,
+                          issue.status === 'in_progress' ? 'Being fixed' : null,
+                          issue.cost !== null ? formatCurrency(issue.cost) : null,
+                        ]
+                          .filter(Boolean)
+                          .join(' · ') || 'Reported by SMS'}
+                      </Text>
+                    </View>
+                  </View>
+                  <SeverityBadge severity={issue.severity} size="small" />
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : (
+            <Text style={styles.emptyText}>No open issues</Text>
+          )}
+
+          <Text style={styles.subValue}>
+            Cleaners report damage by texting ISSUE with what they found, plus photos.
+          </Text>
+        </Card>
+
         {/* Action Buttons */}
         <View style={styles.actions}>
           <Button
@@ -401,6 +1007,32 @@ const styles = StyleSheet.create({
     padding: spacing.sm,
     marginLeft: spacing.sm,
   },
+  feedHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  timeoutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  timeoutText: {
+    flex: 1,
+    marginTop: 0,
+    marginRight: spacing.sm,
+  },
+  feedErrorBox: {
+    marginTop: spacing.sm,
+    marginBottom: 0,
+  },
+  feedActions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  feedButton: {
+    flex: 1,
+  },
   value: {
     fontSize: 16,
     color: colors.hof,
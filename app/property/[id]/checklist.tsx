@@ -0,0 +1,544 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Button } from '@/components/Button';
+import { Card } from '@/components/Card';
+import { Input } from '@/components/Input';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+
+import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
+import type { Property, ChecklistTemplateItem, ChecklistCategory } from '@/types';
+import { CHECKLIST_CATEGORIES, CHECKLIST_CATEGORY_LABELS } from '@/utils';
+import { getPropertyById, updateProperty } from '@/services/properties.service';
+import {
+  getChecklistTemplate,
+  createChecklistItem,
+  updateChecklistItem,
+  deleteChecklistItem,
+  updateChecklistOrder,
+} from '@/services/checklists.service';
+
+export default function PropertyChecklistScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [property, setProperty] = useState<Property | null>(null);
+  const [items, setItems] = useState<ChecklistTemplateItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [labelError, setLabelError] = useState<string | undefined>();
+  const [category, setCategory] = useState<ChecklistCategory>('room');
+  const [isMandatory, setIsMandatory] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [minPhotos, setMinPhotos] = useState('');
+  const [minPhotosError, setMinPhotosError] = useState<string | undefined>();
+  const [savingMinPhotos, setSavingMinPhotos] = useState(false);
+
+  useEffect(() => {
+    if (id) {
+      loadChecklist();
+    }
+  }, [id]);
+
+  const loadChecklist = async () => {
+    if (!id) return;
+
+    setError(null);
+
+    const [propertyResult, checklistResult] = await Promise.all([
+      getPropertyById(id),
+      getChecklistTemplate(id),
+    ]);
+
+    const fetchError = propertyResult.error || checklistResult.error;
+    if (fetchError) {
+      setError(fetchError.message);
+      Alert.alert('Error', fetchError.message);
+    } else {
+      setProperty(propertyResult.data);
+      setMinPhotos(String(propertyResult.data?.min_completion_photos ?? 0));
+      setItems(checklistResult.data || []);
+    }
+
+    setLoading(false);
+  };
+
+  const handleAddItem = async () => {
+    if (!id) return;
+
+    if (!label.trim()) {
+      setLabelError('Please describe the item');
+      return;
+    }
+
+    setAdding(true);
+
+    const { error: createError } = await createChecklistItem({
+      property_id: id,
+      label,
+      category,
+      is_mandatory: isMandatory,
+    });
+
+    setAdding(false);
+
+    if (createError) {
+      Alert.alert('Error', createError.message);
+    } else {
+      setLabel('');
+      setIsMandatory(false);
+      loadChecklist();
+    }
+  };
+
+  const handleToggleMandatory = async (item: ChecklistTemplateItem) => {
+    setBusyItemId(item.id);
+
+    const { error: updateError } = await updateChecklistItem(item.id, {
+      is_mandatory: !item.is_mandatory,
+    });
+
+    setBusyItemId(null);
+
+    if (updateError) {
+      Alert.alert('Error', updateError.message);
+    } else {
+      loadChecklist();
+    }
+  };
+
+  const handleMoveUp = async (item: ChecklistTemplateItem) => {
+    // Items only move within their own category
+    const index = items.indexOf(item);
+    const previous = items[index - 1];
+    if (!previous || previous.category !== item.category) return;
+
+    const itemIds = items.map((current) => current.id);
+    [itemIds[index - 1], itemIds[index]] = [itemIds[index], itemIds[index - 1]];
+
+    setBusyItemId(item.id);
+
+    const { error: reorderError } = await updateChecklistOrder(itemIds);
+
+    setBusyItemId(null);
+
+    if (reorderError) {
+      Alert.alert('Error', reorderError.message);
+    } else {
+      loadChecklist();
+    }
+  };
+
+  const handleDelete = (item: ChecklistTemplateItem) => {
+    Alert.alert('Remove Item', `Remove "${item.label}" from the checklist?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          setBusyItemId(item.id);
+
+          const { error: deleteError } = await deleteChecklistItem(item.id);
+
+          setBusyItemId(null);
+
+          if (deleteError) {
+            Alert.alert('Error', deleteError.message);
+          } else {
+            loadChecklist();
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleToggleRequireCompletion = async () => {
+    if (!id || !property) return;
+
+    const { error: updateError } = await updateProperty(id, {
+      require_checklist_completion: !property.require_checklist_completion,
+    });
+
+    if (updateError) {
+      Alert.alert('Error', updateError.message);
+    } else {
+      loadChecklist();
+    }
+  };
+
+  const handleSaveMinPhotos = async () => {
+    if (!id) return;
+
+    const count = Number(minPhotos || '0');
+    if (!Number.isInteger(count) || count < 0 || count > 20) {
+      setMinPhotosError('Please enter between 0 and 20 photos');
+      return;
+    }
+
+    setSavingMinPhotos(true);
+
+    const { error: updateError } = await updateProperty(id, { min_completion_photos: count });
+
+    setSavingMinPhotos(false);
+
+    if (updateError) {
+      Alert.alert('Error', updateError.message);
+    } else {
+      loadChecklist();
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !property) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+        </View>
+        <EmptyState
+          title="Property Not Found"
+          description={error || 'Unable to load property details'}
+          actionLabel="Go Back"
+          onAction={() => router.back()}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <ScrollView style={styles.scrollView}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Checklist</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={styles.propertySection}>
+          <Text style={styles.propertyName}>{property.name}</Text>
+          <Text style={styles.subText}>
+            New jobs get a copy of this checklist. Cleaners get it when they text START and tick
+            items off by texting CHECK with the item numbers.
+          </Text>
+        </View>
+
+        {/* Completion rules */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="shield-checkmark" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Before Completion</Text>
+          </View>
+
+          <TouchableOpacity style={styles.toggleRow} onPress={handleToggleRequireCompletion}>
+            <Text style={styles.toggleText}>
+              Require every required item to be ticked before a job can be completed
+            </Text>
+            <Ionicons
+              name={property.require_checklist_completion ? 'checkbox' : 'square-outline'}
+              size={iconSizes.md}
+              color={colors.rausch}
+            />
+          </TouchableOpacity>
+
+          <Input
+            label="Minimum Photos"
+            value={minPhotos}
+            onChangeText={(value) => {
+              setMinPhotos(value);
+              setMinPhotosError(undefined);
+            }}
+            placeholder="0 for none"
+            error={minPhotosError}
+            keyboardType="number-pad"
+          />
+          <Text style={styles.subText}>
+            Cleaners text photos of the finished unit; DONE is refused until this many arrive.
+          </Text>
+
+          {minPhotos !== String(property.min_completion_photos) && (
+            <Button
+              title="Save Minimum"
+              onPress={handleSaveMinPhotos}
+              loading={savingMinPhotos}
+              disabled={savingMinPhotos}
+              variant="primary"
+              size="medium"
+              style={styles.addButton}
+            />
+          )}
+        </Card>
+
+        {/* New item */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="add-circle" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Add Item</Text>
+          </View>
+
+          <View style={styles.chipRow}>
+            {CHECKLIST_CATEGORIES.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, category === option && styles.chipActive]}
+                onPress={() => setCategory(option)}
+              >
+                <Text style={[styles.chipText, category === option && styles.chipTextActive]}>
+                  {CHECKLIST_CATEGORY_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input
+            label="Item"
+            value={label}
+            onChangeText={(value) => {
+              setLabel(value);
+              setLabelError(undefined);
+            }}
+            placeholder={
+              category === 'room'
+                ? 'e.g., Kitchen: wipe counters and run dishwasher'
+                : category === 'restock'
+                  ? 'e.g., Coffee pods (10)'
+                  : 'e.g., Leave the porch light on'
+            }
+            error={labelError}
+          />
+
+          <TouchableOpacity style={styles.toggleRow} onPress={() => setIsMandatory(!isMandatory)}>
+            <Text style={styles.toggleText}>Required</Text>
+            <Ionicons
+              name={isMandatory ? 'checkbox' : 'square-outline'}
+              size={iconSizes.md}
+              color={colors.rausch}
+            />
+          </TouchableOpacity>
+
+          <Button
+            title="Add to Checklist"
+            onPress={handleAddItem}
+            loading={adding}
+            disabled={adding}
+            variant="primary"
+            size="medium"
+            style={styles.addButton}
+          />
+        </Card>
+
+        {items.length === 0 ? (
+          <EmptyState
+            icon={<Ionicons name="checkbox-outline" size={64} color={colors.foggy} />}
+            title="No Checklist Yet"
+            description="Add the rooms to clean, supplies to restock and anything else cleaners should know."
+          />
+        ) : (
+          CHECKLIST_CATEGORIES.map((section) => {
+            const sectionItems = items.filter((item) => item.category === section);
+            if (sectionItems.length === 0) return null;
+
+            return (
+              <Card key={section} style={styles.card}>
+                <Text style={styles.sectionTitle}>{CHECKLIST_CATEGORY_LABELS[section]}</Text>
+
+                {sectionItems.map((item, index) => (
+                  <View key={item.id} style={styles.itemRow}>
+                    <Text style={styles.itemNumber}>{items.indexOf(item) + 1}.</Text>
+                    <View style={styles.itemInfo}>
+                      <Text style={styles.itemLabel}>{item.label}</Text>
+                      <TouchableOpacity
+                        onPress={() => handleToggleMandatory(item)}
+                        disabled={busyItemId !== null}
+                      >
+                        <Text
+                          style={[styles.requiredText, item.is_mandatory && styles.requiredActive]}
+                        >
+                          {item.is_mandatory ? 'Required' : 'Optional'}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                    {index > 0 && (
+                      <TouchableOpacity
+                        onPress={() => handleMoveUp(item)}
+                        disabled={busyItemId !== null}
+                        style={styles.iconButton}
+                        accessibilityLabel="Move up"
+                      >
+                        <Ionicons name="arrow-up" size={iconSizes.sm} color={colors.rausch} />
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity
+                      onPress={() => handleDelete(item)}
+                      disabled={busyItemId !== null}
+                      style={styles.iconButton}
+                      accessibilityLabel="Remove item"
+                    >
+                      <Ionicons name="trash-outline" size={iconSizes.sm} color={colors.error} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </Card>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+  },
+  backButton: {
+    padding: spacing.sm,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  headerSpacer: {
+    width: iconSizes.md + spacing.sm * 2,
+  },
+  propertySection: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.lg,
+    backgroundColor: colors.white,
+    marginBottom: spacing.md,
+  },
+  propertyName: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.hof,
+    marginBottom: spacing.xs,
+  },
+  subText: {
+    fontSize: 14,
+    color: colors.foggy,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+    marginLeft: spacing.sm,
+    flex: 1,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  toggleText: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.hof,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: borderRadius.full,
+  },
+  chipActive: {
+    borderColor: colors.rausch,
+    backgroundColor: colors.rausch,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  chipTextActive: {
+    color: colors.white,
+  },
+  addButton: {
+    marginTop: spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.foggy,
+    textTransform: 'uppercase',
+    marginBottom: spacing.xs,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  itemNumber: {
+    width: 28,
+    fontSize: 15,
+    color: colors.foggy,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemLabel: {
+    fontSize: 15,
+    color: colors.hof,
+  },
+  requiredText: {
+    fontSize: 12,
+    color: colors.foggy,
+    marginTop: 2,
+  },
+  requiredActive: {
+    color: colors.rausch,
+    fontWeight: '600',
+  },
+  iconButton: {
+    padding: spacing.sm,
+  },
+});
@@ -0,0 +1,495 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Button } from '@/components/Button';
+import { Card } from '@/components/Card';
+import { Input } from '@/components/Input';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+
+import { colors, spacing, iconSizes } from '@/constants/theme';
+import type { Property, InventoryItem } from '@/types';
+import { formatRelativeTime, isLowStock, getRestockQuantity } from '@/utils';
+import { getPropertyById } from '@/services/properties.service';
+import {
+  getInventory,
+  createInventoryItem,
+  updateInventoryItem,
+  deleteInventoryItem,
+  restockItems,
+} from '@/services/inventory.service';
+
+export default function PropertyInventoryScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [property, setProperty] = useState<Property | null>(null);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [unit, setUnit] = useState('');
+  const [parLevel, setParLevel] = useState('');
+  const [formErrors, setFormErrors] = useState<{ name?: string; parLevel?: string }>({});
+  const [adding, setAdding] = useState(false);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [editParLevel, setEditParLevel] = useState('');
+  const [editOnHand, setEditOnHand] = useState('');
+  const [editErrors, setEditErrors] = useState<{ parLevel?: string; onHand?: string }>({});
+
+  useEffect(() => {
+    if (id) {
+      loadInventory();
+    }
+  }, [id]);
+
+  const loadInventory = async () => {
+    if (!id) return;
+
+    setError(null);
+
+    const [propertyResult, inventoryResult] = await Promise.all([
+      getPropertyById(id),
+      getInventory(id),
+    ]);
+
+    const fetchError = propertyResult.error || inventoryResult.error;
+    if (fetchError) {
+      setError(fetchError.message);
+      Alert.alert('Error', fetchError.message);
+    } else {
+      setProperty(propertyResult.data);
+      setItems(inventoryResult.data || []);
+    }
+
+    setLoading(false);
+  };
+
+  const handleAddItem = async () => {
+    if (!id) return;
+
+    const par = Number(parLevel);
+    const newErrors: { name?: string; parLevel?: string } = {};
+    if (!name.trim()) {
+      newErrors.name = 'Please name the supply';
+    }
+    if (!parLevel.trim() || !Number.isInteger(par) || par < 1) {
+      newErrors.parLevel = 'Please enter how many to keep on hand';
+    }
+
+    setFormErrors(newErrors);
+    if (newErrors.name || newErrors.parLevel) return;
+
+    setAdding(true);
+
+    const { error: createError } = await createInventoryItem({
+      property_id: id,
+      name,
+      unit,
+      par_level: par,
+    });
+
+    setAdding(false);
+
+    if (createError) {
+      Alert.alert('Error', createError.message);
+    } else {
+      setName('');
+      setUnit('');
+      setParLevel('');
+      loadInventory();
+    }
+  };
+
+  const startEditing = (item: InventoryItem) => {
+    setEditingItemId(item.id);
+    setEditParLevel(String(item.par_level));
+    setEditOnHand(item.on_hand !== null ? String(item.on_hand) : '');
+    setEditErrors({});
+  };
+
+  const handleSaveItem = async (item: InventoryItem) => {
+    const par = Number(editParLevel);
+    const onHand = Number(editOnHand);
+
+    const newErrors: { parLevel?: string; onHand?: string } = {};
+    if (!Number.isInteger(par) || par < 1) {
+      newErrors.parLevel = 'Please enter how many to keep on hand';
+    }
+    if (editOnHand.trim() && (!Number.isInteger(onHand) || onHand < 0)) {
+      newErrors.onHand = 'Please enter a whole number';
+    }
+
+    setEditErrors(newErrors);
+    if (newErrors.parLevel || newErrors.onHand) return;
+
+    setBusyItemId(item.id);
+
+    const { error: updateError } = await updateInventoryItem(item.id, {
+      par_level: par,
+      ...(editOnHand.trim() !== (item.on_hand !== null ? String(item.on_hand) : '')
+        ? { on_hand: editOnHand.trim() ? onHand : null }
+        : {}),
+    });
+
+    setBusyItemId(null);
+
+    if (updateError) {
+      Alert.alert('Error', updateError.message);
+    } else {
+      setEditingItemId(null);
+      loadInventory();
+    }
+  };
+
+  const handleRestock = async (item: InventoryItem) => {
+    setBusyItemId(item.id);
+
+    const { error: restockError } = await restockItems([item]);
+
+    setBusyItemId(null);
+
+    if (restockError) {
+      Alert.alert('Error', restockError.message);
+    } else {
+      loadInventory();
+    }
+  };
+
+  const handleDelete = (item: InventoryItem) => {
+    Alert.alert('Remove Supply', `Stop tracking "${item.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          setBusyItemId(item.id);
+
+          const { error: deleteError } = await deleteInventoryItem(item.id);
+
+          setBusyItemId(null);
+
+          if (deleteError) {
+            Alert.alert('Error', deleteError.message);
+          } else {
+            loadInventory();
+          }
+        },
+      },
+    ]);
+  };
+
+  const describeStock = (item: InventoryItem) => {
+    const parts = [`Par ${item.par_level}${item.unit ? ` ${item.unit}` : ''}`];
+
+    if (item.low_reported_at) {
+      parts.push(`reported low ${formatRelativeTime(item.low_reported_at)}`);
+    } else if (item.on_hand !== null) {
+      parts.push(`${item.on_hand} on hand`);
+    }
+
+    return parts.join(' · ');
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !property) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+        </View>
+        <EmptyState
+          title="Property Not Found"
+          description={error || 'Unable to load property details'}
+          actionLabel="Go Back"
+          onAction={() => router.back()}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <ScrollView style={styles.scrollView}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Supplies</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={styles.propertySection}>
+          <Text style={styles.propertyName}>{property.name}</Text>
+          <Text style={styles.subText}>
+            Set how many of each supply to keep on hand. Cleaners text LOW with what's running out
+            (e.g. LOW coffee, towels) or with the numbers of restock items on their checklist, and
+            it goes on your shopping list.
+          </Text>
+        </View>
+
+        {/* New item */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="add-circle" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Add Supply</Text>
+          </View>
+
+          <Input
+            label="Supply"
+            value={name}
+            onChangeText={(value) => {
+              setName(value);
+              setFormErrors({ ...formErrors, name: undefined });
+            }}
+            placeholder="e.g., Toilet paper"
+            error={formErrors.name}
+            autoCapitalize="sentences"
+          />
+          <View style={styles.inputRow}>
+            <View style={styles.inputColumn}>
+              <Input
+                label="Par Level"
+                value={parLevel}
+                onChangeText={(value) => {
+                  setParLevel(value);
+                  setFormErrors({ ...formErrors, parLevel: undefined });
+                }}
+                placeholder="e.g., 12"
+                error={formErrors.parLevel}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={styles.inputColumn}>
+              <Input
+                label="Unit"
+                value={unit}
+                onChangeText={setUnit}
+                placeholder="e.g., rolls"
+                autoCapitalize="none"
+              />
+            </View>
+          </View>
+
+          <Button
+            title="Add Supply"
+            onPress={handleAddItem}
+            loading={adding}
+            disabled={adding}
+            variant="primary"
+            size="medium"
+            style={styles.addButton}
+          />
+        </Card>
+
+        {items.length === 0 ? (
+          <EmptyState
+            icon={<Ionicons name="basket-outline" size={64} color={colors.foggy} />}
+            title="No Supplies Yet"
+            description="Add the toilet paper, coffee, linens and anything else restocked at each turnover."
+          />
+        ) : (
+          <Card style={styles.card}>
+            {items.map((item) =>
+              editingItemId === item.id ? (
+                <View key={item.id} style={styles.editRow}>
+                  <Text style={styles.itemLabel}>{item.name}</Text>
+                  <View style={styles.inputRow}>
+                    <View style={styles.inputColumn}>
+                      <Input
+                        label="Par Level"
+                        value={editParLevel}
+                        onChangeText={setEditParLevel}
+                        error={editErrors.parLevel}
+                        keyboardType="number-pad"
+                      />
+                    </View>
+                    <View style={styles.inputColumn}>
+                      <Input
+                        label="On Hand"
+                        value={editOnHand}
+                        onChangeText={setEditOnHand}
+                        placeholder="Not counted"
+                        error={editErrors.onHand}
+                        keyboardType="number-pad"
+                      />
+                    </View>
+                  </View>
+                  <View style={styles.inputRow}>
+                    <Button
+                      title="Cancel"
+                      onPress={() => setEditingItemId(null)}
+                      variant="outline"
+                      size="medium"
+                      style={styles.inputColumn}
+                    />
+                    <Button
+                      title="Save"
+                      onPress={() => handleSaveItem(item)}
+                      loading={busyItemId === item.id}
+                      disabled={busyItemId !== null}
+                      variant="primary"
+                      size="medium"
+                      style={styles.inputColumn}
+                    />
+                  </View>
+                </View>
+              ) : (
+                <View key={item.id} style={styles.itemRow}>
+                  <TouchableOpacity
+                    style={styles.itemInfo}
+                    onPress={() => startEditing(item)}
+                    disabled={busyItemId !== null}
+                  >
+                    <Text style={styles.itemLabel}>{item.name}</Text>
+                    <Text style={[styles.stockText, isLowStock(item) && styles.stockLow]}>
+                      {describeStock(item)}
+                    </Text>
+                  </TouchableOpacity>
+                  {isLowStock(item) && (
+                    <TouchableOpacity
+                      onPress={() => handleRestock(item)}
+                      disabled={busyItemId !== null}
+                      style={styles.iconButton}
+                      accessibilityLabel={`Restocked ${getRestockQuantity(item)}`}
+                    >
+                      <Ionicons
+                        name="checkmark-circle-outline"
+                        size={iconSizes.sm}
+                        color={colors.success}
+                      />
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    onPress={() => handleDelete(item)}
+                    disabled={busyItemId !== null}
+                    style={styles.iconButton}
+                    accessibilityLabel="Remove supply"
+                  >
+                    <Ionicons name="trash-outline" size={iconSizes.sm} color={colors.error} />
+                  </TouchableOpacity>
+                </View>
+              )
+            )}
+          </Card>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+  },
+  backButton: {
+    padding: spacing.sm,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  headerSpacer: {
+    width: iconSizes.md + spacing.sm * 2,
+  },
+  propertySection: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.lg,
+    backgroundColor: colors.white,
+    marginBottom: spacing.md,
+  },
+  propertyName: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.hof,
+    marginBottom: spacing.xs,
+  },
+  subText: {
+    fontSize: 14,
+    color: colors.foggy,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+    marginLeft: spacing.sm,
+    flex: 1,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  inputColumn: {
+    flex: 1,
+  },
+  addButton: {
+    marginTop: spacing.sm,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  editRow: {
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemLabel: {
+    fontSize: 15,
+    color: colors.hof,
+  },
+  stockText: {
+    fontSize: 12,
+    color: colors.foggy,
+    marginTop: 2,
+  },
+  stockLow: {
+    color: colors.error,
+    fontWeight: '600',
+  },
+  iconButton: {
+    padding: spacing.sm,
+  },
+});
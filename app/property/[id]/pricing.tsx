@@ -0,0 +1,467 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Button } from '@/components/Button';
+import { Card } from '@/components/Card';
+import { Input } from '@/components/Input';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+
+import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
+import type { PropertyWithCleaners, PropertyCleaner, PayType } from '@/types';
+import { formatCurrency } from '@/utils';
+import { getPropertyWithDetails, updateProperty } from '@/services/properties.service';
+import { updateCleanerPricing } from '@/services/cleaners.service';
+
+interface RateDraft {
+  pay_type: PayType;
+  flat_rate: string;
+  hourly_rate: string;
+  estimated_hours: string;
+}
+
+interface AddOnsDraft {
+  same_day_premium: string;
+  laundry_fee: string;
+  holiday_multiplier: string;
+}
+
+const toText = (value: number | null) => (value === null ? '' : String(value));
+
+/**
+ * Parse an optional amount: blank means not set, undefined means invalid
+ */
+function parseOptionalNumber(value: string): number | null | undefined {
+  if (!value.trim()) return null;
+  const num = Number(value);
+  return Number.isFinite(num) && num >= 0 ? num : undefined;
+}
+
+export default function PropertyPricingScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [property, setProperty] = useState<PropertyWithCleaners | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [addOns, setAddOns] = useState<AddOnsDraft>({
+    same_day_premium: '',
+    laundry_fee: '',
+    holiday_multiplier: '',
+  });
+  const [addOnErrors, setAddOnErrors] = useState<Partial<Record<keyof AddOnsDraft, string>>>({});
+  const [savingAddOns, setSavingAddOns] = useState(false);
+  const [rates, setRates] = useState<Record<string, RateDraft>>({});
+  const [rateErrors, setRateErrors] = useState<Record<string, string | undefined>>({});
+  const [savingCleanerId, setSavingCleanerId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (id) {
+      loadProperty();
+    }
+  }, [id]);
+
+  const loadProperty = async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await getPropertyWithDetails(id);
+
+    if (fetchError) {
+      setError(fetchError.message);
+      Alert.alert('Error', fetchError.message);
+    } else if (data) {
+      setProperty(data);
+      setAddOns({
+        same_day_premium: toText(data.same_day_premium),
+        laundry_fee: toText(data.laundry_fee),
+        holiday_multiplier: toText(data.holiday_multiplier),
+      });
+      setRates(
+        Object.fromEntries(
+          data.cleaners.map((pc) => [
+            pc.cleaner_id,
+            {
+              pay_type: pc.pay_type || 'hourly',
+              flat_rate: toText(pc.flat_rate),
+              hourly_rate: toText(pc.hourly_rate),
+              estimated_hours: toText(pc.estimated_hours),
+            },
+          ])
+        )
+      );
+    }
+
+    setLoading(false);
+  };
+
+  const updateRate = (cleanerId: string, changes: Partial<RateDraft>) => {
+    setRates((current) => ({ ...current, [cleanerId]: { ...current[cleanerId], ...changes } }));
+    setRateErrors((current) => ({ ...current, [cleanerId]: undefined }));
+  };
+
+  const handleSaveAddOns = async () => {
+    if (!id) return;
+
+    const sameDayPremium = parseOptionalNumber(addOns.same_day_premium);
+    const laundryFee = parseOptionalNumber(addOns.laundry_fee);
+    const holidayMultiplier = parseOptionalNumber(addOns.holiday_multiplier);
+
+    const errors: Partial<Record<keyof AddOnsDraft, string>> = {};
+    if (sameDayPremium === undefined) errors.same_day_premium = 'Please enter an amount';
+    if (laundryFee === undefined) errors.laundry_fee = 'Please enter an amount';
+    if (holidayMultiplier === undefined || (holidayMultiplier !== null && holidayMultiplier < 1)) {
+      errors.holiday_multiplier = 'Please enter 1 or more (e.g., 1.5)';
+    }
+
+    if (Object.keys(errors).length > 0) {
+      setAddOnErrors(errors);
+      return;
+    }
+
+    setSavingAddOns(true);
+
+    const { error: updateError } = await updateProperty(id, {
+      same_day_premium: sameDayPremium,
+      laundry_fee: laundryFee,
+      holiday_multiplier: holidayMultiplier,
+    });
+
+    setSavingAddOns(false);
+
+    if (updateError) {
+      Alert.alert('Error', updateError.message);
+    } else {
+      Alert.alert('Saved', 'New jobs will include these add-ons.');
+      loadProperty();
+    }
+  };
+
+  const handleSaveRate = async (pc: PropertyCleaner) => {
+    if (!id) return;
+
+    const draft = rates[pc.cleaner_id];
+    const flatRate = parseOptionalNumber(draft.flat_rate);
+    const hourlyRate = parseOptionalNumber(draft.hourly_rate);
+    const estimatedHours = parseOptionalNumber(draft.estimated_hours);
+
+    if (flatRate === undefined || hourlyRate === undefined || estimatedHours === undefined) {
+      setRateErrors((current) => ({ ...current, [pc.cleaner_id]: 'Please enter valid numbers' }));
+      return;
+    }
+    if (draft.pay_type === 'flat' && flatRate === null) {
+      setRateErrors((current) => ({ ...current, [pc.cleaner_id]: 'Please enter a flat rate' }));
+      return;
+    }
+
+    setSavingCleanerId(pc.cleaner_id);
+
+    const { error: updateError } = await updateCleanerPricing(id, pc.cleaner_id, {
+      pay_type: draft.pay_type,
+      flat_rate: flatRate,
+      hourly_rate: hourlyRate,
+      estimated_hours: estimatedHours,
+    });
+
+    setSavingCleanerId(null);
+
+    if (updateError) {
+      Alert.alert('Error', updateError.message);
+    } else {
+      Alert.alert('Saved', `New jobs for ${pc.cleaner?.name || 'this cleaner'} use this rate.`);
+      loadProperty();
+    }
+  };
+
+  const renderCleanerRate = (pc: PropertyCleaner) => {
+    const draft = rates[pc.cleaner_id];
+    if (!draft) return null;
+
+    const cleanerRate = pc.cleaner?.hourly_rate;
+
+    return (
+      <Card key={pc.id} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Ionicons name="person" size={iconSizes.md} color={colors.rausch} />
+          <Text style={styles.cardTitle}>{pc.cleaner?.name || 'Unknown Cleaner'}</Text>
+        </View>
+
+        <View style={styles.payTypeRow}>
+          {(['flat', 'hourly'] as PayType[]).map((payType) => (
+            <TouchableOpacity
+              key={payType}
+              style={[styles.payTypeChip, draft.pay_type === payType && styles.payTypeChipActive]}
+              onPress={() => updateRate(pc.cleaner_id, { pay_type: payType })}
+            >
+              <Text
+                style={[styles.payTypeText, draft.pay_type === payType && styles.payTypeTextActive]}
+              >
+                {payType === 'flat' ? 'Flat per Turnover' : 'Hourly'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {draft.pay_type === 'flat' ? (
+          <Input
+            label="Flat Rate ($)"
+            value={draft.flat_rate}
+            onChangeText={(value) => updateRate(pc.cleaner_id, { flat_rate: value })}
+            placeholder="e.g., 90"
+            keyboardType="decimal-pad"
+          />
+        ) : (
+          <>
+            <Input
+              label="Hourly Rate ($)"
+              value={draft.hourly_rate}
+              onChangeText={(value) => updateRate(pc.cleaner_id, { hourly_rate: value })}
+              placeholder={
+                cleanerRate ? `${formatCurrency(cleanerRate)} (cleaner's rate)` : 'e.g., 25'
+              }
+              keyboardType="decimal-pad"
+            />
+            <Input
+              label="Estimated Hours"
+              value={draft.estimated_hours}
+              onChangeText={(value) => updateRate(pc.cleaner_id, { estimated_hours: value })}
+              placeholder="e.g., 3"
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.helpText}>
+              Jobs are priced on the estimate until the cleaner reports their hours.
+            </Text>
+          </>
+        )}
+
+        {rateErrors[pc.cleaner_id] && (
+          <Text style={styles.errorText}>{rateErrors[pc.cleaner_id]}</Text>
+        )}
+
+        <Button
+          title="Save Rate"
+          onPress={() => handleSaveRate(pc)}
+          loading={savingCleanerId === pc.cleaner_id}
+          disabled={savingCleanerId !== null}
+          variant="primary"
+          size="medium"
+          style={styles.saveButton}
+        />
+      </Card>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !property) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+        </View>
+        <EmptyState
+          title="Property Not Found"
+          description={error || 'Unable to load property details'}
+          actionLabel="Go Back"
+          onAction={() => router.back()}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <ScrollView style={styles.scrollView}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Pay Rates</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={styles.propertySection}>
+          <Text style={styles.propertyName}>{property.name}</Text>
+          <Text style={styles.subText}>
+            Rates apply to new jobs and are recalculated when a cleaner reports their hours.
+          </Text>
+        </View>
+
+        {/* Add-ons */}
+        <Card style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="add-circle" size={iconSizes.md} color={colors.rausch} />
+            <Text style={styles.cardTitle}>Add-ons</Text>
+          </View>
+
+          <Input
+            label="Same-Day Turnaround Premium ($)"
+            value={addOns.same_day_premium}
+            onChangeText={(value) => {
+              setAddOns((current) => ({ ...current, same_day_premium: value }));
+              setAddOnErrors((current) => ({ ...current, same_day_premium: undefined }));
+            }}
+            placeholder="e.g., 20"
+            error={addOnErrors.same_day_premium}
+            keyboardType="decimal-pad"
+          />
+          <Input
+            label="Laundry Fee ($)"
+            value={addOns.laundry_fee}
+            onChangeText={(value) => {
+              setAddOns((current) => ({ ...current, laundry_fee: value }));
+              setAddOnErrors((current) => ({ ...current, laundry_fee: undefined }));
+            }}
+            placeholder="e.g., 15"
+            error={addOnErrors.laundry_fee}
+            keyboardType="decimal-pad"
+          />
+          <Input
+            label="Holiday Multiplier"
+            value={addOns.holiday_multiplier}
+            onChangeText={(value) => {
+              setAddOns((current) => ({ ...current, holiday_multiplier: value }));
+              setAddOnErrors((current) => ({ ...current, holiday_multiplier: undefined }));
+            }}
+            placeholder="e.g., 1.5"
+            error={addOnErrors.holiday_multiplier}
+            keyboardType="decimal-pad"
+          />
+
+          <Button
+            title="Save Add-ons"
+            onPress={handleSaveAddOns}
+            loading={savingAddOns}
+            disabled={savingAddOns}
+            variant="primary"
+            size="medium"
+            style={styles.saveButton}
+          />
+        </Card>
+
+        {property.cleaners.length === 0 ? (
+          <EmptyState
+            icon={<Ionicons name="people-outline" size={64} color={colors.foggy} />}
+            title="No Cleaners"
+            description="Assign a cleaner to this property to set their rate."
+          />
+        ) : (
+          property.cleaners.map(renderCleanerRate)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+  },
+  backButton: {
+    padding: spacing.sm,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  headerSpacer: {
+    width: iconSizes.md + spacing.sm * 2,
+  },
+  propertySection: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.lg,
+    backgroundColor: colors.white,
+    marginBottom: spacing.md,
+  },
+  propertyName: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.hof,
+    marginBottom: spacing.xs,
+  },
+  subText: {
+    fontSize: 14,
+    color: colors.foggy,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+    marginLeft: spacing.sm,
+    flex: 1,
+  },
+  payTypeRow: {
+    flexDirection: 'row',
+    marginBottom: spacing.md,
+  },
+  payTypeChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: borderRadius.md,
+    marginRight: spacing.sm,
+  },
+  payTypeChipActive: {
+    borderColor: colors.rausch,
+    backgroundColor: colors.rausch,
+  },
+  payTypeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  payTypeTextActive: {
+    color: colors.white,
+  },
+  helpText: {
+    fontSize: 13,
+    color: colors.foggy,
+    marginBottom: spacing.sm,
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.error,
+    marginBottom: spacing.sm,
+  },
+  saveButton: {
+    marginTop: spacing.sm,
+  },
+});
@@ -19,7 +19,15 @@ import { Card } from '@/components/Card';
 
 import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
 import type { PropertyFormData } from '@/types';
-import { validateICalUrl } from '@/utils';
+import {
+  validateICalUrl,
+  validateTimeZone,
+  getDeviceTimeZone,
+  parseTimeOfDay,
+  formatTimeOfDay,
+  DEFAULT_CHECKOUT_TIME,
+  DEFAULT_CHECKIN_TIME,
+} from '@/utils';
 import { createProperty } from '@/services/properties.service';
 import { useAuthStore } from '@/stores/authStore';
 
@@ -31,6 +39,9 @@ export default function AddPropertyScreen() {
     name: '',
     address: '',
     ical_url: '',
+    timezone: getDeviceTimeZone(),
+    default_checkout_time: formatTimeOfDay(DEFAULT_CHECKOUT_TIME),
+    default_checkin_time: formatTimeOfDay(DEFAULT_CHECKIN_TIME),
   });
 
   const [errors, setErrors] = useState<Partial<PropertyFormData>>({});
@@ -58,6 +69,18 @@ export default function AddPropertyScreen() {
       newErrors.ical_url = 'Please enter a valid iCal URL';
     }
 
+    if (!validateTimeZone(formData.timezone)) {
+      newErrors.timezone = 'Please enter a time zone like America/New_York';
+    }
+
+    if (!parseTimeOfDay(formData.default_checkout_time)) {
+      newErrors.default_checkout_time = 'Please enter a time like 11:00 AM';
+    }
+
+    if (!parseTimeOfDay(formData.default_checkin_time)) {
+      newErrors.default_checkin_time = 'Please enter a time like 4:00 PM';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -78,6 +101,9 @@ export default function AddPropertyScreen() {
       name: formData.name.trim(),
       address: formData.address.trim() || undefined,
       ical_url: formData.ical_url.trim(),
+      timezone: formData.timezone.trim(),
+      default_checkout_time: parseTimeOfDay(formData.default_checkout_time)!,
+      default_checkin_time: parseTimeOfDay(formData.default_checkin_time)!,
     });
 
     setLoading(false);
@@ -139,6 +165,36 @@ export default function AddPropertyScreen() {
               testID="property-ical-input"
             />
 
+            <Input
+              label="Time Zone"
+              value={formData.timezone}
+              onChangeText={(value) => handleChange('timezone', value)}
+              placeholder="e.g., Pacific/Honolulu"
+              error={errors.timezone}
+              autoCapitalize="none"
+              testID="property-timezone-input"
+            />
+
+            <Input
+              label="Checkout Time"
+              value={formData.default_checkout_time}
+              onChangeText={(value) => handleChange('default_checkout_time', value)}
+              placeholder="e.g., 11:00 AM"
+              error={errors.default_checkout_time}
+              autoCapitalize="none"
+              testID="property-checkout-time-input"
+            />
+
+            <Input
+              label="Check-in Time"
+              value={formData.default_checkin_time}
+              onChangeText={(value) => handleChange('default_checkin_time', value)}
+              placeholder="e.g., 4:00 PM"
+              error={errors.default_checkin_time}
+              autoCapitalize="none"
+              testID="property-checkin-time-input"
+            />
+
             {/* Help Section */}
             <Card style={styles.helpCard}>
               <TouchableOpacity
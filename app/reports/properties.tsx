@@ -0,0 +1,492 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { format as dateFnsFormat, startOfMonth, subMonths, parseISO } from 'date-fns';
+
+import { Card } from '@/components/Card';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+
+import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
+import type { PropertyAnalytics, PropertyMonthStats } from '@/types';
+import { formatCurrency, formatMinutes } from '@/utils';
+import { getPropertyAnalytics } from '@/services/analytics.service';
+import { useAuthStore } from '@/stores/authStore';
+
+type Metric =
+  | 'total_cost'
+  | 'avg_cost_per_cleaning'
+  | 'same_day_rate'
+  | 'decline_rate'
+  | 'avg_confirmation_minutes';
+
+type StatsTotals = Omit<PropertyMonthStats, 'month'>;
+
+const RANGE_OPTIONS = [3, 6, 12];
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const METRICS: Record<Metric, { label: string; format: (value: number) => string }> = {
+  total_cost: { label: 'Total Cost', format: formatCurrency },
+  avg_cost_per_cleaning: { label: 'Cost per Clean', format: formatCurrency },
+  same_day_rate: { label: 'Same-Day', format: formatPercent },
+  decline_rate: { label: 'Declines', format: formatPercent },
+  avg_confirmation_minutes: { label: 'Time to Confirm', format: formatMinutes },
+};
+
+/**
+ * A metric's value, or null when there's nothing to measure it on
+ */
+function getMetricValue(stats: StatsTotals, metric: Metric): number | null {
+  switch (metric) {
+    case 'total_cost':
+      return stats.total_cost;
+    case 'avg_cost_per_cleaning':
+      return stats.total_cleanings > 0 ? stats.avg_cost_per_cleaning : null;
+    case 'same_day_rate':
+      return stats.total_cleanings > 0 ? stats.same_day_turnarounds / stats.total_cleanings : null;
+    case 'decline_rate':
+      return stats.offers_answered > 0 ? stats.offers_declined / stats.offers_answered : null;
+    case 'avg_confirmation_minutes':
+      return stats.avg_confirmation_minutes;
+  }
+}
+
+export default function PropertyAnalyticsScreen() {
+  const router = useRouter();
+  const user = useAuthStore((state) => state.user);
+
+  const [months, setMonths] = useState(6);
+  const [metric, setMetric] = useState<Metric>('avg_cost_per_cleaning');
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
+  const [analytics, setAnalytics] = useState<PropertyAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadAnalytics();
+    }
+  }, [user, months]);
+
+  const loadAnalytics = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    setError(null);
+
+    const today = new Date();
+    const startDate = dateFnsFormat(startOfMonth(subMonths(today, months - 1)), 'yyyy-MM-dd');
+    const endDate = dateFnsFormat(today, 'yyyy-MM-dd');
+
+    const { data, error: fetchError } = await getPropertyAnalytics(user.id, startDate, endDate);
+
+    if (fetchError) {
+      setError(fetchError.message);
+      Alert.alert('Error', fetchError.message);
+    } else {
+      setAnalytics(data);
+    }
+
+    setLoading(false);
+  };
+
+  const renderSummary = (analyticsData: PropertyAnalytics) => {
+    const { overall } = analyticsData;
+    const tiles = [
+      { label: 'Cleanings', value: String(overall.total_cleanings) },
+      { label: 'Total Cost', value: formatCurrency(overall.total_cost) },
+      {
+        label: 'Cost per Clean',
+        value: overall.total_cleanings > 0 ? formatCurrency(overall.avg_cost_per_cleaning) : '—',
+      },
+      {
+        label: 'Same-Day',
+        value: overall.total_cleanings > 0 ? formatPercent(overall.same_day_rate) : '—',
+      },
+      {
+        label: 'Declines',
+        value: overall.decline_rate !== null ? formatPercent(overall.decline_rate) : '—',
+      },
+      {
+        label: 'Time to Confirm',
+        value:
+          overall.avg_confirmation_minutes !== null
+            ? formatMinutes(overall.avg_confirmation_minutes)
+            : '—',
+      },
+    ];
+
+    return (
+      <Card style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Ionicons name="stats-chart" size={iconSizes.md} color={colors.rausch} />
+          <Text style={styles.cardTitle}>All Properties</Text>
+        </View>
+        <View style={styles.tileGrid}>
+          {tiles.map((tile) => (
+            <View key={tile.label} style={styles.tile}>
+              <Text style={styles.tileValue}>{tile.value}</Text>
+              <Text style={styles.tileLabel}>{tile.label}</Text>
+            </View>
+          ))}
+        </View>
+      </Card>
+    );
+  };
+
+  const renderComparison = (analyticsData: PropertyAnalytics) => {
+    // Rates and averages are pooled across properties; total cost is split evenly
+    const overallValue = getMetricValue(analyticsData.overall, metric);
+    const average =
+      metric === 'total_cost' && overallValue !== null
+        ? overallValue / analyticsData.properties.length
+        : overallValue;
+    const values = analyticsData.properties.map((stats) => getMetricValue(stats, metric));
+    const max = Math.max(0, ...values.map((value) => value ?? 0));
+
+    return (
+      <Card style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Ionicons name="git-compare" size={iconSizes.md} color={colors.rausch} />
+          <Text style={styles.cardTitle}>Compare Properties</Text>
+        </View>
+
+        {analyticsData.properties.map((stats, index) => {
+          const value = values[index];
+          const difference =
+            value !== null && average ? Math.round(((value - average) / average) * 100) : null;
+          const isSelected = selectedPropertyId === stats.property_id;
+
+          return (
+            <TouchableOpacity
+              key={stats.property_id}
+              style={styles.barRow}
+              onPress={() => setSelectedPropertyId(isSelected ? null : stats.property_id)}
+            >
+              <View style={styles.barLabelRow}>
+                <Text style={[styles.barLabel, isSelected && styles.barLabelSelected]}>
+                  {stats.property_name}
+                </Text>
+                <Text style={styles.barValue}>
+                  {value !== null ? METRICS[metric].format(value) : 'No data'}
+                  {difference !== null && difference !== 0 && (
+                    <Text style={styles.barDifference}>
+                      {'  '}
+                      {difference > 0 ? '+' : ''}
+                      {difference}% vs avg
+                    </Text>
+                  )}
+                </Text>
+              </View>
+              <View style={styles.barTrack}>
+                <View
+                  style={[
+                    styles.barFill,
+                    isSelected && styles.barFillSelected,
+                    { width: `${max > 0 && value !== null ? (value / max) * 100 : 0}%` },
+                  ]}
+                />
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+
+        {average !== null && (
+          <Text style={styles.helpText}>
+            Average across properties: {METRICS[metric].format(average)}
+          </Text>
+        )}
+      </Card>
+    );
+  };
+
+  const renderMonthly = (analyticsData: PropertyAnalytics) => {
+    const stats =
+      analyticsData.properties.find((property) => property.property_id === selectedPropertyId) ||
+      analyticsData.overall;
+    const values = stats.monthly.map((month) => getMetricValue(month, metric));
+    const max = Math.max(0, ...values.map((value) => value ?? 0));
+
+    return (
+      <Card style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Ionicons name="calendar" size={iconSizes.md} color={colors.rausch} />
+          <Text style={styles.cardTitle}>By Month</Text>
+        </View>
+        <Text style={styles.helpText}>
+          {stats.property_name} · {METRICS[metric].label}
+        </Text>
+
+        <View style={styles.columnChart}>
+          {stats.monthly.map((month, index) => {
+            const value = values[index];
+            return (
+              <View key={month.month} style={styles.column}>
+                <Text style={styles.columnValue} numberOfLines={1}>
+                  {value !== null ? METRICS[metric].format(value) : '—'}
+                </Text>
+                <View style={styles.columnTrack}>
+                  <View
+                    style={[
+                      styles.columnFill,
+                      { height: `${max > 0 && value !== null ? (value / max) * 100 : 0}%` },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.columnLabel}>
+                  {dateFnsFormat(parseISO(`${month.month}-01`), 'MMM')}
+                </Text>
+                <Text style={styles.columnCount}>{month.total_cleanings}</Text>
+              </View>
+            );
+          })}
+        </View>
+        <Text style={styles.helpText}>Numbers under each month are completed cleanings.</Text>
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <ScrollView style={styles.scrollView}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Property Costs</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {/* Range and metric */}
+        <View style={styles.filterSection}>
+          <View style={styles.chipRow}>
+            {RANGE_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, months === option && styles.chipActive]}
+                onPress={() => setMonths(option)}
+              >
+                <Text style={[styles.chipText, months === option && styles.chipTextActive]}>
+                  {option} Months
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {(Object.keys(METRICS) as Metric[]).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, metric === option && styles.chipActive]}
+                onPress={() => setMetric(option)}
+              >
+                <Text style={[styles.chipText, metric === option && styles.chipTextActive]}>
+                  {METRICS[option].label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+
+        {loading ? (
+          <LoadingSpinner />
+        ) : error || !analytics ? (
+          <EmptyState
+            title="Report Unavailable"
+            description={error || 'Unable to load the report'}
+            actionLabel="Try Again"
+            onAction={loadAnalytics}
+          />
+        ) : analytics.properties.length === 0 ? (
+          <EmptyState
+            icon={<Ionicons name="home-outline" size={64} color={colors.foggy} />}
+            title="No Properties"
+            description="Add a property to start tracking cleaning costs."
+          />
+        ) : (
+          <>
+            {renderSummary(analytics)}
+            {renderComparison(analytics)}
+            {renderMonthly(analytics)}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+  },
+  backButton: {
+    padding: spacing.sm,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  headerSpacer: {
+    width: iconSizes.md + spacing.sm * 2,
+  },
+  filterSection: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    marginBottom: spacing.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginBottom: spacing.sm,
+  },
+  chip: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: borderRadius.md,
+    marginRight: spacing.sm,
+  },
+  chipActive: {
+    borderColor: colors.rausch,
+    backgroundColor: colors.rausch,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  chipTextActive: {
+    color: colors.white,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+    marginLeft: spacing.sm,
+    flex: 1,
+  },
+  helpText: {
+    fontSize: 13,
+    color: colors.foggy,
+    marginTop: spacing.sm,
+  },
+  tileGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  tile: {
+    width: '33.33%',
+    paddingVertical: spacing.sm,
+  },
+  tileValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.hof,
+  },
+  tileLabel: {
+    fontSize: 12,
+    color: colors.foggy,
+    marginTop: 2,
+  },
+  barRow: {
+    marginBottom: spacing.md,
+  },
+  barLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs,
+  },
+  barLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.hof,
+    flex: 1,
+  },
+  barLabelSelected: {
+    color: colors.rausch,
+  },
+  barValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  barDifference: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: colors.foggy,
+  },
+  barTrack: {
+    height: 8,
+    borderRadius: borderRadius.xs,
+    backgroundColor: colors.backgroundSecondary,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: borderRadius.xs,
+    backgroundColor: colors.foggy,
+  },
+  barFillSelected: {
+    backgroundColor: colors.rausch,
+  },
+  columnChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    marginTop: spacing.md,
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  columnValue: {
+    fontSize: 10,
+    color: colors.foggy,
+    marginBottom: spacing.xs,
+  },
+  columnTrack: {
+    width: 20,
+    height: 120,
+    justifyContent: 'flex-end',
+  },
+  columnFill: {
+    width: '100%',
+    borderTopLeftRadius: borderRadius.xs,
+    borderTopRightRadius: borderRadius.xs,
+    backgroundColor: colors.rausch,
+  },
+  columnLabel: {
+    fontSize: 12,
+    color: colors.hof,
+    marginTop: spacing.xs,
+  },
+  columnCount: {
+    fontSize: 11,
+    color: colors.foggy,
+  },
+});
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Card } from '@/components/Card';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+
+import { colors, spacing, iconSizes } from '@/constants/theme';
+import type { ShoppingListEntry, InventoryItemWithProperty } from '@/types';
+import { formatRelativeTime } from '@/utils';
+import { getShoppingList, restockItems } from '@/services/inventory.service';
+import { useAuthStore } from '@/stores/authStore';
+
+type ShoppingList = ShoppingListEntry<InventoryItemWithProperty>[];
+
+export default function ShoppingListScreen() {
+  const router = useRouter();
+  const user = useAuthStore((state) => state.user);
+
+  const [entries, setEntries] = useState<ShoppingList | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadShoppingList();
+    }
+  }, [user]);
+
+  const loadShoppingList = async () => {
+    if (!user) return;
+
+    setError(null);
+
+    const { data, error: fetchError } = await getShoppingList(user.id);
+
+    if (fetchError) {
+      setError(fetchError.message);
+      Alert.alert('Error', fetchError.message);
+    } else {
+      setEntries(data);
+    }
+
+    setLoading(false);
+  };
+
+  const handleBought = async (key: string, items: InventoryItemWithProperty[]) => {
+    setBusyKey(key);
+
+    const { error: restockError } = await restockItems(items);
+
+    setBusyKey(null);
+
+    if (restockError) {
+      Alert.alert('Error', restockError.message);
+    } else {
+      loadShoppingList();
+    }
+  };
+
+  const formatQuantity = (quantity: number, unit: string | null) =>
+    unit ? `${quantity} ${unit}` : String(quantity);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <ScrollView style={styles.scrollView}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Shopping List</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {loading ? (
+          <LoadingSpinner />
+        ) : error || !entries ? (
+          <EmptyState
+            title="Shopping List Unavailable"
+            description={error || 'Unable to load the shopping list'}
+            actionLabel="Try Again"
+            onAction={loadShoppingList}
+          />
+        ) : entries.length === 0 ? (
+          <EmptyState
+            icon={<Ionicons name="basket-outline" size={64} color={colors.foggy} />}
+            title="Nothing to Buy"
+            description="Supplies show up here when a cleaner texts LOW or a count drops under par."
+          />
+        ) : (
+          <>
+            <Text style={styles.helpText}>
+              Quantities bring each property back to its par level. Tick an item once it's bought
+              and restocked.
+            </Text>
+
+            {entries.map((entry) => {
+              const key = `${entry.name}|${entry.unit || ''}`;
+
+              return (
+                <Card key={key} style={styles.card}>
+                  <View style={styles.entryHeader}>
+                    <View style={styles.entryInfo}>
+                      <Text style={styles.entryName}>{entry.name}</Text>
+                      <Text style={styles.entryQuantity}>
+                        {formatQuantity(entry.quantity, entry.unit)}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => handleBought(key, entry.items.map(({ item }) => item))}
+                      disabled={busyKey !== null}
+                      style={styles.iconButton}
+                      accessibilityLabel={`Mark ${entry.name} bought`}
+                    >
+                      <Ionicons
+                        name={busyKey === key ? 'ellipsis-horizontal' : 'checkmark-circle-outline'}
+                        size={iconSizes.md}
+                        color={colors.success}
+                      />
+                    </TouchableOpacity>
+                  </View>
+
+                  {entry.items.map(({ item, quantity }) => (
+                    <TouchableOpacity
+                      key={item.id}
+                      style={styles.propertyRow}
+                      onPress={() => router.push(`/property/${item.property.id}/inventory`)}
+                    >
+                      <Text style={styles.propertyName}>{item.property.name}</Text>
+                      <Text style={styles.propertyDetail}>
+                        {formatQuantity(quantity, item.unit)}
+                        {item.low_reported_at
+                          ? ` · reported ${formatRelativeTime(item.low_reported_at)}`
+                          : ''}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </Card>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    marginBottom: spacing.md,
+  },
+  backButton: {
+    padding: spacing.sm,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  headerSpacer: {
+    width: iconSizes.md + spacing.sm * 2,
+  },
+  helpText: {
+    fontSize: 13,
+    color: colors.foggy,
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryName: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  entryQuantity: {
+    fontSize: 14,
+    color: colors.rausch,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: spacing.sm,
+  },
+  propertyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    marginTop: spacing.sm,
+  },
+  propertyName: {
+    fontSize: 14,
+    color: colors.hof,
+  },
+  propertyDetail: {
+    fontSize: 13,
+    color: colors.foggy,
+  },
+});
@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Card } from '@/components/Card';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+
+import { colors, spacing, borderRadius, iconSizes } from '@/constants/theme';
+import type { YearEndReport, YearEndCleanerTotal } from '@/types';
+import { formatCurrency, formatPhone } from '@/utils';
+import { getYearEndReport } from '@/services/statements.service';
+import { useAuthStore } from '@/stores/authStore';
+
+export default function YearEndReportScreen() {
+  const router = useRouter();
+  const user = useAuthStore((state) => state.user);
+
+  // Default to last year once January comes around, when 1099s are due
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(new Date().getMonth() === 0 ? currentYear - 1 : currentYear);
+  const [report, setReport] = useState<YearEndReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadReport();
+    }
+  }, [user, year]);
+
+  const loadReport = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await getYearEndReport(user.id, year);
+
+    if (fetchError) {
+      setError(fetchError.message);
+      Alert.alert('Error', fetchError.message);
+    } else {
+      setReport(data);
+    }
+
+    setLoading(false);
+  };
+
+  const renderCleaner = (row: YearEndCleanerTotal) => (
+    <TouchableOpacity
+      key={row.cleaner_id}
+      style={styles.cleanerRow}
+      onPress={() =>
+        router.push(`/cleaner/${row.cleaner_id}/statement?start=${year}-01-01&end=${year}-12-31`)
+      }
+    >
+      <View style={styles.cleanerInfo}>
+        <Text style={styles.cleanerName}>{row.cleaner_name}</Text>
+        <Text style={styles.cleanerMeta}>
+          {formatPhone(row.cleaner_phone)} · {row.job_count} paid job
+          {row.job_count === 1 ? '' : 's'}
+        </Text>
+      </View>
+      <View style={styles.cleanerTotal}>
+        <Text style={styles.totalAmount}>{formatCurrency(row.total_paid)}</Text>
+        {row.requires_1099 && (
+          <View style={styles.flagBadge}>
+            <Text style={styles.flagText}>1099-NEC</Text>
+          </View>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
+  const flaggedCount = report?.cleaners.filter((row) => row.requires_1099).length || 0;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <ScrollView style={styles.scrollView}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Year-End Report</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {/* Year picker */}
+        <View style={styles.yearSection}>
+          <TouchableOpacity onPress={() => setYear(year - 1)} style={styles.yearButton}>
+            <Ionicons name="chevron-back" size={iconSizes.md} color={colors.hof} />
+          </TouchableOpacity>
+          <Text style={styles.yearText}>{year}</Text>
+          <TouchableOpacity
+            onPress={() => setYear(year + 1)}
+            style={styles.yearButton}
+            disabled={year >= currentYear}
+          >
+            <Ionicons
+              name="chevron-forward"
+              size={iconSizes.md}
+              color={year >= currentYear ? colors.border : colors.hof}
+            />
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <LoadingSpinner />
+        ) : error || !report ? (
+          <EmptyState
+            title="Report Unavailable"
+            description={error || 'Unable to load the report'}
+            actionLabel="Try Again"
+            onAction={loadReport}
+          />
+        ) : report.cleaners.length === 0 ? (
+          <EmptyState
+            icon={<Ionicons name="people-outline" size={64} color={colors.foggy} />}
+            title="No Cleaners"
+            description="Add cleaners to see what you paid them."
+          />
+        ) : (
+          <>
+            <Card style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Ionicons name="document-text" size={iconSizes.md} color={colors.rausch} />
+                <Text style={styles.cardTitle}>Paid in {year}</Text>
+                <Text style={styles.totalAmount}>{formatCurrency(report.total_paid)}</Text>
+              </View>
+              <Text style={styles.helpText}>
+                {flaggedCount === 0
+                  ? `No cleaner was paid ${formatCurrency(report.threshold)} or more.`
+                  : `${flaggedCount} cleaner${flaggedCount === 1 ? ' was' : 's were'} paid ${formatCurrency(report.threshold)} or more and may need a 1099-NEC.`}{' '}
+                Totals go by the date each job was paid.
+              </Text>
+            </Card>
+
+            <Card style={styles.card}>{report.cleaners.map(renderCleaner)}</Card>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.backgroundSecondary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+  },
+  backButton: {
+    padding: spacing.sm,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+  },
+  headerSpacer: {
+    width: iconSizes.md + spacing.sm * 2,
+  },
+  yearSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    marginBottom: spacing.md,
+  },
+  yearButton: {
+    padding: spacing.sm,
+  },
+  yearText: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.hof,
+    marginHorizontal: spacing.lg,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.hof,
+    marginLeft: spacing.sm,
+    flex: 1,
+  },
+  helpText: {
+    fontSize: 13,
+    color: colors.foggy,
+  },
+  cleanerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  cleanerInfo: {
+    flex: 1,
+  },
+  cleanerName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.hof,
+  },
+  cleanerMeta: {
+    fontSize: 13,
+    color: colors.foggy,
+    marginTop: 2,
+  },
+  cleanerTotal: {
+    alignItems: 'flex-end',
+  },
+  totalAmount: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.hof,
+  },
+  flagBadge: {
+    marginTop: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.rausch,
+  },
+  flagText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.white,
+  },
+});
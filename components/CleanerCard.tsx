@@ -1,12 +1,15 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { Cleaner } from '../types';
+import { Cleaner, ReliabilityProfile } from '../types';
 import { colors, spacing, borderRadius } from '../constants/theme';
 import { Card } from './Card';
 import { StatusBadge } from './StatusBadge';
+import { ReliabilityBadge } from './ReliabilityBadge';
 
 export interface CleanerCardProps {
   cleaner: Cleaner;
+  /** Shown as a badge when given */
+  reliability?: ReliabilityProfile | null;
   onPress?: () => void;
   onEdit?: () => void;
   onDeactivate?: () => void;
@@ -15,6 +18,7 @@ export interface CleanerCardProps {
 
 export const CleanerCard: React.FC<CleanerCardProps> = ({
   cleaner,
+  reliability,
   onPress,
   onEdit,
   onDeactivate,
@@ -60,7 +64,12 @@ export const CleanerCard: React.FC<CleanerCardProps> = ({
           </View>
 
           <Text style={styles.phone}>{formatPhone(cleaner.phone)}</Text>
-          <Text style={styles.rate}>{formatRate(cleaner.hourly_rate)}</Text>
+          <View style={styles.rateRow}>
+            <Text style={styles.rate}>{formatRate(cleaner.hourly_rate)}</Text>
+            {reliability !== undefined && (
+              <ReliabilityBadge reliability={reliability} size="small" />
+            )}
+          </View>
 
           {(onEdit || onDeactivate) && (
             <View style={styles.actions}>
@@ -135,6 +144,11 @@ const styles = StyleSheet.create({
     color: colors.foggy,
     marginBottom: spacing.xs,
   },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
   rate: {
     fontSize: 14,
     color: colors.hof,
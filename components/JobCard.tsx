@@ -2,6 +2,8 @@ import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { CleaningJob, Property, Cleaner } from '../types';
 import { colors, spacing } from '../constants/theme';
+import { formatDate } from '../utils/formatting';
+import { getCleaningWindow, formatCleaningWindow } from '../utils/cleaning-window';
 import { Card } from './Card';
 import { StatusBadge } from './StatusBadge';
 
@@ -15,23 +17,9 @@ export interface JobCardProps {
 }
 
 export const JobCard: React.FC<JobCardProps> = ({ job, onPress, testID }) => {
-  const formatDate = (dateString: string): string => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
-      weekday: 'short',
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-    });
-  };
-
-  const formatTime = (dateString: string): string => {
-    const date = new Date(dateString);
-    return date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-    });
-  };
+  // Job dates are calendar days; timestamps are shown in the property's time zone
+  const timeZone = job.property?.timezone;
+  const cleaningWindow = getCleaningWindow(job, job.property);
 
   return (
     <Card onPress={onPress} testID={testID}>
@@ -54,16 +42,21 @@ export const JobCard: React.FC<JobCardProps> = ({ job, onPress, testID }) => {
           <View style={styles.details}>
             <View style={styles.detailRow}>
               <Text style={styles.label}>Checkout:</Text>
-              <Text style={styles.value}>{formatDate(job.checkout_date)}</Text>
+              <Text style={styles.value}>{formatDate(job.checkout_date, 'EEE, MMM d, yyyy')}</Text>
             </View>
 
             {job.checkin_date && (
               <View style={styles.detailRow}>
                 <Text style={styles.label}>Check-in:</Text>
-                <Text style={styles.value}>{formatDate(job.checkin_date)}</Text>
+                <Text style={styles.value}>{formatDate(job.checkin_date, 'EEE, MMM d, yyyy')}</Text>
               </View>
             )}
 
+            <View style={styles.detailRow}>
+              <Text style={styles.label}>Window:</Text>
+              <Text style={styles.value}>{formatCleaningWindow(cleaningWindow)}</Text>
+            </View>
+
             <View style={styles.detailRow}>
               <Text style={styles.label}>Cleaner:</Text>
               <Text style={styles.value}>
@@ -96,7 +89,7 @@ export const JobCard: React.FC<JobCardProps> = ({ job, onPress, testID }) => {
 
           {job.confirmed_at && (
             <Text style={styles.confirmedText}>
-              Confirmed {formatTime(job.confirmed_at)}
+              Confirmed {formatDate(job.confirmed_at, 'h:mm a', timeZone)}
             </Text>
           )}
         </View>
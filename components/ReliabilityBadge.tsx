@@ -0,0 +1,79 @@
+import React from 'react';
+import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import { colors, spacing, borderRadius } from '../constants/theme';
+import type { ReliabilityProfile } from '../types';
+import type { BadgeSize } from './StatusBadge';
+
+export interface ReliabilityBadgeProps {
+  reliability: ReliabilityProfile | null | undefined;
+  size?: BadgeSize;
+  style?: ViewStyle;
+  testID?: string;
+}
+
+export const ReliabilityBadge: React.FC<ReliabilityBadgeProps> = ({
+  reliability,
+  size = 'medium',
+  style,
+  testID,
+}) => {
+  const score = reliability?.score ?? null;
+
+  const getScoreColor = (): string => {
+    if (score === null) return colors.foggy;
+    if (score >= 80) return colors.success;
+    if (score >= 60) return colors.warning;
+    return colors.error;
+  };
+
+  const label = score === null ? 'New' : `${score} reliability`;
+  const badgeColor = getScoreColor();
+
+  return (
+    <View
+      style={[
+        styles.badge,
+        size === 'small' && styles.badgeSmall,
+        { backgroundColor: `${badgeColor}20` },
+        style,
+      ]}
+      accessibilityLabel={
+        score === null ? 'Not enough history to score reliability' : `Reliability score ${score}`
+      }
+      accessibilityRole="text"
+      testID={testID}
+    >
+      <Text
+        style={[
+          styles.text,
+          size === 'small' && styles.textSmall,
+          { color: badgeColor },
+        ]}
+      >
+        {label}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.full,
+    alignSelf: 'flex-start',
+  },
+  badgeSmall: {
+    paddingVertical: 2,
+    paddingHorizontal: spacing.sm,
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: '600',
+    lineHeight: 16,
+  },
+  textSmall: {
+    fontSize: 10,
+    lineHeight: 14,
+  },
+});
@@ -0,0 +1,81 @@
+import React from 'react';
+import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import { colors, spacing, borderRadius } from '../constants/theme';
+import type { MaintenanceSeverity } from '../types';
+import { MAINTENANCE_SEVERITY_LABELS } from '../utils/maintenance';
+import type { BadgeSize } from './StatusBadge';
+
+export interface SeverityBadgeProps {
+  severity: MaintenanceSeverity;
+  size?: BadgeSize;
+  style?: ViewStyle;
+  testID?: string;
+}
+
+export const SeverityBadge: React.FC<SeverityBadgeProps> = ({
+  severity,
+  size = 'medium',
+  style,
+  testID,
+}) => {
+  const getSeverityColor = (): string => {
+    switch (severity) {
+      case 'urgent':
+        return colors.error;
+      case 'high':
+        return colors.rausch;
+      case 'medium':
+        return colors.warning;
+      default:
+        return colors.foggy;
+    }
+  };
+
+  const badgeColor = getSeverityColor();
+
+  return (
+    <View
+      style={[
+        styles.badge,
+        size === 'small' && styles.badgeSmall,
+        { backgroundColor: `${badgeColor}20` },
+        style,
+      ]}
+      accessibilityLabel={`${MAINTENANCE_SEVERITY_LABELS[severity]} severity`}
+      accessibilityRole="text"
+      testID={testID}
+    >
+      <Text
+        style={[
+          styles.text,
+          size === 'small' && styles.textSmall,
+          { color: badgeColor },
+        ]}
+      >
+        {MAINTENANCE_SEVERITY_LABELS[severity]}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.full,
+    alignSelf: 'flex-start',
+  },
+  badgeSmall: {
+    paddingVertical: 2,
+    paddingHorizontal: spacing.sm,
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: '600',
+    lineHeight: 16,
+  },
+  textSmall: {
+    fontSize: 10,
+    lineHeight: 14,
+  },
+});
@@ -1,14 +1,10 @@
 import React from 'react';
 import { View, Text, StyleSheet, ViewStyle } from 'react-native';
 import { colors, spacing, borderRadius } from '../constants/theme';
+import { JOB_STATUS_LABELS } from '../utils/job-status';
+import type { JobStatus } from '../types';
 
-export type StatusType =
-  | 'pending'
-  | 'confirmed'
-  | 'completed'
-  | 'cancelled'
-  | 'active'
-  | 'inactive';
+export type StatusType = JobStatus | 'active' | 'inactive';
 
 export type BadgeSize = 'small' | 'medium';
 
@@ -27,12 +23,22 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({
 }) => {
   const getStatusColor = (): string => {
     switch (status) {
+      case 'unassigned':
+        return colors.unassigned;
       case 'pending':
         return colors.pending;
+      case 'offered':
+        return colors.offered;
+      case 'declined':
+        return colors.declined;
       case 'confirmed':
         return colors.confirmed;
+      case 'in_progress':
+        return colors.inProgress;
       case 'completed':
         return colors.completed;
+      case 'needs_review':
+        return colors.needsReview;
       case 'cancelled':
         return colors.cancelled;
       case 'active':
@@ -45,6 +51,9 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({
   };
 
   const getStatusLabel = (): string => {
+    if (status in JOB_STATUS_LABELS) {
+      return JOB_STATUS_LABELS[status as JobStatus];
+    }
     return status.charAt(0).toUpperCase() + status.slice(1);
   };
 
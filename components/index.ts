@@ -14,6 +14,12 @@ export type { InputProps } from './Input';
 export { StatusBadge } from './StatusBadge';
 export type { StatusBadgeProps, StatusType, BadgeSize } from './StatusBadge';
 
+export { ReliabilityBadge } from './ReliabilityBadge';
+export type { ReliabilityBadgeProps } from './ReliabilityBadge';
+
+export { SeverityBadge } from './SeverityBadge';
+export type { SeverityBadgeProps } from './SeverityBadge';
+
 export { EmptyState } from './EmptyState';
 export type { EmptyStateProps } from './EmptyState';
 
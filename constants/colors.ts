@@ -24,9 +24,14 @@ export const colors = {
   info: '#008489',
 
   // Semantic colors
+  unassigned: '#767676',
   pending: '#FFB400',
+  offered: '#FC642D', // Arches orange - waiting on the cleaner
+  declined: '#C13515',
   confirmed: '#00A699',
+  inProgress: '#428BFF',
   completed: '#008489',
+  needsReview: '#914669',
   cancelled: '#D93900',
 
   // Borders and dividers
@@ -0,0 +1,104 @@
+/**
+ * Analytics Service
+ *
+ * Reports on what each property costs to clean and how reliably its
+ * cleanings get staffed, month by month.
+ */
+
+import { supabase } from './supabase';
+import { buildPropertyAnalytics, type AnalyticsOffer } from '../utils/analytics';
+import type { PropertyAnalytics, ApiError } from '../types';
+
+interface ServiceResponse<T> {
+  data: T | null;
+  error: ApiError | null;
+}
+
+/**
+ * Get per-property stats for jobs checking out in a date range
+ *
+ * @param userId - The host's user ID
+ * @param startDate - First checkout date to include (YYYY-MM-DD)
+ * @param endDate - Last checkout date to include (YYYY-MM-DD)
+ * @returns Promise with the analytics or error
+ */
+export async function getPropertyAnalytics(
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<ServiceResponse<PropertyAnalytics>> {
+  try {
+    const { data: properties, error: propertiesError } = await supabase
+      .from('properties')
+      .select('id, name')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (propertiesError) {
+      return {
+        data: null,
+        error: {
+          message: propertiesError.message,
+          code: propertiesError.code,
+          details: propertiesError.details,
+        },
+      };
+    }
+
+    const propertyIds = (properties || []).map((property) => property.id);
+
+    if (propertyIds.length === 0) {
+      return { data: buildPropertyAnalytics([], [], [], startDate, endDate), error: null };
+    }
+
+    const [jobsResult, offersResult] = await Promise.all([
+      supabase
+        .from('cleaning_jobs')
+        .select(
+          'property_id, checkout_date, status, is_same_day_turnaround, amount_owed, sms_sent_at, confirmed_at'
+        )
+        .in('property_id', propertyIds)
+        .gte('checkout_date', startDate)
+        .lte('checkout_date', endDate),
+      supabase
+        .from('job_offers')
+        .select(`
+          response,
+          cleaning_job:cleaning_jobs!inner(property_id, checkout_date)
+        `)
+        .in('cleaning_job.property_id', propertyIds)
+        .gte('cleaning_job.checkout_date', startDate)
+        .lte('cleaning_job.checkout_date', endDate),
+    ]);
+
+    const error = jobsResult.error || offersResult.error;
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return {
+      data: buildPropertyAnalytics(
+        properties || [],
+        jobsResult.data || [],
+        (offersResult.data || []) as unknown as AnalyticsOffer[],
+        startDate,
+        endDate
+      ),
+      error: null,
+    };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
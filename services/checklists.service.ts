@@ -0,0 +1,350 @@
+/**
+ * Checklists Service
+ *
+ * Manages each property's checklist template and the copies of it that
+ * cleaning jobs are worked from.
+ */
+
+import { supabase } from './supabase';
+import type {
+  ChecklistTemplateItem,
+  JobChecklistItem,
+  CreateChecklistItemInput,
+  UpdateChecklistItemInput,
+  ApiError,
+} from '../types';
+import { copyChecklistTemplate, sortChecklist } from '../utils/checklists';
+
+interface ServiceResponse<T> {
+  data: T | null;
+  error: ApiError | null;
+}
+
+/**
+ * Get a property's checklist template in order
+ *
+ * @param propertyId - The property ID
+ * @returns Promise with template items or error
+ */
+export async function getChecklistTemplate(
+  propertyId: string
+): Promise<ServiceResponse<ChecklistTemplateItem[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('checklist_items')
+      .select('*')
+      .eq('property_id', propertyId);
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: sortChecklist((data || []) as ChecklistTemplateItem[]), error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Add an item to the end of a property's checklist template
+ *
+ * @param itemData - The item to add
+ * @returns Promise with created item or error
+ */
+export async function createChecklistItem(
+  itemData: CreateChecklistItemInput
+): Promise<ServiceResponse<ChecklistTemplateItem>> {
+  try {
+    if (!itemData.label.trim()) {
+      return {
+        data: null,
+        error: {
+          message: 'Please describe the checklist item',
+          code: 'VALIDATION_ERROR',
+        },
+      };
+    }
+
+    const { data: last } = await supabase
+      .from('checklist_items')
+      .select('position')
+      .eq('property_id', itemData.property_id)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('checklist_items')
+      .insert({
+        property_id: itemData.property_id,
+        label: itemData.label.trim(),
+        category: itemData.category,
+        is_mandatory: itemData.is_mandatory ?? false,
+        position: last ? last.position + 1 : 0,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: data as ChecklistTemplateItem, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Update a checklist template item
+ *
+ * Jobs that already have their checklist keep their copy.
+ *
+ * @param id - The template item ID
+ * @param itemData - The fields to change
+ * @returns Promise with updated item or error
+ */
+export async function updateChecklistItem(
+  id: string,
+  itemData: UpdateChecklistItemInput
+): Promise<ServiceResponse<ChecklistTemplateItem>> {
+  try {
+    const updateData: Record<string, any> = {};
+
+    if (itemData.label !== undefined) {
+      if (!itemData.label.trim()) {
+        return {
+          data: null,
+          error: {
+            message: 'Please describe the checklist item',
+            code: 'VALIDATION_ERROR',
+          },
+        };
+      }
+      updateData.label = itemData.label.trim();
+    }
+    if (itemData.category !== undefined) {
+      updateData.category = itemData.category;
+    }
+    if (itemData.is_mandatory !== undefined) {
+      updateData.is_mandatory = itemData.is_mandatory;
+    }
+
+    const { data, error } = await supabase
+      .from('checklist_items')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: data as ChecklistTemplateItem, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Remove an item from a property's checklist template
+ *
+ * @param id - The template item ID
+ * @returns Promise with success status or error
+ */
+export async function deleteChecklistItem(
+  id: string
+): Promise<ServiceResponse<{ success: boolean }>> {
+  try {
+    const { error } = await supabase.from('checklist_items').delete().eq('id', id);
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: { success: true }, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Set the order of a property's checklist template
+ *
+ * @param itemIds - The template's item IDs, first item first
+ * @returns Promise with success status or error
+ */
+export async function updateChecklistOrder(
+  itemIds: string[]
+): Promise<ServiceResponse<{ success: boolean }>> {
+  try {
+    const results = await Promise.all(
+      itemIds.map((itemId, index) =>
+        supabase.from('checklist_items').update({ position: index }).eq('id', itemId)
+      )
+    );
+
+    const failed = results.find((result) => result.error);
+    if (failed?.error) {
+      return {
+        data: null,
+        error: {
+          message: failed.error.message,
+          code: failed.error.code,
+          details: failed.error.details,
+        },
+      };
+    }
+
+    return { data: { success: true }, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Give a job its own copy of its property's checklist template
+ *
+ * Jobs get a copy when they're created; this also covers jobs created before
+ * the property had a checklist.
+ *
+ * @param jobId - The job ID
+ * @param propertyId - The job's property ID
+ * @returns Promise with the job's checklist or error
+ */
+export async function copyChecklistToJob(
+  jobId: string,
+  propertyId: string
+): Promise<ServiceResponse<JobChecklistItem[]>> {
+  try {
+    const { data: template, error: templateError } = await getChecklistTemplate(propertyId);
+
+    if (templateError) {
+      return { data: null, error: templateError };
+    }
+
+    if (!template || template.length === 0) {
+      return { data: [], error: null };
+    }
+
+    const { data, error } = await supabase
+      .from('job_checklist_items')
+      .insert(copyChecklistTemplate(template, jobId))
+      .select();
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: sortChecklist((data || []) as JobChecklistItem[]), error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Tick a job's checklist item off, or untick it
+ *
+ * @param id - The job checklist item ID
+ * @param completed - Whether the item is done
+ * @returns Promise with updated item or error
+ */
+export async function setChecklistItemCompleted(
+  id: string,
+  completed: boolean
+): Promise<ServiceResponse<JobChecklistItem>> {
+  try {
+    const { data, error } = await supabase
+      .from('job_checklist_items')
+      .update({ completed_at: completed ? new Date().toISOString() : null })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: data as JobChecklistItem, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
@@ -2,16 +2,23 @@
  * Cleaners Service
  *
  * Handles all CRUD operations and business logic for cleaner management
- * including property assignments and payment statistics.
+ * including property assignments, payment statistics and Stripe payouts.
  */
 
 import { supabase } from './supabase';
+import { getCleaningWindow } from '../utils/cleaning-window';
+import { calculateReliability, RELIABILITY_LOOKBACK_DAYS } from '../utils/reliability';
 import type {
   Cleaner,
   CreateCleanerInput,
   UpdateCleanerInput,
   CleanerWithStats,
+  CleanerPayoutOnboarding,
+  CleanerPayoutResult,
+  UpdateCleanerPricingInput,
+  PropertyCleaner,
   Property,
+  ReliabilityProfile,
   ApiError,
 } from '../types';
 
@@ -20,6 +27,77 @@ interface ServiceResponse<T> {
   error: ApiError | null;
 }
 
+/**
+ * Score cleaners on the last year of their jobs, offers and texts
+ * Mirrors the edge functions' cleaner-reliability loader
+ */
+async function loadReliability(
+  cleaners: Pick<Cleaner, 'id' | 'phone'>[]
+): Promise<Record<string, ReliabilityProfile>> {
+  const profiles: Record<string, ReliabilityProfile> = {};
+  if (cleaners.length === 0) return profiles;
+
+  const since = new Date(Date.now() - RELIABILITY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const cleanerIds = cleaners.map((cleaner) => cleaner.id);
+
+  const [jobsResult, offersResult, smsResult] = await Promise.all([
+    supabase
+      .from('cleaning_jobs')
+      .select(`
+        cleaner_id,
+        status,
+        checkout_date,
+        checkin_date,
+        checkout_time,
+        checkin_time,
+        confirmed_at,
+        completed_at,
+        property:properties(timezone, default_checkout_time, default_checkin_time)
+      `)
+      .in('cleaner_id', cleanerIds)
+      .gte('checkout_date', since.toISOString().slice(0, 10)),
+    supabase
+      .from('job_offers')
+      .select('cleaner_id, response')
+      .in('cleaner_id', cleanerIds)
+      .gte('offered_at', since.toISOString()),
+    supabase
+      .from('sms_logs')
+      .select('phone, cleaning_job_id, direction, created_at')
+      .in('phone', cleaners.map((cleaner) => cleaner.phone))
+      .gte('created_at', since.toISOString()),
+  ]);
+
+  const queryError = jobsResult.error || offersResult.error || smsResult.error;
+  if (queryError) {
+    throw new Error(queryError.message);
+  }
+
+  for (const cleaner of cleaners) {
+    const jobs = (jobsResult.data || [])
+      .filter((job: any) => job.cleaner_id === cleaner.id)
+      .map((job: any) => {
+        const window = getCleaningWindow(job, job.property);
+        return {
+          status: job.status,
+          confirmed_at: job.confirmed_at,
+          completed_at: job.completed_at,
+          finish_by_date: window.end_date,
+          finish_by_time: window.end_time,
+          time_zone: job.property?.timezone || 'UTC',
+        };
+      });
+
+    profiles[cleaner.id] = calculateReliability(
+      jobs,
+      (offersResult.data || []).filter((offer: any) => offer.cleaner_id === cleaner.id),
+      (smsResult.data || []).filter((log: any) => log.phone === cleaner.phone)
+    );
+  }
+
+  return profiles;
+}
+
 /**
  * Get all cleaners for a specific user
  *
@@ -347,12 +425,15 @@ export async function getCleanerWithStats(
       ?.map(pc => (pc as any).property)
       .filter(Boolean) || [];
 
+    const reliability = await loadReliability([cleaner]);
+
     const cleanerWithStats: CleanerWithStats = {
       ...cleaner,
       total_jobs: totalJobs,
       unpaid_amount: unpaidAmount,
       last_job_date: lastJobDate,
       assigned_properties: assignedProperties as Property[],
+      reliability: reliability[cleaner.id],
     };
 
     return { data: cleanerWithStats, error: null };
@@ -366,6 +447,27 @@ export async function getCleanerWithStats(
   }
 }
 
+/**
+ * Get reliability profiles for a list of cleaners
+ *
+ * @param cleaners - The cleaners to score
+ * @returns Promise with profiles keyed by cleaner ID or error
+ */
+export async function getCleanersReliability(
+  cleaners: Pick<Cleaner, 'id' | 'phone'>[]
+): Promise<ServiceResponse<Record<string, ReliabilityProfile>>> {
+  try {
+    return { data: await loadReliability(cleaners), error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
 /**
  * Assign a cleaner to a property
  *
@@ -429,6 +531,23 @@ export async function assignCleanerToProperty(
       }
     }
 
+    // New backups go to the end of the property's list
+    const { count, error: countError } = await supabase
+      .from('property_cleaners')
+      .select('id', { count: 'exact', head: true })
+      .eq('property_id', propertyId);
+
+    if (countError) {
+      return {
+        data: null,
+        error: {
+          message: countError.message,
+          code: countError.code,
+          details: countError.details,
+        },
+      };
+    }
+
     // Create assignment
     const { data, error } = await supabase
       .from('property_cleaners')
@@ -436,6 +555,7 @@ export async function assignCleanerToProperty(
         cleaner_id: cleanerId,
         property_id: propertyId,
         is_primary: isPrimary,
+        priority: count || 0,
       })
       .select()
       .single();
@@ -501,3 +621,181 @@ export async function removeCleanerFromProperty(
     };
   }
 }
+
+/**
+ * Set the order a property's cleaners are offered jobs in
+ *
+ * When a cleaner declines or doesn't reply, the job is offered to the next
+ * cleaner in this order. The primary cleaner is always asked first.
+ *
+ * @param propertyId - The property ID
+ * @param cleanerIds - The property's cleaner IDs, first choice first
+ * @returns Promise with success status or error
+ */
+export async function updateCleanerPriorities(
+  propertyId: string,
+  cleanerIds: string[]
+): Promise<ServiceResponse<{ success: boolean }>> {
+  try {
+    const results = await Promise.all(
+      cleanerIds.map((cleanerId, index) =>
+        supabase
+          .from('property_cleaners')
+          .update({ priority: index })
+          .eq('property_id', propertyId)
+          .eq('cleaner_id', cleanerId)
+      )
+    );
+
+    const failed = results.find((result) => result.error);
+    if (failed?.error) {
+      return {
+        data: null,
+        error: {
+          message: failed.error.message,
+          code: failed.error.code,
+          details: failed.error.details,
+        },
+      };
+    }
+
+    return { data: { success: true }, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Set how a cleaner is paid at a property
+ *
+ * Either a flat fee per turnover, or hourly (the rate defaults to the cleaner's
+ * own) with an estimated duration used until the cleaner reports actual hours.
+ * Only affects jobs priced from now on.
+ *
+ * @param propertyId - The property ID
+ * @param cleanerId - The cleaner ID
+ * @param pricing - The pay rules for this property/cleaner pair
+ * @returns Promise with updated assignment or error
+ */
+export async function updateCleanerPricing(
+  propertyId: string,
+  cleanerId: string,
+  pricing: UpdateCleanerPricingInput
+): Promise<ServiceResponse<PropertyCleaner>> {
+  try {
+    if (pricing.pay_type === 'flat' && pricing.flat_rate === null) {
+      return {
+        data: null,
+        error: {
+          message: 'A flat rate is required for flat pricing',
+          code: 'VALIDATION_ERROR',
+        },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('property_cleaners')
+      .update(pricing)
+      .eq('property_id', propertyId)
+      .eq('cleaner_id', cleanerId)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: data as PropertyCleaner, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Start (or resume) Stripe payout onboarding for a cleaner
+ *
+ * @param cleanerId - The cleaner ID
+ * @returns Promise with the Stripe onboarding link or error
+ */
+export async function startCleanerPayoutOnboarding(
+  cleanerId: string
+): Promise<ServiceResponse<CleanerPayoutOnboarding>> {
+  try {
+    const { data, error } = await supabase.functions.invoke('onboard-cleaner-payouts', {
+      body: { cleaner_id: cleanerId },
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: 'ONBOARDING_FAILED',
+        },
+      };
+    }
+
+    return { data: data as CleanerPayoutOnboarding, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Pay a cleaner's unpaid, completed jobs with one Stripe transfer
+ *
+ * @param cleanerId - The cleaner ID
+ * @param jobIds - Optional jobs to pay (defaults to all unpaid jobs)
+ * @returns Promise with the transfer details or error
+ */
+export async function payCleanerJobs(
+  cleanerId: string,
+  jobIds?: string[]
+): Promise<ServiceResponse<CleanerPayoutResult>> {
+  try {
+    const { data, error } = await supabase.functions.invoke('pay-cleaner-jobs', {
+      body: { cleaner_id: cleanerId, job_ids: jobIds },
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: 'PAYOUT_FAILED',
+        },
+      };
+    }
+
+    return { data: data as CleanerPayoutResult, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
@@ -0,0 +1,487 @@
+/**
+ * Inventory Service
+ *
+ * Manages each property's supplies and par levels, the shopping list they add
+ * up to, and the supply expenses cleaners are paid back for with their job.
+ */
+
+import { supabase } from './supabase';
+import type {
+  InventoryItem,
+  InventoryItemWithProperty,
+  ShoppingListEntry,
+  SupplyExpense,
+  CreateInventoryItemInput,
+  UpdateInventoryItemInput,
+  CreateSupplyExpenseInput,
+  ApiError,
+} from '../types';
+import { buildShoppingList } from '../utils/inventory';
+import { repriceJob } from './jobs.service';
+
+interface ServiceResponse<T> {
+  data: T | null;
+  error: ApiError | null;
+}
+
+/**
+ * Check a par level or count is a whole number of items
+ */
+function validateQuantity(value: number, label: string): ApiError | null {
+  if (!Number.isInteger(value) || value < 0) {
+    return {
+      message: `${label} must be a whole number`,
+      code: 'VALIDATION_ERROR',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Get a property's supplies in name order
+ *
+ * @param propertyId - The property ID
+ * @returns Promise with inventory items or error
+ */
+export async function getInventory(
+  propertyId: string
+): Promise<ServiceResponse<InventoryItem[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select('*')
+      .eq('property_id', propertyId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: (data || []) as InventoryItem[], error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Add a supply to a property's inventory
+ *
+ * @param itemData - The item to add
+ * @returns Promise with created item or error
+ */
+export async function createInventoryItem(
+  itemData: CreateInventoryItemInput
+): Promise<ServiceResponse<InventoryItem>> {
+  try {
+    if (!itemData.name.trim()) {
+      return {
+        data: null,
+        error: {
+          message: 'Please name the supply',
+          code: 'VALIDATION_ERROR',
+        },
+      };
+    }
+
+    const parError = validateQuantity(itemData.par_level, 'Par level');
+    if (parError) {
+      return { data: null, error: parError };
+    }
+
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .insert({
+        property_id: itemData.property_id,
+        name: itemData.name.trim(),
+        unit: itemData.unit?.trim() || null,
+        par_level: itemData.par_level,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: data as InventoryItem, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Update a supply
+ * Entering a count replaces any low stock report, since it says exactly
+ * how many are left
+ *
+ * @param id - The item ID
+ * @param itemData - The fields to change
+ * @returns Promise with updated item or error
+ */
+export async function updateInventoryItem(
+  id: string,
+  itemData: UpdateInventoryItemInput
+): Promise<ServiceResponse<InventoryItem>> {
+  try {
+    const updateData: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (itemData.name !== undefined) {
+      if (!itemData.name.trim()) {
+        return {
+          data: null,
+          error: {
+            message: 'Please name the supply',
+            code: 'VALIDATION_ERROR',
+          },
+        };
+      }
+      updateData.name = itemData.name.trim();
+    }
+    if (itemData.unit !== undefined) {
+      updateData.unit = itemData.unit?.trim() || null;
+    }
+    if (itemData.par_level !== undefined) {
+      const parError = validateQuantity(itemData.par_level, 'Par level');
+      if (parError) {
+        return { data: null, error: parError };
+      }
+      updateData.par_level = itemData.par_level;
+    }
+    if (itemData.on_hand !== undefined) {
+      if (itemData.on_hand !== null) {
+        const countError = validateQuantity(itemData.on_hand, 'Count');
+        if (countError) {
+          return { data: null, error: countError };
+        }
+      }
+      updateData.on_hand = itemData.on_hand;
+      updateData.low_reported_at = null;
+      updateData.low_reported_by = null;
+    }
+
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: data as InventoryItem, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Remove a supply from a property's inventory
+ *
+ * @param id - The item ID
+ * @returns Promise with success status or error
+ */
+export async function deleteInventoryItem(id: string): Promise<ServiceResponse<boolean>> {
+  try {
+    const { error } = await supabase.from('inventory_items').delete().eq('id', id);
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: true, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Mark supplies as bought, bringing each back to its par level
+ *
+ * @param items - The items that were restocked
+ * @returns Promise with success status or error
+ */
+export async function restockItems(
+  items: Pick<InventoryItem, 'id' | 'par_level'>[]
+): Promise<ServiceResponse<boolean>> {
+  try {
+    const restockedAt = new Date().toISOString();
+
+    const results = await Promise.all(
+      items.map((item) =>
+        supabase
+          .from('inventory_items')
+          .update({
+            on_hand: item.par_level,
+            low_reported_at: null,
+            low_reported_by: null,
+            updated_at: restockedAt,
+          })
+          .eq('id', item.id)
+      )
+    );
+
+    const error = results.find((result) => result.error)?.error;
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: true, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Get everything that needs buying across a host's properties
+ *
+ * @param userId - The host's user ID
+ * @returns Promise with the shopping list or error
+ */
+export async function getShoppingList(
+  userId: string
+): Promise<ServiceResponse<ShoppingListEntry<InventoryItemWithProperty>[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select(`
+        *,
+        property:properties!inner(id, name, user_id)
+      `)
+      .eq('property.user_id', userId);
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return {
+      data: buildShoppingList((data || []) as InventoryItemWithProperty[]),
+      error: null,
+    };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Check a job can still have its supply expenses changed
+ * Once a job is paid its amount is settled, so expenses are locked with it
+ */
+async function getUnpaidJob(
+  jobId: string
+): Promise<{ cleaner_id: string | null } | ApiError> {
+  const { data: job, error } = await supabase
+    .from('cleaning_jobs')
+    .select('cleaner_id, payment_status')
+    .eq('id', jobId)
+    .single();
+
+  if (error || !job) {
+    return {
+      message: error?.message || 'Job not found',
+      code: error?.code || 'NOT_FOUND',
+    };
+  }
+
+  if (job.payment_status !== 'unpaid') {
+    return {
+      message: 'This job has already been paid, so its supplies can no longer be changed',
+      code: 'ALREADY_PAID',
+    };
+  }
+
+  return { cleaner_id: job.cleaner_id };
+}
+
+/**
+ * Record supplies a cleaner bought, to be paid back with the job
+ *
+ * @param expenseData - The expense to add
+ * @returns Promise with created expense or error
+ */
+export async function addSupplyExpense(
+  expenseData: CreateSupplyExpenseInput
+): Promise<ServiceResponse<SupplyExpense>> {
+  try {
+    if (!expenseData.description.trim()) {
+      return {
+        data: null,
+        error: {
+          message: 'Please describe what was bought',
+          code: 'VALIDATION_ERROR',
+        },
+      };
+    }
+
+    if (isNaN(expenseData.amount) || expenseData.amount <= 0) {
+      return {
+        data: null,
+        error: {
+          message: 'Amount must be greater than zero',
+          code: 'VALIDATION_ERROR',
+        },
+      };
+    }
+
+    const job = await getUnpaidJob(expenseData.cleaning_job_id);
+    if ('message' in job) {
+      return { data: null, error: job };
+    }
+
+    const { data, error } = await supabase
+      .from('supply_expenses')
+      .insert({
+        cleaning_job_id: expenseData.cleaning_job_id,
+        cleaner_id: job.cleaner_id,
+        description: expenseData.description.trim(),
+        amount: Math.round(expenseData.amount * 100) / 100,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    const { error: repriceError } = await repriceJob(expenseData.cleaning_job_id);
+    if (repriceError) {
+      return { data: null, error: repriceError };
+    }
+
+    return { data: data as SupplyExpense, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Remove a supply expense from a job
+ *
+ * @param expense - The expense to remove
+ * @returns Promise with success status or error
+ */
+export async function deleteSupplyExpense(
+  expense: Pick<SupplyExpense, 'id' | 'cleaning_job_id'>
+): Promise<ServiceResponse<boolean>> {
+  try {
+    const job = await getUnpaidJob(expense.cleaning_job_id);
+    if ('message' in job) {
+      return { data: null, error: job };
+    }
+
+    const { error } = await supabase.from('supply_expenses').delete().eq('id', expense.id);
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    const { error: repriceError } = await repriceJob(expense.cleaning_job_id);
+    if (repriceError) {
+      return { data: null, error: repriceError };
+    }
+
+    return { data: true, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
@@ -16,13 +16,37 @@ import type {
   SmsLog,
   ApiError,
   JobStatus,
+  ReassignCandidate,
+  ReassignJobResult,
+  JobPriceBreakdown,
+  JobChecklistItem,
+  JobPhoto,
+  JobPhotoWithUrl,
+  SupplyExpense,
 } from '../types';
+import {
+  UPCOMING_JOB_STATUSES,
+  getJobStatusTransitionError,
+  getStaffingStatus,
+} from '../utils/job-status';
+import { calculateJobAmount } from '../utils/pricing';
+import { getChecklistCompletionError, sortChecklist } from '../utils/checklists';
+import { JOB_PHOTOS_BUCKET, getPhotoCompletionError } from '../utils/job-photos';
+import { copyChecklistToJob } from './checklists.service';
 
 interface ServiceResponse<T> {
   data: T | null;
   error: ApiError | null;
 }
 
+/**
+ * The job fields its price depends on
+ */
+type PricedJobFields = Pick<
+  CleaningJob,
+  'property_id' | 'cleaner_id' | 'checkout_date' | 'is_same_day_turnaround' | 'actual_hours'
+>;
+
 /**
  * Filters for job queries
  */
@@ -157,6 +181,141 @@ export async function getJobById(
   }
 }
 
+/**
+ * Price a job from its property's add-ons and the property/cleaner pay rules
+ *
+ * @param job - The job fields pricing depends on
+ * @param jobId - The job's ID, so its supply expenses are paid back (omit for a new job)
+ * @returns The price breakdown, or null if the job can't be priced yet
+ */
+async function priceJob(
+  job: PricedJobFields,
+  jobId?: string
+): Promise<JobPriceBreakdown | null> {
+  if (!job.cleaner_id) return null;
+
+  const [propertyResult, pairResult, cleanerResult, expensesResult] = await Promise.all([
+    supabase
+      .from('properties')
+      .select('same_day_premium, laundry_fee, holiday_multiplier')
+      .eq('id', job.property_id)
+      .single(),
+    supabase
+      .from('property_cleaners')
+      .select('pay_type, flat_rate, hourly_rate, estimated_hours')
+      .eq('property_id', job.property_id)
+      .eq('cleaner_id', job.cleaner_id)
+      .maybeSingle(),
+    supabase.from('cleaners').select('hourly_rate').eq('id', job.cleaner_id).single(),
+    jobId
+      ? supabase.from('supply_expenses').select('amount').eq('cleaning_job_id', jobId)
+      : Promise.resolve({ data: [] as { amount: number }[] }),
+  ]);
+
+  if (!propertyResult.data) return null;
+
+  const pair = pairResult.data;
+  return calculateJobAmount(
+    {
+      pay_type: pair?.pay_type ?? null,
+      flat_rate: pair?.flat_rate ?? null,
+      hourly_rate: pair?.hourly_rate ?? null,
+      estimated_hours: pair?.estimated_hours ?? null,
+      cleaner_hourly_rate: cleanerResult.data?.hourly_rate ?? null,
+    },
+    propertyResult.data,
+    job,
+    (expensesResult.data || []).reduce((sum, expense) => sum + expense.amount, 0)
+  );
+}
+
+/**
+ * Get how a job's amount owed is made up
+ *
+ * @param job - The job to price
+ * @returns Promise with the price breakdown (null if it can't be priced) or error
+ */
+export async function getJobPrice(
+  job: PricedJobFields & Pick<CleaningJob, 'id'>
+): Promise<ServiceResponse<JobPriceBreakdown | null>> {
+  try {
+    const price = await priceJob(job, job.id);
+
+    return { data: price, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Recalculate an unpaid job's amount owed, e.g. after its supply expenses change
+ *
+ * @param id - The job ID
+ * @returns Promise with the new amount (null if the job wasn't repriced) or error
+ */
+export async function repriceJob(id: string): Promise<ServiceResponse<number | null>> {
+  try {
+    const { data: current, error } = await supabase
+      .from('cleaning_jobs')
+      .select(
+        'property_id, cleaner_id, checkout_date, is_same_day_turnaround, actual_hours, payment_status'
+      )
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    if (current.payment_status !== 'unpaid') {
+      return { data: null, error: null };
+    }
+
+    const price = await priceJob(current, id);
+    if (!price) {
+      return { data: null, error: null };
+    }
+
+    const { error: updateError } = await supabase
+      .from('cleaning_jobs')
+      .update({ amount_owed: price.total, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('payment_status', 'unpaid');
+
+    if (updateError) {
+      return {
+        data: null,
+        error: {
+          message: updateError.message,
+          code: updateError.code,
+          details: updateError.details,
+        },
+      };
+    }
+
+    return { data: price.total, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
 /**
  * Create a new cleaning job
  *
@@ -190,6 +349,14 @@ export async function createJob(
         new Date(jobData.checkin_date).toDateString()
       : false;
 
+    const price = await priceJob({
+      property_id: jobData.property_id,
+      cleaner_id: jobData.cleaner_id || null,
+      checkout_date: jobData.checkout_date,
+      is_same_day_turnaround: isSameDayTurnaround,
+      actual_hours: null,
+    });
+
     const { data, error } = await supabase
       .from('cleaning_jobs')
       .insert({
@@ -197,9 +364,12 @@ export async function createJob(
         cleaner_id: jobData.cleaner_id || null,
         checkout_date: jobData.checkout_date,
         checkin_date: jobData.checkin_date || null,
+        checkout_time: jobData.checkout_time || null,
+        checkin_time: jobData.checkin_time || null,
         notes: jobData.notes || null,
-        status: 'pending',
+        status: getStaffingStatus(jobData.cleaner_id || null, false),
         payment_status: 'unpaid',
+        amount_owed: price?.total ?? null,
         is_same_day_turnaround: isSameDayTurnaround,
       })
       .select()
@@ -216,6 +386,9 @@ export async function createJob(
       };
     }
 
+    // The job still exists without its checklist, so a failed copy isn't fatal
+    await copyChecklistToJob(data.id, data.property_id);
+
     return { data, error: null };
   } catch (err) {
     return {
@@ -227,6 +400,50 @@ export async function createJob(
   }
 }
 
+/**
+ * Check a job has what its property requires before it can be completed:
+ * every required checklist item ticked and enough photos
+ * @returns The reason it can't be completed, or null if it can
+ */
+async function getCompletionError(
+  id: string,
+  property: Pick<Property, 'require_checklist_completion' | 'min_completion_photos'> | null
+): Promise<ApiError | null> {
+  if (property?.require_checklist_completion) {
+    const { data: checklist, error } = await supabase
+      .from('job_checklist_items')
+      .select('label, is_mandatory, completed_at')
+      .eq('cleaning_job_id', id);
+
+    if (error) {
+      return { message: error.message, code: error.code, details: error.details };
+    }
+
+    const checklistError = getChecklistCompletionError(checklist || [], true);
+    if (checklistError) {
+      return { message: checklistError, code: 'CHECKLIST_INCOMPLETE' };
+    }
+  }
+
+  if (property?.min_completion_photos) {
+    const { count, error } = await supabase
+      .from('job_photos')
+      .select('id', { count: 'exact', head: true })
+      .eq('cleaning_job_id', id);
+
+    if (error) {
+      return { message: error.message, code: error.code, details: error.details };
+    }
+
+    const photoError = getPhotoCompletionError(count || 0, property.min_completion_photos);
+    if (photoError) {
+      return { message: photoError, code: 'PHOTOS_REQUIRED' };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Update an existing job
  *
@@ -247,22 +464,97 @@ export async function updateJob(
       updateData.cleaner_id = jobData.cleaner_id;
     }
     if (jobData.status !== undefined) {
+      // Status changes must follow the job lifecycle
+      const { data: current, error: currentError } = await supabase
+        .from('cleaning_jobs')
+        .select('status, property:properties(require_checklist_completion, min_completion_photos)')
+        .eq('id', id)
+        .single();
+
+      if (currentError) {
+        return {
+          data: null,
+          error: {
+            message: currentError.message,
+            code: currentError.code,
+            details: currentError.details,
+          },
+        };
+      }
+
+      const transitionError = getJobStatusTransitionError(
+        current.status as JobStatus,
+        jobData.status
+      );
+      if (transitionError) {
+        return {
+          data: null,
+          error: {
+            message: transitionError,
+            code: 'INVALID_TRANSITION',
+            details: { from: current.status, to: jobData.status },
+          },
+        };
+      }
+
+      if (jobData.status === 'completed' && current.status !== 'completed') {
+        const completionError = await getCompletionError(id, (current as any).property);
+        if (completionError) {
+          return { data: null, error: completionError };
+        }
+      }
+
       updateData.status = jobData.status;
 
       // Set timestamp based on status
       if (jobData.status === 'confirmed') {
         updateData.confirmed_at = new Date().toISOString();
+      } else if (jobData.status === 'in_progress') {
+        updateData.started_at = new Date().toISOString();
       } else if (jobData.status === 'completed') {
         updateData.completed_at = new Date().toISOString();
       } else if (jobData.status === 'cancelled') {
         updateData.cancelled_at = new Date().toISOString();
       }
     }
+    if (jobData.checkout_time !== undefined) {
+      updateData.checkout_time = jobData.checkout_time;
+    }
+    if (jobData.checkin_time !== undefined) {
+      updateData.checkin_time = jobData.checkin_time;
+    }
     if (jobData.notes !== undefined) {
       updateData.notes = jobData.notes;
     }
+    if (jobData.actual_hours !== undefined) {
+      updateData.actual_hours = jobData.actual_hours;
+    }
     if (jobData.amount_owed !== undefined) {
       updateData.amount_owed = jobData.amount_owed;
+    } else if (jobData.cleaner_id !== undefined || jobData.actual_hours !== undefined) {
+      // A new cleaner or reported hours changes what an unpaid job pays
+      const { data: current } = await supabase
+        .from('cleaning_jobs')
+        .select(
+          'property_id, cleaner_id, checkout_date, is_same_day_turnaround, actual_hours, payment_status'
+        )
+        .eq('id', id)
+        .single();
+
+      if (current && current.payment_status === 'unpaid') {
+        const price = await priceJob(
+          {
+            ...current,
+            cleaner_id: jobData.cleaner_id !== undefined ? jobData.cleaner_id : current.cleaner_id,
+            actual_hours:
+              jobData.actual_hours !== undefined ? jobData.actual_hours : current.actual_hours,
+          },
+          id
+        );
+
+        // Rates that give no price leave the amount for the host to fill in
+        updateData.amount_owed = price ? price.total : null;
+      }
     }
     if (jobData.payment_status !== undefined) {
       updateData.payment_status = jobData.payment_status;
@@ -347,6 +639,26 @@ export async function deleteJob(
   }
 }
 
+/**
+ * Photos are kept in a private bucket, so the app sees them through links
+ * that expire after an hour
+ */
+async function getPhotoLinks(photos: JobPhoto[]): Promise<JobPhotoWithUrl[]> {
+  if (photos.length === 0) return [];
+
+  const { data: links } = await supabase.storage
+    .from(JOB_PHOTOS_BUCKET)
+    .createSignedUrls(
+      photos.map((photo) => photo.storage_path),
+      60 * 60
+    );
+
+  return photos.map((photo) => ({
+    ...photo,
+    url: links?.find((link) => link.path === photo.storage_path)?.signedUrl ?? null,
+  }));
+}
+
 /**
  * Get job with full details including property, cleaner, and SMS logs
  *
@@ -389,20 +701,35 @@ export async function getJobWithDetails(
       };
     }
 
-    // Fetch SMS logs
-    const { data: smsLogs, error: smsError } = await supabase
-      .from('sms_logs')
-      .select('*')
-      .eq('cleaning_job_id', id)
-      .order('created_at', { ascending: false });
-
-    if (smsError) {
+    // Fetch SMS logs, the checklist, photos and supply expenses
+    const [smsResult, checklistResult, photosResult, expensesResult] = await Promise.all([
+      supabase
+        .from('sms_logs')
+        .select('*')
+        .eq('cleaning_job_id', id)
+        .order('created_at', { ascending: false }),
+      supabase.from('job_checklist_items').select('*').eq('cleaning_job_id', id),
+      supabase
+        .from('job_photos')
+        .select('*')
+        .eq('cleaning_job_id', id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('supply_expenses')
+        .select('*')
+        .eq('cleaning_job_id', id)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    const detailsError =
+      smsResult.error || checklistResult.error || photosResult.error || expensesResult.error;
+    if (detailsError) {
       return {
         data: null,
         error: {
-          message: smsError.message,
-          code: smsError.code,
-          details: smsError.details,
+          message: detailsError.message,
+          code: detailsError.code,
+          details: detailsError.details,
         },
       };
     }
@@ -411,7 +738,10 @@ export async function getJobWithDetails(
       ...(job as any),
       property: (job as any).property as Property,
       cleaner: (job as any).cleaner as Cleaner | null,
-      sms_logs: (smsLogs || []) as SmsLog[],
+      sms_logs: (smsResult.data || []) as SmsLog[],
+      checklist: sortChecklist((checklistResult.data || []) as JobChecklistItem[]),
+      photos: await getPhotoLinks((photosResult.data || []) as JobPhoto[]),
+      expenses: (expensesResult.data || []) as SupplyExpense[],
     };
 
     return { data: jobWithDetails, error: null };
@@ -426,27 +756,33 @@ export async function getJobWithDetails(
 }
 
 /**
- * Mark a job as paid
+ * Get upcoming jobs for a user
  *
- * @param id - The job ID
- * @param paymentDate - Optional payment date (defaults to now)
- * @returns Promise with updated job or error
+ * @param userId - The user ID
+ * @param days - Number of days to look ahead (default: 7)
+ * @returns Promise with upcoming jobs array or error
  */
-export async function markJobAsPaid(
-  id: string,
-  paymentDate?: Date
-): Promise<ServiceResponse<CleaningJob>> {
+export async function getUpcomingJobs(
+  userId: string,
+  days: number = 7
+): Promise<ServiceResponse<CleaningJob[]>> {
   try {
+    const today = new Date();
+    const futureDate = new Date();
+    futureDate.setDate(today.getDate() + days);
+
     const { data, error } = await supabase
       .from('cleaning_jobs')
-      .update({
-        payment_status: 'paid',
-        payment_date: (paymentDate || new Date()).toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', id)
-      .select()
-      .single();
+      .select(`
+        *,
+        property:properties!inner(*),
+        cleaner:cleaners(*)
+      `)
+      .eq('property.user_id', userId)
+      .gte('checkout_date', today.toISOString())
+      .lte('checkout_date', futureDate.toISOString())
+      .in('status', UPCOMING_JOB_STATUSES)
+      .order('checkout_date', { ascending: true });
 
     if (error) {
       return {
@@ -459,17 +795,134 @@ export async function markJobAsPaid(
       };
     }
 
-    if (!data) {
+    return { data: data || [], error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Get the cleaners a job can be reassigned to
+ *
+ * Cleaners assigned to the job's property come first (primary first), then the
+ * host's other active cleaners. Each candidate lists the other open jobs they
+ * already have on the job's checkout date.
+ *
+ * @param jobId - The job ID
+ * @returns Promise with candidates array or error
+ */
+export async function getReassignCandidates(
+  jobId: string
+): Promise<ServiceResponse<ReassignCandidate[]>> {
+  try {
+    const { data: job, error: jobError } = await supabase
+      .from('cleaning_jobs')
+      .select(`
+        id,
+        property_id,
+        cleaner_id,
+        checkout_date,
+        property:properties(user_id)
+      `)
+      .eq('id', jobId)
+      .single();
+
+    if (jobError || !job) {
       return {
         data: null,
         error: {
-          message: 'Job not found',
-          code: 'NOT_FOUND',
+          message: jobError?.message || 'Job not found',
+          code: jobError?.code || 'NOT_FOUND',
         },
       };
     }
 
-    return { data, error: null };
+    const userId = (job as any).property?.user_id;
+
+    // Fetch the property's cleaners and every active cleaner in parallel
+    const [propertyCleanersResult, cleanersResult, bookedJobsResult] = await Promise.all([
+      supabase
+        .from('property_cleaners')
+        .select('cleaner_id, is_primary')
+        .eq('property_id', job.property_id)
+        .order('is_primary', { ascending: false })
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('cleaners')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('active', true)
+        .order('name', { ascending: true }),
+      supabase
+        .from('cleaning_jobs')
+        .select(`
+          *,
+          property:properties!inner(*)
+        `)
+        .eq('property.user_id', userId)
+        .eq('checkout_date', job.checkout_date)
+        .in('status', UPCOMING_JOB_STATUSES)
+        .neq('id', jobId)
+        .not('cleaner_id', 'is', null),
+    ]);
+
+    const queryError =
+      propertyCleanersResult.error || cleanersResult.error || bookedJobsResult.error;
+    if (queryError) {
+      return {
+        data: null,
+        error: {
+          message: queryError.message,
+          code: queryError.code,
+          details: queryError.details,
+        },
+      };
+    }
+
+    const cleaners = (cleanersResult.data || []) as Cleaner[];
+    const bookedJobs = (bookedJobsResult.data || []) as CleaningJob[];
+
+    const toCandidate = (
+      cleaner: Cleaner,
+      isPropertyCleaner: boolean,
+      isPrimary: boolean
+    ): ReassignCandidate => ({
+      cleaner,
+      is_property_cleaner: isPropertyCleaner,
+      is_primary: isPrimary,
+      booked_jobs: bookedJobs.filter((booked) => booked.cleaner_id === cleaner.id),
+    });
+
+    const candidates: ReassignCandidate[] = [];
+    const listed = new Set<string>();
+
+    // The current cleaner can't be picked again
+    if (job.cleaner_id) {
+      listed.add(job.cleaner_id);
+    }
+
+    for (const propertyCleaner of propertyCleanersResult.data || []) {
+      const cleaner = cleaners.find((c) => c.id === propertyCleaner.cleaner_id);
+      if (cleaner && !listed.has(cleaner.id)) {
+        candidates.push(toCandidate(cleaner, true, propertyCleaner.is_primary));
+        listed.add(cleaner.id);
+      }
+    }
+
+    for (const cleaner of cleaners) {
+      if (!listed.has(cleaner.id)) {
+        candidates.push(toCandidate(cleaner, false, false));
+        listed.add(cleaner.id);
+      }
+    }
+
+    return { data: candidates, error: null };
   } catch (err) {
     return {
       data: null,
@@ -481,46 +934,36 @@ export async function markJobAsPaid(
 }
 
 /**
- * Get upcoming jobs for a user
+ * Reassign a job to a different cleaner
  *
- * @param userId - The user ID
- * @param days - Number of days to look ahead (default: 7)
- * @returns Promise with upcoming jobs array or error
+ * Runs in the reassign-job Edge Function, which resets the job's SMS state,
+ * offers the job to the new cleaner and texts the previous cleaner that
+ * they've been released.
+ *
+ * @param jobId - The job ID
+ * @param cleanerId - The cleaner taking over the job
+ * @returns Promise with reassignment result or error
  */
-export async function getUpcomingJobs(
-  userId: string,
-  days: number = 7
-): Promise<ServiceResponse<CleaningJob[]>> {
+export async function reassignJob(
+  jobId: string,
+  cleanerId: string
+): Promise<ServiceResponse<ReassignJobResult>> {
   try {
-    const today = new Date();
-    const futureDate = new Date();
-    futureDate.setDate(today.getDate() + days);
-
-    const { data, error } = await supabase
-      .from('cleaning_jobs')
-      .select(`
-        *,
-        property:properties!inner(*),
-        cleaner:cleaners(*)
-      `)
-      .eq('property.user_id', userId)
-      .gte('checkout_date', today.toISOString())
-      .lte('checkout_date', futureDate.toISOString())
-      .in('status', ['pending', 'confirmed'])
-      .order('checkout_date', { ascending: true });
+    const { data, error } = await supabase.functions.invoke('reassign-job', {
+      body: { cleaning_job_id: jobId, cleaner_id: cleanerId },
+    });
 
     if (error) {
       return {
         data: null,
         error: {
           message: error.message,
-          code: error.code,
-          details: error.details,
+          code: 'REASSIGN_FAILED',
         },
       };
     }
 
-    return { data: data || [], error: null };
+    return { data: data as ReassignJobResult, error: null };
   } catch (err) {
     return {
       data: null,
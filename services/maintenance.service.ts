@@ -0,0 +1,264 @@
+/**
+ * Maintenance Service
+ *
+ * Manages the maintenance issues cleaners report by SMS. Issues are created
+ * by the Twilio webhook; the host works through them here.
+ */
+
+import { supabase } from './supabase';
+import type {
+  MaintenanceIssue,
+  MaintenanceIssuePhoto,
+  MaintenanceIssuePhotoWithUrl,
+  MaintenanceIssueWithDetails,
+  UpdateMaintenanceIssueInput,
+  ApiError,
+} from '../types';
+import { JOB_PHOTOS_BUCKET } from '../utils/job-photos';
+import { OPEN_MAINTENANCE_STATUSES } from '../utils/maintenance';
+
+interface ServiceResponse<T> {
+  data: T | null;
+  error: ApiError | null;
+}
+
+/**
+ * Get a property's maintenance issues, newest first
+ *
+ * @param propertyId - The property ID
+ * @param openOnly - Only issues that still need attention
+ * @returns Promise with issues or error
+ */
+export async function getPropertyIssues(
+  propertyId: string,
+  openOnly: boolean = false
+): Promise<ServiceResponse<MaintenanceIssue[]>> {
+  try {
+    let query = supabase
+      .from('maintenance_issues')
+      .select(`
+        *,
+        cleaner:cleaners(*)
+      `)
+      .eq('property_id', propertyId)
+      .order('created_at', { ascending: false });
+
+    if (openOnly) {
+      query = query.in('status', OPEN_MAINTENANCE_STATUSES);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: (data || []) as MaintenanceIssue[], error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Get a job's maintenance issues, newest first
+ *
+ * @param jobId - The job ID
+ * @returns Promise with issues or error
+ */
+export async function getJobIssues(
+  jobId: string
+): Promise<ServiceResponse<MaintenanceIssue[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('maintenance_issues')
+      .select('*')
+      .eq('cleaning_job_id', jobId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: (data || []) as MaintenanceIssue[], error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Issue photos share the private job photos bucket, so the app sees them
+ * through links that expire after an hour
+ */
+async function getIssuePhotoLinks(
+  photos: MaintenanceIssuePhoto[]
+): Promise<MaintenanceIssuePhotoWithUrl[]> {
+  if (photos.length === 0) return [];
+
+  const { data: links } = await supabase.storage
+    .from(JOB_PHOTOS_BUCKET)
+    .createSignedUrls(
+      photos.map((photo) => photo.storage_path),
+      60 * 60
+    );
+
+  return photos.map((photo) => ({
+    ...photo,
+    url: links?.find((link) => link.path === photo.storage_path)?.signedUrl ?? null,
+  }));
+}
+
+/**
+ * Get a maintenance issue with its property, cleaner and photos
+ *
+ * @param id - The issue ID
+ * @returns Promise with issue details or error
+ */
+export async function getMaintenanceIssue(
+  id: string
+): Promise<ServiceResponse<MaintenanceIssueWithDetails>> {
+  try {
+    const { data: issue, error } = await supabase
+      .from('maintenance_issues')
+      .select(`
+        *,
+        property:properties(*),
+        cleaner:cleaners(*)
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    if (!issue) {
+      return {
+        data: null,
+        error: {
+          message: 'Issue not found',
+          code: 'NOT_FOUND',
+        },
+      };
+    }
+
+    const { data: photos } = await supabase
+      .from('maintenance_issue_photos')
+      .select('*')
+      .eq('maintenance_issue_id', id)
+      .order('created_at', { ascending: true });
+
+    return {
+      data: {
+        ...(issue as MaintenanceIssueWithDetails),
+        photos: await getIssuePhotoLinks((photos || []) as MaintenanceIssuePhoto[]),
+      },
+      error: null,
+    };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Update a maintenance issue
+ * Resolving or dismissing an issue records when; reopening it clears that
+ *
+ * @param id - The issue ID
+ * @param issueData - The fields to change
+ * @returns Promise with updated issue or error
+ */
+export async function updateMaintenanceIssue(
+  id: string,
+  issueData: UpdateMaintenanceIssueInput
+): Promise<ServiceResponse<MaintenanceIssue>> {
+  try {
+    const updateData: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (issueData.severity !== undefined) {
+      updateData.severity = issueData.severity;
+    }
+    if (issueData.status !== undefined) {
+      updateData.status = issueData.status;
+      updateData.resolved_at = OPEN_MAINTENANCE_STATUSES.includes(issueData.status)
+        ? null
+        : new Date().toISOString();
+    }
+    if (issueData.cost !== undefined) {
+      if (issueData.cost !== null && (isNaN(issueData.cost) || issueData.cost < 0)) {
+        return {
+          data: null,
+          error: {
+            message: 'Cost must be a positive amount',
+            code: 'VALIDATION_ERROR',
+          },
+        };
+      }
+      updateData.cost = issueData.cost;
+    }
+
+    const { data, error } = await supabase
+      .from('maintenance_issues')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: data as MaintenanceIssue, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Messages Service
+ *
+ * The host's SMS inbox. Each cleaner's conversation is every message logged
+ * for them, whether or not it was about a job, and the host replies from the
+ * same number the job texts come from. Messages are kept by cleaner rather
+ * than phone, so hosts who share a cleaner never see each other's threads.
+ */
+
+import { supabase } from './supabase';
+import type {
+  Cleaner,
+  Conversation,
+  SmsLog,
+  SendMessageResult,
+  RetrySmsResult,
+  ApiError,
+} from '../types';
+
+interface ServiceResponse<T> {
+  data: T | null;
+  error: ApiError | null;
+}
+
+/**
+ * Get a conversation for each of a host's cleaners
+ * Conversations with unread messages come first, then the most recent
+ *
+ * @param userId - The host's user ID
+ * @returns Promise with conversations or error
+ */
+export async function getConversations(
+  userId: string
+): Promise<ServiceResponse<Conversation[]>> {
+  try {
+    const { data: cleaners, error: cleanersError } = await supabase
+      .from('cleaners')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (cleanersError) {
+      return {
+        data: null,
+        error: {
+          message: cleanersError.message,
+          code: cleanersError.code,
+          details: cleanersError.details,
+        },
+      };
+    }
+
+    if (!cleaners || cleaners.length === 0) {
+      return { data: [], error: null };
+    }
+
+    const cleanerIds = cleaners.map((cleaner) => cleaner.id);
+
+    const [unreadResult, lastResult] = await Promise.all([
+      supabase
+        .from('sms_logs')
+        .select('cleaner_id')
+        .in('cleaner_id', cleanerIds)
+        .eq('direction', 'inbound')
+        .is('read_at', null),
+      supabase.from('latest_sms_logs').select('*').in('cleaner_id', cleanerIds),
+    ]);
+
+    const queryError = unreadResult.error || lastResult.error;
+    if (queryError) {
+      return {
+        data: null,
+        error: {
+          message: queryError.message,
+          code: queryError.code,
+          details: queryError.details,
+        },
+      };
+    }
+
+    const unreadByCleaner = new Map<string, number>();
+    for (const log of unreadResult.data || []) {
+      unreadByCleaner.set(log.cleaner_id, (unreadByCleaner.get(log.cleaner_id) || 0) + 1);
+    }
+
+    const lastByCleaner = new Map<string, SmsLog>();
+    for (const log of (lastResult.data || []) as SmsLog[]) {
+      lastByCleaner.set(log.cleaner_id!, log);
+    }
+
+    const conversations: Conversation[] = (cleaners as Cleaner[]).map((cleaner) => ({
+      cleaner,
+      last_message: lastByCleaner.get(cleaner.id) || null,
+      unread_count: unreadByCleaner.get(cleaner.id) || 0,
+    }));
+
+    conversations.sort((a, b) => {
+      if ((a.unread_count > 0) !== (b.unread_count > 0)) {
+        return a.unread_count > 0 ? -1 : 1;
+      }
+      const aTime = a.last_message?.created_at || '';
+      const bTime = b.last_message?.created_at || '';
+      if (aTime !== bTime) {
+        return bTime.localeCompare(aTime);
+      }
+      return a.cleaner.name.localeCompare(b.cleaner.name);
+    });
+
+    return { data: conversations, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Get every message to and from a cleaner, oldest first
+ *
+ * @param cleaner - The cleaner
+ * @returns Promise with messages or error
+ */
+export async function getConversation(
+  cleaner: Pick<Cleaner, 'id'>
+): Promise<ServiceResponse<SmsLog[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('sms_logs')
+      .select('*')
+      .eq('cleaner_id', cleaner.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: (data || []) as SmsLog[], error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Mark a cleaner's messages as read
+ *
+ * @param cleaner - The cleaner
+ * @returns Promise with success status or error
+ */
+export async function markConversationRead(
+  cleaner: Pick<Cleaner, 'id'>
+): Promise<ServiceResponse<boolean>> {
+  try {
+    const { error } = await supabase
+      .from('sms_logs')
+      .update({ read_at: new Date().toISOString() })
+      .eq('cleaner_id', cleaner.id)
+      .eq('direction', 'inbound')
+      .is('read_at', null);
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: true, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Text a cleaner from the app
+ *
+ * @param cleanerId - The cleaner ID
+ * @param message - The message to send
+ * @param jobId - Optional job the message is about
+ * @returns Promise with send result or error
+ */
+export async function sendMessage(
+  cleanerId: string,
+  message: string,
+  jobId?: string
+): Promise<ServiceResponse<SendMessageResult>> {
+  try {
+    if (!message.trim()) {
+      return {
+        data: null,
+        error: {
+          message: 'Please enter a message',
+          code: 'VALIDATION_ERROR',
+        },
+      };
+    }
+
+    const { data, error } = await supabase.functions.invoke('send-host-sms', {
+      body: { cleaner_id: cleanerId, message: message.trim(), cleaning_job_id: jobId },
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: 'SEND_FAILED',
+        },
+      };
+    }
+
+    return { data: data as SendMessageResult, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Send a message that wasn't delivered again
+ *
+ * @param smsLogId - The undelivered message's log ID
+ * @returns Promise with send result or error
+ */
+export async function retrySms(smsLogId: string): Promise<ServiceResponse<RetrySmsResult>> {
+  try {
+    const { data, error } = await supabase.functions.invoke('retry-sms', {
+      body: { sms_log_id: smsLogId },
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: 'RETRY_FAILED',
+        },
+      };
+    }
+
+    return { data: data as RetrySmsResult, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Payments Service
+ *
+ * Handles settling up with cleaners. Every settlement is a cleaner_payments
+ * record linked to the jobs it paid for, so payments can be audited later.
+ */
+
+import { supabase } from './supabase';
+import type { CleaningJob, CleanerPayment, SettleJobsInput, ApiError } from '../types';
+
+interface ServiceResponse<T> {
+  data: T | null;
+  error: ApiError | null;
+}
+
+/**
+ * Get a cleaner's completed jobs that haven't been paid yet
+ *
+ * @param cleanerId - The cleaner ID
+ * @returns Promise with unpaid jobs (oldest first) or error
+ */
+export async function getUnpaidJobs(
+  cleanerId: string
+): Promise<ServiceResponse<CleaningJob[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('cleaning_jobs')
+      .select(`
+        *,
+        property:properties(*)
+      `)
+      .eq('cleaner_id', cleanerId)
+      .eq('status', 'completed')
+      .eq('payment_status', 'unpaid')
+      .gt('amount_owed', 0)
+      .order('checkout_date', { ascending: true });
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: (data || []) as CleaningJob[], error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Get a cleaner's payment history with the jobs each payment covered
+ *
+ * @param cleanerId - The cleaner ID
+ * @returns Promise with payments (newest first) or error
+ */
+export async function getCleanerPayments(
+  cleanerId: string
+): Promise<ServiceResponse<CleanerPayment[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('cleaner_payments')
+      .select(`
+        *,
+        jobs:cleaning_jobs(*, property:properties(*))
+      `)
+      .eq('cleaner_id', cleanerId)
+      .order('paid_at', { ascending: false });
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: (data || []) as CleanerPayment[], error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Mark a batch of jobs paid with one payment record
+ *
+ * Jobs that were paid some other way in the meantime are left out, and the
+ * payment amount is the total of the jobs it actually covers.
+ *
+ * @param userId - The host making the payment
+ * @param input - The jobs and how they were paid
+ * @returns Promise with the payment record or error
+ */
+export async function settleCleanerJobs(
+  userId: string,
+  input: SettleJobsInput
+): Promise<ServiceResponse<CleanerPayment>> {
+  try {
+    if (input.job_ids.length === 0) {
+      return {
+        data: null,
+        error: {
+          message: 'Select at least one job to pay',
+          code: 'VALIDATION_ERROR',
+        },
+      };
+    }
+
+    const { data: jobs, error: jobsError } = await supabase
+      .from('cleaning_jobs')
+      .select('id, amount_owed')
+      .in('id', input.job_ids)
+      .eq('cleaner_id', input.cleaner_id)
+      .eq('payment_status', 'unpaid');
+
+    if (jobsError) {
+      return {
+        data: null,
+        error: {
+          message: jobsError.message,
+          code: jobsError.code,
+          details: jobsError.details,
+        },
+      };
+    }
+
+    if (!jobs || jobs.length === 0) {
+      return {
+        data: null,
+        error: {
+          message: 'These jobs have already been paid',
+          code: 'ALREADY_PAID',
+        },
+      };
+    }
+
+    const paidAt = input.paid_at || new Date().toISOString();
+    const sumAmounts = (rows: { amount_owed: number | null }[]) =>
+      Math.round(rows.reduce((sum, job) => sum + (job.amount_owed || 0), 0) * 100) / 100;
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('cleaner_payments')
+      .insert({
+        user_id: userId,
+        cleaner_id: input.cleaner_id,
+        amount: sumAmounts(jobs),
+        method: input.method,
+        reference: input.reference?.trim() || null,
+        notes: input.notes?.trim() || null,
+        period_start: input.period_start || null,
+        period_end: input.period_end || null,
+        paid_at: paidAt,
+      })
+      .select()
+      .single();
+
+    if (paymentError || !payment) {
+      return {
+        data: null,
+        error: {
+          message: paymentError?.message || 'Failed to record payment',
+          code: paymentError?.code,
+          details: paymentError?.details,
+        },
+      };
+    }
+
+    // Only jobs that are still unpaid are linked to this payment
+    const { data: claimed, error: claimError } = await supabase
+      .from('cleaning_jobs')
+      .update({
+        payment_status: 'paid',
+        payment_date: paidAt,
+        payment_id: payment.id,
+        updated_at: new Date().toISOString(),
+      })
+      .in('id', jobs.map((job) => job.id))
+      .eq('payment_status', 'unpaid')
+      .select('id, amount_owed');
+
+    if (claimError || !claimed || claimed.length === 0) {
+      await supabase.from('cleaner_payments').delete().eq('id', payment.id);
+
+      return {
+        data: null,
+        error: claimError
+          ? {
+              message: claimError.message,
+              code: claimError.code,
+              details: claimError.details,
+            }
+          : {
+              message: 'These jobs have already been paid',
+              code: 'ALREADY_PAID',
+            },
+      };
+    }
+
+    const claimedAmount = sumAmounts(claimed);
+    if (claimedAmount !== payment.amount) {
+      await supabase
+        .from('cleaner_payments')
+        .update({ amount: claimedAmount })
+        .eq('id', payment.id);
+    }
+
+    return { data: { ...payment, amount: claimedAmount } as CleanerPayment, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
@@ -6,14 +6,24 @@
  */
 
 import { supabase } from './supabase';
+import {
+  getCalendarSourceName,
+  toLocalDateString,
+  addDaysToDateString,
+} from '../utils/ical-parser';
+import { getDeviceTimeZone } from '../utils/formatting';
+import { DEFAULT_CHECKOUT_TIME, DEFAULT_CHECKIN_TIME } from '../utils/cleaning-window';
 import type {
   Property,
+  CalendarFeed,
+  CreateCalendarFeedInput,
   CreatePropertyInput,
   UpdatePropertyInput,
   PropertyWithCleaners,
   ApiError,
   CleaningJob,
   PropertyCleaner,
+  PropertySyncResult,
 } from '../types';
 
 interface ServiceResponse<T> {
@@ -126,6 +136,9 @@ export async function createProperty(
         name: propertyData.name,
         address: propertyData.address || null,
         ical_url: propertyData.ical_url,
+        timezone: propertyData.timezone || getDeviceTimeZone(),
+        default_checkout_time: propertyData.default_checkout_time || DEFAULT_CHECKOUT_TIME,
+        default_checkin_time: propertyData.default_checkin_time || DEFAULT_CHECKIN_TIME,
         active: true,
       })
       .select()
@@ -142,6 +155,28 @@ export async function createProperty(
       };
     }
 
+    // The first iCal URL becomes the property's first calendar feed
+    const { error: feedError } = await supabase.from('calendar_feeds').insert({
+      property_id: data.id,
+      name: getCalendarSourceName(propertyData.ical_url),
+      ical_url: propertyData.ical_url,
+      active: true,
+    });
+
+    if (feedError) {
+      // Without a feed the property would never sync, so don't leave it behind
+      await supabase.from('properties').delete().eq('id', data.id);
+
+      return {
+        data: null,
+        error: {
+          message: feedError.message,
+          code: feedError.code,
+          details: feedError.details,
+        },
+      };
+    }
+
     return { data, error: null };
   } catch (err) {
     return {
@@ -175,8 +210,38 @@ export async function updateProperty(
     if (propertyData.address !== undefined) {
       updateData.address = propertyData.address;
     }
-    if (propertyData.ical_url !== undefined) {
-      updateData.ical_url = propertyData.ical_url;
+    if (propertyData.timezone !== undefined) {
+      updateData.timezone = propertyData.timezone;
+    }
+    if (propertyData.default_checkout_time !== undefined) {
+      updateData.default_checkout_time = propertyData.default_checkout_time;
+    }
+    if (propertyData.default_checkin_time !== undefined) {
+      updateData.default_checkin_time = propertyData.default_checkin_time;
+    }
+    if (propertyData.offer_timeout_hours !== undefined) {
+      updateData.offer_timeout_hours = propertyData.offer_timeout_hours;
+    }
+    if (propertyData.sms_lead_days !== undefined) {
+      updateData.sms_lead_days = propertyData.sms_lead_days;
+    }
+    if (propertyData.same_day_premium !== undefined) {
+      updateData.same_day_premium = propertyData.same_day_premium;
+    }
+    if (propertyData.laundry_fee !== undefined) {
+      updateData.laundry_fee = propertyData.laundry_fee;
+    }
+    if (propertyData.holiday_multiplier !== undefined) {
+      updateData.holiday_multiplier = propertyData.holiday_multiplier;
+    }
+    if (propertyData.rank_backups_by_reliability !== undefined) {
+      updateData.rank_backups_by_reliability = propertyData.rank_backups_by_reliability;
+    }
+    if (propertyData.require_checklist_completion !== undefined) {
+      updateData.require_checklist_completion = propertyData.require_checklist_completion;
+    }
+    if (propertyData.min_completion_photos !== undefined) {
+      updateData.min_completion_photos = propertyData.min_completion_photos;
     }
     if (propertyData.active !== undefined) {
       updateData.active = propertyData.active;
@@ -262,51 +327,33 @@ export async function deleteProperty(
 }
 
 /**
- * Trigger a manual calendar sync for a property
+ * Run a calendar sync for a single property right now
  *
- * This updates the last_synced timestamp and clears any previous sync errors.
- * The actual iCal parsing and job creation should be handled by a background job.
+ * Calls the calendar-sync Edge Function, which fetches every feed of the
+ * property and creates, updates or cancels cleaning jobs to match.
  *
  * @param propertyId - The property ID to sync
- * @returns Promise with updated property or error
+ * @returns Promise with the sync summary or error
  */
 export async function syncPropertyCalendar(
   propertyId: string
-): Promise<ServiceResponse<Property>> {
+): Promise<ServiceResponse<PropertySyncResult>> {
   try {
-    const { data, error } = await supabase
-      .from('properties')
-      .update({
-        last_synced: new Date().toISOString(),
-        sync_error: null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', propertyId)
-      .select()
-      .single();
+    const { data, error } = await supabase.functions.invoke('calendar-sync', {
+      body: { property_id: propertyId },
+    });
 
     if (error) {
       return {
         data: null,
         error: {
           message: error.message,
-          code: error.code,
-          details: error.details,
+          code: 'SYNC_FAILED',
         },
       };
     }
 
-    if (!data) {
-      return {
-        data: null,
-        error: {
-          message: 'Property not found',
-          code: 'NOT_FOUND',
-        },
-      };
-    }
-
-    return { data, error: null };
+    return { data: data as PropertySyncResult, error: null };
   } catch (err) {
     return {
       data: null,
@@ -355,14 +402,17 @@ export async function getPropertyWithDetails(
       };
     }
 
-    // Fetch assigned cleaners
+    // Fetch assigned cleaners in the order they're offered jobs
     const { data: propertyCleaners, error: cleanersError } = await supabase
       .from('property_cleaners')
       .select(`
         *,
         cleaner:cleaners(*)
       `)
-      .eq('property_id', id);
+      .eq('property_id', id)
+      .order('is_primary', { ascending: false })
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true });
 
     if (cleanersError) {
       return {
@@ -375,9 +425,26 @@ export async function getPropertyWithDetails(
       };
     }
 
-    // Fetch upcoming jobs (next 30 days)
-    const thirtyDaysFromNow = new Date();
-    thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
+    // Fetch calendar feeds
+    const { data: calendarFeeds, error: feedsError } = await supabase
+      .from('calendar_feeds')
+      .select('*')
+      .eq('property_id', id)
+      .order('created_at', { ascending: true });
+
+    if (feedsError) {
+      return {
+        data: null,
+        error: {
+          message: feedsError.message,
+          code: feedsError.code,
+          details: feedsError.details,
+        },
+      };
+    }
+
+    // Fetch upcoming jobs (next 30 days, counted from today at the property)
+    const today = toLocalDateString(new Date(), property.timezone || 'UTC');
 
     const { data: upcomingJobs, error: jobsError } = await supabase
       .from('cleaning_jobs')
@@ -386,8 +453,8 @@ export async function getPropertyWithDetails(
         cleaner:cleaners(*)
       `)
       .eq('property_id', id)
-      .gte('checkout_date', new Date().toISOString())
-      .lte('checkout_date', thirtyDaysFromNow.toISOString())
+      .gte('checkout_date', today)
+      .lte('checkout_date', addDaysToDateString(today, 30))
       .order('checkout_date', { ascending: true });
 
     if (jobsError) {
@@ -404,6 +471,7 @@ export async function getPropertyWithDetails(
     const propertyWithDetails: PropertyWithCleaners = {
       ...property,
       cleaners: (propertyCleaners || []) as PropertyCleaner[],
+      calendar_feeds: (calendarFeeds || []) as CalendarFeed[],
       upcoming_jobs: (upcomingJobs || []) as CleaningJob[],
     };
 
@@ -417,3 +485,85 @@ export async function getPropertyWithDetails(
     };
   }
 }
+
+/**
+ * Add another calendar feed (e.g., VRBO or Booking.com) to a property
+ *
+ * @param propertyId - The property ID
+ * @param feedData - The feed name and iCal URL
+ * @returns Promise with created feed or error
+ */
+export async function addCalendarFeed(
+  propertyId: string,
+  feedData: CreateCalendarFeedInput
+): Promise<ServiceResponse<CalendarFeed>> {
+  try {
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .insert({
+        property_id: propertyId,
+        name: feedData.name,
+        ical_url: feedData.ical_url,
+        active: true,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Remove a calendar feed from a property
+ *
+ * @param feedId - The calendar feed ID
+ * @returns Promise with success status or error
+ */
+export async function removeCalendarFeed(
+  feedId: string
+): Promise<ServiceResponse<{ success: boolean }>> {
+  try {
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('id', feedId);
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+      };
+    }
+
+    return { data: { success: true }, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Statements Service
+ *
+ * Builds cleaner earnings statements and the year-end 1099 report, and asks
+ * the export-cleaner-statement function for downloadable copies.
+ */
+
+import { supabase } from './supabase';
+import { buildCleanerStatement, buildYearEndReport } from '../utils/statements';
+import { getDeviceTimeZone } from '../utils/formatting';
+import type {
+  CleanerStatement,
+  YearEndReport,
+  StatementFormat,
+  StatementExport,
+  ApiError,
+} from '../types';
+
+interface ServiceResponse<T> {
+  data: T | null;
+  error: ApiError | null;
+}
+
+/**
+ * Build a cleaner's statement for a date range
+ *
+ * @param cleanerId - The cleaner ID
+ * @param startDate - First checkout date to include (YYYY-MM-DD)
+ * @param endDate - Last checkout date to include (YYYY-MM-DD)
+ * @returns Promise with the statement or error
+ */
+export async function getCleanerStatement(
+  cleanerId: string,
+  startDate: string,
+  endDate: string
+): Promise<ServiceResponse<CleanerStatement>> {
+  try {
+    const [cleanerResult, jobsResult] = await Promise.all([
+      supabase.from('cleaners').select('id, name').eq('id', cleanerId).single(),
+      supabase
+        .from('cleaning_jobs')
+        .select(`
+          id,
+          checkout_date,
+          amount_owed,
+          payment_status,
+          payment_date,
+          property:properties(name)
+        `)
+        .eq('cleaner_id', cleanerId)
+        .eq('status', 'completed')
+        .gte('checkout_date', startDate)
+        .lte('checkout_date', endDate),
+    ]);
+
+    const error = cleanerResult.error || jobsResult.error;
+    if (error || !cleanerResult.data) {
+      return {
+        data: null,
+        error: {
+          message: error?.message || 'Cleaner not found',
+          code: error?.code,
+          details: error?.details,
+        },
+      };
+    }
+
+    return {
+      data: buildCleanerStatement(
+        cleanerResult.data,
+        (jobsResult.data || []) as any[],
+        startDate,
+        endDate
+      ),
+      error: null,
+    };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Total what each of the host's cleaners was paid in a calendar year
+ *
+ * Goes by the date each job was paid, not when it was cleaned, and flags
+ * cleaners at or over the 1099-NEC threshold.
+ *
+ * @param userId - The host's user ID
+ * @param year - Calendar year
+ * @param timeZone - The host's IANA time zone (default: the device's)
+ * @returns Promise with the report or error
+ */
+export async function getYearEndReport(
+  userId: string,
+  year: number,
+  timeZone: string = getDeviceTimeZone()
+): Promise<ServiceResponse<YearEndReport>> {
+  try {
+    const { data: cleaners, error: cleanersError } = await supabase
+      .from('cleaners')
+      .select('id, name, phone')
+      .eq('user_id', userId);
+
+    if (cleanersError) {
+      return {
+        data: null,
+        error: {
+          message: cleanersError.message,
+          code: cleanersError.code,
+          details: cleanersError.details,
+        },
+      };
+    }
+
+    if (!cleaners || cleaners.length === 0) {
+      return { data: buildYearEndReport(year, [], []), error: null };
+    }
+
+    const { data: jobs, error: jobsError } = await supabase
+      .from('cleaning_jobs')
+      .select('cleaner_id, amount_owed, payment_date')
+      .in('cleaner_id', cleaners.map((cleaner) => cleaner.id))
+      .eq('payment_status', 'paid')
+      // A day either side of the UTC year covers every time zone; the report
+      // keeps the payments made in the year where the host is
+      .gte('payment_date', `${year - 1}-12-31`)
+      .lt('payment_date', `${year + 1}-01-02`);
+
+    if (jobsError) {
+      return {
+        data: null,
+        error: {
+          message: jobsError.message,
+          code: jobsError.code,
+          details: jobsError.details,
+        },
+      };
+    }
+
+    return { data: buildYearEndReport(year, cleaners, jobs || [], timeZone), error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Export a cleaner's statement as a CSV or PDF file
+ *
+ * @param cleanerId - The cleaner ID
+ * @param startDate - First checkout date to include (YYYY-MM-DD)
+ * @param endDate - Last checkout date to include (YYYY-MM-DD)
+ * @param format - 'csv' or 'pdf'
+ * @returns Promise with a temporary download link or error
+ */
+export async function exportCleanerStatement(
+  cleanerId: string,
+  startDate: string,
+  endDate: string,
+  format: StatementFormat
+): Promise<ServiceResponse<StatementExport>> {
+  try {
+    const { data, error } = await supabase.functions.invoke('export-cleaner-statement', {
+      body: { cleaner_id: cleanerId, start_date: startDate, end_date: endDate, format },
+    });
+
+    if (error) {
+      return {
+        data: null,
+        error: {
+          message: error.message,
+          code: 'EXPORT_FAILED',
+        },
+      };
+    }
+
+    return { data: data as StatementExport, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error occurred',
+      },
+    };
+  }
+}
@@ -63,6 +63,10 @@ export interface Database {
           phone: string | null;
           stripe_customer_id: string | null;
           subscription_status: string | null;
+          stripe_subscription_id: string | null;
+          subscription_created_at: string | null;
+          subscription_period_start: string | null;
+          subscription_event_at: string | null;
           expo_push_token: string | null;
           sms_consent_granted: boolean;
           sms_consent_granted_at: string | null;
@@ -76,6 +80,10 @@ export interface Database {
           phone?: string | null;
           stripe_customer_id?: string | null;
           subscription_status?: string | null;
+          stripe_subscription_id?: string | null;
+          subscription_created_at?: string | null;
+          subscription_period_start?: string | null;
+          subscription_event_at?: string | null;
           expo_push_token?: string | null;
           sms_consent_granted?: boolean;
           sms_consent_granted_at?: string | null;
@@ -89,6 +97,10 @@ export interface Database {
           phone?: string | null;
           stripe_customer_id?: string | null;
           subscription_status?: string | null;
+          stripe_subscription_id?: string | null;
+          subscription_created_at?: string | null;
+          subscription_period_start?: string | null;
+          subscription_event_at?: string | null;
           expo_push_token?: string | null;
           sms_consent_granted?: boolean;
           sms_consent_granted_at?: string | null;
@@ -103,6 +115,17 @@ export interface Database {
           name: string;
           address: string | null;
           ical_url: string;
+          timezone: string;
+          default_checkout_time: string;
+          default_checkin_time: string;
+          offer_timeout_hours: number;
+          sms_lead_days: number;
+          same_day_premium: number | null;
+          laundry_fee: number | null;
+          holiday_multiplier: number | null;
+          rank_backups_by_reliability: boolean;
+          require_checklist_completion: boolean;
+          min_completion_photos: number;
           last_synced: string | null;
           sync_error: string | null;
           active: boolean;
@@ -115,6 +138,17 @@ export interface Database {
           name: string;
           address?: string | null;
           ical_url: string;
+          timezone?: string;
+          default_checkout_time?: string;
+          default_checkin_time?: string;
+          offer_timeout_hours?: number;
+          sms_lead_days?: number;
+          same_day_premium?: number | null;
+          laundry_fee?: number | null;
+          holiday_multiplier?: number | null;
+          rank_backups_by_reliability?: boolean;
+          require_checklist_completion?: boolean;
+          min_completion_photos?: number;
           last_synced?: string | null;
           sync_error?: string | null;
           active?: boolean;
@@ -127,6 +161,52 @@ export interface Database {
           name?: string;
           address?: string | null;
           ical_url?: string;
+          timezone?: string;
+          default_checkout_time?: string;
+          default_checkin_time?: string;
+          offer_timeout_hours?: number;
+          sms_lead_days?: number;
+          same_day_premium?: number | null;
+          laundry_fee?: number | null;
+          holiday_multiplier?: number | null;
+          rank_backups_by_reliability?: boolean;
+          require_checklist_completion?: boolean;
+          min_completion_photos?: number;
+          last_synced?: string | null;
+          sync_error?: string | null;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      calendar_feeds: {
+        Row: {
+          id: string;
+          property_id: string;
+          name: string;
+          ical_url: string;
+          last_synced: string | null;
+          sync_error: string | null;
+          active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          property_id: string;
+          name: string;
+          ical_url: string;
+          last_synced?: string | null;
+          sync_error?: string | null;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          property_id?: string;
+          name?: string;
+          ical_url?: string;
           last_synced?: string | null;
           sync_error?: string | null;
           active?: boolean;
@@ -143,6 +223,8 @@ export interface Database {
           hourly_rate: number | null;
           active: boolean;
           sms_opt_out: boolean;
+          stripe_account_id: string | null;
+          payouts_enabled: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -154,6 +236,8 @@ export interface Database {
           hourly_rate?: number | null;
           active?: boolean;
           sms_opt_out?: boolean;
+          stripe_account_id?: string | null;
+          payouts_enabled?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -165,6 +249,8 @@ export interface Database {
           hourly_rate?: number | null;
           active?: boolean;
           sms_opt_out?: boolean;
+          stripe_account_id?: string | null;
+          payouts_enabled?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -175,6 +261,11 @@ export interface Database {
           property_id: string;
           cleaner_id: string;
           is_primary: boolean;
+          priority: number;
+          pay_type: 'flat' | 'hourly' | null;
+          flat_rate: number | null;
+          hourly_rate: number | null;
+          estimated_hours: number | null;
           created_at: string;
         };
         Insert: {
@@ -182,6 +273,11 @@ export interface Database {
           property_id: string;
           cleaner_id: string;
           is_primary?: boolean;
+          priority?: number;
+          pay_type?: 'flat' | 'hourly' | null;
+          flat_rate?: number | null;
+          hourly_rate?: number | null;
+          estimated_hours?: number | null;
           created_at?: string;
         };
         Update: {
@@ -189,6 +285,11 @@ export interface Database {
           property_id?: string;
           cleaner_id?: string;
           is_primary?: boolean;
+          priority?: number;
+          pay_type?: 'flat' | 'hourly' | null;
+          flat_rate?: number | null;
+          hourly_rate?: number | null;
+          estimated_hours?: number | null;
           created_at?: string;
         };
       };
@@ -199,16 +300,24 @@ export interface Database {
           cleaner_id: string | null;
           checkout_date: string;
           checkin_date: string | null;
+          checkout_time: string | null;
+          checkin_time: string | null;
           status: string;
           sms_sent_at: string | null;
           confirmed_at: string | null;
+          started_at: string | null;
           completed_at: string | null;
+          reminder_sent_at: string | null;
           cancelled_at: string | null;
+          actual_hours: number | null;
           amount_owed: number | null;
           payment_status: string;
           payment_date: string | null;
+          payment_id: string | null;
+          stripe_transfer_id: string | null;
           notes: string | null;
           is_same_day_turnaround: boolean;
+          source_event_uid: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -218,16 +327,24 @@ export interface Database {
           cleaner_id?: string | null;
           checkout_date: string;
           checkin_date?: string | null;
+          checkout_time?: string | null;
+          checkin_time?: string | null;
           status?: string;
           sms_sent_at?: string | null;
           confirmed_at?: string | null;
+          started_at?: string | null;
           completed_at?: string | null;
+          reminder_sent_at?: string | null;
           cancelled_at?: string | null;
+          actual_hours?: number | null;
           amount_owed?: number | null;
           payment_status?: string;
           payment_date?: string | null;
+          payment_id?: string | null;
+          stripe_transfer_id?: string | null;
           notes?: string | null;
           is_same_day_turnaround?: boolean;
+          source_event_uid?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -237,55 +354,425 @@ export interface Database {
           cleaner_id?: string | null;
           checkout_date?: string;
           checkin_date?: string | null;
+          checkout_time?: string | null;
+          checkin_time?: string | null;
           status?: string;
           sms_sent_at?: string | null;
           confirmed_at?: string | null;
+          started_at?: string | null;
           completed_at?: string | null;
+          reminder_sent_at?: string | null;
           cancelled_at?: string | null;
+          actual_hours?: number | null;
           amount_owed?: number | null;
           payment_status?: string;
           payment_date?: string | null;
+          payment_id?: string | null;
+          stripe_transfer_id?: string | null;
           notes?: string | null;
           is_same_day_turnaround?: boolean;
+          source_event_uid?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      cleaner_payments: {
+        Row: {
+          id: string;
+          user_id: string;
+          cleaner_id: string;
+          amount: number;
+          method: 'venmo' | 'zelle' | 'check' | 'cash' | 'stripe' | 'other';
+          reference: string | null;
+          notes: string | null;
+          period_start: string | null;
+          period_end: string | null;
+          paid_at: string;
+          reversed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          cleaner_id: string;
+          amount: number;
+          method: 'venmo' | 'zelle' | 'check' | 'cash' | 'stripe' | 'other';
+          reference?: string | null;
+          notes?: string | null;
+          period_start?: string | null;
+          period_end?: string | null;
+          paid_at?: string;
+          reversed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          cleaner_id?: string;
+          amount?: number;
+          method?: 'venmo' | 'zelle' | 'check' | 'cash' | 'stripe' | 'other';
+          reference?: string | null;
+          notes?: string | null;
+          period_start?: string | null;
+          period_end?: string | null;
+          paid_at?: string;
+          reversed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      checklist_items: {
+        Row: {
+          id: string;
+          property_id: string;
+          label: string;
+          category: 'room' | 'restock' | 'instruction';
+          is_mandatory: boolean;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          property_id: string;
+          label: string;
+          category: 'room' | 'restock' | 'instruction';
+          is_mandatory?: boolean;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          property_id?: string;
+          label?: string;
+          category?: 'room' | 'restock' | 'instruction';
+          is_mandatory?: boolean;
+          position?: number;
+          created_at?: string;
+        };
+      };
+      job_checklist_items: {
+        Row: {
+          id: string;
+          cleaning_job_id: string;
+          checklist_item_id: string | null;
+          label: string;
+          category: 'room' | 'restock' | 'instruction';
+          is_mandatory: boolean;
+          position: number;
+          completed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          cleaning_job_id: string;
+          checklist_item_id?: string | null;
+          label: string;
+          category: 'room' | 'restock' | 'instruction';
+          is_mandatory?: boolean;
+          position?: number;
+          completed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          cleaning_job_id?: string;
+          checklist_item_id?: string | null;
+          label?: string;
+          category?: 'room' | 'restock' | 'instruction';
+          is_mandatory?: boolean;
+          position?: number;
+          completed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      job_photos: {
+        Row: {
+          id: string;
+          cleaning_job_id: string;
+          storage_path: string;
+          content_type: string;
+          twilio_message_sid: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          cleaning_job_id: string;
+          storage_path: string;
+          content_type: string;
+          twilio_message_sid?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          cleaning_job_id?: string;
+          storage_path?: string;
+          content_type?: string;
+          twilio_message_sid?: string | null;
+          created_at?: string;
+        };
+      };
+      maintenance_issues: {
+        Row: {
+          id: string;
+          property_id: string;
+          cleaning_job_id: string | null;
+          cleaner_id: string | null;
+          description: string;
+          severity: 'low' | 'medium' | 'high' | 'urgent';
+          status: 'open' | 'in_progress' | 'resolved' | 'dismissed';
+          cost: number | null;
+          resolved_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          property_id: string;
+          cleaning_job_id?: string | null;
+          cleaner_id?: string | null;
+          description: string;
+          severity?: 'low' | 'medium' | 'high' | 'urgent';
+          status?: 'open' | 'in_progress' | 'resolved' | 'dismissed';
+          cost?: number | null;
+          resolved_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          property_id?: string;
+          cleaning_job_id?: string | null;
+          cleaner_id?: string | null;
+          description?: string;
+          severity?: 'low' | 'medium' | 'high' | 'urgent';
+          status?: 'open' | 'in_progress' | 'resolved' | 'dismissed';
+          cost?: number | null;
+          resolved_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      maintenance_issue_photos: {
+        Row: {
+          id: string;
+          maintenance_issue_id: string;
+          storage_path: string;
+          content_type: string;
+          twilio_message_sid: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          maintenance_issue_id: string;
+          storage_path: string;
+          content_type: string;
+          twilio_message_sid?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          maintenance_issue_id?: string;
+          storage_path?: string;
+          content_type?: string;
+          twilio_message_sid?: string | null;
+          created_at?: string;
+        };
+      };
+      inventory_items: {
+        Row: {
+          id: string;
+          property_id: string;
+          name: string;
+          unit: string | null;
+          par_level: number;
+          on_hand: number | null;
+          low_reported_at: string | null;
+          low_reported_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          property_id: string;
+          name: string;
+          unit?: string | null;
+          par_level?: number;
+          on_hand?: number | null;
+          low_reported_at?: string | null;
+          low_reported_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Update: {
+          id?: string;
+          property_id?: string;
+          name?: string;
+          unit?: string | null;
+          par_level?: number;
+          on_hand?: number | null;
+          low_reported_at?: string | null;
+          low_reported_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      supply_expenses: {
+        Row: {
+          id: string;
+          cleaning_job_id: string;
+          cleaner_id: string | null;
+          description: string;
+          amount: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          cleaning_job_id: string;
+          cleaner_id?: string | null;
+          description: string;
+          amount: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          cleaning_job_id?: string;
+          cleaner_id?: string | null;
+          description?: string;
+          amount?: number;
+          created_at?: string;
+        };
       };
       sms_logs: {
         Row: {
           id: string;
           cleaning_job_id: string | null;
+          cleaner_id: string | null;
           phone: string;
           message: string;
           direction: string;
           twilio_sid: string | null;
           status: string | null;
           error_message: string | null;
+          read_at: string | null;
+          retry_of: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           cleaning_job_id?: string | null;
+          cleaner_id?: string | null;
           phone: string;
           message: string;
           direction: string;
           twilio_sid?: string | null;
           status?: string | null;
           error_message?: string | null;
+          read_at?: string | null;
+          retry_of?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           cleaning_job_id?: string | null;
+          cleaner_id?: string | null;
           phone?: string;
           message?: string;
           direction?: string;
           twilio_sid?: string | null;
           status?: string | null;
           error_message?: string | null;
+          read_at?: string | null;
+          retry_of?: string | null;
           created_at?: string;
         };
       };
+      job_offers: {
+        Row: {
+          id: string;
+          cleaning_job_id: string;
+          cleaner_id: string;
+          offered_at: string;
+          responded_at: string | null;
+          response: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          cleaning_job_id: string;
+          cleaner_id: string;
+          offered_at?: string;
+          responded_at?: string | null;
+          response?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          cleaning_job_id?: string;
+          cleaner_id?: string;
+          offered_at?: string;
+          responded_at?: string | null;
+          response?: string | null;
+          created_at?: string;
+        };
+      };
+      stripe_events: {
+        Row: {
+          id: string;
+          type: string;
+          stripe_created_at: string;
+          payload: Record<string, any>;
+          status: string;
+          error_message: string | null;
+          received_at: string;
+          processed_at: string | null;
+          replay_count: number;
+          last_replayed_at: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          type: string;
+          stripe_created_at: string;
+          payload: Record<string, any>;
+          status: string;
+          error_message?: string | null;
+          received_at?: string;
+          processed_at?: string | null;
+          replay_count?: number;
+          last_replayed_at?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          type?: string;
+          stripe_created_at?: string;
+          payload?: Record<string, any>;
+          status?: string;
+          error_message?: string | null;
+          received_at?: string;
+          processed_at?: string | null;
+          replay_count?: number;
+          last_replayed_at?: string | null;
+          updated_at?: string;
+        };
+      };
+    };
+    Views: {
+      latest_sms_logs: {
+        Row: {
+          id: string;
+          cleaning_job_id: string | null;
+          cleaner_id: string;
+          phone: string;
+          message: string;
+          direction: string;
+          twilio_sid: string | null;
+          status: string | null;
+          error_message: string | null;
+          read_at: string | null;
+          retry_of: string | null;
+          created_at: string;
+        };
+      };
     };
     Enums: {
       subscription_status:
@@ -296,7 +783,16 @@ export interface Database {
         | 'unpaid'
         | 'incomplete'
         | 'incomplete_expired';
-      job_status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
+      job_status:
+        | 'unassigned'
+        | 'pending'
+        | 'offered'
+        | 'declined'
+        | 'confirmed'
+        | 'in_progress'
+        | 'completed'
+        | 'needs_review'
+        | 'cancelled';
       payment_status: 'unpaid' | 'paid';
     };
   };
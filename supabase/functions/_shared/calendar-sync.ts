@@ -0,0 +1,526 @@
+/**
+ * Calendar sync engine shared by the app and the calendar-sync Edge Function
+ *
+ * This module must stay platform-neutral: no imports, no Deno or React Native
+ * APIs. The iCal library is passed in by the caller because each runtime loads
+ * it differently (npm package vs. esm.sh).
+ */
+
+// Types
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  location?: string;
+  /** All-day (VALUE=DATE) events are floating dates, stored at UTC midnight */
+  all_day?: boolean;
+  feed_id?: string;
+}
+
+export interface ParsedCheckout {
+  date: Date;
+  /** Checkout day (YYYY-MM-DD) in the property's time zone */
+  checkout_day: string;
+  event: ICalEvent;
+  has_same_day_checkin: boolean;
+  next_checkin_date?: Date;
+  next_checkin_day?: string;
+}
+
+/**
+ * The parts of ical.js the engine relies on
+ */
+export interface ICalLibrary {
+  parse(input: string): any;
+  Component: new (jcalData: any) => {
+    getAllSubcomponents(name: string): any[];
+  };
+  Event: new (component: any) => {
+    uid: string;
+    summary: string;
+    description: string;
+    location: string;
+    startDate: ICalTime | null;
+    endDate: ICalTime | null;
+  };
+}
+
+interface ICalTime {
+  isDate: boolean;
+  year: number;
+  month: number;
+  day: number;
+  toJSDate(): Date;
+}
+
+/**
+ * Snapshot of an existing cleaning job, as far as syncing is concerned
+ */
+export interface SyncJob {
+  id: string;
+  checkout_date: string;
+  checkin_date: string | null;
+  status: string;
+  is_same_day_turnaround: boolean;
+  source_event_uid: string | null;
+}
+
+export interface PlannedCreate {
+  source_event_uid: string | null;
+  checkout_date: string;
+  checkin_date: string | null;
+  is_same_day_turnaround: boolean;
+}
+
+export interface PlannedUpdate {
+  job: SyncJob;
+  changes: {
+    checkout_date?: string;
+    checkin_date?: string | null;
+    is_same_day_turnaround?: boolean;
+    source_event_uid?: string;
+  };
+  /** True when the reservation moved to a different checkout date */
+  moved: boolean;
+}
+
+export interface PlannedCancel {
+  job: SyncJob;
+}
+
+export interface SyncPlan {
+  creates: PlannedCreate[];
+  updates: PlannedUpdate[];
+  cancels: PlannedCancel[];
+}
+
+export interface PlanSyncOptions {
+  /** Merged events from every feed of the property */
+  events: ICalEvent[];
+  /** Non-cancelled jobs for the property with a checkout today or later */
+  existingJobs: SyncJob[];
+  /** False when a feed failed to load, which makes missing events meaningless */
+  allFeedsLoaded?: boolean;
+  /** Number of days ahead to create jobs for (default: 30) */
+  days?: number;
+  /** IANA time zone of the property (default: UTC) */
+  timeZone?: string;
+  now?: Date;
+}
+
+/**
+ * Statuses the sync is allowed to change; jobs that have started, finished or
+ * are waiting on the host are left alone (see the staffing statuses in job-status)
+ */
+const OPEN_JOB_STATUSES = ['unassigned', 'pending', 'offered', 'declined', 'confirmed'];
+
+/**
+ * Fetches raw iCal data from a URL
+ * @param url - iCal URL to fetch (webcal:// is accepted)
+ * @returns Raw iCal data string
+ */
+export async function fetchICalData(url: string): Promise<string> {
+  if (!url || typeof url !== 'string') {
+    throw new Error('Invalid iCal URL');
+  }
+
+  // Convert webcal:// to https://
+  const fetchUrl = url.replace(/^webcal:\/\//i, 'https://');
+
+  const response = await fetch(fetchUrl, {
+    method: 'GET',
+    headers: {
+      'Accept': 'text/calendar, application/ics, text/plain',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch iCal: ${response.status} ${response.statusText}`);
+  }
+
+  const icalData = await response.text();
+
+  if (!icalData || icalData.trim().length === 0) {
+    throw new Error('iCal data is empty');
+  }
+
+  return icalData;
+}
+
+/**
+ * Parses iCal data string into events
+ * Events that can't be parsed are skipped and described in `errors`
+ * @param icalData - Raw iCal data string
+ * @param ical - The ical.js module for the current runtime
+ * @param errors - Optional array that collects per-event parse errors
+ * @returns Array of parsed events
+ */
+export function parseICalData(
+  icalData: string,
+  ical: ICalLibrary,
+  errors: string[] = []
+): ICalEvent[] {
+  let vevents: any[];
+
+  try {
+    const jcalData = ical.parse(icalData);
+    const comp = new ical.Component(jcalData);
+    vevents = comp.getAllSubcomponents('vevent');
+  } catch (error) {
+    console.error('Error parsing iCal data:', error);
+    throw new Error('Failed to parse iCal data. Please check the format.');
+  }
+
+  const events: ICalEvent[] = [];
+
+  for (const vevent of vevents) {
+    try {
+      const event = new ical.Event(vevent);
+
+      // Skip events without start date
+      if (!event.startDate) continue;
+
+      // toJSDate() would pin all-day dates to the runtime's time zone
+      const allDay = event.startDate.isDate;
+      const toDate = (time: ICalTime) =>
+        allDay ? new Date(Date.UTC(time.year, time.month - 1, time.day)) : time.toJSDate();
+
+      const startDate = toDate(event.startDate);
+      // If no end date, assume same as start date
+      const endDate = event.endDate ? toDate(event.endDate) : new Date(startDate);
+
+      events.push({
+        uid: event.uid || '',
+        summary: event.summary || 'Untitled Event',
+        description: event.description || '',
+        start: startDate,
+        end: endDate,
+        location: event.location || '',
+        all_day: allDay,
+      });
+    } catch (eventError) {
+      console.error('Error parsing individual event:', eventError);
+      errors.push(
+        `Skipped unreadable event: ${eventError instanceof Error ? eventError.message : String(eventError)}`
+      );
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Checks whether an event is a blocked/unavailable period rather than a booking
+ * @param event - iCal event
+ * @returns True if the event does not represent a guest stay
+ */
+export function isBlockedEvent(event: ICalEvent): boolean {
+  const summary = event.summary.toLowerCase();
+  return (
+    summary.includes('blocked') ||
+    summary.includes('unavailable') ||
+    summary.includes('not available') ||
+    summary === 'busy'
+  );
+}
+
+/**
+ * Converts a date to the YYYY-MM-DD form stored on cleaning_jobs
+ * @param date - Date to convert
+ * @returns Date string
+ */
+export function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Gets the calendar day (YYYY-MM-DD) of a moment in an IANA time zone
+ * @param date - Moment in time
+ * @param timeZone - IANA time zone, e.g. "Pacific/Honolulu" (default: UTC)
+ * @returns Date string in that time zone
+ */
+export function toLocalDateString(date: Date, timeZone: string = 'UTC'): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Adds whole days to a YYYY-MM-DD date string
+ * @param day - Date string
+ * @param days - Number of days to add (may be negative)
+ * @returns Shifted date string
+ */
+export function addDaysToDateString(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateString(date);
+}
+
+/**
+ * Gets the day an event starts or ends on at the property
+ * All-day events are floating dates and fall on the same day everywhere
+ * @param event - iCal event
+ * @param edge - Which end of the event to read
+ * @param timeZone - IANA time zone of the property
+ * @returns Date string (YYYY-MM-DD)
+ */
+export function getEventDay(
+  event: ICalEvent,
+  edge: 'start' | 'end',
+  timeZone: string = 'UTC'
+): string {
+  const date = event[edge];
+  return event.all_day ? toDateString(date) : toLocalDateString(date, timeZone);
+}
+
+/**
+ * Merges events from several calendar feeds into one deduplicated timeline
+ * The same reservation can show up on more than one channel, either with the
+ * same UID or as an identical stay, so the first feed's copy wins
+ * @param feedEvents - Events grouped by feed, in priority order
+ * @returns Merged events sorted by start date
+ */
+export function mergeFeedEvents(feedEvents: ICalEvent[][]): ICalEvent[] {
+  const seenUids = new Set<string>();
+  const seenStays = new Set<string>();
+  const merged: ICalEvent[] = [];
+
+  for (const events of feedEvents) {
+    for (const event of events) {
+      if (event.uid) {
+        if (seenUids.has(event.uid)) continue;
+        seenUids.add(event.uid);
+      }
+
+      // Blocked dates are kept as-is; only real stays are matched across feeds
+      if (!isBlockedEvent(event)) {
+        const stayKey = `${toDateString(event.start)}|${toDateString(event.end)}`;
+        if (seenStays.has(stayKey)) continue;
+        seenStays.add(stayKey);
+      }
+
+      merged.push(event);
+    }
+  }
+
+  return merged.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Detects if there's a same-day turnaround (checkout and check-in on same day)
+ * @param checkoutDay - Checkout day (YYYY-MM-DD) at the property
+ * @param events - All iCal events
+ * @param timeZone - IANA time zone of the property (default: UTC)
+ * @returns True if there's a same-day check-in
+ */
+export function detectSameDayTurnaround(
+  checkoutDay: string,
+  events: ICalEvent[],
+  timeZone: string = 'UTC'
+): boolean {
+  if (!checkoutDay || !Array.isArray(events)) {
+    return false;
+  }
+
+  return events.some(
+    event => getEventDay(event, 'start', timeZone) === checkoutDay && !isBlockedEvent(event)
+  );
+}
+
+/**
+ * Extracts checkout dates from iCal events
+ * Identifies events that represent reservations/bookings
+ * @param events - Array of iCal events
+ * @param timeZone - IANA time zone of the property (default: UTC)
+ * @returns Array of parsed checkouts with metadata
+ */
+export function extractCheckouts(events: ICalEvent[], timeZone: string = 'UTC'): ParsedCheckout[] {
+  if (!Array.isArray(events) || events.length === 0) {
+    return [];
+  }
+
+  // Sort events by end date (checkout date)
+  const sortedEvents = [...events].sort((a, b) => a.end.getTime() - b.end.getTime());
+  const checkouts: ParsedCheckout[] = [];
+
+  for (let i = 0; i < sortedEvents.length; i++) {
+    const event = sortedEvents[i];
+
+    if (isBlockedEvent(event)) continue;
+
+    // The end date is the checkout date
+    const checkoutDay = getEventDay(event, 'end', timeZone);
+
+    // The next booking (skipping blocked dates) gives the check-in date
+    const nextBooking = sortedEvents.slice(i + 1).find(next => !isBlockedEvent(next));
+
+    checkouts.push({
+      date: event.end,
+      checkout_day: checkoutDay,
+      event,
+      has_same_day_checkin: detectSameDayTurnaround(checkoutDay, sortedEvents, timeZone),
+      next_checkin_date: nextBooking?.start,
+      next_checkin_day: nextBooking ? getEventDay(nextBooking, 'start', timeZone) : undefined,
+    });
+  }
+
+  return checkouts;
+}
+
+/**
+ * Filters checkouts to only include upcoming ones within specified days
+ * @param checkouts - Array of parsed checkouts
+ * @param days - Number of days to look ahead (default: 30)
+ * @param now - Reference time (default: current time)
+ * @param timeZone - IANA time zone of the property, which decides what "today" is
+ * @returns Filtered array of upcoming checkouts
+ */
+export function filterUpcomingCheckouts(
+  checkouts: ParsedCheckout[],
+  days: number = 30,
+  now: Date = new Date(),
+  timeZone: string = 'UTC'
+): ParsedCheckout[] {
+  if (!Array.isArray(checkouts) || checkouts.length === 0) {
+    return [];
+  }
+
+  const today = toLocalDateString(now, timeZone);
+  const lastDay = addDaysToDateString(today, days);
+
+  // Include checkouts from today onwards, up to specified days
+  return checkouts.filter(
+    checkout => checkout.checkout_day >= today && checkout.checkout_day <= lastDay
+  );
+}
+
+/**
+ * Works out which cleaning jobs to create, update and cancel for a property
+ * Pure function: no I/O, so sync decisions can be tested against fixture feeds
+ * @param options - Events, existing jobs and sync settings
+ * @returns The sync plan to apply
+ */
+export function planSync(options: PlanSyncOptions): SyncPlan {
+  const {
+    events,
+    existingJobs,
+    allFeedsLoaded = true,
+    days = 30,
+    timeZone = 'UTC',
+    now = new Date(),
+  } = options;
+  const plan: SyncPlan = { creates: [], updates: [], cancels: [] };
+
+  const checkouts = extractCheckouts(events, timeZone);
+  const upcomingCheckouts = filterUpcomingCheckouts(checkouts, days, now, timeZone);
+
+  const jobsByUid = new Map<string, SyncJob>();
+  const jobsByDate = new Map<string, SyncJob>();
+  for (const job of existingJobs) {
+    if (job.source_event_uid) {
+      jobsByUid.set(job.source_event_uid, job);
+    } else {
+      jobsByDate.set(job.checkout_date, job);
+    }
+  }
+  const bookedDates = new Set(existingJobs.map(job => job.checkout_date));
+
+  // A stay can come back under another feed's UID, e.g. once its original feed
+  // is removed or a higher-priority feed lists the same dates, so open jobs whose
+  // UID is gone are matched to it by date instead of being cancelled
+  const feedUids = new Set(checkouts.map(checkout => checkout.event.uid).filter(Boolean));
+  const orphanedJobsByDate = new Map<string, SyncJob>();
+  for (const job of jobsByUid.values()) {
+    if (OPEN_JOB_STATUSES.includes(job.status) && !feedUids.has(job.source_event_uid!)) {
+      orphanedJobsByDate.set(job.checkout_date, job);
+    }
+  }
+
+  for (const checkout of upcomingCheckouts) {
+    const uid = checkout.event.uid || null;
+    const checkoutDate = checkout.checkout_day;
+    const checkinDate = checkout.next_checkin_day || null;
+
+    const trackedJob = uid ? jobsByUid.get(uid) : undefined;
+
+    if (trackedJob) {
+      if (!OPEN_JOB_STATUSES.includes(trackedJob.status)) continue;
+
+      const moved = trackedJob.checkout_date !== checkoutDate;
+      if (
+        moved ||
+        trackedJob.checkin_date !== checkinDate ||
+        trackedJob.is_same_day_turnaround !== checkout.has_same_day_checkin
+      ) {
+        plan.updates.push({
+          job: trackedJob,
+          changes: {
+            checkout_date: checkoutDate,
+            checkin_date: checkinDate,
+            is_same_day_turnaround: checkout.has_same_day_checkin,
+          },
+          moved,
+        });
+      }
+      continue;
+    }
+
+    // Jobs created before source tracking are matched by date and adopted
+    const legacyJob = jobsByDate.get(checkoutDate);
+    if (legacyJob) {
+      jobsByDate.delete(checkoutDate);
+      if (uid) {
+        plan.updates.push({ job: legacyJob, changes: { source_event_uid: uid }, moved: false });
+      }
+      continue;
+    }
+
+    const orphanedJob = orphanedJobsByDate.get(checkoutDate);
+    if (uid && orphanedJob) {
+      orphanedJobsByDate.delete(checkoutDate);
+      jobsByUid.delete(orphanedJob.source_event_uid!);
+      plan.updates.push({
+        job: orphanedJob,
+        changes: {
+          source_event_uid: uid,
+          checkin_date: checkinDate,
+          is_same_day_turnaround: checkout.has_same_day_checkin,
+        },
+        moved: false,
+      });
+      continue;
+    }
+
+    // Never create a second job for a date that already has one
+    if (bookedDates.has(checkoutDate)) continue;
+    bookedDates.add(checkoutDate);
+
+    plan.creates.push({
+      source_event_uid: uid,
+      checkout_date: checkoutDate,
+      checkin_date: checkinDate,
+      is_same_day_turnaround: checkout.has_same_day_checkin,
+    });
+  }
+
+  // Reservations that disappeared from the feeds were cancelled by the guest or host.
+  // A feed that failed to load tells us nothing, so hold off until every feed is read.
+  if (allFeedsLoaded) {
+    for (const job of jobsByUid.values()) {
+      if (OPEN_JOB_STATUSES.includes(job.status) && !feedUids.has(job.source_event_uid!)) {
+        plan.cancels.push({ job });
+      }
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,129 @@
+/**
+ * Cleaning checklists
+ * Shared by the app and the edge functions, so this module has no imports
+ *
+ * Each property has a template of checklist items. When a job is created it
+ * gets its own copy, so editing the template never changes a cleaning that's
+ * already been planned. Cleaners tick items off by number over SMS, and hosts
+ * can tick them in the app.
+ */
+
+export type ChecklistCategory = 'room' | 'restock' | 'instruction';
+
+export const CHECKLIST_CATEGORIES: ChecklistCategory[] = ['room', 'restock', 'instruction'];
+
+export const CHECKLIST_CATEGORY_LABELS: Record<ChecklistCategory, string> = {
+  room: 'Rooms',
+  restock: 'Restocking',
+  instruction: 'Special Instructions',
+};
+
+/** An item on a property's checklist template */
+export interface ChecklistTemplateItem {
+  id: string;
+  property_id: string;
+  label: string;
+  category: ChecklistCategory;
+  is_mandatory: boolean;
+  position: number;
+  created_at: string;
+}
+
+/** A job's copy of a template item */
+export interface JobChecklistItem {
+  id: string;
+  cleaning_job_id: string;
+  checklist_item_id: string | null;
+  label: string;
+  category: ChecklistCategory;
+  is_mandatory: boolean;
+  position: number;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export interface ChecklistProgress {
+  total: number;
+  completed: number;
+  mandatory_total: number;
+  mandatory_completed: number;
+}
+
+type ChecklistEntry = Pick<JobChecklistItem, 'label' | 'is_mandatory' | 'completed_at'>;
+
+type ChecklistOrder = Pick<ChecklistTemplateItem, 'category' | 'position' | 'created_at'>;
+
+/**
+ * Put items in checklist order, which is also how cleaners number them
+ * Items are grouped by category, then follow the host's order within it
+ */
+export function sortChecklist<T extends ChecklistOrder>(items: T[]): T[] {
+  return [...items].sort(
+    (a, b) =>
+      CHECKLIST_CATEGORIES.indexOf(a.category) - CHECKLIST_CATEGORIES.indexOf(b.category) ||
+      a.position - b.position ||
+      a.created_at.localeCompare(b.created_at)
+  );
+}
+
+/**
+ * The rows that give a job its own copy of a template
+ */
+export function copyChecklistTemplate(
+  templateItems: ChecklistTemplateItem[],
+  jobId: string
+): Omit<JobChecklistItem, 'id' | 'completed_at' | 'created_at'>[] {
+  return sortChecklist(templateItems).map((item, index) => ({
+    cleaning_job_id: jobId,
+    checklist_item_id: item.id,
+    label: item.label,
+    category: item.category,
+    is_mandatory: item.is_mandatory,
+    position: index,
+  }));
+}
+
+export function getChecklistProgress(items: ChecklistEntry[]): ChecklistProgress {
+  const mandatory = items.filter((item) => item.is_mandatory);
+
+  return {
+    total: items.length,
+    completed: items.filter((item) => item.completed_at).length,
+    mandatory_total: mandatory.length,
+    mandatory_completed: mandatory.filter((item) => item.completed_at).length,
+  };
+}
+
+/**
+ * Explain why a job can't be completed yet
+ * @param items - The job's checklist
+ * @param required - Whether the property requires mandatory items before completion
+ * @returns An error message, or null if the job can be completed
+ */
+export function getChecklistCompletionError(
+  items: ChecklistEntry[],
+  required: boolean
+): string | null {
+  if (!required) return null;
+
+  const missing = items.filter((item) => item.is_mandatory && !item.completed_at);
+  if (missing.length === 0) return null;
+
+  return `${missing.length} required checklist ${
+    missing.length === 1 ? 'item is' : 'items are'
+  } still open: ${missing.map((item) => item.label).join(', ')}`;
+}
+
+/**
+ * The checklist as a numbered list for a text message
+ * Pass the items sorted, since the numbers are what cleaners reply with.
+ * Required items are marked with * and finished ones with a tick
+ */
+export function formatChecklistForSms(items: ChecklistEntry[]): string {
+  return items
+    .map(
+      (item, index) =>
+        `${index + 1}) ${item.completed_at ? '✓ ' : ''}${item.label}${item.is_mandatory ? ' *' : ''}`
+    )
+    .join('\n');
+}
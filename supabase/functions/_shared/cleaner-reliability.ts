@@ -0,0 +1,92 @@
+/**
+ * Loads the history reliability.ts scores cleaners on
+ *
+ * Used to put the most dependable backup first when a property asks for it.
+ */
+
+import {
+  calculateReliability,
+  RELIABILITY_LOOKBACK_DAYS,
+  type ReliabilityProfile,
+  type ReliabilityJob,
+} from './reliability.ts';
+import { getCleaningWindow } from './cleaning-window.ts';
+
+/**
+ * Build reliability profiles for a set of cleaners
+ * @returns Profiles keyed by cleaner ID
+ */
+export async function getCleanerReliability(
+  supabase: any,
+  cleaners: { id: string; phone: string }[]
+): Promise<Map<string, ReliabilityProfile>> {
+  const profiles = new Map<string, ReliabilityProfile>();
+  if (cleaners.length === 0) return profiles;
+
+  const since = new Date(Date.now() - RELIABILITY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const cleanerIds = cleaners.map((cleaner) => cleaner.id);
+
+  const [jobsResult, offersResult, smsResult] = await Promise.all([
+    supabase
+      .from('cleaning_jobs')
+      .select(`
+        cleaner_id,
+        status,
+        checkout_date,
+        checkin_date,
+        checkout_time,
+        checkin_time,
+        confirmed_at,
+        completed_at,
+        property:properties (
+          timezone,
+          default_checkout_time,
+          default_checkin_time
+        )
+      `)
+      .in('cleaner_id', cleanerIds)
+      .gte('checkout_date', since.toISOString().slice(0, 10)),
+    supabase
+      .from('job_offers')
+      .select('cleaner_id, response')
+      .in('cleaner_id', cleanerIds)
+      .gte('offered_at', since.toISOString()),
+    supabase
+      .from('sms_logs')
+      .select('phone, cleaning_job_id, direction, created_at')
+      .in('phone', cleaners.map((cleaner) => cleaner.phone))
+      .gte('created_at', since.toISOString()),
+  ]);
+
+  const queryError = jobsResult.error || offersResult.error || smsResult.error;
+  if (queryError) {
+    throw new Error(`Failed to fetch cleaner history: ${queryError.message}`);
+  }
+
+  for (const cleaner of cleaners) {
+    const jobs: ReliabilityJob[] = (jobsResult.data || [])
+      .filter((job: any) => job.cleaner_id === cleaner.id)
+      .map((job: any) => {
+        const window = getCleaningWindow(job, job.property);
+        return {
+          status: job.status,
+          confirmed_at: job.confirmed_at,
+          completed_at: job.completed_at,
+          finish_by_date: window.end_date,
+          finish_by_time: window.end_time,
+          time_zone: job.property?.timezone || 'UTC',
+        };
+      });
+
+    profiles.set(
+      cleaner.id,
+      calculateReliability(
+        jobs,
+        (offersResult.data || []).filter((offer: any) => offer.cleaner_id === cleaner.id),
+        (smsResult.data || []).filter((log: any) => log.phone === cleaner.phone)
+      )
+    );
+  }
+
+  return profiles;
+}
@@ -0,0 +1,141 @@
+/**
+ * Cleaning window helpers
+ * Shared by the app and the edge functions, so this module has no imports
+ *
+ * Times of day are stored as "HH:MM" (24-hour) in the property's time zone.
+ * Properties carry default checkout/check-in times; a job can override either
+ * one for a late checkout or an early check-in.
+ */
+
+export const DEFAULT_CHECKOUT_TIME = '11:00';
+export const DEFAULT_CHECKIN_TIME = '16:00';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface CleaningTimesProperty {
+  default_checkout_time?: string | null;
+  default_checkin_time?: string | null;
+}
+
+export interface CleaningTimesJob {
+  checkout_date: string;
+  checkin_date: string | null;
+  checkout_time?: string | null;
+  checkin_time?: string | null;
+}
+
+export interface CleaningWindow {
+  start_date: string;
+  start_time: string;
+  end_date: string;
+  end_time: string;
+  is_late_checkout: boolean;
+  is_early_checkin: boolean;
+}
+
+/**
+ * Parse a time of day typed by a host
+ * Accepts "16:00", "4:00 PM", "4pm" and Postgres "16:00:00"
+ * @returns Time as "HH:MM", or null if it isn't a valid time
+ */
+export function parseTimeOfDay(input: string | null | undefined): string | null {
+  if (!input) return null;
+
+  const match = input
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*(am|pm|a|p)?$/);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || '0');
+  const meridiem = match[3];
+
+  if (minutes > 59) return null;
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (hours === 12) hours = 0;
+    if (meridiem.startsWith('p')) hours += 12;
+  } else if (hours > 23 || match[2] === undefined) {
+    // Bare numbers like "4" are too ambiguous without am/pm
+    return null;
+  }
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Format a "HH:MM" time for display (e.g., "4:00 PM")
+ */
+export function formatTimeOfDay(time: string): string {
+  const normalized = parseTimeOfDay(time);
+  if (!normalized) return time;
+
+  const [hours, minutes] = normalized.split(':').map(Number);
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+
+  return `${displayHours}:${String(minutes).padStart(2, '0')} ${suffix}`;
+}
+
+/**
+ * Derive when a cleaner can start and must finish a job
+ * The window opens at checkout and closes at the next check-in. When no next
+ * booking is known it closes at the property's usual check-in time that day.
+ */
+export function getCleaningWindow(
+  job: CleaningTimesJob,
+  property: CleaningTimesProperty | null | undefined
+): CleaningWindow {
+  const defaultCheckout =
+    parseTimeOfDay(property?.default_checkout_time) || DEFAULT_CHECKOUT_TIME;
+  const defaultCheckin =
+    parseTimeOfDay(property?.default_checkin_time) || DEFAULT_CHECKIN_TIME;
+
+  const checkoutOverride = parseTimeOfDay(job.checkout_time);
+  const checkinOverride = parseTimeOfDay(job.checkin_time);
+
+  const startTime = checkoutOverride || defaultCheckout;
+  const endTime = checkinOverride || defaultCheckin;
+
+  return {
+    start_date: job.checkout_date,
+    start_time: startTime,
+    end_date: job.checkin_date || job.checkout_date,
+    end_time: endTime,
+    is_late_checkout: !!checkoutOverride && checkoutOverride > defaultCheckout,
+    is_early_checkin: !!checkinOverride && checkinOverride < defaultCheckin,
+  };
+}
+
+/**
+ * Length of a cleaning window in minutes (negative if it closes before it opens)
+ */
+export function getCleaningWindowMinutes(window: CleaningWindow): number {
+  const toMinutes = (date: string, time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return Date.parse(`${date}T00:00:00Z`) / 60000 + hours * 60 + minutes;
+  };
+
+  return (
+    toMinutes(window.end_date, window.end_time) -
+    toMinutes(window.start_date, window.start_time)
+  );
+}
+
+/**
+ * Format a cleaning window (e.g., "11:00 AM – 4:00 PM" or "11:00 AM – Sat 4:00 PM")
+ * The end day is only named when it differs from the checkout day
+ */
+export function formatCleaningWindow(window: CleaningWindow): string {
+  const start = formatTimeOfDay(window.start_time);
+  const end = formatTimeOfDay(window.end_time);
+
+  if (window.end_date === window.start_date) {
+    return `${start} – ${end}`;
+  }
+
+  const endDay = WEEKDAYS[new Date(`${window.end_date}T00:00:00Z`).getUTCDay()];
+  return `${start} – ${endDay} ${end}`;
+}
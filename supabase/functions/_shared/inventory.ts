@@ -0,0 +1,150 @@
+/**
+ * Supply inventory
+ * Shared by the app and the edge functions, so this module has no imports
+ *
+ * Each property keeps a list of supplies with a par level, the amount that
+ * should be on hand after a turnover. An item needs buying when a cleaner
+ * reports it low or its last count is under par. Cleaners report low stock
+ * by text, either by name ("LOW coffee, towels") or by the numbers of
+ * restock items on the job's checklist ("LOW 4 7").
+ */
+
+export interface InventoryItem {
+  id: string;
+  property_id: string;
+  name: string;
+  /** What it's counted in, e.g. rolls or pods */
+  unit: string | null;
+  par_level: number;
+  /** The last count, or null when nobody has counted since it was reported low */
+  on_hand: number | null;
+  low_reported_at: string | null;
+  /** The cleaner who reported it low */
+  low_reported_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** An item to buy, totalled across every property that needs it */
+export interface ShoppingListEntry<T extends InventoryItem = InventoryItem> {
+  name: string;
+  unit: string | null;
+  quantity: number;
+  items: { item: T; quantity: number }[];
+}
+
+export interface LowStockReport {
+  /** Supplies named in the message */
+  names: string[];
+  /** Checklist item numbers in the message */
+  checklist_numbers: number[];
+}
+
+type StockLevel = Pick<InventoryItem, 'par_level' | 'on_hand' | 'low_reported_at'>;
+
+/**
+ * Whether an item needs buying
+ */
+export function isLowStock(item: StockLevel): boolean {
+  return item.low_reported_at !== null || (item.on_hand !== null && item.on_hand < item.par_level);
+}
+
+/**
+ * How many to buy to get an item back to par
+ * An item reported low without a count is bought up to its full par level
+ */
+export function getRestockQuantity(item: StockLevel): number {
+  if (!isLowStock(item)) return 0;
+  return Math.max(item.par_level - (item.on_hand ?? 0), 1);
+}
+
+// Lowercase, letters and numbers only, with a plural s dropped so
+// "Towels" matches "towel"
+function normalizeName(name: string): string {
+  const normalized = name.toLowerCase().replace(/[^a-z0-9 ]/g, '').replace(/\s+/g, ' ').trim();
+  return normalized.length > 3 ? normalized.replace(/s$/, '') : normalized;
+}
+
+/**
+ * Read a low stock report out of a text message
+ * Plenty of texts start with "low" ("Low battery, running late"), so a
+ * report only counts once something in it matches a supply or checklist item
+ * @returns The report, or null if the message doesn't start with LOW
+ */
+export function parseLowStockReport(body: string): LowStockReport | null {
+  const words = body.trim().split(/\s+/);
+  if ((words[0] || '').toLowerCase() !== 'low') return null;
+
+  // "LOW on towels" reads naturally, so skip the filler word
+  let rest = words.slice(1);
+  if ((rest[0] || '').toLowerCase() === 'on') rest = rest.slice(1);
+
+  const names: string[] = [];
+  const checklistNumbers: number[] = [];
+
+  for (const part of rest.join(' ').split(/,|;|&|\n|\band\b/i)) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+
+    if (/^\d{1,2}(\s+\d{1,2})*$/.test(trimmed)) {
+      checklistNumbers.push(...trimmed.split(/\s+/).map(Number));
+    } else {
+      names.push(trimmed);
+    }
+  }
+
+  return { names, checklist_numbers: checklistNumbers };
+}
+
+/**
+ * Find the inventory items a cleaner meant
+ * A name matches an item when either contains the other's words, so
+ * "Restock coffee pods" on a checklist finds the property's "Coffee pods"
+ * @returns The items found and the names that matched nothing
+ */
+export function matchInventoryItems<T extends Pick<InventoryItem, 'name'>>(
+  items: T[],
+  names: string[]
+): { matched: T[]; unmatched: string[] } {
+  const matched: T[] = [];
+  const unmatched: string[] = [];
+
+  for (const name of names) {
+    const wanted = normalizeName(name);
+    const found = items.filter((item) => {
+      const itemName = normalizeName(item.name);
+      return ` ${itemName} `.includes(` ${wanted} `) || ` ${wanted} `.includes(` ${itemName} `);
+    });
+
+    if (found.length === 0) {
+      unmatched.push(name);
+    }
+    for (const item of found) {
+      if (!matched.includes(item)) matched.push(item);
+    }
+  }
+
+  return { matched, unmatched };
+}
+
+/**
+ * Everything that needs buying, with items of the same name at different
+ * properties added together
+ */
+export function buildShoppingList<T extends InventoryItem>(items: T[]): ShoppingListEntry<T>[] {
+  const entries = new Map<string, ShoppingListEntry<T>>();
+
+  for (const item of items) {
+    const quantity = getRestockQuantity(item);
+    if (quantity === 0) continue;
+
+    const key = `${normalizeName(item.name)}|${item.unit?.toLowerCase() || ''}`;
+    const entry = entries.get(key) || { name: item.name, unit: item.unit, quantity: 0, items: [] };
+
+    entry.quantity += quantity;
+    entry.items.push({ item, quantity });
+    entries.set(key, entry);
+  }
+
+  return [...entries.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,56 @@
+/**
+ * Gives cleaning jobs their copy of the property checklist from checklists.ts
+ * and reads it back for SMS replies
+ */
+
+import {
+  copyChecklistTemplate,
+  sortChecklist,
+  type JobChecklistItem,
+} from './checklists.ts';
+
+/**
+ * Copy a property's checklist template onto a new job
+ */
+export async function copyChecklistToJob(
+  supabase: any,
+  jobId: string,
+  propertyId: string
+): Promise<void> {
+  const { data: templateItems, error: templateError } = await supabase
+    .from('checklist_items')
+    .select('*')
+    .eq('property_id', propertyId);
+
+  if (templateError) {
+    throw new Error(`Failed to fetch checklist template: ${templateError.message}`);
+  }
+  if (!templateItems || templateItems.length === 0) return;
+
+  const { error: insertError } = await supabase
+    .from('job_checklist_items')
+    .insert(copyChecklistTemplate(templateItems, jobId));
+
+  if (insertError) {
+    throw new Error(`Failed to copy checklist: ${insertError.message}`);
+  }
+}
+
+/**
+ * A job's checklist in the order cleaners number it
+ */
+export async function getJobChecklist(
+  supabase: any,
+  jobId: string
+): Promise<JobChecklistItem[]> {
+  const { data, error } = await supabase
+    .from('job_checklist_items')
+    .select('*')
+    .eq('cleaning_job_id', jobId);
+
+  if (error) {
+    throw new Error(`Failed to fetch checklist: ${error.message}`);
+  }
+
+  return sortChecklist(data || []);
+}
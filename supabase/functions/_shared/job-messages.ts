@@ -0,0 +1,110 @@
+/**
+ * SMS wording for cleaning jobs
+ * Shared so every Edge Function describes a job the same way
+ */
+
+import { getCleaningWindow, formatCleaningWindow } from './cleaning-window.ts';
+
+export interface JobMessageDetails {
+  id: string;
+  checkout_date: string;
+  checkin_date: string | null;
+  checkout_time?: string | null;
+  checkin_time?: string | null;
+  is_same_day_turnaround: boolean;
+  property?: {
+    name: string;
+    address: string | null;
+    default_checkout_time?: string | null;
+    default_checkin_time?: string | null;
+  } | null;
+  cleaner?: {
+    name: string;
+  } | null;
+}
+
+/**
+ * Format date for SMS (e.g., "Monday, Jan 15")
+ * Job dates are plain calendar days, so they're formatted without shifting zones
+ */
+export function formatDateForSms(dateString: string): string {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  };
+  return date.toLocaleDateString('en-US', options);
+}
+
+/**
+ * Short code cleaners quote in replies so a YES or DONE lands on the right job
+ * (e.g. "YES 4F2"). Codes only need to tell apart one cleaner's open jobs;
+ * the webhook treats a clash as an ambiguous reply.
+ */
+export function getJobReplyCode(jobId: string): string {
+  return jobId.replace(/-/g, '').slice(0, 3).toUpperCase();
+}
+
+/**
+ * Build the SMS offering a job to its cleaner
+ */
+export function buildSmsMessage(job: JobMessageDetails): string {
+  const cleanerName = job.cleaner?.name || 'there';
+  const propertyName = job.property?.name || 'the property';
+  const formattedDate = formatDateForSms(job.checkout_date);
+  const cleaningWindow = formatCleaningWindow(getCleaningWindow(job, job.property));
+
+  let message = `Hi ${cleanerName}, you have a cleaning at ${propertyName} on ${formattedDate}, ${cleaningWindow}.`;
+
+  // Add same-day turnaround warning
+  if (job.is_same_day_turnaround) {
+    message += ' ⚠️ SAME DAY TURNAROUND - Guest checks in today!';
+  }
+
+  // Add address if available
+  if (job.property?.address) {
+    message += ` Address: ${job.property.address}.`;
+  }
+
+  // Add response instructions
+  const code = getJobReplyCode(job.id);
+  message += ` Reply YES ${code} to confirm or NO ${code} to decline.`;
+
+  return message;
+}
+
+/**
+ * Build the SMS telling a cleaner they're no longer needed for a job
+ */
+export function buildReleasedMessage(job: JobMessageDetails): string {
+  const cleanerName = job.cleaner?.name || 'there';
+  const propertyName = job.property?.name || 'the property';
+
+  return `Hi ${cleanerName}, you've been released from the cleaning at ${propertyName} on ${formatDateForSms(job.checkout_date)}. No need to reply.`;
+}
+
+/**
+ * Build the day-before reminder for a cleaner who has confirmed a job
+ */
+export function buildReminderMessage(job: JobMessageDetails): string {
+  const cleanerName = job.cleaner?.name || 'there';
+  const propertyName = job.property?.name || 'the property';
+  const cleaningWindow = formatCleaningWindow(getCleaningWindow(job, job.property));
+
+  let message = `Reminder: Hi ${cleanerName}, you're cleaning ${propertyName} tomorrow (${formatDateForSms(job.checkout_date)}), ${cleaningWindow}.`;
+
+  if (job.is_same_day_turnaround) {
+    message += ' ⚠️ SAME DAY TURNAROUND - Guest checks in the same day!';
+  }
+
+  if (job.property?.address) {
+    message += ` Address: ${job.property.address}.`;
+  }
+
+  const code = getJobReplyCode(job.id);
+  message += ` Reply DONE ${code} when you're finished, or NO ${code} if you can no longer make it.`;
+
+  return message;
+}
@@ -0,0 +1,312 @@
+/**
+ * Job offers and backup-cleaner escalation
+ *
+ * Each time a job is put to a cleaner it gets a job_offers row. When that
+ * cleaner declines or lets the offer expire, the job moves to the next cleaner
+ * on the property's list (or the most reliable backup left, if the property
+ * ranks them that way). The host is only pushed once the list runs out.
+ */
+
+import { countFailedSends, sendLoggedSms, type LoggedSmsResult } from './sms.ts';
+import { buildSmsMessage, formatDateForSms, type JobMessageDetails } from './job-messages.ts';
+import { sendPushNotification } from './push.ts';
+import { repriceJob } from './job-pricing.ts';
+import { getCleanerReliability } from './cleaner-reliability.ts';
+import { compareReliability } from './reliability.ts';
+
+export const DEFAULT_OFFER_TIMEOUT_HOURS = 12;
+
+/** Failed offer texts to a cleaner before the host is asked to step in */
+export const MAX_OFFER_SMS_ATTEMPTS = 3;
+
+export type OfferResponse = 'accepted' | 'declined' | 'expired' | 'released';
+
+export interface EscalationResult {
+  job_id: string;
+  offered_to: { id: string; name: string } | null;
+  exhausted: boolean;
+}
+
+export interface OfferableJob extends JobMessageDetails {
+  id: string;
+  cleaner_id: string;
+  status: string;
+  cleaner: {
+    name: string;
+    phone: string;
+  };
+}
+
+export interface JobOfferSendResult extends LoggedSmsResult {
+  /** Another send already claimed this job */
+  skipped?: boolean;
+}
+
+/**
+ * Record that a job has been offered to a cleaner
+ * Only one cleaner holds an open offer for a job at a time
+ */
+export async function openOffer(supabase: any, jobId: string, cleanerId: string): Promise<void> {
+  const now = new Date().toISOString();
+
+  await supabase
+    .from('job_offers')
+    .update({ response: 'released', responded_at: now })
+    .eq('cleaning_job_id', jobId)
+    .is('response', null);
+
+  await supabase.from('job_offers').insert({
+    cleaning_job_id: jobId,
+    cleaner_id: cleanerId,
+    offered_at: now,
+  });
+}
+
+/**
+ * Stop texting a cleaner Twilio keeps rejecting and ask the host to step in
+ * sms_sent_at stays claimed so the dispatcher leaves the job alone
+ */
+async function flagUndeliverableOffer(supabase: any, job: OfferableJob): Promise<void> {
+  const { data: flagged } = await supabase
+    .from('cleaning_jobs')
+    .update({ status: 'needs_review', updated_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .select('property:properties (name, user_id)')
+    .single();
+
+  const property = flagged?.property;
+  if (!property?.user_id) return;
+
+  await sendPushNotification(
+    property.user_id,
+    'sms_failed',
+    `We couldn't text ${job.cleaner.name} about the cleaning at ${property.name} on ${formatDateForSms(job.checkout_date)}. Check their number or assign someone else.`,
+    job.id,
+    supabase,
+    { cleaner_id: job.cleaner_id },
+    'Text Not Delivered'
+  );
+}
+
+/**
+ * Text a job's assigned cleaner the offer SMS, at most once
+ * sms_sent_at is claimed before sending so overlapping runs can't double-text
+ * the cleaner; the claim is given back if Twilio rejects the message, until
+ * MAX_OFFER_SMS_ATTEMPTS sends have failed and the job goes to the host
+ */
+export async function sendJobOffer(
+  supabase: any,
+  job: OfferableJob
+): Promise<JobOfferSendResult> {
+  const { data: claimed, error: claimError } = await supabase
+    .from('cleaning_jobs')
+    .update({ sms_sent_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .is('sms_sent_at', null)
+    .select('id');
+
+  if (claimError) {
+    throw new Error(`Failed to claim job ${job.id}: ${claimError.message}`);
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return { success: false, skipped: true };
+  }
+
+  const smsResult = await sendLoggedSms(supabase, {
+    to: job.cleaner.phone,
+    body: buildSmsMessage(job),
+    cleaningJobId: job.id,
+    cleanerId: job.cleaner_id,
+  });
+
+  if (!smsResult.success) {
+    const failedSends = await countFailedSends(supabase, job.id, job.cleaner.phone);
+
+    if (failedSends >= MAX_OFFER_SMS_ATTEMPTS) {
+      await flagUndeliverableOffer(supabase, job);
+    } else {
+      await supabase.from('cleaning_jobs').update({ sms_sent_at: null }).eq('id', job.id);
+    }
+    return smsResult;
+  }
+
+  // A job already confirmed in the app stays confirmed
+  if (job.status === 'pending') {
+    await supabase.from('cleaning_jobs').update({ status: 'offered' }).eq('id', job.id);
+  }
+
+  // Start the clock on the cleaner's reply
+  await openOffer(supabase, job.id, job.cleaner_id);
+
+  return smsResult;
+}
+
+/**
+ * Record a cleaner's answer to their open offer for a job
+ */
+export async function closeOffer(
+  supabase: any,
+  jobId: string,
+  cleanerId: string,
+  response: OfferResponse
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { data: closed } = await supabase
+    .from('job_offers')
+    .update({ response, responded_at: now })
+    .eq('cleaning_job_id', jobId)
+    .eq('cleaner_id', cleanerId)
+    .is('response', null)
+    .select('id');
+
+  // Jobs offered before offers were tracked have no open row to close
+  if (!closed || closed.length === 0) {
+    await supabase.from('job_offers').insert({
+      cleaning_job_id: jobId,
+      cleaner_id: cleanerId,
+      offered_at: now,
+      response,
+      responded_at: now,
+    });
+  }
+}
+
+/**
+ * Offer a job to the next cleaner on its property's list who hasn't been asked
+ * When nobody is left the job is marked declined (or unassigned if nobody said
+ * no outright) and the host is pushed
+ */
+export async function offerJobToNextCleaner(
+  supabase: any,
+  jobId: string
+): Promise<EscalationResult> {
+  const { data: job, error: jobError } = await supabase
+    .from('cleaning_jobs')
+    .select(`
+      *,
+      property:properties (
+        name,
+        address,
+        user_id,
+        default_checkout_time,
+        default_checkin_time,
+        rank_backups_by_reliability
+      )
+    `)
+    .eq('id', jobId)
+    .single();
+
+  if (jobError || !job) {
+    throw new Error(`Failed to fetch job ${jobId}: ${jobError?.message}`);
+  }
+
+  const { data: offers, error: offersError } = await supabase
+    .from('job_offers')
+    .select('cleaner_id, response')
+    .eq('cleaning_job_id', jobId);
+
+  if (offersError) {
+    throw new Error(`Failed to fetch job offers: ${offersError.message}`);
+  }
+
+  const { data: propertyCleaners, error: cleanersError } = await supabase
+    .from('property_cleaners')
+    .select('is_primary, cleaner:cleaners (*)')
+    .eq('property_id', job.property_id)
+    .order('is_primary', { ascending: false })
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (cleanersError) {
+    throw new Error(`Failed to fetch property cleaners: ${cleanersError.message}`);
+  }
+
+  const alreadyAsked = new Set((offers || []).map((offer: any) => offer.cleaner_id));
+  const candidates = (propertyCleaners || []).filter(
+    (pc: any) =>
+      pc.cleaner &&
+      pc.cleaner.active &&
+      !pc.cleaner.sms_opt_out &&
+      !alreadyAsked.has(pc.cleaner.id)
+  );
+
+  let next = candidates[0];
+
+  // The primary is always asked first; after that the host can have the most
+  // reliable backup go next instead of following their list
+  const rankBackups = job.property?.rank_backups_by_reliability && candidates.length > 1;
+
+  if (rankBackups && !next.is_primary) {
+    try {
+      const profiles = await getCleanerReliability(
+        supabase,
+        candidates.map((pc: any) => pc.cleaner)
+      );
+      next = [...candidates].sort((a: any, b: any) =>
+        compareReliability(profiles.get(a.cleaner.id), profiles.get(b.cleaner.id))
+      )[0];
+    } catch (reliabilityError) {
+      console.error('Error ranking backups, using list order:', jobId, reliabilityError);
+    }
+  }
+
+  const nextCleaner = next?.cleaner;
+
+  const wasDeclined = (offers || []).some((offer: any) => offer.response === 'declined');
+
+  // Whoever had the job is off it either way
+  const { error: updateError } = await supabase
+    .from('cleaning_jobs')
+    .update({
+      cleaner_id: nextCleaner?.id || null,
+      status: nextCleaner ? 'pending' : wasDeclined ? 'declined' : 'unassigned',
+      sms_sent_at: null,
+      confirmed_at: null,
+      reminder_sent_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId);
+
+  if (updateError) {
+    throw new Error(`Failed to update job ${jobId}: ${updateError.message}`);
+  }
+
+  if (!nextCleaner) {
+    const propertyName = job.property?.name || 'Unknown Property';
+
+    if (job.property?.user_id) {
+      await sendPushNotification(
+        job.property.user_id,
+        'job_unassigned',
+        `No backup cleaners left for ${propertyName} on ${formatDateForSms(job.checkout_date)}. Assign someone in the app.`,
+        jobId,
+        supabase
+      );
+    }
+
+    return { job_id: jobId, offered_to: null, exhausted: true };
+  }
+
+  // The backup cleaner may be paid differently
+  try {
+    await repriceJob(supabase, jobId);
+  } catch (priceError) {
+    console.error('Error repricing job:', jobId, priceError);
+  }
+
+  // If the text fails the dispatcher retries it on its next run, up to a limit
+  await sendJobOffer(supabase, {
+    ...job,
+    cleaner_id: nextCleaner.id,
+    status: 'pending',
+    cleaner: nextCleaner,
+  });
+
+  return {
+    job_id: jobId,
+    offered_to: { id: nextCleaner.id, name: nextCleaner.name },
+    exhausted: false,
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Photos cleaners text in, as proof of a finished cleaning or of an issue
+ * they found
+ * Shared by the app and the edge functions, so this module has no imports
+ *
+ * Photos arrive as MMS, are copied out of Twilio into a private storage bucket
+ * under the job's or issue's ID, and are shown to the host through
+ * short-lived links.
+ */
+
+export const JOB_PHOTOS_BUCKET = 'job-photos';
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+};
+
+/**
+ * File extension for a photo's content type
+ * @returns The extension, or null if the attachment isn't a photo we keep
+ */
+export function getPhotoExtension(contentType: string): string | null {
+  return PHOTO_EXTENSIONS[contentType.toLowerCase().split(';')[0].trim()] ?? null;
+}
+
+/**
+ * Where a photo is stored in the bucket
+ * @param folder - The job's ID, or issues/<issue ID> for a maintenance issue
+ * @param messageSid - The Twilio message it came in on
+ * @param index - The photo's position in that message
+ */
+export function getPhotoPath(
+  folder: string,
+  messageSid: string,
+  index: number,
+  extension: string
+): string {
+  return `${folder}/${messageSid}-${index}.${extension}`;
+}
+
+/**
+ * Explain why a job can't be completed without more photos
+ * @param photoCount - Photos received for the job so far
+ * @param minPhotos - The property's minimum (0 for none)
+ * @returns An error message, or null if there are enough
+ */
+export function getPhotoCompletionError(photoCount: number, minPhotos: number): string | null {
+  if (photoCount >= minPhotos) return null;
+
+  return `${minPhotos} ${minPhotos === 1 ? 'photo is' : 'photos are'} needed before completion and ${
+    photoCount === 0 ? 'none have' : `only ${photoCount} ${photoCount === 1 ? 'has' : 'have'}`
+  } been received`;
+}
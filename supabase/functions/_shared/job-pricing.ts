@@ -0,0 +1,110 @@
+/**
+ * Fills in amount_owed on cleaning jobs from the pricing rules in pricing.ts
+ *
+ * Jobs are priced when they're created and repriced whenever something the
+ * price depends on changes: the cleaner, the dates, the hours the cleaner
+ * reports, or the supplies they bought. Paid jobs are never touched.
+ */
+
+import { calculateJobAmount, type JobRates, type JobAddOns } from './pricing.ts';
+
+export const PROPERTY_ADD_ON_COLUMNS = 'same_day_premium, laundry_fee, holiday_multiplier';
+
+/**
+ * Look up what a cleaner is paid at a property
+ */
+export async function getJobRates(
+  supabase: any,
+  propertyId: string,
+  cleanerId: string
+): Promise<JobRates> {
+  const [{ data: pair }, { data: cleaner }] = await Promise.all([
+    supabase
+      .from('property_cleaners')
+      .select('pay_type, flat_rate, hourly_rate, estimated_hours')
+      .eq('property_id', propertyId)
+      .eq('cleaner_id', cleanerId)
+      .maybeSingle(),
+    supabase.from('cleaners').select('hourly_rate').eq('id', cleanerId).single(),
+  ]);
+
+  return {
+    pay_type: pair?.pay_type ?? null,
+    flat_rate: pair?.flat_rate ?? null,
+    hourly_rate: pair?.hourly_rate ?? null,
+    estimated_hours: pair?.estimated_hours ?? null,
+    cleaner_hourly_rate: cleaner?.hourly_rate ?? null,
+  };
+}
+
+/**
+ * Total of the supply expenses a job's cleaner is paid back for
+ */
+export async function getJobReimbursements(supabase: any, jobId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('supply_expenses')
+    .select('amount')
+    .eq('cleaning_job_id', jobId);
+
+  if (error) {
+    throw new Error(`Failed to fetch supply expenses for job ${jobId}: ${error.message}`);
+  }
+
+  return (data || []).reduce((sum: number, expense: { amount: number }) => sum + expense.amount, 0);
+}
+
+/**
+ * Recalculate a job's amount_owed
+ * When the cleaner's rates give no price the amount is cleared, so they're
+ * never shown someone else's rate, and the host fills it in
+ * @returns The new amount, or null if the job wasn't repriced (no cleaner or
+ * already paid) or couldn't be priced
+ */
+export async function repriceJob(supabase: any, jobId: string): Promise<number | null> {
+  const { data: job, error: jobError } = await supabase
+    .from('cleaning_jobs')
+    .select(`
+      id,
+      property_id,
+      cleaner_id,
+      checkout_date,
+      is_same_day_turnaround,
+      actual_hours,
+      amount_owed,
+      payment_status,
+      property:properties (
+        ${PROPERTY_ADD_ON_COLUMNS}
+      )
+    `)
+    .eq('id', jobId)
+    .single();
+
+  if (jobError || !job) {
+    throw new Error(`Failed to fetch job ${jobId}: ${jobError?.message}`);
+  }
+
+  if (!job.cleaner_id || job.payment_status === 'paid') {
+    return null;
+  }
+
+  const [rates, reimbursements] = await Promise.all([
+    getJobRates(supabase, job.property_id, job.cleaner_id),
+    getJobReimbursements(supabase, jobId),
+  ]);
+  const price = calculateJobAmount(rates, job.property as JobAddOns, job, reimbursements);
+  const amountOwed = price ? price.total : null;
+
+  if (amountOwed !== job.amount_owed) {
+    const { error: updateError } = await supabase
+      .from('cleaning_jobs')
+      .update({ amount_owed: amountOwed })
+      .eq('id', jobId)
+      .eq('payment_status', 'unpaid');
+
+    if (updateError) {
+      throw new Error(`Failed to update amount for job ${jobId}: ${updateError.message}`);
+    }
+  }
+
+  return amountOwed;
+}
@@ -0,0 +1,157 @@
+/**
+ * Cleaner replies to job texts
+ * Reads which job a reply is about and what the cleaner wants done with it
+ */
+
+import type { JobStatus } from './job-status.ts';
+
+export type MessageIntent =
+  | 'confirm'
+  | 'decline'
+  | 'start'
+  | 'complete'
+  | 'check'
+  | 'checklist'
+  | 'unknown';
+
+const COMPLETION_KEYWORDS = ['done', 'complete', 'completed', 'finished', 'finish'];
+
+const CHECK_KEYWORDS = ['check', 'checked', 'tick'];
+
+// Checklist item numbers; never three digits, so they can't be a reply code
+const ITEM_NUMBER_PATTERN = /^\d{1,2}$/;
+
+// Hours worked, e.g. "3", "3.5" or "3.5h"; never three digits, so it can't be a reply code
+const HOURS_PATTERN = /^\d{1,2}(\.\d+)?h?$/;
+
+export interface ParsedReply {
+  intent: MessageIntent;
+  /** The keyword in capitals, for echoing back in help texts */
+  keyword: string;
+  code: string | null;
+  hours: number | null;
+  items: number[];
+  status: JobStatus | null;
+  timestamp_field: string | null;
+}
+
+/**
+ * Parse SMS body for keywords
+ * A keyword may be followed by the job's reply code, e.g. "YES 4F2". Completion
+ * replies can also say how long the cleaning took, e.g. "DONE 4F2 3.5h", and
+ * checklist replies list the items finished, e.g. "CHECK 4F2 1 3"
+ */
+export function parseMessageIntent(body: string): ParsedReply {
+  const [word = '', ...rest] = body
+    .trim()
+    .toLowerCase()
+    .replace(/(\d)\s*(hours?|hrs?|h)\b/g, '$1h')
+    .split(/[\s,]+/);
+  const keyword = word.toUpperCase();
+
+  let hours: number | null = null;
+  if (COMPLETION_KEYWORDS.includes(word)) {
+    const hoursIndex = rest.findIndex((part) => HOURS_PATTERN.test(part));
+    if (hoursIndex !== -1) {
+      hours = parseFloat(rest.splice(hoursIndex, 1)[0]);
+    }
+  }
+
+  let items: number[] = [];
+  let codeParts = rest;
+  if (CHECK_KEYWORDS.includes(word)) {
+    items = rest.filter((part) => ITEM_NUMBER_PATTERN.test(part)).map(Number);
+    codeParts = rest.filter((part) => !ITEM_NUMBER_PATTERN.test(part));
+  }
+
+  const code = codeParts.join('').toUpperCase() || null;
+
+  // Anything else after the keyword has to be a reply code
+  if (code && !/^[0-9A-F]{3}$/.test(code)) {
+    return {
+      intent: 'unknown',
+      keyword,
+      code: null,
+      hours: null,
+      items: [],
+      status: null,
+      timestamp_field: null,
+    };
+  }
+
+  // Confirmation keywords
+  if (['yes', 'y', 'confirm', 'ok', 'okay', 'accept', 'confirmed'].includes(word)) {
+    return {
+      intent: 'confirm',
+      keyword,
+      code,
+      hours: null,
+      items: [],
+      status: 'confirmed',
+      timestamp_field: 'confirmed_at',
+    };
+  }
+
+  // Decline keywords
+  // A decline doesn't change the job itself; it's passed on to the next cleaner
+  if (['no', 'n', 'decline', 'cancel', 'nope', 'declined', 'cancelled'].includes(word)) {
+    return {
+      intent: 'decline',
+      keyword,
+      code,
+      hours: null,
+      items: [],
+      status: null,
+      timestamp_field: null,
+    };
+  }
+
+  // Arrival keywords
+  if (['start', 'started', 'starting', 'arrived', 'here'].includes(word)) {
+    return {
+      intent: 'start',
+      keyword,
+      code,
+      hours: null,
+      items: [],
+      status: 'in_progress',
+      timestamp_field: 'started_at',
+    };
+  }
+
+  // Completion keywords
+  if (COMPLETION_KEYWORDS.includes(word)) {
+    return {
+      intent: 'complete',
+      keyword,
+      code,
+      hours,
+      items: [],
+      status: 'completed',
+      timestamp_field: 'completed_at',
+    };
+  }
+
+  // Checklist keywords; with no item numbers the cleaner gets the list back
+  if (CHECK_KEYWORDS.includes(word) || ['checklist', 'list', 'tasks'].includes(word)) {
+    return {
+      intent: items.length > 0 ? 'check' : 'checklist',
+      keyword: 'CHECK',
+      code,
+      hours: null,
+      items,
+      status: null,
+      timestamp_field: null,
+    };
+  }
+
+  return {
+    intent: 'unknown',
+    keyword,
+    code: null,
+    hours: null,
+    items: [],
+    status: null,
+    timestamp_field: null,
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Cleaning job lifecycle
+ * Shared by the app and the edge functions, so this module has no imports
+ *
+ *   unassigned   no cleaner on the job
+ *   pending      a cleaner is assigned but hasn't been texted yet
+ *   offered      the cleaner has been texted and we're waiting on a reply
+ *   declined     every cleaner asked said no; the job still needs staffing
+ *   confirmed    the cleaner said yes
+ *   in_progress  the cleaner has started
+ *   completed    the cleaning is done
+ *   needs_review the host should look at it (e.g. the day passed without a DONE)
+ *   cancelled    the cleaning isn't happening (e.g. the booking was cancelled)
+ */
+
+export type JobStatus =
+  | 'unassigned'
+  | 'pending'
+  | 'offered'
+  | 'declined'
+  | 'confirmed'
+  | 'in_progress'
+  | 'completed'
+  | 'needs_review'
+  | 'cancelled';
+
+export const JOB_STATUSES: JobStatus[] = [
+  'unassigned',
+  'pending',
+  'offered',
+  'declined',
+  'confirmed',
+  'in_progress',
+  'completed',
+  'needs_review',
+  'cancelled',
+];
+
+/**
+ * Statuses of cleanings that haven't happened yet
+ */
+export const UPCOMING_JOB_STATUSES: JobStatus[] = [
+  'unassigned',
+  'pending',
+  'offered',
+  'declined',
+  'confirmed',
+  'in_progress',
+];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  unassigned: 'Unassigned',
+  pending: 'Pending',
+  offered: 'Offered',
+  declined: 'Declined',
+  confirmed: 'Confirmed',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  needs_review: 'Needs Review',
+  cancelled: 'Cancelled',
+};
+
+// Staffing statuses can move freely between each other as cleaners are
+// assigned, texted, decline or get reassigned
+const STAFFING: JobStatus[] = ['unassigned', 'pending', 'offered', 'declined', 'confirmed'];
+
+const JOB_STATUS_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  unassigned: [...STAFFING, 'cancelled', 'needs_review'],
+  pending: [...STAFFING, 'cancelled', 'needs_review'],
+  offered: [...STAFFING, 'cancelled', 'needs_review'],
+  declined: [...STAFFING, 'cancelled', 'needs_review'],
+  confirmed: [...STAFFING, 'in_progress', 'completed', 'cancelled', 'needs_review'],
+  in_progress: ['completed', 'cancelled', 'needs_review'],
+  completed: ['needs_review'],
+  needs_review: [...STAFFING, 'completed', 'cancelled'],
+  cancelled: [],
+};
+
+/**
+ * Whether a job may move from one status to another
+ */
+export function canTransitionJobStatus(from: JobStatus, to: JobStatus): boolean {
+  if (from === to) return true;
+  return JOB_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Explain why a transition isn't allowed
+ * @returns An error message, or null if the transition is allowed
+ */
+export function getJobStatusTransitionError(from: JobStatus, to: JobStatus): string | null {
+  if (canTransitionJobStatus(from, to)) return null;
+
+  return `A ${JOB_STATUS_LABELS[from]?.toLowerCase() || from} job can't be marked ${
+    JOB_STATUS_LABELS[to]?.toLowerCase() || to
+  }`;
+}
+
+/**
+ * Staffing status for a job based on who's on it and whether they've been texted
+ */
+export function getStaffingStatus(cleanerId: string | null, smsSent: boolean): JobStatus {
+  if (!cleanerId) return 'unassigned';
+  return smsSent ? 'offered' : 'pending';
+}
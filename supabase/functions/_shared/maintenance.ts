@@ -0,0 +1,82 @@
+/**
+ * Maintenance issues cleaners report
+ * Shared by the app and the edge functions, so this module has no imports
+ *
+ * A cleaner texts ISSUE followed by what they found, optionally with a
+ * severity word and photos, e.g. "ISSUE URGENT water leaking under the sink".
+ * Each report becomes a ticket on the property that the host works through:
+ *
+ *   open         reported, nobody's on it yet
+ *   in_progress  the host is getting it fixed
+ *   resolved     fixed (the cost is recorded here)
+ *   dismissed    not worth fixing, or not actually a problem
+ */
+
+export type MaintenanceSeverity = 'low' | 'medium' | 'high' | 'urgent';
+
+export type MaintenanceStatus = 'open' | 'in_progress' | 'resolved' | 'dismissed';
+
+export const MAINTENANCE_SEVERITIES: MaintenanceSeverity[] = ['low', 'medium', 'high', 'urgent'];
+
+export const MAINTENANCE_STATUSES: MaintenanceStatus[] = [
+  'open',
+  'in_progress',
+  'resolved',
+  'dismissed',
+];
+
+/**
+ * Statuses of issues that still need the host's attention
+ */
+export const OPEN_MAINTENANCE_STATUSES: MaintenanceStatus[] = ['open', 'in_progress'];
+
+export const MAINTENANCE_SEVERITY_LABELS: Record<MaintenanceSeverity, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+export const MAINTENANCE_STATUS_LABELS: Record<MaintenanceStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed',
+};
+
+const ISSUE_KEYWORDS = ['issue', 'damage', 'broken', 'repair'];
+
+// Words a cleaner might use for each severity
+const SEVERITY_WORDS: Record<string, MaintenanceSeverity> = {
+  low: 'low',
+  minor: 'low',
+  medium: 'medium',
+  high: 'high',
+  major: 'high',
+  urgent: 'urgent',
+  emergency: 'urgent',
+};
+
+export interface IssueReport {
+  severity: MaintenanceSeverity;
+  /** What the cleaner wrote, without the keyword or severity */
+  description: string;
+}
+
+/**
+ * Read an issue report out of a text message
+ * @returns The report, or null if the message isn't one
+ */
+export function parseIssueReport(body: string): IssueReport | null {
+  const words = body.trim().split(/\s+/);
+  if (!ISSUE_KEYWORDS.includes((words[0] || '').toLowerCase())) return null;
+
+  let rest = words.slice(1);
+  const severity = SEVERITY_WORDS[(rest[0] || '').toLowerCase().replace(/[^a-z]/g, '')];
+  if (severity) rest = rest.slice(1);
+
+  return {
+    severity: severity || 'medium',
+    description: rest.join(' ').replace(/^[:\-–\s]+/, ''),
+  };
+}
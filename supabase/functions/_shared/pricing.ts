@@ -0,0 +1,143 @@
+/**
+ * Cleaning job pricing
+ * Shared by the app and the edge functions, so this module has no imports
+ *
+ * A job's base pay comes from its property/cleaner pair: either a flat fee per
+ * turnover, or an hourly rate times the hours worked (the cleaner's reported
+ * hours once we have them, the pair's estimate until then). The property's
+ * add-ons go on top, and the holiday multiplier applies to the whole amount.
+ * Supplies the cleaner bought are paid back at cost, after the multiplier.
+ */
+
+export type PayType = 'flat' | 'hourly';
+
+/**
+ * What a cleaner is paid at a property; pair fields are null when the cleaner
+ * isn't one of the property's cleaners
+ */
+export interface JobRates {
+  pay_type: PayType | null;
+  flat_rate: number | null;
+  hourly_rate: number | null;
+  estimated_hours: number | null;
+  /** Falls back to the cleaner's own rate when the pair doesn't set one */
+  cleaner_hourly_rate: number | null;
+}
+
+export interface JobAddOns {
+  same_day_premium: number | null;
+  laundry_fee: number | null;
+  holiday_multiplier: number | null;
+}
+
+export interface PricedJob {
+  checkout_date: string;
+  is_same_day_turnaround: boolean;
+  actual_hours: number | null;
+}
+
+export interface JobPriceBreakdown {
+  pay_type: PayType;
+  base: number;
+  hours: number | null;
+  hourly_rate: number | null;
+  same_day_premium: number;
+  laundry_fee: number;
+  holiday: string | null;
+  holiday_multiplier: number;
+  reimbursements: number;
+  total: number;
+}
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Date (YYYY-MM-DD) of the nth weekday of a month; a negative n counts from the end
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  let day: number;
+
+  if (n > 0) {
+    const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    day = 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+  } else {
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const lastWeekday = new Date(Date.UTC(year, month - 1, lastDay)).getUTCDay();
+    day = lastDay - ((lastWeekday - weekday + 7) % 7) + (n + 1) * 7;
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * The holiday a date falls on, if any
+ * @param date - Date string (YYYY-MM-DD)
+ */
+export function getHoliday(date: string): string | null {
+  const year = Number(date.slice(0, 4));
+  const monthDay = date.slice(5, 10);
+
+  const fixed: Record<string, string> = {
+    '01-01': "New Year's Day",
+    '07-04': 'Independence Day',
+    '12-24': 'Christmas Eve',
+    '12-25': 'Christmas Day',
+    '12-31': "New Year's Eve",
+  };
+  if (fixed[monthDay]) return fixed[monthDay];
+
+  const floating: Record<string, string> = {
+    [nthWeekday(year, 5, 1, -1)]: 'Memorial Day',
+    [nthWeekday(year, 9, 1, 1)]: 'Labor Day',
+    [nthWeekday(year, 11, 4, 4)]: 'Thanksgiving',
+  };
+
+  return floating[date] || null;
+}
+
+/**
+ * Work out what a job pays
+ * @param reimbursements - Total of the job's supply expenses
+ * @returns The breakdown, or null if the rates don't give a price (e.g. hourly
+ * with no rate or no hours to go on)
+ */
+export function calculateJobAmount(
+  rates: JobRates,
+  addOns: JobAddOns,
+  job: PricedJob,
+  reimbursements: number = 0
+): JobPriceBreakdown | null {
+  const payType: PayType = rates.pay_type || 'hourly';
+
+  let base: number;
+  let hours: number | null = null;
+  let hourlyRate: number | null = null;
+
+  if (payType === 'flat') {
+    if (rates.flat_rate == null) return null;
+    base = rates.flat_rate;
+  } else {
+    hourlyRate = rates.hourly_rate ?? rates.cleaner_hourly_rate;
+    hours = job.actual_hours ?? rates.estimated_hours;
+    if (hourlyRate == null || hours == null) return null;
+    base = hourlyRate * hours;
+  }
+
+  const sameDayPremium = job.is_same_day_turnaround ? addOns.same_day_premium || 0 : 0;
+  const laundryFee = addOns.laundry_fee || 0;
+  const holiday = addOns.holiday_multiplier ? getHoliday(job.checkout_date) : null;
+  const holidayMultiplier = holiday ? addOns.holiday_multiplier! : 1;
+
+  return {
+    pay_type: payType,
+    base: roundToCents(base),
+    hours,
+    hourly_rate: hourlyRate,
+    same_day_premium: sameDayPremium,
+    laundry_fee: laundryFee,
+    holiday,
+    holiday_multiplier: holidayMultiplier,
+    reimbursements: roundToCents(reimbursements),
+    total: roundToCents((base + sameDayPremium + laundryFee) * holidayMultiplier + reimbursements),
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Expo push notification helper for Supabase Edge Functions
+ */
+
+/**
+ * Send push notification to host
+ * Extra data rides along for the app to route the tap, e.g. an issue ID
+ */
+export async function sendPushNotification(
+  userId: string,
+  type: string,
+  message: string,
+  jobId: string | null,
+  supabase: any,
+  data: Record<string, string> = {},
+  title = 'Cleaning Job Update'
+) {
+  try {
+    // Get user's push token
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('expo_push_token')
+      .eq('id', userId)
+      .single();
+
+    if (error || !profile?.expo_push_token) {
+      console.log('No push token found for user:', userId);
+      return;
+    }
+
+    // Send push notification via Expo
+    const expoPushUrl = 'https://exp.host/--/api/v2/push/send';
+    const notification = {
+      to: profile.expo_push_token,
+      sound: 'default',
+      title,
+      body: message,
+      data: { type, job_id: jobId, ...data },
+    };
+
+    await fetch(expoPushUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(notification),
+    });
+  } catch (error) {
+    console.error('Error sending push notification:', error);
+  }
+}
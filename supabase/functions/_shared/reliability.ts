@@ -0,0 +1,232 @@
+/**
+ * Cleaner reliability scoring
+ * Shared by the app and the edge functions, so this module has no imports
+ *
+ * A cleaner's profile is built from the last year of their history:
+ *   response time    first text about a job to their first reply (sms_logs)
+ *   confirm/decline  how they answered job offers; the rest expired unanswered
+ *   no-shows         confirmed jobs whose window closed without a DONE
+ *   on time          completed jobs finished before the next check-in
+ *
+ * The score weighs those together out of 100. A measure only counts once
+ * there are a few data points behind it, and the score stays null until at
+ * least one does.
+ */
+
+export const RELIABILITY_LOOKBACK_DAYS = 365;
+
+/** Fewest data points a measure needs before it counts toward the score */
+export const MIN_RELIABILITY_SAMPLE = 3;
+
+const WEIGHTS = {
+  no_show: 0.35,
+  on_time: 0.25,
+  confirmation: 0.25,
+  response: 0.15,
+};
+
+// Replies within FAST_REPLY_MINUTES score full marks, falling to none at SLOW_REPLY_MINUTES
+const FAST_REPLY_MINUTES = 15;
+const SLOW_REPLY_MINUTES = 12 * 60;
+
+export interface ReliabilityProfile {
+  /** 0-100, or null until there's enough history */
+  score: number | null;
+  avg_response_minutes: number | null;
+  offers_answered: number;
+  confirmation_rate: number | null;
+  decline_rate: number | null;
+  confirmed_jobs: number;
+  no_shows: number;
+  no_show_rate: number | null;
+  completed_jobs: number;
+  on_time_rate: number | null;
+}
+
+/** A job the cleaner was assigned, with the time it had to be done by */
+export interface ReliabilityJob {
+  status: string;
+  confirmed_at: string | null;
+  completed_at: string | null;
+  /** End of the cleaning window in the property's time zone */
+  finish_by_date: string;
+  finish_by_time: string;
+  time_zone: string;
+}
+
+export interface ReliabilityOffer {
+  response: 'accepted' | 'declined' | 'expired' | 'released' | null;
+}
+
+/** An SMS to or from the cleaner's phone */
+export interface ReliabilitySmsLog {
+  cleaning_job_id: string | null;
+  direction: string;
+  created_at: string;
+}
+
+/**
+ * A moment as "YYYY-MM-DD HH:MM" in a time zone, so it can be compared with a
+ * cleaning window's local date and time
+ */
+function toLocalDateTime(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || '00';
+  return `${get('year')}-${get('month')}-${get('day')} ${get('hour')}:${get('minute')}`;
+}
+
+/**
+ * 1 for a fast reply, falling linearly to 0 for a slow one
+ */
+function responseScore(minutes: number): number {
+  const slowness = (minutes - FAST_REPLY_MINUTES) / (SLOW_REPLY_MINUTES - FAST_REPLY_MINUTES);
+  return 1 - Math.min(Math.max(slowness, 0), 1);
+}
+
+const rate = (count: number, total: number): number | null => (total > 0 ? count / total : null);
+
+/**
+ * Average minutes from the first text about each job to the cleaner's first
+ * reply about it
+ */
+function averageResponseMinutes(
+  smsLogs: ReliabilitySmsLog[]
+): { minutes: number | null; count: number } {
+  const byJob = new Map<string, ReliabilitySmsLog[]>();
+
+  for (const log of smsLogs) {
+    if (!log.cleaning_job_id) continue;
+    const logs = byJob.get(log.cleaning_job_id) || [];
+    logs.push(log);
+    byJob.set(log.cleaning_job_id, logs);
+  }
+
+  let total = 0;
+  let count = 0;
+
+  for (const logs of byJob.values()) {
+    logs.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const firstText = logs.find((log) => log.direction === 'outbound');
+    if (!firstText) continue;
+
+    const reply = logs.find(
+      (log) => log.direction === 'inbound' && log.created_at >= firstText.created_at
+    );
+    if (!reply) continue;
+
+    total += (Date.parse(reply.created_at) - Date.parse(firstText.created_at)) / 60000;
+    count += 1;
+  }
+
+  return { minutes: count > 0 ? Math.round(total / count) : null, count };
+}
+
+/**
+ * Build a cleaner's reliability profile
+ * @param jobs - Jobs currently assigned to the cleaner
+ * @param offers - Offers made to the cleaner
+ * @param smsLogs - Texts to and from the cleaner's phone
+ * @param now - When the profile is as of (defaults to now)
+ */
+export function calculateReliability(
+  jobs: ReliabilityJob[],
+  offers: ReliabilityOffer[],
+  smsLogs: ReliabilitySmsLog[],
+  now: Date = new Date()
+): ReliabilityProfile {
+  // Offers the host withdrew or that are still open say nothing about the cleaner
+  const answered = offers.filter((offer) => offer.response && offer.response !== 'released');
+  const accepted = answered.filter((offer) => offer.response === 'accepted').length;
+  const declined = answered.filter((offer) => offer.response === 'declined').length;
+
+  let confirmedJobs = 0;
+  let noShows = 0;
+  let completedJobs = 0;
+  let onTime = 0;
+
+  for (const job of jobs) {
+    if (job.status === 'cancelled') continue;
+
+    const finishBy = `${job.finish_by_date} ${job.finish_by_time}`;
+
+    if (job.status === 'completed') {
+      if (job.confirmed_at) confirmedJobs += 1;
+      if (job.completed_at) {
+        completedJobs += 1;
+        if (toLocalDateTime(new Date(job.completed_at), job.time_zone) <= finishBy) {
+          onTime += 1;
+        }
+      }
+    } else if (job.confirmed_at && toLocalDateTime(now, job.time_zone) > finishBy) {
+      // The window has closed and the cleaner never said DONE
+      confirmedJobs += 1;
+      noShows += 1;
+    }
+  }
+
+  const response = averageResponseMinutes(smsLogs);
+
+  const profile: ReliabilityProfile = {
+    score: null,
+    avg_response_minutes: response.minutes,
+    offers_answered: answered.length,
+    confirmation_rate: rate(accepted, answered.length),
+    decline_rate: rate(declined, answered.length),
+    confirmed_jobs: confirmedJobs,
+    no_shows: noShows,
+    no_show_rate: rate(noShows, confirmedJobs),
+    completed_jobs: completedJobs,
+    on_time_rate: rate(onTime, completedJobs),
+  };
+
+  const measures: { weight: number; value: number | null; sample: number }[] = [
+    {
+      weight: WEIGHTS.no_show,
+      value: profile.no_show_rate === null ? null : 1 - profile.no_show_rate,
+      sample: confirmedJobs,
+    },
+    { weight: WEIGHTS.on_time, value: profile.on_time_rate, sample: completedJobs },
+    { weight: WEIGHTS.confirmation, value: profile.confirmation_rate, sample: answered.length },
+    {
+      weight: WEIGHTS.response,
+      value: response.minutes === null ? null : responseScore(response.minutes),
+      sample: response.count,
+    },
+  ];
+
+  const counted = measures.filter(
+    (measure) => measure.value !== null && measure.sample >= MIN_RELIABILITY_SAMPLE
+  );
+  const totalWeight = counted.reduce((sum, measure) => sum + measure.weight, 0);
+
+  if (totalWeight > 0) {
+    profile.score = Math.round(
+      (counted.reduce((sum, measure) => sum + measure.weight * measure.value!, 0) / totalWeight) *
+        100
+    );
+  }
+
+  return profile;
+}
+
+/**
+ * Sort comparator putting the most reliable cleaners first
+ * Cleaners without a score go after those with one; ties keep their order
+ */
+export function compareReliability(
+  a: ReliabilityProfile | null | undefined,
+  b: ReliabilityProfile | null | undefined
+): number {
+  const scoreA = a?.score ?? -1;
+  const scoreB = b?.score ?? -1;
+  return scoreB - scoreA;
+}
@@ -0,0 +1,94 @@
+/**
+ * SMS delivery status
+ * Shared by the app and the edge functions, so this module has no imports
+ *
+ * Twilio reports each outbound message's progress to a status callback,
+ * from queued through sent to delivered, or to undelivered or failed when
+ * the carrier gives up. Callbacks can arrive out of order, so a status only
+ * replaces one that comes earlier in that progression.
+ */
+
+export type SmsDeliveryStatus =
+  | 'accepted'
+  | 'scheduled'
+  | 'queued'
+  | 'sending'
+  | 'sent'
+  | 'delivered'
+  | 'read'
+  | 'undelivered'
+  | 'failed'
+  | 'canceled';
+
+export const SMS_FAILED_STATUSES: SmsDeliveryStatus[] = ['undelivered', 'failed'];
+
+const STATUS_PROGRESS: Record<SmsDeliveryStatus, number> = {
+  accepted: 0,
+  scheduled: 0,
+  queued: 1,
+  sending: 2,
+  sent: 3,
+  delivered: 4,
+  undelivered: 4,
+  failed: 4,
+  canceled: 4,
+  read: 5,
+};
+
+/**
+ * Carrier error codes, in words a host can act on
+ * See https://www.twilio.com/docs/api/errors
+ */
+export const SMS_ERROR_DESCRIPTIONS: Record<string, string> = {
+  '30003': 'The phone is switched off or out of service',
+  '30004': 'The number has blocked our messages',
+  '30005': "The number doesn't exist",
+  '30006': "The number is a landline or can't receive texts",
+  '30007': 'The carrier filtered the message as spam',
+  '30008': "The carrier couldn't deliver the message",
+};
+
+// A phone that's off or a carrier hiccup may clear up; a wrong number won't
+const RETRYABLE_SMS_ERROR_CODES = ['30003', '30008'];
+
+/**
+ * Whether a message never reached the cleaner
+ */
+export function isSmsDeliveryFailure(status: string | null): boolean {
+  return SMS_FAILED_STATUSES.includes(status as SmsDeliveryStatus);
+}
+
+/**
+ * Whether a status callback moves a message forward
+ * Statuses Twilio doesn't send for outbound messages, like received, are
+ * never replaced
+ */
+export function shouldApplySmsStatus(current: string | null, next: string): boolean {
+  if (!(next in STATUS_PROGRESS)) return false;
+  if (current === null) return true;
+  if (!(current in STATUS_PROGRESS)) return false;
+
+  return (
+    STATUS_PROGRESS[next as SmsDeliveryStatus] > STATUS_PROGRESS[current as SmsDeliveryStatus]
+  );
+}
+
+/**
+ * Whether a failed message is worth sending once more
+ */
+export function isRetryableSmsError(errorCode: string | null): boolean {
+  return !!errorCode && RETRYABLE_SMS_ERROR_CODES.includes(errorCode);
+}
+
+/**
+ * Explain why a message wasn't delivered
+ */
+export function describeSmsError(errorCode: string | null, errorMessage?: string | null): string {
+  if (errorCode && SMS_ERROR_DESCRIPTIONS[errorCode]) {
+    return SMS_ERROR_DESCRIPTIONS[errorCode];
+  }
+  if (errorMessage) {
+    return errorMessage;
+  }
+  return errorCode ? `Delivery failed (error ${errorCode})` : 'Delivery failed';
+}
@@ -0,0 +1,140 @@
+/**
+ * Outbound SMS helper for Supabase Edge Functions
+ * Sends through Twilio and records every attempt in sms_logs
+ */
+
+import { sendSms } from './twilio.ts';
+
+export interface LoggedSmsParams {
+  to: string;
+  body: string;
+  cleaningJobId: string | null;
+  /** The cleaner being texted, whose host's inbox the message goes in */
+  cleanerId: string | null;
+  /** The failed message this one sends again */
+  retryOf?: string | null;
+}
+
+export interface LoggedSmsResult {
+  success: boolean;
+  sid?: string;
+  error?: string;
+}
+
+/**
+ * Send an SMS and log it, whether or not Twilio accepted it
+ * The log is written before sending and its ID goes on the status callback,
+ * so a callback can't arrive before there's a message to update
+ */
+export async function sendLoggedSms(
+  supabase: any,
+  params: LoggedSmsParams
+): Promise<LoggedSmsResult> {
+  const { data: log, error: logError } = await supabase
+    .from('sms_logs')
+    .insert({
+      cleaning_job_id: params.cleaningJobId,
+      cleaner_id: params.cleanerId,
+      phone: params.to,
+      message: params.body,
+      direction: 'outbound',
+      retry_of: params.retryOf ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (logError || !log) {
+    console.error('Failed to log SMS:', logError);
+    return { success: false, error: 'Failed to log message' };
+  }
+
+  try {
+    const twilioResponse = await sendSms({
+      to: params.to,
+      body: params.body,
+      statusCallbackParams: { sms_log_id: log.id },
+    });
+
+    // A callback may already have moved the status on
+    await supabase
+      .from('sms_logs')
+      .update({ twilio_sid: twilioResponse.sid, status: twilioResponse.status })
+      .eq('id', log.id)
+      .is('status', null);
+
+    return { success: true, sid: twilioResponse.sid };
+  } catch (error: any) {
+    console.error('Twilio error:', error);
+
+    await supabase
+      .from('sms_logs')
+      .update({ status: 'failed', error_message: error.message })
+      .eq('id', log.id);
+
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Count the texts about a job that Twilio rejected for a phone number
+ * @param since - Only count texts sent from this time on
+ */
+export async function countFailedSends(
+  supabase: any,
+  jobId: string,
+  phone: string,
+  since?: string | null
+): Promise<number> {
+  let query = supabase
+    .from('sms_logs')
+    .select('id', { count: 'exact', head: true })
+    .eq('cleaning_job_id', jobId)
+    .eq('phone', phone)
+    .eq('direction', 'outbound')
+    .eq('status', 'failed');
+  if (since) {
+    query = query.gte('created_at', since);
+  }
+
+  const { count, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to count failed texts for job ${jobId}: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Send a message that wasn't delivered again
+ * Each message is resent at most once, so the host is told rather than the
+ * cleaner being texted over and over
+ */
+export async function resendSms(
+  supabase: any,
+  log: {
+    id: string;
+    phone: string;
+    message: string;
+    cleaning_job_id: string | null;
+    cleaner_id: string | null;
+  }
+): Promise<LoggedSmsResult> {
+  const { data: existing } = await supabase
+    .from('sms_logs')
+    .select('id')
+    .eq('retry_of', log.id)
+    .limit(1);
+
+  if (existing && existing.length > 0) {
+    return { success: false, error: 'This message has already been resent' };
+  }
+
+  return sendLoggedSms(supabase, {
+    to: log.phone,
+    body: log.message,
+    cleaningJobId: log.cleaning_job_id,
+    cleanerId: log.cleaner_id,
+    retryOf: log.id,
+  });
+}
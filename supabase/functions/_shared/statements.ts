@@ -0,0 +1,413 @@
+/**
+ * Cleaner earnings statements and year-end totals
+ * Shared by the app and the edge functions, so this module has no imports
+ *
+ * A statement covers the completed jobs a cleaner checked out in a date range,
+ * paid or not. Year-end totals are different: they count what was actually
+ * paid during the calendar year, going by each job's payment_date in the
+ * host's time zone, which is what the 1099-NEC threshold is measured against.
+ */
+
+export interface CleanerPaymentSummary {
+  cleaner_id: string;
+  cleaner_name: string;
+  total_jobs: number;
+  total_paid: number;
+  total_unpaid: number;
+  last_payment_date: string | null;
+}
+
+/** A completed job as it's read from cleaning_jobs for a statement */
+export interface StatementJob {
+  id: string;
+  checkout_date: string;
+  amount_owed: number | null;
+  payment_status: 'paid' | 'unpaid';
+  payment_date: string | null;
+  property: { name: string } | null;
+}
+
+export interface StatementLine {
+  job_id: string;
+  checkout_date: string;
+  property_name: string;
+  amount: number;
+  payment_status: 'paid' | 'unpaid';
+  payment_date: string | null;
+}
+
+export interface CleanerStatement {
+  cleaner_id: string;
+  cleaner_name: string;
+  start_date: string;
+  end_date: string;
+  lines: StatementLine[];
+  summary: CleanerPaymentSummary;
+}
+
+/** A paid job as it's read from cleaning_jobs for the year-end report */
+export interface YearEndJob {
+  cleaner_id: string;
+  amount_owed: number | null;
+  payment_date: string | null;
+}
+
+export interface YearEndCleanerTotal {
+  cleaner_id: string;
+  cleaner_name: string;
+  cleaner_phone: string;
+  total_paid: number;
+  job_count: number;
+  requires_1099: boolean;
+}
+
+export interface YearEndReport {
+  year: number;
+  threshold: number;
+  total_paid: number;
+  cleaners: YearEndCleanerTotal[];
+}
+
+export type StatementFormat = 'csv' | 'pdf';
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Format a date or timestamp as "Jan 5, 2026"
+ */
+function formatStatementDate(date: string): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return `${MONTHS[month - 1]} ${day}, ${year}`;
+}
+
+function formatAmount(amount: number): string {
+  const [dollars, cents] = Math.abs(amount).toFixed(2).split('.');
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}$${dollars.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}.${cents}`;
+}
+
+/**
+ * The 1099-NEC reporting threshold for payments made in a year
+ * $600 through 2025; raised to $2,000 for payments made from 2026
+ */
+export function get1099Threshold(year: number): number {
+  return year >= 2026 ? 2000 : 600;
+}
+
+/**
+ * Build a cleaner's statement from their completed jobs in the range
+ * @param cleaner - The cleaner the statement is for
+ * @param jobs - Completed jobs with a checkout date in the range
+ * @param startDate - First day of the range (YYYY-MM-DD)
+ * @param endDate - Last day of the range (YYYY-MM-DD)
+ */
+export function buildCleanerStatement(
+  cleaner: { id: string; name: string },
+  jobs: StatementJob[],
+  startDate: string,
+  endDate: string
+): CleanerStatement {
+  const lines: StatementLine[] = jobs
+    .map((job) => ({
+      job_id: job.id,
+      checkout_date: job.checkout_date,
+      property_name: job.property?.name || 'Unknown Property',
+      amount: job.amount_owed || 0,
+      payment_status: job.payment_status,
+      payment_date: job.payment_status === 'paid' ? job.payment_date : null,
+    }))
+    .sort((a, b) => a.checkout_date.localeCompare(b.checkout_date));
+
+  let totalPaid = 0;
+  let totalUnpaid = 0;
+  let lastPaymentDate: string | null = null;
+
+  for (const line of lines) {
+    if (line.payment_status === 'paid') {
+      totalPaid += line.amount;
+      if (line.payment_date && (!lastPaymentDate || line.payment_date > lastPaymentDate)) {
+        lastPaymentDate = line.payment_date;
+      }
+    } else {
+      totalUnpaid += line.amount;
+    }
+  }
+
+  return {
+    cleaner_id: cleaner.id,
+    cleaner_name: cleaner.name,
+    start_date: startDate,
+    end_date: endDate,
+    lines,
+    summary: {
+      cleaner_id: cleaner.id,
+      cleaner_name: cleaner.name,
+      total_jobs: lines.length,
+      total_paid: roundToCents(totalPaid),
+      total_unpaid: roundToCents(totalUnpaid),
+      last_payment_date: lastPaymentDate,
+    },
+  };
+}
+
+/**
+ * The calendar year a payment was made in for the host
+ * Timestamps are read in the host's time zone, so a payment made on New Year's
+ * Eve evening counts toward the year that's ending; plain dates are taken as is
+ */
+function getPaymentYear(paymentDate: string, timeZone: string = 'UTC'): number {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(paymentDate)) {
+    return Number(paymentDate.slice(0, 4));
+  }
+
+  return Number(
+    new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric' }).format(new Date(paymentDate))
+  );
+}
+
+/**
+ * Total what each cleaner was paid in a year and flag anyone at or over the
+ * 1099-NEC threshold
+ * @param year - Calendar year
+ * @param cleaners - The host's cleaners; everyone appears, even at $0
+ * @param jobs - Paid jobs with a payment_date around the year
+ * @param timeZone - The host's IANA time zone, which decides the year of each payment
+ */
+export function buildYearEndReport(
+  year: number,
+  cleaners: { id: string; name: string; phone: string }[],
+  jobs: YearEndJob[],
+  timeZone: string = 'UTC'
+): YearEndReport {
+  const threshold = get1099Threshold(year);
+  const totals = new Map<string, { paid: number; count: number }>();
+
+  for (const job of jobs) {
+    if (!job.payment_date || getPaymentYear(job.payment_date, timeZone) !== year) continue;
+
+    const total = totals.get(job.cleaner_id) || { paid: 0, count: 0 };
+    total.paid += job.amount_owed || 0;
+    total.count += 1;
+    totals.set(job.cleaner_id, total);
+  }
+
+  const rows: YearEndCleanerTotal[] = cleaners
+    .map((cleaner) => {
+      const total = totals.get(cleaner.id);
+      const paid = roundToCents(total?.paid || 0);
+      return {
+        cleaner_id: cleaner.id,
+        cleaner_name: cleaner.name,
+        cleaner_phone: cleaner.phone,
+        total_paid: paid,
+        job_count: total?.count || 0,
+        requires_1099: paid >= threshold,
+      };
+    })
+    .sort((a, b) => b.total_paid - a.total_paid);
+
+  return {
+    year,
+    threshold,
+    total_paid: roundToCents(rows.reduce((sum, row) => sum + row.total_paid, 0)),
+    cleaners: rows,
+  };
+}
+
+/**
+ * File name for an exported statement
+ */
+export function getStatementFileName(statement: CleanerStatement, format: StatementFormat): string {
+  const name = statement.cleaner_name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `statement-${name || 'cleaner'}-${statement.start_date}-to-${statement.end_date}.${format}`;
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Export a statement as CSV, one row per job
+ */
+export function statementToCsv(statement: CleanerStatement): string {
+  const rows = [
+    ['Checkout Date', 'Property', 'Amount', 'Status', 'Payment Date'],
+    ...statement.lines.map((line) => [
+      line.checkout_date,
+      line.property_name,
+      line.amount.toFixed(2),
+      line.payment_status,
+      line.payment_date ? line.payment_date.slice(0, 10) : '',
+    ]),
+  ];
+
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// PDF layout, in points on a US Letter page
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const LINE_HEIGHT = 16;
+const FONT_SIZE = 10;
+const COLUMNS = { date: MARGIN, property: 130, paidOn: 360, status: 450, amountRight: PAGE_WIDTH - MARGIN };
+
+interface PdfText {
+  text: string;
+  x: number;
+  y: number;
+  size?: number;
+  bold?: boolean;
+  alignRight?: boolean;
+}
+
+/**
+ * Approximate width of text in Helvetica, for right-aligning the amount
+ * column; exact for amounts (digits and $ are 556/1000 em, "." and "," 278)
+ */
+function textWidth(text: string, size: number): number {
+  let units = 0;
+  for (const char of text) {
+    units += /[.,]/.test(char) ? 278 : char === '-' ? 333 : 556;
+  }
+  return (units / 1000) * size;
+}
+
+/**
+ * Escape text for a PDF string literal; the standard fonts only cover ASCII
+ * reliably, so anything else becomes "?"
+ */
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text;
+}
+
+/**
+ * Export a statement as a PDF document
+ * Written by hand with the built-in Helvetica fonts so it needs no libraries;
+ * the result is plain ASCII and can be written out as-is
+ */
+export function statementToPdf(statement: CleanerStatement): string {
+  const pages: PdfText[][] = [];
+  let page: PdfText[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    page = [];
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const tableHeader = () => {
+    page.push(
+      { text: 'Checkout', x: COLUMNS.date, y, bold: true },
+      { text: 'Property', x: COLUMNS.property, y, bold: true },
+      { text: 'Paid On', x: COLUMNS.paidOn, y, bold: true },
+      { text: 'Status', x: COLUMNS.status, y, bold: true },
+      { text: 'Amount', x: COLUMNS.amountRight, y, bold: true, alignRight: true }
+    );
+    y -= LINE_HEIGHT;
+  };
+
+  newPage();
+  page.push({ text: 'Earnings Statement', x: MARGIN, y, size: 18, bold: true });
+  y -= LINE_HEIGHT * 2;
+  page.push({ text: statement.cleaner_name, x: MARGIN, y, size: 12, bold: true });
+  y -= LINE_HEIGHT;
+  page.push({
+    text: `${formatStatementDate(statement.start_date)} - ${formatStatementDate(statement.end_date)}`,
+    x: MARGIN,
+    y,
+  });
+  y -= LINE_HEIGHT * 2;
+  tableHeader();
+
+  for (const line of statement.lines) {
+    if (y < MARGIN + LINE_HEIGHT * 4) {
+      newPage();
+      tableHeader();
+    }
+
+    page.push(
+      { text: formatStatementDate(line.checkout_date), x: COLUMNS.date, y },
+      { text: truncate(line.property_name, 40), x: COLUMNS.property, y },
+      {
+        text: line.payment_date ? formatStatementDate(line.payment_date) : '-',
+        x: COLUMNS.paidOn,
+        y,
+      },
+      { text: line.payment_status === 'paid' ? 'Paid' : 'Unpaid', x: COLUMNS.status, y },
+      { text: formatAmount(line.amount), x: COLUMNS.amountRight, y, alignRight: true }
+    );
+    y -= LINE_HEIGHT;
+  }
+
+  if (statement.lines.length === 0) {
+    page.push({ text: 'No completed jobs in this period', x: COLUMNS.date, y });
+    y -= LINE_HEIGHT;
+  }
+
+  const { summary } = statement;
+  y -= LINE_HEIGHT;
+  for (const [label, amount, bold] of [
+    ['Paid', summary.total_paid, false],
+    ['Unpaid', summary.total_unpaid, false],
+    ['Total', roundToCents(summary.total_paid + summary.total_unpaid), true],
+  ] as [string, number, boolean][]) {
+    page.push(
+      { text: label, x: COLUMNS.status, y, bold },
+      { text: formatAmount(amount), x: COLUMNS.amountRight, y, bold, alignRight: true }
+    );
+    y -= LINE_HEIGHT;
+  }
+
+  // Objects 1-4 are the catalog, page tree and fonts; each page then takes
+  // two more, the page itself and its content stream
+  const objects: string[] = [];
+  const pageRefs = pages.map((_, i) => `${5 + i * 2} 0 R`);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((texts, i) => {
+    const footer = `Page ${i + 1} of ${pages.length}`;
+    const stream = [...texts, { text: footer, x: MARGIN, y: MARGIN / 2, size: 8 }]
+      .map(({ text, x, y: textY, size = FONT_SIZE, bold, alignRight }) => {
+        const left = alignRight ? x - textWidth(text, size) : x;
+        return `BT /${bold ? 'F2' : 'F1'} ${size} Tf 1 0 0 1 ${left.toFixed(2)} ${textY} Tm (${escapePdfText(text)}) Tj ET`;
+      })
+      .join('\n');
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return pdf;
+}
@@ -0,0 +1,658 @@
+/**
+ * Stripe webhook event processing
+ *
+ * Every event is recorded in the stripe_events ledger before it's applied, so
+ * Stripe's retries don't re-run side effects. Subscription state is versioned on
+ * the profile by the subscription's created and current_period_start times (then
+ * the event's own created time), so an older event delivered late can't flip
+ * subscription_status backwards. Connect events keep cleaner payouts in step:
+ * a failed transfer puts the jobs it paid back to unpaid.
+ */
+
+import { getSubscriptionLimits } from './stripe.ts';
+import { sendPushNotification } from './push.ts';
+
+// Types
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: {
+    object: any;
+  };
+}
+
+export type StripeEventStatus = 'processing' | 'processed' | 'skipped' | 'failed';
+
+export type StripeEventOutcome = 'processed' | 'skipped';
+
+/**
+ * claimed: this delivery should process the event
+ * duplicate: the event has already been handled
+ * in_progress: another delivery is handling it right now
+ */
+export type StripeEventClaim = 'claimed' | 'duplicate' | 'in_progress';
+
+export interface ProcessStripeEventOptions {
+  /** Apply the event even if a newer one has already been applied (replays) */
+  ignoreOrdering?: boolean;
+}
+
+/**
+ * Where a profile's subscription state came from; times are Unix seconds
+ */
+export interface SubscriptionVersion {
+  subscription_id: string | null;
+  created: number | null;
+  period_start: number | null;
+  event_created: number;
+}
+
+// How long a delivery may sit in 'processing' before another one takes over
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Find user by Stripe customer ID
+ */
+async function findUserByCustomerId(customerId: string, supabase: any): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('stripe_customer_id', customerId)
+    .single();
+
+  if (error || !data) {
+    console.error('User not found for customer ID:', customerId);
+    return null;
+  }
+
+  return data.id;
+}
+
+const toUnix = (value: string | null): number | null =>
+  value ? Math.floor(new Date(value).getTime() / 1000) : null;
+
+const toIso = (value: number | null): string | null =>
+  value ? new Date(value * 1000).toISOString() : null;
+
+/**
+ * Whether an incoming subscription state is older than the one already applied
+ * Invoice events don't carry a period, so they're ordered by event time alone
+ */
+export function isStaleSubscriptionVersion(
+  current: SubscriptionVersion | null,
+  incoming: SubscriptionVersion
+): boolean {
+  if (!current || !current.subscription_id) return false;
+
+  // Events for a different subscription only win if that subscription is newer.
+  // Invoices can't show that, so a new subscription has to arrive through its
+  // own customer.subscription.* events first
+  if (incoming.subscription_id !== current.subscription_id) {
+    if (incoming.created === null) return true;
+    if (current.created === null) return incoming.event_created < current.event_created;
+    return incoming.created < current.created;
+  }
+
+  if (incoming.period_start !== null && current.period_start !== null) {
+    if (incoming.period_start !== current.period_start) {
+      return incoming.period_start < current.period_start;
+    }
+  }
+
+  return incoming.event_created < current.event_created;
+}
+
+/**
+ * Whether a version came from an invoice event rather than the subscription itself
+ * Invoices don't carry the subscription's created or period start times
+ */
+function isInvoiceVersion(version: SubscriptionVersion): boolean {
+  return version.created === null && version.period_start === null;
+}
+
+/**
+ * Update subscription status if the event is newer than what's on the profile
+ * @returns Whether the status was applied
+ */
+async function updateSubscriptionStatus(
+  userId: string,
+  status: string,
+  version: SubscriptionVersion,
+  supabase: any,
+  options: ProcessStripeEventOptions = {}
+): Promise<boolean> {
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select(
+      'subscription_status, stripe_subscription_id, subscription_created_at, subscription_period_start, subscription_event_at'
+    )
+    .eq('id', userId)
+    .single();
+
+  if (profileError) {
+    throw profileError;
+  }
+
+  const current: SubscriptionVersion | null = profile?.subscription_event_at
+    ? {
+        subscription_id: profile.stripe_subscription_id,
+        created: toUnix(profile.subscription_created_at),
+        period_start: toUnix(profile.subscription_period_start),
+        event_created: toUnix(profile.subscription_event_at)!,
+      }
+    : null;
+
+  if (!options.ignoreOrdering && isStaleSubscriptionVersion(current, version)) {
+    console.log(`Ignoring out-of-order subscription status ${status} for user ${userId}`);
+    return false;
+  }
+
+  // A cancelled subscription never comes back, so a late invoice event can't revive it
+  if (
+    !options.ignoreOrdering &&
+    isInvoiceVersion(version) &&
+    profile?.subscription_status === 'canceled' &&
+    version.subscription_id === current?.subscription_id
+  ) {
+    console.log(`Ignoring invoice status ${status} for cancelled subscription of user ${userId}`);
+    return false;
+  }
+
+  // Invoice events don't say when the subscription started, so keep what we know
+  const known =
+    current && (!version.subscription_id || version.subscription_id === current.subscription_id)
+      ? current
+      : null;
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({
+      subscription_status: status,
+      stripe_subscription_id: version.subscription_id || known?.subscription_id || null,
+      subscription_created_at: toIso(version.created ?? known?.created ?? null),
+      subscription_period_start: toIso(version.period_start ?? known?.period_start ?? null),
+      subscription_event_at: toIso(version.event_created),
+    })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error updating subscription status:', error);
+    throw error;
+  }
+
+  console.log(`Updated subscription status for user ${userId} to ${status}`);
+  return true;
+}
+
+/**
+ * Version of a subscription event
+ */
+function subscriptionVersion(event: StripeEvent): SubscriptionVersion {
+  const subscription = event.data.object;
+
+  return {
+    subscription_id: subscription.id,
+    created: subscription.created ?? null,
+    period_start: subscription.current_period_start ?? null,
+    event_created: event.created,
+  };
+}
+
+/**
+ * Version of an invoice event
+ */
+function invoiceVersion(event: StripeEvent): SubscriptionVersion {
+  return {
+    subscription_id: event.data.object.subscription || null,
+    created: null,
+    period_start: null,
+    event_created: event.created,
+  };
+}
+
+/**
+ * Check and enforce property limits
+ */
+async function enforcePropertyLimits(userId: string, status: string, supabase: any): Promise<void> {
+  const limits = getSubscriptionLimits(status);
+
+  // Get current active property count
+  const { count, error } = await supabase
+    .from('properties')
+    .select('*', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('active', true);
+
+  if (error) {
+    console.error('Error checking property count:', error);
+    return;
+  }
+
+  const currentCount = count || 0;
+
+  // If user exceeds limit, deactivate excess properties
+  if (currentCount > limits.propertyLimit) {
+    console.log(`User ${userId} exceeds limit. Deactivating excess properties.`);
+
+    // Get properties to deactivate (keep oldest ones, deactivate newest)
+    const { data: properties, error: propsError } = await supabase
+      .from('properties')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('active', true)
+      .order('created_at', { ascending: true })
+      .range(limits.propertyLimit, currentCount - 1);
+
+    if (!propsError && properties && properties.length > 0) {
+      const propertyIds = properties.map((p: any) => p.id);
+
+      await supabase
+        .from('properties')
+        .update({ active: false })
+        .in('id', propertyIds);
+
+      // Notify user
+      await sendPushNotification(
+        userId,
+        'property_limit_exceeded',
+        `Some properties have been deactivated due to your subscription plan limits. Please upgrade or manage your properties.`,
+        null,
+        supabase,
+        {},
+        'Property Limit Exceeded'
+      );
+    }
+  }
+}
+
+/**
+ * Handle subscription created
+ */
+async function handleSubscriptionCreated(
+  event: StripeEvent,
+  supabase: any,
+  options: ProcessStripeEventOptions
+): Promise<StripeEventOutcome> {
+  const subscription = event.data.object;
+  const customerId = subscription.customer;
+  const status = subscription.status;
+
+  const userId = await findUserByCustomerId(customerId, supabase);
+  if (!userId) return 'skipped';
+
+  const applied = await updateSubscriptionStatus(
+    userId,
+    status,
+    subscriptionVersion(event),
+    supabase,
+    options
+  );
+  if (!applied) return 'skipped';
+
+  if (status === 'active') {
+    await sendPushNotification(
+      userId,
+      'subscription_active',
+      'Your subscription is now active! Enjoy all premium features.',
+      null,
+      supabase,
+      {},
+      'Subscription Active'
+    );
+  }
+
+  return 'processed';
+}
+
+/**
+ * Handle subscription updated
+ */
+async function handleSubscriptionUpdated(
+  event: StripeEvent,
+  supabase: any,
+  options: ProcessStripeEventOptions
+): Promise<StripeEventOutcome> {
+  const subscription = event.data.object;
+  const customerId = subscription.customer;
+  const status = subscription.status;
+
+  const userId = await findUserByCustomerId(customerId, supabase);
+  if (!userId) return 'skipped';
+
+  const applied = await updateSubscriptionStatus(
+    userId,
+    status,
+    subscriptionVersion(event),
+    supabase,
+    options
+  );
+  if (!applied) return 'skipped';
+
+  await enforcePropertyLimits(userId, status, supabase);
+
+  if (status === 'canceled') {
+    await sendPushNotification(
+      userId,
+      'subscription_cancelled',
+      'Your subscription has been cancelled. You can reactivate it anytime from your account settings.',
+      null,
+      supabase,
+      {},
+      'Subscription Cancelled'
+    );
+  }
+
+  return 'processed';
+}
+
+/**
+ * Handle subscription deleted
+ */
+async function handleSubscriptionDeleted(
+  event: StripeEvent,
+  supabase: any,
+  options: ProcessStripeEventOptions
+): Promise<StripeEventOutcome> {
+  const subscription = event.data.object;
+  const customerId = subscription.customer;
+
+  const userId = await findUserByCustomerId(customerId, supabase);
+  if (!userId) return 'skipped';
+
+  const applied = await updateSubscriptionStatus(
+    userId,
+    'canceled',
+    subscriptionVersion(event),
+    supabase,
+    options
+  );
+  if (!applied) return 'skipped';
+
+  await enforcePropertyLimits(userId, 'canceled', supabase);
+
+  await sendPushNotification(
+    userId,
+    'subscription_ended',
+    'Your subscription has ended. Upgrade to continue using premium features.',
+    null,
+    supabase,
+    {},
+    'Subscription Ended'
+  );
+
+  return 'processed';
+}
+
+/**
+ * Handle invoice payment succeeded
+ */
+async function handleInvoicePaymentSucceeded(
+  event: StripeEvent,
+  supabase: any,
+  options: ProcessStripeEventOptions
+): Promise<StripeEventOutcome> {
+  const invoice = event.data.object;
+  const customerId = invoice.customer;
+
+  const userId = await findUserByCustomerId(customerId, supabase);
+  if (!userId) return 'skipped';
+
+  const applied = await updateSubscriptionStatus(
+    userId,
+    'active',
+    invoiceVersion(event),
+    supabase,
+    options
+  );
+  if (!applied) return 'skipped';
+
+  console.log('Invoice payment succeeded for user:', userId);
+
+  return 'processed';
+}
+
+/**
+ * Handle invoice payment failed
+ */
+async function handleInvoicePaymentFailed(
+  event: StripeEvent,
+  supabase: any,
+  options: ProcessStripeEventOptions
+): Promise<StripeEventOutcome> {
+  const invoice = event.data.object;
+  const customerId = invoice.customer;
+
+  const userId = await findUserByCustomerId(customerId, supabase);
+  if (!userId) return 'skipped';
+
+  const applied = await updateSubscriptionStatus(
+    userId,
+    'past_due',
+    invoiceVersion(event),
+    supabase,
+    options
+  );
+  if (!applied) return 'skipped';
+
+  await sendPushNotification(
+    userId,
+    'payment_failed',
+    'Your payment failed. Please update your payment method to continue your subscription.',
+    null,
+    supabase,
+    {},
+    'Payment Failed'
+  );
+
+  return 'processed';
+}
+
+/**
+ * Handle a cleaner payout transfer that was reversed or failed
+ * The jobs it covered go back to unpaid so the host can pay them again
+ */
+async function handleTransferFailed(
+  event: StripeEvent,
+  supabase: any
+): Promise<StripeEventOutcome> {
+  const transfer = event.data.object;
+
+  // A partial reversal is an adjustment the host made in Stripe, not a failed payout
+  if (event.type === 'transfer.reversed' && transfer.amount_reversed < transfer.amount) {
+    return 'skipped';
+  }
+
+  const { data: jobs, error } = await supabase
+    .from('cleaning_jobs')
+    .update({
+      payment_status: 'unpaid',
+      payment_date: null,
+      payment_id: null,
+      stripe_transfer_id: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('stripe_transfer_id', transfer.id)
+    .select('id, cleaner:cleaners (id, user_id, name)');
+
+  if (error) {
+    throw new Error(`Failed to reconcile transfer ${transfer.id}: ${error.message}`);
+  }
+
+  if (!jobs || jobs.length === 0) return 'skipped';
+
+  // The payment record stays for the audit trail
+  await supabase
+    .from('cleaner_payments')
+    .update({ reversed_at: new Date().toISOString() })
+    .eq('method', 'stripe')
+    .eq('reference', transfer.id);
+
+  const cleaner = jobs[0].cleaner;
+  if (cleaner) {
+    await sendPushNotification(
+      cleaner.user_id,
+      'payment_failed',
+      `Your payout of $${(transfer.amount / 100).toFixed(2)} to ${cleaner.name} didn't go through. ${
+        jobs.length === 1 ? 'The job is' : `All ${jobs.length} jobs are`
+      } marked unpaid again.`,
+      null,
+      supabase,
+      { cleaner_id: cleaner.id },
+      'Payout Failed'
+    );
+  }
+
+  console.log('Transfer failed, jobs marked unpaid:', transfer.id, jobs.length);
+
+  return 'processed';
+}
+
+/**
+ * Handle a cleaner's Connect account changing (e.g. finishing onboarding)
+ */
+async function handleAccountUpdated(
+  event: StripeEvent,
+  supabase: any
+): Promise<StripeEventOutcome> {
+  const account = event.data.object;
+
+  const { data: cleaners, error } = await supabase
+    .from('cleaners')
+    .update({
+      payouts_enabled: !!account.payouts_enabled,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('stripe_account_id', account.id)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update account ${account.id}: ${error.message}`);
+  }
+
+  return cleaners && cleaners.length > 0 ? 'processed' : 'skipped';
+}
+
+/**
+ * Apply a verified Stripe event
+ */
+export async function processStripeEvent(
+  event: StripeEvent,
+  supabase: any,
+  options: ProcessStripeEventOptions = {}
+): Promise<StripeEventOutcome> {
+  switch (event.type) {
+    case 'customer.subscription.created':
+      return handleSubscriptionCreated(event, supabase, options);
+
+    case 'customer.subscription.updated':
+      return handleSubscriptionUpdated(event, supabase, options);
+
+    case 'customer.subscription.deleted':
+      return handleSubscriptionDeleted(event, supabase, options);
+
+    case 'invoice.payment_succeeded':
+      return handleInvoicePaymentSucceeded(event, supabase, options);
+
+    case 'invoice.payment_failed':
+      return handleInvoicePaymentFailed(event, supabase, options);
+
+    // Older API versions report failed transfers as transfer.failed
+    case 'transfer.reversed':
+    case 'transfer.failed':
+      return handleTransferFailed(event, supabase);
+
+    case 'account.updated':
+      return handleAccountUpdated(event, supabase);
+
+    default:
+      console.log('Unhandled event type:', event.type);
+      return 'skipped';
+  }
+}
+
+/**
+ * Record an event in the ledger before processing it
+ */
+export async function claimStripeEvent(
+  event: StripeEvent,
+  supabase: any
+): Promise<StripeEventClaim> {
+  const now = new Date().toISOString();
+
+  const { error: insertError } = await supabase.from('stripe_events').insert({
+    id: event.id,
+    type: event.type,
+    stripe_created_at: new Date(event.created * 1000).toISOString(),
+    payload: event,
+    status: 'processing',
+    received_at: now,
+    updated_at: now,
+  });
+
+  if (!insertError) return 'claimed';
+
+  // Anything but a duplicate is a real failure
+  if (insertError.code !== '23505') {
+    throw new Error(`Failed to record Stripe event: ${insertError.message}`);
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('stripe_events')
+    .select('status, updated_at')
+    .eq('id', event.id)
+    .single();
+
+  if (fetchError || !existing) {
+    throw new Error(`Failed to read Stripe event ${event.id}: ${fetchError?.message}`);
+  }
+
+  if (existing.status === 'processed' || existing.status === 'skipped') {
+    return 'duplicate';
+  }
+
+  // Another delivery is still working on it
+  if (
+    existing.status === 'processing' &&
+    Date.now() - new Date(existing.updated_at).getTime() < PROCESSING_TIMEOUT_MS
+  ) {
+    return 'in_progress';
+  }
+
+  // Retry a failed (or abandoned) attempt, making sure only one delivery takes it
+  const { data: retaken } = await supabase
+    .from('stripe_events')
+    .update({ status: 'processing', error_message: null, updated_at: now })
+    .eq('id', event.id)
+    .eq('status', existing.status)
+    .eq('updated_at', existing.updated_at)
+    .select('id');
+
+  return retaken && retaken.length > 0 ? 'claimed' : 'in_progress';
+}
+
+/**
+ * Record how processing an event ended
+ */
+export async function finishStripeEvent(
+  eventId: string,
+  status: Exclude<StripeEventStatus, 'processing'>,
+  supabase: any,
+  errorMessage: string | null = null
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('stripe_events')
+    .update({
+      status,
+      error_message: errorMessage,
+      processed_at: status === 'failed' ? null : now,
+      updated_at: now,
+    })
+    .eq('id', eventId);
+
+  if (error) {
+    console.error('Error updating Stripe event ledger:', error);
+  }
+}
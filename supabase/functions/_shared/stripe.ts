@@ -88,14 +88,50 @@ export async function verifyStripeWebhook(
   }
 }
 
+/**
+ * An error response from the Stripe API
+ * Anything else stripeRequest throws (a timeout, a dropped connection) leaves
+ * it unknown whether Stripe acted on the request
+ */
+export class StripeApiError extends Error {
+  status: number;
+  code?: string;
+  type?: string;
+
+  constructor(message: string, status: number, code?: string, type?: string) {
+    super(message);
+    this.name = 'StripeApiError';
+    this.status = status;
+    this.code = code;
+    this.type = type;
+  }
+}
+
+/**
+ * Whether Stripe definitely didn't act on a request
+ * A 4xx response is a rejection, except 409: the same idempotency key is still
+ * being processed. 5xx responses may have been applied, so they're ambiguous
+ */
+export function isStripeRejection(error: unknown): boolean {
+  return (
+    error instanceof StripeApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 409
+  );
+}
+
 /**
  * Make a request to Stripe API
+ * Pass an idempotency key for requests that move money, so a retry after an
+ * ambiguous failure can't apply them twice
  */
 export async function stripeRequest(
   endpoint: string,
   method: string = 'GET',
   body?: any,
-  secretKey?: string
+  secretKey?: string,
+  idempotencyKey?: string
 ): Promise<any> {
   const config = secretKey ? { secretKey, webhookSecret: '' } : getStripeConfig();
 
@@ -105,6 +141,10 @@ export async function stripeRequest(
     'Content-Type': 'application/x-www-form-urlencoded',
   };
 
+  if (idempotencyKey) {
+    headers['Idempotency-Key'] = idempotencyKey;
+  }
+
   const options: RequestInit = {
     method,
     headers,
@@ -124,7 +164,12 @@ export async function stripeRequest(
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.error?.message || 'Stripe API request failed');
+      throw new StripeApiError(
+        data.error?.message || 'Stripe API request failed',
+        response.status,
+        data.error?.code,
+        data.error?.type
+      );
     }
 
     return data;
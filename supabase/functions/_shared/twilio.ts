@@ -6,11 +6,15 @@ export interface TwilioConfig {
   accountSid: string;
   authToken: string;
   phoneNumber: string;
+  /** Where Twilio reports delivery progress, if set */
+  statusCallbackUrl?: string;
 }
 
 export interface SendSmsParams {
   to: string;
   body: string;
+  /** Added to the status callback URL, to tell which message a callback is about */
+  statusCallbackParams?: Record<string, string>;
 }
 
 export interface TwilioSmsResponse {
@@ -32,7 +36,21 @@ export function getTwilioConfig(): TwilioConfig {
     throw new Error('Missing Twilio configuration in environment variables');
   }
 
-  return { accountSid, authToken, phoneNumber };
+  return {
+    accountSid,
+    authToken,
+    phoneNumber,
+    statusCallbackUrl: Deno.env.get('TWILIO_STATUS_CALLBACK_URL') || undefined,
+  };
+}
+
+// Add query parameters to a URL, the same way whether sending or verifying
+function withQueryParams(url: string, params: Record<string, string>): string {
+  const result = new URL(url);
+  for (const [key, value] of Object.entries(params)) {
+    result.searchParams.set(key, value);
+  }
+  return result.toString();
 }
 
 /**
@@ -57,6 +75,13 @@ export async function sendSms(
     Body: params.body,
   });
 
+  if (twilioConfig.statusCallbackUrl) {
+    body.set(
+      'StatusCallback',
+      withQueryParams(twilioConfig.statusCallbackUrl, params.statusCallbackParams || {})
+    );
+  }
+
   try {
     const response = await fetch(url, {
       method: 'POST',
@@ -86,19 +111,77 @@ export async function sendSms(
 }
 
 /**
- * Verify Twilio webhook signature (for security)
+ * Verify Twilio webhook signature
+ * Twilio signs each request with HMAC-SHA1 of the full webhook URL followed by
+ * every POST parameter (sorted by name, key then value), keyed by the auth token,
+ * and sends it base64-encoded in X-Twilio-Signature.
+ *
+ * Known sample from Twilio's docs: auth token "12345", URL
+ * "https://mycompany.com/myapp.php?foo=1&bar=2" and params CallSid=CA1234567890ABCDE,
+ * Caller=+12349013030, Digits=1234, From=+12349013030, To=+18005551212 sign to
+ * "0/KCTR6DLpKmkAf8muzZqo1nDgQ=".
  */
-export function verifyTwilioSignature(
+export async function verifyTwilioSignature(
   signature: string,
   url: string,
   params: Record<string, string>,
   authToken: string
-): boolean {
-  // Note: This is a simplified version. For production, use the official twilio-node library
-  // or implement the full HMAC-SHA1 verification
-  // For now, we'll skip signature verification but log a warning
-  console.warn('Twilio signature verification not fully implemented - consider adding in production');
-  return true;
+): Promise<boolean> {
+  if (!signature || !authToken) {
+    return false;
+  }
+
+  const data =
+    url +
+    Object.keys(params)
+      .sort()
+      .map((key) => `${key}${params[key]}`)
+      .join('');
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+
+  const signatureBuffer = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+  const computedSignature = btoa(String.fromCharCode(...new Uint8Array(signatureBuffer)));
+
+  // Compare every character so the check takes the same time wherever they differ
+  if (computedSignature.length !== signature.length) {
+    return false;
+  }
+
+  let mismatch = 0;
+  for (let i = 0; i < computedSignature.length; i++) {
+    mismatch |= computedSignature.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+
+  return mismatch === 0;
+}
+
+/**
+ * Get the URL Twilio signed for a webhook request
+ * Behind Supabase's gateway req.url isn't the public URL Twilio called, so the
+ * URL configured in the Twilio console can be set as TWILIO_WEBHOOK_URL
+ */
+export function getTwilioWebhookUrl(req: Request): string {
+  return Deno.env.get('TWILIO_WEBHOOK_URL') || req.url;
+}
+
+/**
+ * Get the URL Twilio signed for a status callback
+ * Messages are sent with TWILIO_STATUS_CALLBACK_URL plus their own query
+ * parameters, so that's what's signed
+ */
+export function getTwilioStatusCallbackUrl(req: Request): string {
+  const callbackUrl = Deno.env.get('TWILIO_STATUS_CALLBACK_URL');
+  if (!callbackUrl) return req.url;
+
+  return withQueryParams(callbackUrl, Object.fromEntries(new URL(req.url).searchParams));
 }
 
 /**
@@ -122,6 +205,56 @@ export async function parseTwilioWebhook(req: Request): Promise<Record<string, s
   return result;
 }
 
+/**
+ * A file attached to an incoming MMS
+ */
+export interface TwilioMedia {
+  url: string;
+  contentType: string;
+}
+
+/**
+ * List the media attached to an incoming message
+ * Twilio sends NumMedia along with MediaUrl0, MediaContentType0 and so on
+ */
+export function getTwilioMedia(params: Record<string, string>): TwilioMedia[] {
+  const count = parseInt(params.NumMedia || '0', 10) || 0;
+  const media: TwilioMedia[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const url = params[`MediaUrl${i}`];
+    if (url) {
+      media.push({ url, contentType: params[`MediaContentType${i}`] || '' });
+    }
+  }
+
+  return media;
+}
+
+/**
+ * Download a media file from Twilio
+ * Media URLs need the account's credentials when media auth is turned on
+ */
+export async function downloadTwilioMedia(
+  url: string,
+  config?: TwilioConfig
+): Promise<Blob> {
+  const twilioConfig = config || getTwilioConfig();
+  const credentials = btoa(`${twilioConfig.accountSid}:${twilioConfig.authToken}`);
+
+  const response = await fetch(url, {
+    headers: {
+      'Authorization': `Basic ${credentials}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to download media: ${response.status}`);
+  }
+
+  return await response.blob();
+}
+
 /**
  * Create TwiML response for Twilio webhook
  */
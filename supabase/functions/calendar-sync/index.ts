@@ -1,36 +1,46 @@
 /**
  * Calendar Sync Cron Job Edge Function
- * Runs every 6 hours to sync iCal calendars and create cleaning jobs
+ * Runs every 6 hours to sync iCal calendars and create cleaning jobs.
+ * Called with { property_id } by a signed-in host, it syncs just that property.
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
 import * as ICAL from 'https://esm.sh/ical.js@1.5.0';
 import { corsHeaders, jsonResponse, errorResponse, handleCors } from '../_shared/cors.ts';
+import { sendLoggedSms } from '../_shared/sms.ts';
+import { formatDateForSms, getJobReplyCode } from '../_shared/job-messages.ts';
+import { openOffer } from '../_shared/job-offers.ts';
+import { getStaffingStatus } from '../_shared/job-status.ts';
+import { calculateJobAmount } from '../_shared/pricing.ts';
+import { getJobRates, repriceJob } from '../_shared/job-pricing.ts';
+import { copyChecklistToJob } from '../_shared/job-checklists.ts';
+import {
+  fetchICalData,
+  parseICalData,
+  mergeFeedEvents,
+  planSync,
+  toLocalDateString,
+  type ICalEvent,
+  type SyncJob,
+} from '../_shared/calendar-sync.ts';
 
 // Types
 interface Property {
   id: string;
   user_id: string;
   name: string;
-  ical_url: string;
+  timezone: string | null;
   last_synced: string | null;
+  same_day_premium: number | null;
+  laundry_fee: number | null;
+  holiday_multiplier: number | null;
 }
 
-interface ICalEvent {
-  uid: string;
-  summary: string;
-  description?: string;
-  start: Date;
-  end: Date;
-  location?: string;
-}
-
-interface ParsedCheckout {
-  date: Date;
-  event: ICalEvent;
-  has_same_day_checkin: boolean;
-  next_checkin_date?: Date;
+interface CalendarFeed {
+  id: string;
+  name: string;
+  ical_url: string;
 }
 
 interface PropertyCleaner {
@@ -38,183 +48,76 @@ interface PropertyCleaner {
   is_primary: boolean;
 }
 
+interface ExistingJob extends SyncJob {
+  cleaner_id: string | null;
+  sms_sent_at: string | null;
+  cleaner?: {
+    name: string;
+    phone: string;
+    sms_opt_out: boolean;
+  } | null;
+}
+
 interface SyncResult {
   property_id: string;
   property_name: string;
   success: boolean;
   jobs_created: number;
+  jobs_updated: number;
+  jobs_cancelled: number;
+  feed_errors: string[];
+  parse_errors: string[];
   error?: string;
 }
 
 /**
- * Parse iCal data from URL
+ * Fetch and parse iCal data from URL
  */
-async function parseICalFromUrl(url: string): Promise<ICalEvent[]> {
-  try {
-    // Convert webcal:// to https://
-    const fetchUrl = url.replace(/^webcal:\/\//i, 'https://');
-
-    const response = await fetch(fetchUrl, {
-      method: 'GET',
-      headers: {
-        'Accept': 'text/calendar, application/ics, text/plain',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch iCal: ${response.status} ${response.statusText}`);
-    }
-
-    const icalData = await response.text();
-
-    if (!icalData || icalData.trim().length === 0) {
-      throw new Error('iCal data is empty');
-    }
-
-    return parseICalData(icalData);
-  } catch (error) {
-    console.error('Error parsing iCal from URL:', error);
-    throw error;
-  }
+async function parseICalFromUrl(url: string, parseErrors: string[] = []): Promise<ICalEvent[]> {
+  const icalData = await fetchICalData(url);
+  return parseICalData(icalData, ICAL, parseErrors);
 }
 
 /**
- * Parse iCal data string
+ * Get the calendar feeds to sync for a property
  */
-function parseICalData(icalData: string): ICalEvent[] {
-  try {
-    const jcalData = ICAL.parse(icalData);
-    const comp = new ICAL.Component(jcalData);
-    const vevents = comp.getAllSubcomponents('vevent');
-
-    const events: ICalEvent[] = [];
-
-    for (const vevent of vevents) {
-      try {
-        const event = new ICAL.Event(vevent);
-        const uid = event.uid || '';
-        const summary = event.summary || 'Untitled Event';
-        const description = event.description || '';
-        const location = event.location || '';
-
-        if (!event.startDate) continue;
-
-        const startDate = event.startDate.toJSDate();
-        const endDate = event.endDate ? event.endDate.toJSDate() : new Date(startDate);
-
-        events.push({
-          uid,
-          summary,
-          description,
-          start: startDate,
-          end: endDate,
-          location,
-        });
-      } catch (eventError) {
-        console.error('Error parsing individual event:', eventError);
-      }
-    }
-
-    return events;
-  } catch (error) {
-    console.error('Error parsing iCal data:', error);
-    throw new Error('Failed to parse iCal data');
+async function getPropertyFeeds(propertyId: string, supabase: any): Promise<CalendarFeed[]> {
+  const { data: feeds, error } = await supabase
+    .from('calendar_feeds')
+    .select('id, name, ical_url')
+    .eq('property_id', propertyId)
+    .eq('active', true)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch calendar feeds: ${error.message}`);
   }
-}
 
-/**
- * Extract checkouts from events
- */
-function extractCheckouts(events: ICalEvent[]): ParsedCheckout[] {
-  if (!Array.isArray(events) || events.length === 0) {
-    return [];
-  }
-
-  const sortedEvents = [...events].sort((a, b) => a.end.getTime() - b.end.getTime());
-  const checkouts: ParsedCheckout[] = [];
-
-  for (let i = 0; i < sortedEvents.length; i++) {
-    const event = sortedEvents[i];
-    const summary = event.summary.toLowerCase();
-    const isBlocked =
-      summary.includes('blocked') ||
-      summary.includes('unavailable') ||
-      summary.includes('not available') ||
-      summary === 'busy';
-
-    if (isBlocked) continue;
-
-    const checkoutDate = event.end;
-    const hasSameDayCheckin = detectSameDayTurnaround(checkoutDate, sortedEvents);
-
-    let nextCheckinDate: Date | undefined;
-    for (let j = i + 1; j < sortedEvents.length; j++) {
-      const nextEvent = sortedEvents[j];
-      const nextSummary = nextEvent.summary.toLowerCase();
-      const isNextBlocked =
-        nextSummary.includes('blocked') ||
-        nextSummary.includes('unavailable') ||
-        nextSummary.includes('not available') ||
-        nextSummary === 'busy';
-
-      if (!isNextBlocked) {
-        nextCheckinDate = nextEvent.start;
-        break;
-      }
-    }
-
-    checkouts.push({
-      date: checkoutDate,
-      event,
-      has_same_day_checkin: hasSameDayCheckin,
-      next_checkin_date: nextCheckinDate,
-    });
-  }
-
-  return checkouts;
+  return feeds || [];
 }
 
 /**
- * Detect same-day turnaround
+ * Text the assigned cleaner about a change to a job they were already told about
+ * Returns whether the cleaner was texted
  */
-function detectSameDayTurnaround(checkoutDate: Date, events: ICalEvent[]): boolean {
-  const checkoutDay = new Date(checkoutDate);
-  checkoutDay.setHours(0, 0, 0, 0);
-
-  for (const event of events) {
-    const eventStartDay = new Date(event.start);
-    eventStartDay.setHours(0, 0, 0, 0);
-
-    if (eventStartDay.getTime() === checkoutDay.getTime()) {
-      const summary = event.summary.toLowerCase();
-      const isBlocked =
-        summary.includes('blocked') ||
-        summary.includes('unavailable') ||
-        summary.includes('not available') ||
-        summary === 'busy';
-
-      if (!isBlocked) return true;
-    }
+async function notifyCleanerOfChange(
+  job: ExistingJob,
+  message: string,
+  supabase: any
+): Promise<boolean> {
+  // Cleaners only know about a job once the original SMS has gone out
+  if (!job.cleaner || !job.sms_sent_at || job.cleaner.sms_opt_out) {
+    return false;
   }
 
-  return false;
-}
-
-/**
- * Filter upcoming checkouts (next 30 days)
- */
-function filterUpcomingCheckouts(checkouts: ParsedCheckout[], days: number = 30): ParsedCheckout[] {
-  const now = new Date();
-  now.setHours(0, 0, 0, 0);
-
-  const futureDate = new Date(now);
-  futureDate.setDate(futureDate.getDate() + days);
-
-  return checkouts.filter(checkout => {
-    const checkoutDay = new Date(checkout.date);
-    checkoutDay.setHours(0, 0, 0, 0);
-    return checkoutDay >= now && checkoutDay <= futureDate;
+  const smsResult = await sendLoggedSms(supabase, {
+    to: job.cleaner.phone,
+    body: message,
+    cleaningJobId: job.id,
+    cleanerId: job.cleaner_id,
   });
+
+  return smsResult.success;
 }
 
 /**
@@ -226,13 +129,53 @@ async function syncProperty(property: Property, supabase: any): Promise<SyncResu
     property_name: property.name,
     success: false,
     jobs_created: 0,
+    jobs_updated: 0,
+    jobs_cancelled: 0,
+    feed_errors: [],
+    parse_errors: [],
   };
 
+  // Checkout days and "today" are judged in the property's own time zone
+  const timeZone = property.timezone || 'UTC';
+
   try {
-    // Parse iCal
-    const events = await parseICalFromUrl(property.ical_url);
-    const checkouts = extractCheckouts(events);
-    const upcomingCheckouts = filterUpcomingCheckouts(checkouts, 30);
+    const feeds = await getPropertyFeeds(property.id, supabase);
+
+    // With every calendar removed there is nothing to read, so nothing can be judged cancelled
+    if (feeds.length === 0) {
+      result.success = true;
+      return result;
+    }
+
+    // Fetch every feed; one broken channel shouldn't stop the others from syncing
+    const feedEvents: ICalEvent[][] = [];
+
+    for (const feed of feeds) {
+      let feedError: string | null = null;
+      const parseErrors: string[] = [];
+
+      try {
+        const events = await parseICalFromUrl(feed.ical_url, parseErrors);
+        result.parse_errors.push(...parseErrors.map(message => `${feed.name}: ${message}`));
+        feedEvents.push(events.map(event => ({ ...event, feed_id: feed.id })));
+      } catch (error: any) {
+        feedError = error.message || 'Unknown error';
+        result.feed_errors.push(`${feed.name}: ${feedError}`);
+      }
+
+      await supabase
+        .from('calendar_feeds')
+        .update(
+          feedError
+            ? { sync_error: feedError }
+            : { last_synced: new Date().toISOString(), sync_error: null }
+        )
+        .eq('id', feed.id);
+    }
+
+    if (feedEvents.length === 0) {
+      throw new Error(result.feed_errors.join('; '));
+    }
 
     // Get primary cleaner for this property
     const { data: propertyCleaners, error: cleanerError } = await supabase
@@ -247,42 +190,57 @@ async function syncProperty(property: Property, supabase: any): Promise<SyncResu
 
     const primaryCleaner = propertyCleaners?.find((pc: PropertyCleaner) => pc.is_primary);
     const assignedCleanerId = primaryCleaner?.cleaner_id || propertyCleaners?.[0]?.cleaner_id || null;
+    const rates = assignedCleanerId
+      ? await getJobRates(supabase, property.id, assignedCleanerId)
+      : null;
+
+    // Get jobs that are still ahead of us so they can be reconciled against the feeds
+    const { data: existingJobs, error: jobsError } = await supabase
+      .from('cleaning_jobs')
+      .select(`
+        id,
+        cleaner_id,
+        checkout_date,
+        checkin_date,
+        status,
+        is_same_day_turnaround,
+        sms_sent_at,
+        source_event_uid,
+        cleaner:cleaners (
+          name,
+          phone,
+          sms_opt_out
+        )
+      `)
+      .eq('property_id', property.id)
+      .neq('status', 'cancelled')
+      .gte('checkout_date', toLocalDateString(new Date(), timeZone));
 
-    // Process each checkout
-    for (const checkout of upcomingCheckouts) {
-      const checkoutDateStr = checkout.date.toISOString().split('T')[0];
-      const checkinDateStr = checkout.next_checkin_date
-        ? checkout.next_checkin_date.toISOString().split('T')[0]
-        : null;
-
-      // Check if job already exists
-      const { data: existingJobs, error: checkError } = await supabase
-        .from('cleaning_jobs')
-        .select('id')
-        .eq('property_id', property.id)
-        .eq('checkout_date', checkoutDateStr);
+    if (jobsError) {
+      throw new Error(`Failed to fetch existing jobs: ${jobsError.message}`);
+    }
 
-      if (checkError) {
-        console.error('Error checking existing job:', checkError);
-        continue;
-      }
+    const plan = planSync({
+      events: mergeFeedEvents(feedEvents),
+      existingJobs: existingJobs || [],
+      allFeedsLoaded: result.feed_errors.length === 0,
+      timeZone,
+    });
 
-      if (existingJobs && existingJobs.length > 0) {
-        // Job already exists, skip
-        continue;
-      }
+    for (const create of plan.creates) {
+      const price = rates ? calculateJobAmount(rates, property, { ...create, actual_hours: null }) : null;
 
-      // Create new cleaning job
-      const { error: insertError } = await supabase
+      const { data: newJob, error: insertError } = await supabase
         .from('cleaning_jobs')
         .insert({
           property_id: property.id,
           cleaner_id: assignedCleanerId,
-          checkout_date: checkoutDateStr,
-          checkin_date: checkinDateStr,
-          status: 'pending',
-          is_same_day_turnaround: checkout.has_same_day_checkin,
-        });
+          status: getStaffingStatus(assignedCleanerId, false),
+          amount_owed: price?.total ?? null,
+          ...create,
+        })
+        .select('id')
+        .single();
 
       if (insertError) {
         console.error('Error creating job:', insertError);
@@ -290,6 +248,93 @@ async function syncProperty(property: Property, supabase: any): Promise<SyncResu
       }
 
       result.jobs_created++;
+
+      try {
+        await copyChecklistToJob(supabase, newJob.id, property.id);
+      } catch (checklistError) {
+        console.error('Error copying checklist:', checklistError);
+      }
+    }
+
+    for (const update of plan.updates) {
+      const job = update.job as ExistingJob;
+
+      // A moved reservation needs a fresh confirmation from the cleaner
+      const needsReconfirm = update.moved && !!job.cleaner_id;
+      const { error: updateError } = await supabase
+        .from('cleaning_jobs')
+        .update({
+          ...update.changes,
+          ...(needsReconfirm
+            ? { status: 'pending', confirmed_at: null, reminder_sent_at: null }
+            : {}),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', job.id);
+
+      if (updateError) {
+        console.error('Error updating job:', updateError);
+        continue;
+      }
+
+      // A new date can land on a holiday or change the same-day premium
+      try {
+        await repriceJob(supabase, job.id);
+      } catch (priceError) {
+        console.error('Error repricing job:', priceError);
+      }
+
+      if (update.moved) {
+        const code = getJobReplyCode(job.id);
+        const notified = await notifyCleanerOfChange(
+          job,
+          `Schedule change: the cleaning at ${property.name} on ${formatDateForSms(job.checkout_date)} has moved to ${formatDateForSms(update.changes.checkout_date!)}. Reply YES ${code} to confirm or NO ${code} if you can't make it.`,
+          supabase
+        );
+
+        // The cleaner has to answer again, so the reply clock restarts
+        if (notified && job.cleaner_id) {
+          await supabase
+            .from('cleaning_jobs')
+            .update({ status: 'offered' })
+            .eq('id', job.id);
+          await openOffer(supabase, job.id, job.cleaner_id);
+        } else if (needsReconfirm && job.sms_sent_at) {
+          // The change notice didn't go out, so let the dispatcher offer the new date
+          await supabase
+            .from('cleaning_jobs')
+            .update({ sms_sent_at: null })
+            .eq('id', job.id);
+        }
+      }
+
+      result.jobs_updated++;
+    }
+
+    for (const cancel of plan.cancels) {
+      const job = cancel.job as ExistingJob;
+
+      const { error: cancelError } = await supabase
+        .from('cleaning_jobs')
+        .update({
+          status: 'cancelled',
+          cancelled_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', job.id);
+
+      if (cancelError) {
+        console.error('Error cancelling job:', cancelError);
+        continue;
+      }
+
+      await notifyCleanerOfChange(
+        job,
+        `Cancelled: the reservation at ${property.name} was cancelled, so the cleaning on ${formatDateForSms(job.checkout_date)} is no longer needed. No reply necessary.`,
+        supabase
+      );
+
+      result.jobs_cancelled++;
     }
 
     // Update last_synced timestamp
@@ -297,11 +342,14 @@ async function syncProperty(property: Property, supabase: any): Promise<SyncResu
       .from('properties')
       .update({
         last_synced: new Date().toISOString(),
-        sync_error: null,
+        sync_error: result.feed_errors.length > 0 ? result.feed_errors.join('; ') : null,
       })
       .eq('id', property.id);
 
-    result.success = true;
+    result.success = result.feed_errors.length === 0;
+    if (!result.success) {
+      result.error = result.feed_errors.join('; ');
+    }
   } catch (error: any) {
     result.error = error.message || 'Unknown error';
 
@@ -317,6 +365,42 @@ async function syncProperty(property: Property, supabase: any): Promise<SyncResu
   return result;
 }
 
+/**
+ * Sync one property on behalf of its signed-in owner
+ */
+async function handlePropertySync(req: Request, propertyId: string, supabase: any): Promise<Response> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  const { data: property, error: propertyError } = await supabase
+    .from('properties')
+    .select('*')
+    .eq('id', propertyId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (propertyError || !property) {
+    return errorResponse('Property not found', 404);
+  }
+
+  const result = await syncProperty(property, supabase);
+
+  console.log('Manual calendar sync completed:', result);
+
+  return jsonResponse(result);
+}
+
 /**
  * Main handler
  */
@@ -336,6 +420,12 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Manual "Sync now" from the app targets a single property
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    if (body.property_id) {
+      return await handlePropertySync(req, body.property_id, supabase);
+    }
+
     // Fetch all active properties
     const { data: properties, error: propertiesError } = await supabase
       .from('properties')
@@ -352,6 +442,8 @@ serve(async (req) => {
         synced: 0,
         errors: 0,
         jobs_created: 0,
+        jobs_updated: 0,
+        jobs_cancelled: 0,
       });
     }
 
@@ -366,12 +458,16 @@ serve(async (req) => {
     const synced = results.filter(r => r.success).length;
     const errors = results.filter(r => !r.success).length;
     const jobs_created = results.reduce((sum, r) => sum + r.jobs_created, 0);
+    const jobs_updated = results.reduce((sum, r) => sum + r.jobs_updated, 0);
+    const jobs_cancelled = results.reduce((sum, r) => sum + r.jobs_cancelled, 0);
 
     // Log results
     console.log('Calendar sync completed:', {
       synced,
       errors,
       jobs_created,
+      jobs_updated,
+      jobs_cancelled,
       results,
     });
 
@@ -380,6 +476,8 @@ serve(async (req) => {
       synced,
       errors,
       jobs_created,
+      jobs_updated,
+      jobs_cancelled,
       details: results,
     });
   } catch (error: any) {
@@ -62,6 +62,16 @@ set_secrets() {
             supabase secrets set TWILIO_PHONE_NUMBER="$twilio_phone"
         fi
 
+        read -p "TWILIO_WEBHOOK_URL (as configured in Twilio): " twilio_webhook_url
+        if [ ! -z "$twilio_webhook_url" ]; then
+            supabase secrets set TWILIO_WEBHOOK_URL="$twilio_webhook_url"
+        fi
+
+        read -p "TWILIO_STATUS_CALLBACK_URL (public URL of twilio-status-callback): " twilio_status_url
+        if [ ! -z "$twilio_status_url" ]; then
+            supabase secrets set TWILIO_STATUS_CALLBACK_URL="$twilio_status_url"
+        fi
+
         read -p "STRIPE_SECRET_KEY: " stripe_key
         if [ ! -z "$stripe_key" ]; then
             supabase secrets set STRIPE_SECRET_KEY="$stripe_key"
@@ -72,6 +82,16 @@ set_secrets() {
             supabase secrets set STRIPE_WEBHOOK_SECRET="$stripe_webhook"
         fi
 
+        read -p "STRIPE_CONNECT_WEBHOOK_SECRET (Connect endpoint, optional): " stripe_connect_webhook
+        if [ ! -z "$stripe_connect_webhook" ]; then
+            supabase secrets set STRIPE_CONNECT_WEBHOOK_SECRET="$stripe_connect_webhook"
+        fi
+
+        read -p "STRIPE_CONNECT_RETURN_URL (after cleaner payout onboarding): " stripe_connect_return
+        if [ ! -z "$stripe_connect_return" ]; then
+            supabase secrets set STRIPE_CONNECT_RETURN_URL="$stripe_connect_return"
+        fi
+
         echo "✅ Environment variables set"
     fi
 }
@@ -82,8 +102,18 @@ if [ "$1" == "all" ] || [ -z "$1" ]; then
 
     deploy_function "calendar-sync"
     deploy_function "twilio-webhook"
+    deploy_function "twilio-status-callback"
     deploy_function "send-cleaning-sms"
+    deploy_function "reassign-job"
+    deploy_function "escalate-job-offers"
+    deploy_function "dispatch-job-sms"
     deploy_function "stripe-webhook"
+    deploy_function "replay-stripe-event"
+    deploy_function "onboard-cleaner-payouts"
+    deploy_function "pay-cleaner-jobs"
+    deploy_function "export-cleaner-statement"
+    deploy_function "send-host-sms"
+    deploy_function "retry-sms"
 
     echo ""
     echo "✅ All functions deployed successfully!"
@@ -94,7 +124,10 @@ if [ "$1" == "all" ] || [ -z "$1" ]; then
     echo "📋 Next steps:"
     echo "1. Configure Twilio webhook: https://console.twilio.com/"
     echo "2. Configure Stripe webhook: https://dashboard.stripe.com/webhooks"
+    echo "   (also listen to Connect events for account.updated and transfer.reversed)"
     echo "3. Set up cron job for calendar-sync in Supabase Dashboard"
+    echo "4. Set up hourly cron jobs for escalate-job-offers and dispatch-job-sms"
+    echo "5. Create private 'statements' and 'job-photos' storage buckets"
     echo ""
     echo "📖 See README.md for detailed instructions"
 
@@ -113,8 +146,18 @@ else
         echo "Available functions:"
         echo "  - calendar-sync"
         echo "  - twilio-webhook"
+        echo "  - twilio-status-callback"
         echo "  - send-cleaning-sms"
+        echo "  - reassign-job"
+        echo "  - escalate-job-offers"
+        echo "  - dispatch-job-sms"
         echo "  - stripe-webhook"
+        echo "  - replay-stripe-event"
+        echo "  - onboard-cleaner-payouts"
+        echo "  - pay-cleaner-jobs"
+        echo "  - export-cleaner-statement"
+        echo "  - send-host-sms"
+        echo "  - retry-sms"
         echo ""
         echo "Usage: ./deploy.sh [function-name|all|secrets]"
         exit 1
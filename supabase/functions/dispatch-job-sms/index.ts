@@ -0,0 +1,269 @@
+/**
+ * Dispatch Job SMS Cron Job Edge Function
+ * Runs every hour. Jobs nobody has been texted about are offered to their
+ * cleaner once checkout is within the property's sms_lead_days, and cleaners
+ * who confirmed get a reminder the day before. Every send is claimed on the
+ * job first, so overlapping runs never text a cleaner twice.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { jsonResponse, errorResponse, handleCors } from '../_shared/cors.ts';
+import { countFailedSends, sendLoggedSms } from '../_shared/sms.ts';
+import { buildReminderMessage, formatDateForSms } from '../_shared/job-messages.ts';
+import { MAX_OFFER_SMS_ATTEMPTS, sendJobOffer } from '../_shared/job-offers.ts';
+import { sendPushNotification } from '../_shared/push.ts';
+import { toLocalDateString, addDaysToDateString } from '../_shared/calendar-sync.ts';
+
+const DEFAULT_SMS_LEAD_DAYS = 3;
+
+// Longest lead time a property can ask for
+const MAX_SMS_LEAD_DAYS = 14;
+
+// Types
+interface DispatchJob {
+  id: string;
+  cleaner_id: string;
+  status: string;
+  checkout_date: string;
+  checkin_date: string | null;
+  checkout_time: string | null;
+  checkin_time: string | null;
+  is_same_day_turnaround: boolean;
+  confirmed_at: string | null;
+  property: {
+    name: string;
+    user_id: string;
+    address: string | null;
+    timezone: string | null;
+    active: boolean;
+    sms_lead_days: number | null;
+    default_checkout_time: string | null;
+    default_checkin_time: string | null;
+  };
+  cleaner: {
+    name: string;
+    phone: string;
+    active: boolean;
+    sms_opt_out: boolean;
+  } | null;
+}
+
+interface DispatchResult {
+  job_id: string;
+  kind: 'offer' | 'reminder';
+  success: boolean;
+  error?: string;
+}
+
+const JOB_SELECT = `
+  id,
+  cleaner_id,
+  status,
+  checkout_date,
+  checkin_date,
+  checkout_time,
+  checkin_time,
+  is_same_day_turnaround,
+  confirmed_at,
+  property:properties!inner (
+    name,
+    user_id,
+    address,
+    timezone,
+    active,
+    sms_lead_days,
+    default_checkout_time,
+    default_checkin_time
+  ),
+  cleaner:cleaners (
+    name,
+    phone,
+    active,
+    sms_opt_out
+  )
+`;
+
+/**
+ * Whether a job's cleaner can be texted at all
+ */
+function canText(job: DispatchJob): boolean {
+  return !!job.cleaner && job.cleaner.active && !job.cleaner.sms_opt_out && job.property.active;
+}
+
+/**
+ * Today's date at the job's property
+ */
+function propertyToday(job: DispatchJob, now: Date): string {
+  return toLocalDateString(now, job.property.timezone || 'UTC');
+}
+
+/**
+ * Send the day-before reminder for a confirmed job, at most once
+ * The claim is given back if Twilio rejects the message, until as many sends
+ * as an offer gets have failed and the host is told instead
+ */
+async function sendReminder(supabase: any, job: DispatchJob): Promise<DispatchResult | null> {
+  const { data: claimed, error: claimError } = await supabase
+    .from('cleaning_jobs')
+    .update({ reminder_sent_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .is('reminder_sent_at', null)
+    .select('id');
+
+  if (claimError) {
+    throw new Error(`Failed to claim job ${job.id}: ${claimError.message}`);
+  }
+
+  // Another run got here first
+  if (!claimed || claimed.length === 0) {
+    return null;
+  }
+
+  const smsResult = await sendLoggedSms(supabase, {
+    to: job.cleaner!.phone,
+    body: buildReminderMessage(job),
+    cleaningJobId: job.id,
+    cleanerId: job.cleaner_id,
+  });
+
+  if (!smsResult.success) {
+    const failedSends = await countFailedSends(
+      supabase,
+      job.id,
+      job.cleaner!.phone,
+      job.confirmed_at
+    );
+
+    if (failedSends >= MAX_OFFER_SMS_ATTEMPTS) {
+      await sendPushNotification(
+        job.property.user_id,
+        'sms_failed',
+        `We couldn't text ${job.cleaner!.name} a reminder about the cleaning at ${job.property.name} on ${formatDateForSms(job.checkout_date)}. Check their number or give them a call.`,
+        job.id,
+        supabase,
+        { cleaner_id: job.cleaner_id },
+        'Text Not Delivered'
+      );
+    } else {
+      await supabase.from('cleaning_jobs').update({ reminder_sent_at: null }).eq('id', job.id);
+    }
+  }
+
+  return { job_id: job.id, kind: 'reminder', success: smsResult.success, error: smsResult.error };
+}
+
+/**
+ * Main handler
+ */
+serve(async (req) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    // Initialize Supabase client with service role
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return errorResponse('Missing Supabase configuration', 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Properties span time zones, so fetch a UTC range wide enough for all of
+    // them and narrow it down per property below
+    const now = new Date();
+    const utcToday = toLocalDateString(now);
+    const rangeStart = addDaysToDateString(utcToday, -1);
+    const rangeEnd = addDaysToDateString(utcToday, MAX_SMS_LEAD_DAYS + 1);
+
+    const [offersResult, remindersResult] = await Promise.all([
+      supabase
+        .from('cleaning_jobs')
+        .select(JOB_SELECT)
+        .eq('status', 'pending')
+        .is('sms_sent_at', null)
+        .not('cleaner_id', 'is', null)
+        .gte('checkout_date', rangeStart)
+        .lte('checkout_date', rangeEnd),
+      supabase
+        .from('cleaning_jobs')
+        .select(JOB_SELECT)
+        .eq('status', 'confirmed')
+        .is('reminder_sent_at', null)
+        .gte('checkout_date', rangeStart)
+        .lte('checkout_date', addDaysToDateString(utcToday, 2)),
+    ]);
+
+    if (offersResult.error) {
+      throw new Error(`Failed to fetch unsent jobs: ${offersResult.error.message}`);
+    }
+    if (remindersResult.error) {
+      throw new Error(`Failed to fetch confirmed jobs: ${remindersResult.error.message}`);
+    }
+
+    const results: DispatchResult[] = [];
+    let skipped = 0;
+
+    for (const job of (offersResult.data || []) as DispatchJob[]) {
+      const today = propertyToday(job, now);
+      const leadDays = job.property.sms_lead_days ?? DEFAULT_SMS_LEAD_DAYS;
+
+      if (job.checkout_date < today || job.checkout_date > addDaysToDateString(today, leadDays)) {
+        continue;
+      }
+
+      if (!canText(job)) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        const sent = await sendJobOffer(supabase, { ...job, cleaner: job.cleaner! });
+        if (!sent.skipped) {
+          results.push({ job_id: job.id, kind: 'offer', success: sent.success, error: sent.error });
+        }
+      } catch (error: any) {
+        console.error('Error sending job offer:', job.id, error);
+      }
+    }
+
+    for (const job of (remindersResult.data || []) as DispatchJob[]) {
+      if (job.checkout_date !== addDaysToDateString(propertyToday(job, now), 1)) {
+        continue;
+      }
+
+      if (!canText(job)) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        const sent = await sendReminder(supabase, job);
+        if (sent) results.push(sent);
+      } catch (error: any) {
+        console.error('Error sending reminder:', job.id, error);
+      }
+    }
+
+    const offersSent = results.filter((r) => r.kind === 'offer' && r.success).length;
+    const remindersSent = results.filter((r) => r.kind === 'reminder' && r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    console.log('SMS dispatch completed:', { offersSent, remindersSent, failed, skipped });
+
+    return jsonResponse({
+      message: 'SMS dispatch completed',
+      offers_sent: offersSent,
+      reminders_sent: remindersSent,
+      failed,
+      skipped,
+      details: results,
+    });
+  } catch (error: any) {
+    console.error('SMS dispatch error:', error);
+    return errorResponse(error.message || 'Internal server error', 500);
+  }
+});
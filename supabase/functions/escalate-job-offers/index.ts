@@ -0,0 +1,228 @@
+/**
+ * Escalate Job Offers Cron Job Edge Function
+ * Runs every hour. Offers nobody has answered within the property's
+ * offer_timeout_hours are expired and the job goes to the next cleaner.
+ * Cleanings whose day has passed without a DONE are flagged for review.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { jsonResponse, errorResponse, handleCors } from '../_shared/cors.ts';
+import { sendLoggedSms } from '../_shared/sms.ts';
+import { buildReleasedMessage } from '../_shared/job-messages.ts';
+import {
+  DEFAULT_OFFER_TIMEOUT_HOURS,
+  closeOffer,
+  offerJobToNextCleaner,
+  type EscalationResult,
+} from '../_shared/job-offers.ts';
+import type { JobStatus } from '../_shared/job-status.ts';
+import { toLocalDateString, addDaysToDateString } from '../_shared/calendar-sync.ts';
+
+// Types
+interface OpenOffer {
+  id: string;
+  cleaning_job_id: string;
+  cleaner_id: string;
+  offered_at: string;
+  cleaner: {
+    name: string;
+    phone: string;
+    sms_opt_out: boolean;
+  } | null;
+  job: {
+    id: string;
+    cleaner_id: string | null;
+    status: JobStatus;
+    checkout_date: string;
+    checkin_date: string | null;
+    is_same_day_turnaround: boolean;
+    property: {
+      name: string;
+      address: string | null;
+      offer_timeout_hours: number | null;
+      timezone: string | null;
+    };
+  } | null;
+}
+
+interface ReviewCandidate {
+  id: string;
+  checkout_date: string;
+  property: {
+    timezone: string | null;
+  } | null;
+}
+
+/** Statuses that mean a cleaning was never finished */
+const UNFINISHED_STATUSES: JobStatus[] = ['pending', 'offered', 'confirmed', 'in_progress'];
+
+/**
+ * Today's date at a property
+ */
+function propertyToday(property: { timezone: string | null } | null, now: Date): string {
+  return toLocalDateString(now, property?.timezone || 'UTC');
+}
+
+/**
+ * Main handler
+ */
+serve(async (req) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    // Initialize Supabase client with service role
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return errorResponse('Missing Supabase configuration', 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Fetch every offer still waiting on an answer
+    const { data: offers, error: offersError } = await supabase
+      .from('job_offers')
+      .select(`
+        id,
+        cleaning_job_id,
+        cleaner_id,
+        offered_at,
+        cleaner:cleaners (
+          name,
+          phone,
+          sms_opt_out
+        ),
+        job:cleaning_jobs (
+          id,
+          cleaner_id,
+          status,
+          checkout_date,
+          checkin_date,
+          is_same_day_turnaround,
+          property:properties (
+            name,
+            address,
+            offer_timeout_hours,
+            timezone
+          )
+        )
+      `)
+      .is('response', null);
+
+    if (offersError) {
+      throw new Error(`Failed to fetch open offers: ${offersError.message}`);
+    }
+
+    const now = new Date();
+    const results: EscalationResult[] = [];
+    let expired = 0;
+
+    for (const offer of (offers || []) as OpenOffer[]) {
+      const job = offer.job;
+      if (!job) continue;
+
+      // The job was answered or moved on some other way (e.g. confirmed in the app).
+      // Offers opened before jobs had an 'offered' status still say 'pending'
+      const awaitingReply = job.status === 'offered' || job.status === 'pending';
+      if (job.cleaner_id !== offer.cleaner_id || !awaitingReply) {
+        await closeOffer(
+          supabase,
+          job.id,
+          offer.cleaner_id,
+          job.status === 'confirmed' && job.cleaner_id === offer.cleaner_id ? 'accepted' : 'released'
+        );
+        continue;
+      }
+
+      const timeoutHours = job.property?.offer_timeout_hours ?? DEFAULT_OFFER_TIMEOUT_HOURS;
+      if (now.getTime() - new Date(offer.offered_at).getTime() < timeoutHours * 60 * 60 * 1000) {
+        continue;
+      }
+
+      await closeOffer(supabase, job.id, offer.cleaner_id, 'expired');
+      expired++;
+
+      // Past cleanings aren't worth chasing
+      if (job.checkout_date < propertyToday(job.property, now)) {
+        continue;
+      }
+
+      // Let the unresponsive cleaner know the job has gone to someone else
+      if (offer.cleaner && !offer.cleaner.sms_opt_out) {
+        await sendLoggedSms(supabase, {
+          to: offer.cleaner.phone,
+          body: buildReleasedMessage({ ...job, cleaner: offer.cleaner }),
+          cleaningJobId: job.id,
+          cleanerId: offer.cleaner_id,
+        });
+      }
+
+      try {
+        results.push(await offerJobToNextCleaner(supabase, job.id));
+      } catch (error: any) {
+        console.error('Error escalating job:', job.id, error);
+      }
+    }
+
+    const offered = results.filter((r) => !r.exhausted).length;
+    const exhausted = results.filter((r) => r.exhausted).length;
+
+    // Anything still open after its day has passed needs the host to look at it.
+    // Properties span time zones, so fetch every job whose day may have passed
+    // somewhere and keep those whose day is over at their own property
+    const { data: candidates, error: candidatesError } = await supabase
+      .from('cleaning_jobs')
+      .select(`
+        id,
+        checkout_date,
+        property:properties (
+          timezone
+        )
+      `)
+      .in('status', UNFINISHED_STATUSES)
+      .lt('checkout_date', addDaysToDateString(toLocalDateString(now), 1));
+
+    if (candidatesError) {
+      console.error('Error finding past jobs:', candidatesError);
+    }
+
+    const pastJobIds = ((candidates || []) as ReviewCandidate[])
+      .filter((job) => job.checkout_date < propertyToday(job.property, now))
+      .map((job) => job.id);
+
+    let flagged: { id: string }[] | null = null;
+    if (pastJobIds.length > 0) {
+      const { data, error: reviewError } = await supabase
+        .from('cleaning_jobs')
+        .update({ status: 'needs_review', updated_at: new Date().toISOString() })
+        .in('id', pastJobIds)
+        .in('status', UNFINISHED_STATUSES)
+        .select('id');
+
+      if (reviewError) {
+        console.error('Error flagging past jobs for review:', reviewError);
+      }
+      flagged = data;
+    }
+
+    const needsReview = flagged?.length || 0;
+
+    console.log('Offer escalation completed:', { expired, offered, exhausted, needsReview });
+
+    return jsonResponse({
+      message: 'Offer escalation completed',
+      expired,
+      offered,
+      exhausted,
+      needs_review: needsReview,
+      details: results,
+    });
+  } catch (error: any) {
+    console.error('Offer escalation error:', error);
+    return errorResponse(error.message || 'Internal server error', 500);
+  }
+});
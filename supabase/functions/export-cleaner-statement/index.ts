@@ -0,0 +1,160 @@
+/**
+ * Export Cleaner Statement Edge Function
+ * Builds a cleaner's earnings statement for a date range as CSV or PDF on
+ * behalf of the signed-in host. The file is saved to the private statements
+ * storage bucket and the host gets a link to it that expires after an hour.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { jsonResponse, errorResponse, handleCors } from '../_shared/cors.ts';
+import {
+  buildCleanerStatement,
+  getStatementFileName,
+  statementToCsv,
+  statementToPdf,
+  type StatementFormat,
+  type StatementJob,
+} from '../_shared/statements.ts';
+
+const STATEMENTS_BUCKET = 'statements';
+const LINK_EXPIRY_SECONDS = 60 * 60;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const CONTENT_TYPES: Record<StatementFormat, string> = {
+  csv: 'text/csv',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Main handler
+ */
+serve(async (req) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  // Only accept POST requests
+  if (req.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return errorResponse('Missing Supabase configuration', 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Authenticate the host
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const { cleaner_id, start_date, end_date, format } = await req.json();
+
+    if (!cleaner_id) {
+      return errorResponse('Missing cleaner_id in request body', 400);
+    }
+
+    if (!DATE_PATTERN.test(start_date || '') || !DATE_PATTERN.test(end_date || '')) {
+      return errorResponse('start_date and end_date must be YYYY-MM-DD dates', 400);
+    }
+
+    if (start_date > end_date) {
+      return errorResponse('start_date must be on or before end_date', 400);
+    }
+
+    if (!(format in CONTENT_TYPES)) {
+      return errorResponse('format must be csv or pdf', 400);
+    }
+
+    const { data: cleaner, error: cleanerError } = await supabase
+      .from('cleaners')
+      .select('id, user_id, name')
+      .eq('id', cleaner_id)
+      .single();
+
+    if (cleanerError || !cleaner || cleaner.user_id !== user.id) {
+      return errorResponse('Cleaner not found', 404);
+    }
+
+    const { data: jobs, error: jobsError } = await supabase
+      .from('cleaning_jobs')
+      .select(`
+        id,
+        checkout_date,
+        amount_owed,
+        payment_status,
+        payment_date,
+        property:properties (
+          name
+        )
+      `)
+      .eq('cleaner_id', cleaner.id)
+      .eq('status', 'completed')
+      .gte('checkout_date', start_date)
+      .lte('checkout_date', end_date);
+
+    if (jobsError) {
+      throw new Error(`Failed to fetch jobs: ${jobsError.message}`);
+    }
+
+    const statement = buildCleanerStatement(
+      cleaner,
+      (jobs || []) as StatementJob[],
+      start_date,
+      end_date
+    );
+    const statementFormat = format as StatementFormat;
+    const content =
+      statementFormat === 'csv' ? statementToCsv(statement) : statementToPdf(statement);
+
+    const fileName = getStatementFileName(statement, statementFormat);
+    const path = `${user.id}/${cleaner.id}/${fileName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(STATEMENTS_BUCKET)
+      .upload(path, new Blob([content], { type: CONTENT_TYPES[statementFormat] }), {
+        contentType: CONTENT_TYPES[statementFormat],
+        upsert: true,
+      });
+
+    if (uploadError) {
+      throw new Error(`Failed to save statement: ${uploadError.message}`);
+    }
+
+    const { data: link, error: linkError } = await supabase.storage
+      .from(STATEMENTS_BUCKET)
+      .createSignedUrl(path, LINK_EXPIRY_SECONDS, { download: fileName });
+
+    if (linkError || !link) {
+      throw new Error(`Failed to create download link: ${linkError?.message}`);
+    }
+
+    console.log('Exported statement:', cleaner.id, path, { jobs: statement.lines.length });
+
+    return jsonResponse({
+      url: link.signedUrl,
+      file_name: fileName,
+      expires_at: new Date(Date.now() + LINK_EXPIRY_SECONDS * 1000).toISOString(),
+    });
+  } catch (error: any) {
+    console.error('Export cleaner statement error:', error);
+    return errorResponse(error.message || 'Internal server error', 500);
+  }
+});
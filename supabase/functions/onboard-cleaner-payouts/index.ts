@@ -0,0 +1,137 @@
+/**
+ * Onboard Cleaner Payouts Edge Function
+ * Sets a cleaner up to be paid through Stripe Connect on behalf of the
+ * signed-in host. The cleaner gets an Express account the first time, and the
+ * host is handed a Stripe onboarding link to open or share with the cleaner.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { jsonResponse, errorResponse, handleCors } from '../_shared/cors.ts';
+import { stripeRequest } from '../_shared/stripe.ts';
+
+/**
+ * Main handler
+ */
+serve(async (req) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  // Only accept POST requests
+  if (req.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return errorResponse('Missing Supabase configuration', 500);
+    }
+
+    // Stripe sends the cleaner here when onboarding finishes or the link expires
+    const returnUrl = Deno.env.get('STRIPE_CONNECT_RETURN_URL');
+    if (!returnUrl) {
+      return errorResponse('Missing STRIPE_CONNECT_RETURN_URL', 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Authenticate the host
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const { cleaner_id } = await req.json();
+
+    if (!cleaner_id) {
+      return errorResponse('Missing cleaner_id in request body', 400);
+    }
+
+    const { data: cleaner, error: cleanerError } = await supabase
+      .from('cleaners')
+      .select('id, user_id, name, stripe_account_id, payouts_enabled')
+      .eq('id', cleaner_id)
+      .single();
+
+    if (cleanerError || !cleaner || cleaner.user_id !== user.id) {
+      return errorResponse('Cleaner not found', 404);
+    }
+
+    let accountId: string | null = cleaner.stripe_account_id;
+
+    if (!accountId) {
+      const account = await stripeRequest('accounts', 'POST', {
+        type: 'express',
+        'capabilities[transfers][requested]': true,
+        business_type: 'individual',
+        'metadata[cleaner_id]': cleaner.id,
+        'metadata[user_id]': user.id,
+      });
+
+      // Only keep the account if no other request stored one in the meantime
+      const { data: stored, error: storeError } = await supabase
+        .from('cleaners')
+        .update({
+          stripe_account_id: account.id,
+          payouts_enabled: false,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', cleaner.id)
+        .is('stripe_account_id', null)
+        .select('stripe_account_id');
+
+      if (storeError) {
+        throw new Error(`Failed to save Stripe account: ${storeError.message}`);
+      }
+
+      if (stored && stored.length > 0) {
+        accountId = account.id;
+      } else {
+        const { data: current } = await supabase
+          .from('cleaners')
+          .select('stripe_account_id')
+          .eq('id', cleaner.id)
+          .single();
+        accountId = current?.stripe_account_id || null;
+      }
+
+      if (!accountId) {
+        throw new Error('Failed to save Stripe account');
+      }
+
+      console.log('Created Stripe Connect account for cleaner:', cleaner.id, accountId);
+    }
+
+    const link = await stripeRequest('account_links', 'POST', {
+      account: accountId,
+      refresh_url: returnUrl,
+      return_url: returnUrl,
+      type: 'account_onboarding',
+    });
+
+    return jsonResponse({
+      cleaner_id: cleaner.id,
+      account_id: accountId,
+      payouts_enabled: cleaner.payouts_enabled ?? false,
+      url: link.url,
+      expires_at: link.expires_at,
+    });
+  } catch (error: any) {
+    console.error('Onboard cleaner payouts error:', error);
+    return errorResponse(error.message || 'Internal server error', 500);
+  }
+});
@@ -0,0 +1,262 @@
+/**
+ * Pay Cleaner Jobs Edge Function
+ * Pays a cleaner for their unpaid, completed jobs with a single Stripe Connect
+ * transfer on behalf of the signed-in host. The jobs are marked paid before the
+ * transfer is made so two requests can't pay for the same job, and put back only
+ * if Stripe rejects it; when the outcome is unknown they stay paid rather than
+ * risk paying twice. The transfer ID is recorded on every job it covers, which
+ * is how a later failure reported by stripe-webhook finds them again.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { jsonResponse, errorResponse, handleCors } from '../_shared/cors.ts';
+import { stripeRequest, isStripeRejection } from '../_shared/stripe.ts';
+
+// Types
+interface PayableJob {
+  id: string;
+  amount_owed: number;
+  property: {
+    user_id: string;
+  };
+}
+
+// Tries at a transfer whose outcome Stripe left unknown, e.g. after a timeout
+const MAX_TRANSFER_ATTEMPTS = 3;
+
+/**
+ * Idempotency key for paying a set of jobs
+ * The same jobs always get the same key, so Stripe creates at most one
+ * transfer for them however many times the request is retried
+ */
+async function getPayoutIdempotencyKey(cleanerId: string, jobIds: string[]): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode([...jobIds].sort().join(','))
+  );
+  const hash = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+
+  return `cleaner-payout-${cleanerId}-${hash}`;
+}
+
+/**
+ * Main handler
+ */
+serve(async (req) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  // Only accept POST requests
+  if (req.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return errorResponse('Missing Supabase configuration', 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Authenticate the host
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    // job_ids narrows the batch; without it every unpaid job is paid
+    const { cleaner_id, job_ids } = await req.json();
+
+    if (!cleaner_id) {
+      return errorResponse('Missing cleaner_id in request body', 400);
+    }
+
+    if (job_ids !== undefined && (!Array.isArray(job_ids) || job_ids.length === 0)) {
+      return errorResponse('job_ids must be a non-empty array', 400);
+    }
+
+    const { data: cleaner, error: cleanerError } = await supabase
+      .from('cleaners')
+      .select('id, user_id, name, stripe_account_id, payouts_enabled')
+      .eq('id', cleaner_id)
+      .single();
+
+    if (cleanerError || !cleaner || cleaner.user_id !== user.id) {
+      return errorResponse('Cleaner not found', 404);
+    }
+
+    if (!cleaner.stripe_account_id || !cleaner.payouts_enabled) {
+      return errorResponse(`${cleaner.name} hasn't finished setting up payouts`, 409);
+    }
+
+    let query = supabase
+      .from('cleaning_jobs')
+      .select(`
+        id,
+        amount_owed,
+        property:properties!inner (
+          user_id
+        )
+      `)
+      .eq('cleaner_id', cleaner.id)
+      .eq('property.user_id', user.id)
+      .eq('status', 'completed')
+      .eq('payment_status', 'unpaid')
+      .is('stripe_transfer_id', null)
+      .gt('amount_owed', 0);
+
+    if (job_ids) {
+      query = query.in('id', job_ids);
+    }
+
+    const { data: jobs, error: jobsError } = await query;
+
+    if (jobsError) {
+      throw new Error(`Failed to fetch unpaid jobs: ${jobsError.message}`);
+    }
+
+    const payable = (jobs || []) as PayableJob[];
+
+    if (payable.length === 0) {
+      return errorResponse('No unpaid completed jobs to pay', 404);
+    }
+
+    // Claim the jobs; anything another request already paid drops out here
+    const paymentDate = new Date().toISOString();
+    const { data: claimed, error: claimError } = await supabase
+      .from('cleaning_jobs')
+      .update({
+        payment_status: 'paid',
+        payment_date: paymentDate,
+        updated_at: paymentDate,
+      })
+      .in('id', payable.map((job) => job.id))
+      .eq('payment_status', 'unpaid')
+      .is('stripe_transfer_id', null)
+      .select('id, amount_owed');
+
+    if (claimError) {
+      throw new Error(`Failed to claim jobs: ${claimError.message}`);
+    }
+
+    if (!claimed || claimed.length === 0) {
+      return errorResponse('These jobs are already being paid', 409);
+    }
+
+    const claimedIds: string[] = claimed.map((job: { id: string }) => job.id);
+    const amount = claimed.reduce(
+      (sum: number, job: { amount_owed: number }) => sum + job.amount_owed,
+      0
+    );
+
+    // Retries must send identical parameters under the same key
+    const idempotencyKey = await getPayoutIdempotencyKey(cleaner.id, claimedIds);
+    const transferParams = {
+      amount: Math.round(amount * 100),
+      currency: 'usd',
+      destination: cleaner.stripe_account_id,
+      transfer_group: idempotencyKey,
+      description: `Cleaning payout for ${claimedIds.length} job${claimedIds.length === 1 ? '' : 's'}`,
+      'metadata[cleaner_id]': cleaner.id,
+      'metadata[user_id]': user.id,
+      'metadata[job_count]': claimedIds.length,
+    };
+
+    let transfer: any = null;
+    let transferError: any = null;
+    for (let attempt = 1; attempt <= MAX_TRANSFER_ATTEMPTS && !transfer; attempt++) {
+      try {
+        transfer = await stripeRequest('transfers', 'POST', transferParams, undefined, idempotencyKey);
+      } catch (error: any) {
+        transferError = error;
+        if (isStripeRejection(error)) break;
+        console.error('Transfer outcome unknown:', idempotencyKey, attempt, error);
+        await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+      }
+    }
+
+    if (!transfer) {
+      if (isStripeRejection(transferError)) {
+        await supabase
+          .from('cleaning_jobs')
+          .update({
+            payment_status: 'unpaid',
+            payment_date: null,
+            updated_at: new Date().toISOString(),
+          })
+          .in('id', claimedIds);
+
+        return errorResponse(`Transfer failed: ${transferError.message}`, 402);
+      }
+
+      // Stripe may have made the transfer, so the jobs stay paid
+      console.error('Transfer outcome unknown, jobs left paid:', idempotencyKey, claimedIds);
+      return errorResponse(
+        `Couldn't confirm the transfer with Stripe (${transferError?.message || 'no response'}). ` +
+          `The jobs stay marked paid so the cleaner isn't paid twice; check your Stripe dashboard before paying them again.`,
+        502
+      );
+    }
+
+    // Record the payout like any other settlement
+    const { data: payment, error: paymentError } = await supabase
+      .from('cleaner_payments')
+      .insert({
+        user_id: user.id,
+        cleaner_id: cleaner.id,
+        amount,
+        method: 'stripe',
+        reference: transfer.id,
+        paid_at: paymentDate,
+      })
+      .select('id')
+      .single();
+
+    if (paymentError) {
+      console.error('Failed to record payment:', transfer.id, paymentError);
+    }
+
+    const { error: recordError } = await supabase
+      .from('cleaning_jobs')
+      .update({ stripe_transfer_id: transfer.id, payment_id: payment?.id || null })
+      .in('id', claimedIds);
+
+    if (recordError) {
+      // The money has moved, so the jobs stay paid; the transfer's metadata
+      // still ties it back to the cleaner
+      console.error('Failed to record transfer on jobs:', transfer.id, recordError);
+    }
+
+    console.log('Paid cleaner:', cleaner.id, transfer.id, { jobs: claimedIds.length, amount });
+
+    return jsonResponse({
+      success: true,
+      cleaner_id: cleaner.id,
+      transfer_id: transfer.id,
+      payment_id: payment?.id || null,
+      amount,
+      job_ids: claimedIds,
+      payment_date: paymentDate,
+    });
+  } catch (error: any) {
+    console.error('Pay cleaner jobs error:', error);
+    return errorResponse(error.message || 'Internal server error', 500);
+  }
+});
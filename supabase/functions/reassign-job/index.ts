@@ -0,0 +1,216 @@
+/**
+ * Reassign Job Edge Function
+ * Moves a cleaning job to a different cleaner on behalf of the signed-in host.
+ * The new cleaner is offered the job by SMS and the previous cleaner is released.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { jsonResponse, errorResponse, handleCors } from '../_shared/cors.ts';
+import { sendLoggedSms } from '../_shared/sms.ts';
+import { buildReleasedMessage } from '../_shared/job-messages.ts';
+import { sendJobOffer, closeOffer } from '../_shared/job-offers.ts';
+import { canTransitionJobStatus, type JobStatus } from '../_shared/job-status.ts';
+import { repriceJob } from '../_shared/job-pricing.ts';
+
+// Types
+interface Cleaner {
+  id: string;
+  user_id: string;
+  name: string;
+  phone: string;
+  active: boolean;
+  sms_opt_out: boolean;
+}
+
+interface CleaningJob {
+  id: string;
+  property_id: string;
+  cleaner_id: string | null;
+  checkout_date: string;
+  checkin_date: string | null;
+  checkout_time: string | null;
+  checkin_time: string | null;
+  status: JobStatus;
+  sms_sent_at: string | null;
+  is_same_day_turnaround: boolean;
+  property: {
+    name: string;
+    address: string | null;
+    user_id: string;
+    default_checkout_time: string | null;
+    default_checkin_time: string | null;
+  };
+  cleaner: Cleaner | null;
+}
+
+interface ReassignResult {
+  success: boolean;
+  job_id: string;
+  cleaner_id: string;
+  new_cleaner_notified: boolean;
+  previous_cleaner_released: boolean;
+}
+
+/**
+ * Main handler
+ */
+serve(async (req) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  // Only accept POST requests
+  if (req.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return errorResponse('Missing Supabase configuration', 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Authenticate the host
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    // Parse request body
+    const body = await req.json();
+    const { cleaning_job_id, cleaner_id } = body;
+
+    if (!cleaning_job_id || !cleaner_id) {
+      return errorResponse('Missing cleaning_job_id or cleaner_id in request body', 400);
+    }
+
+    // Fetch job with property and current cleaner
+    const { data: job, error: jobError } = await supabase
+      .from('cleaning_jobs')
+      .select(`
+        *,
+        property:properties (
+          name,
+          address,
+          user_id,
+          default_checkout_time,
+          default_checkin_time
+        ),
+        cleaner:cleaners (*)
+      `)
+      .eq('id', cleaning_job_id)
+      .single();
+
+    if (jobError || !job || job.property?.user_id !== user.id) {
+      return errorResponse('Cleaning job not found', 404);
+    }
+
+    const currentJob = job as CleaningJob;
+
+    if (!canTransitionJobStatus(currentJob.status, 'pending')) {
+      return errorResponse(`Cannot reassign a ${currentJob.status.replace('_', ' ')} job`, 400);
+    }
+
+    if (currentJob.cleaner_id === cleaner_id) {
+      return errorResponse('This cleaner is already assigned to the job', 400);
+    }
+
+    // Fetch the new cleaner
+    const { data: newCleaner, error: cleanerError } = await supabase
+      .from('cleaners')
+      .select('*')
+      .eq('id', cleaner_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (cleanerError || !newCleaner) {
+      return errorResponse('Cleaner not found', 404);
+    }
+
+    if (!newCleaner.active) {
+      return errorResponse('Cleaner is inactive', 400);
+    }
+
+    // Reset the SMS state so the new cleaner has to confirm
+    const { error: updateError } = await supabase
+      .from('cleaning_jobs')
+      .update({
+        cleaner_id,
+        status: 'pending',
+        sms_sent_at: null,
+        confirmed_at: null,
+        reminder_sent_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', currentJob.id);
+
+    if (updateError) {
+      throw new Error(`Failed to reassign job: ${updateError.message}`);
+    }
+
+    // The new cleaner may be paid differently
+    try {
+      await repriceJob(supabase, currentJob.id);
+    } catch (priceError) {
+      console.error('Error repricing job:', priceError);
+    }
+
+    const result: ReassignResult = {
+      success: true,
+      job_id: currentJob.id,
+      cleaner_id,
+      new_cleaner_notified: false,
+      previous_cleaner_released: false,
+    };
+
+    // Release the previous cleaner if they were ever told about the job
+    const previousCleaner = currentJob.cleaner;
+    if (previousCleaner && currentJob.sms_sent_at) {
+      await closeOffer(supabase, currentJob.id, previousCleaner.id, 'released');
+    }
+    if (previousCleaner && currentJob.sms_sent_at && !previousCleaner.sms_opt_out) {
+      const released = await sendLoggedSms(supabase, {
+        to: previousCleaner.phone,
+        body: buildReleasedMessage(currentJob),
+        cleaningJobId: currentJob.id,
+        cleanerId: previousCleaner.id,
+      });
+      result.previous_cleaner_released = released.success;
+    }
+
+    // Offer the job to the new cleaner
+    if (newCleaner.sms_opt_out) {
+      console.log('Cleaner has opted out of SMS:', newCleaner.name);
+    } else {
+      const offered = await sendJobOffer(supabase, {
+        ...currentJob,
+        cleaner_id,
+        status: 'pending',
+        cleaner: newCleaner,
+      });
+      result.new_cleaner_notified = offered.success;
+    }
+
+    console.log('Job reassigned:', result);
+
+    return jsonResponse(result);
+  } catch (error: any) {
+    console.error('Reassign job error:', error);
+    return errorResponse(error.message || 'Internal server error', 500);
+  }
+});
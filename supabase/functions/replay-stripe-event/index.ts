@@ -0,0 +1,98 @@
+/**
+ * Replay Stripe Event Edge Function
+ * Debugging tool that re-applies an event stored in the stripe_events ledger.
+ * Only callable with the service role key:
+ *
+ *   curl -X POST "$SUPABASE_URL/functions/v1/replay-stripe-event" \
+ *     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+ *     -H "Content-Type: application/json" \
+ *     -d '{"event_id": "evt_123", "ignore_ordering": false}'
+ *
+ * By default the usual ordering checks still apply, so replaying an old event
+ * won't roll a subscription back unless ignore_ordering is set.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { jsonResponse, errorResponse, handleCors } from '../_shared/cors.ts';
+import { processStripeEvent, finishStripeEvent } from '../_shared/stripe-events.ts';
+
+/**
+ * Main handler
+ */
+serve(async (req) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  try {
+    // Initialize Supabase client with service role
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return errorResponse('Missing Supabase configuration', 500);
+    }
+
+    // Operators only
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (token !== supabaseServiceKey) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { event_id, ignore_ordering = false } = await req.json();
+
+    if (!event_id) {
+      return errorResponse('Missing event_id in request body', 400);
+    }
+
+    const { data: stored, error: fetchError } = await supabase
+      .from('stripe_events')
+      .select('id, type, status, payload, replay_count')
+      .eq('id', event_id)
+      .single();
+
+    if (fetchError || !stored) {
+      return errorResponse('Stripe event not found', 404);
+    }
+
+    console.log('Replaying Stripe event:', stored.type, stored.id, { ignore_ordering });
+
+    await supabase
+      .from('stripe_events')
+      .update({
+        replay_count: (stored.replay_count || 0) + 1,
+        last_replayed_at: new Date().toISOString(),
+      })
+      .eq('id', stored.id);
+
+    try {
+      const outcome = await processStripeEvent(stored.payload, supabase, {
+        ignoreOrdering: ignore_ordering,
+      });
+      await finishStripeEvent(stored.id, outcome, supabase);
+
+      return jsonResponse({
+        event_id: stored.id,
+        type: stored.type,
+        previous_status: stored.status,
+        outcome,
+      });
+    } catch (processError: any) {
+      await finishStripeEvent(stored.id, 'failed', supabase, processError.message);
+      return errorResponse(`Replay failed: ${processError.message}`, 500, {
+        event_id: stored.id,
+        type: stored.type,
+      });
+    }
+  } catch (error: any) {
+    console.error('Replay Stripe event error:', error);
+    return errorResponse(error.message || 'Internal server error', 500);
+  }
+});
@@ -0,0 +1,115 @@
+/**
+ * Retry SMS Edge Function
+ * Sends a message that wasn't delivered again on behalf of the signed-in host,
+ * e.g. once a cleaner's phone is back on or their number has been corrected.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { jsonResponse, errorResponse, handleCors } from '../_shared/cors.ts';
+import { resendSms } from '../_shared/sms.ts';
+import { isSmsDeliveryFailure } from '../_shared/sms-status.ts';
+
+interface RetrySmsResult {
+  success: boolean;
+  sms_log_id: string;
+  sid: string | null;
+}
+
+/**
+ * Main handler
+ */
+serve(async (req) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  // Only accept POST requests
+  if (req.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return errorResponse('Missing Supabase configuration', 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Authenticate the host
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    // Parse request body
+    const body = await req.json();
+    const { sms_log_id } = body;
+
+    if (!sms_log_id) {
+      return errorResponse('Missing sms_log_id in request body', 400);
+    }
+
+    const { data: log, error: logError } = await supabase
+      .from('sms_logs')
+      .select('id, cleaning_job_id, cleaner_id, phone, message, direction, status')
+      .eq('id', sms_log_id)
+      .single();
+
+    if (logError || !log || !log.cleaner_id) {
+      return errorResponse('Message not found', 404);
+    }
+
+    // The host owns the message through the cleaner it was sent to
+    const { data: cleaner } = await supabase
+      .from('cleaners')
+      .select('id, name, sms_opt_out')
+      .eq('id', log.cleaner_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!cleaner) {
+      return errorResponse('Message not found', 404);
+    }
+
+    if (log.direction !== 'outbound' || !isSmsDeliveryFailure(log.status)) {
+      return errorResponse('Only messages that failed to deliver can be retried', 409);
+    }
+
+    if (cleaner.sms_opt_out) {
+      return errorResponse(`${cleaner.name} has opted out of text messages`, 409);
+    }
+
+    const resent = await resendSms(supabase, log);
+
+    if (!resent.success) {
+      return errorResponse(resent.error || 'Failed to resend message', 502);
+    }
+
+    const result: RetrySmsResult = {
+      success: true,
+      sms_log_id: log.id,
+      sid: resent.sid || null,
+    };
+
+    console.log('Message resent:', result);
+
+    return jsonResponse(result);
+  } catch (error: any) {
+    console.error('Retry SMS error:', error);
+    return errorResponse(error.message || 'Internal server error', 500);
+  }
+});
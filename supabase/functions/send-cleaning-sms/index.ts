@@ -5,67 +5,9 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
-import { sendSms } from '../_shared/twilio.ts';
 import { corsHeaders, jsonResponse, errorResponse, handleCors } from '../_shared/cors.ts';
-
-// Types
-interface CleaningJob {
-  id: string;
-  property_id: string;
-  cleaner_id: string;
-  checkout_date: string;
-  status: string;
-  sms_sent_at: string | null;
-  is_same_day_turnaround: boolean;
-  property?: {
-    name: string;
-    address: string | null;
-  };
-  cleaner?: {
-    name: string;
-    phone: string;
-    sms_opt_out: boolean;
-  };
-}
-
-/**
- * Format date for SMS (e.g., "Monday, Jan 15")
- */
-function formatDateForSms(dateString: string): string {
-  const date = new Date(dateString);
-  const options: Intl.DateTimeFormatOptions = {
-    weekday: 'long',
-    month: 'short',
-    day: 'numeric',
-  };
-  return date.toLocaleDateString('en-US', options);
-}
-
-/**
- * Build SMS message
- */
-function buildSmsMessage(job: CleaningJob): string {
-  const cleanerName = job.cleaner?.name || 'there';
-  const propertyName = job.property?.name || 'the property';
-  const formattedDate = formatDateForSms(job.checkout_date);
-
-  let message = `Hi ${cleanerName}, you have a cleaning at ${propertyName} on ${formattedDate}.`;
-
-  // Add same-day turnaround warning
-  if (job.is_same_day_turnaround) {
-    message += ' ⚠️ SAME DAY TURNAROUND - Guest checks in today!';
-  }
-
-  // Add address if available
-  if (job.property?.address) {
-    message += ` Address: ${job.property.address}.`;
-  }
-
-  // Add response instructions
-  message += ' Reply YES to confirm or NO to decline.';
-
-  return message;
-}
+import { sendJobOffer } from '../_shared/job-offers.ts';
+import { canTransitionJobStatus } from '../_shared/job-status.ts';
 
 /**
  * Main handler
@@ -106,7 +48,9 @@ serve(async (req) => {
         *,
         property:properties (
           name,
-          address
+          address,
+          default_checkout_time,
+          default_checkin_time
         ),
         cleaner:cleaners (
           name,
@@ -126,6 +70,11 @@ serve(async (req) => {
       return errorResponse('No cleaner assigned to this job', 400);
     }
 
+    // Only jobs that are still being staffed can be offered
+    if (!canTransitionJobStatus(job.status, 'offered')) {
+      return errorResponse(`Cannot send SMS for a ${job.status.replace('_', ' ')} job`, 400);
+    }
+
     // Check if cleaner has opted out of SMS
     if (job.cleaner.sms_opt_out) {
       console.log('Cleaner has opted out of SMS:', job.cleaner.name);
@@ -145,53 +94,23 @@ serve(async (req) => {
       });
     }
 
-    // Build SMS message
-    const message = buildSmsMessage(job);
-
     // Send SMS via Twilio
-    let twilioResponse;
-    try {
-      twilioResponse = await sendSms({
-        to: job.cleaner.phone,
-        body: message,
-      });
-    } catch (twilioError: any) {
-      console.error('Twilio error:', twilioError);
-
-      // Log failed SMS
-      await supabase.from('sms_logs').insert({
-        cleaning_job_id: job.id,
-        phone: job.cleaner.phone,
-        message,
-        direction: 'outbound',
-        status: 'failed',
-        error_message: twilioError.message,
-      });
+    const smsResult = await sendJobOffer(supabase, job);
 
-      return errorResponse('Failed to send SMS: ' + twilioError.message, 500);
+    if (smsResult.skipped) {
+      return jsonResponse({
+        success: false,
+        message: 'SMS already sent for this job',
+      });
     }
 
-    // Log successful SMS
-    await supabase.from('sms_logs').insert({
-      cleaning_job_id: job.id,
-      phone: job.cleaner.phone,
-      message,
-      direction: 'outbound',
-      twilio_sid: twilioResponse.sid,
-      status: twilioResponse.status,
-    });
-
-    // Update job with sms_sent_at timestamp
-    await supabase
-      .from('cleaning_jobs')
-      .update({
-        sms_sent_at: new Date().toISOString(),
-      })
-      .eq('id', job.id);
+    if (!smsResult.success) {
+      return errorResponse('Failed to send SMS: ' + smsResult.error, 500);
+    }
 
     return jsonResponse({
       success: true,
-      message_sid: twilioResponse.sid,
+      message_sid: smsResult.sid,
       message: 'SMS sent successfully',
       sent_to: job.cleaner.name,
       phone: job.cleaner.phone,
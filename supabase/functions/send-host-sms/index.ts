@@ -0,0 +1,137 @@
+/**
+ * Send Host SMS Edge Function
+ * Sends a free-text message from the signed-in host to one of their cleaners.
+ * It goes out from the same number as the job texts, so the cleaner's reply
+ * lands back in the host's inbox.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { jsonResponse, errorResponse, handleCors } from '../_shared/cors.ts';
+import { sendLoggedSms } from '../_shared/sms.ts';
+
+// A single message is split into at most this many SMS segments
+const MAX_MESSAGE_LENGTH = 1600;
+
+// Types
+interface Cleaner {
+  id: string;
+  user_id: string;
+  name: string;
+  phone: string;
+  sms_opt_out: boolean;
+}
+
+interface SendHostSmsResult {
+  success: boolean;
+  cleaner_id: string;
+  sid: string | null;
+}
+
+/**
+ * Main handler
+ */
+serve(async (req) => {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  // Only accept POST requests
+  if (req.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return errorResponse('Missing Supabase configuration', 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Authenticate the host
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    // Parse request body
+    const body = await req.json();
+    const { cleaner_id, message, cleaning_job_id } = body;
+    const text = typeof message === 'string' ? message.trim() : '';
+
+    if (!cleaner_id || !text) {
+      return errorResponse('Missing cleaner_id or message in request body', 400);
+    }
+
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      return errorResponse(`Messages can be at most ${MAX_MESSAGE_LENGTH} characters`, 400);
+    }
+
+    // Fetch the cleaner
+    const { data: cleaner, error: cleanerError } = await supabase
+      .from('cleaners')
+      .select('id, user_id, name, phone, sms_opt_out')
+      .eq('id', cleaner_id)
+      .single();
+
+    if (cleanerError || !cleaner || (cleaner as Cleaner).user_id !== user.id) {
+      return errorResponse('Cleaner not found', 404);
+    }
+
+    if ((cleaner as Cleaner).sms_opt_out) {
+      return errorResponse(`${cleaner.name} has opted out of text messages`, 409);
+    }
+
+    // A job is only attached when it belongs to the same host
+    let jobId: string | null = null;
+    if (cleaning_job_id) {
+      const { data: job } = await supabase
+        .from('cleaning_jobs')
+        .select('id, property:properties(user_id)')
+        .eq('id', cleaning_job_id)
+        .single();
+
+      if (!job || job.property?.user_id !== user.id) {
+        return errorResponse('Cleaning job not found', 404);
+      }
+      jobId = job.id;
+    }
+
+    const sent = await sendLoggedSms(supabase, {
+      to: cleaner.phone,
+      body: text,
+      cleaningJobId: jobId,
+      cleanerId: cleaner.id,
+    });
+
+    if (!sent.success) {
+      return errorResponse(sent.error || 'Failed to send message', 502);
+    }
+
+    const result: SendHostSmsResult = {
+      success: true,
+      cleaner_id: cleaner.id,
+      sid: sent.sid || null,
+    };
+
+    console.log('Host message sent:', result);
+
+    return jsonResponse(result);
+  } catch (error: any) {
+    console.error('Send host SMS error:', error);
+    return errorResponse(error.message || 'Internal server error', 500);
+  }
+});
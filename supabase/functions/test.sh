@@ -82,19 +82,49 @@ test_send_sms() {
 test_twilio_webhook() {
     echo "Testing twilio-webhook..."
 
+    local url="${TWILIO_WEBHOOK_URL:-$SUPABASE_URL/functions/v1/twilio-webhook}"
+
+    # Unsigned requests must be rejected
+    response=$(curl -s -w "\n%{http_code}" -X POST \
+        "$url" \
+        -H "Content-Type: application/x-www-form-urlencoded" \
+        -d "From=%2B1234567890&Body=YES&MessageSid=SM123456789")
+
+    http_code=$(echo "$response" | tail -n1)
+    body=$(echo "$response" | head -n-1)
+
+    if [ "$http_code" == "403" ]; then
+        echo "✅ twilio-webhook (unsigned): PASSED (signature verification working)"
+    else
+        echo "❌ twilio-webhook (unsigned): FAILED (HTTP $http_code)"
+        echo "Response: $body"
+    fi
+
+    if [ -z "$TWILIO_AUTH_TOKEN" ]; then
+        echo "⏭️  Skipped signed twilio-webhook test (TWILIO_AUTH_TOKEN not set)"
+        echo ""
+        return
+    fi
+
+    # Sign the URL plus the sorted parameters the same way Twilio does
+    local signature
+    signature=$(printf '%s' "${url}BodyYESFrom+1234567890MessageSidSM123456789" \
+        | openssl dgst -sha1 -hmac "$TWILIO_AUTH_TOKEN" -binary | base64)
+
     response=$(curl -s -w "\n%{http_code}" -X POST \
-        "$SUPABASE_URL/functions/v1/twilio-webhook" \
+        "$url" \
         -H "Content-Type: application/x-www-form-urlencoded" \
+        -H "X-Twilio-Signature: $signature" \
         -d "From=%2B1234567890&Body=YES&MessageSid=SM123456789")
 
     http_code=$(echo "$response" | tail -n1)
     body=$(echo "$response" | head -n-1)
 
     if [ "$http_code" == "200" ]; then
-        echo "✅ twilio-webhook: PASSED"
+        echo "✅ twilio-webhook (signed): PASSED"
         echo "Response: $body"
     else
-        echo "❌ twilio-webhook: FAILED (HTTP $http_code)"
+        echo "❌ twilio-webhook (signed): FAILED (HTTP $http_code)"
         echo "Response: $body"
     fi
     echo ""
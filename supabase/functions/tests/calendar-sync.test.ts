@@ -0,0 +1,212 @@
+/**
+ * Calendar sync engine tests
+ * Runs planSync offline against fixture .ics feeds: deno test --allow-read
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import * as ICAL from 'https://esm.sh/ical.js@1.5.0';
+import {
+  parseICalData,
+  mergeFeedEvents,
+  planSync,
+  type ICalEvent,
+  type SyncJob,
+} from '../_shared/calendar-sync.ts';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+async function loadFeed(name: string): Promise<ICalEvent[]> {
+  const icalData = await Deno.readTextFile(new URL(`./fixtures/${name}`, import.meta.url));
+  return parseICalData(icalData, ICAL);
+}
+
+function job(overrides: Partial<SyncJob> & Pick<SyncJob, 'id' | 'checkout_date'>): SyncJob {
+  return {
+    checkin_date: null,
+    status: 'confirmed',
+    is_same_day_turnaround: false,
+    source_event_uid: null,
+    ...overrides,
+  };
+}
+
+// Jobs as the first sync of airbnb.ics would have left them
+const syncedJobs = [
+  job({
+    id: 'job-1',
+    checkout_date: '2026-03-06',
+    checkin_date: '2026-03-10',
+    source_event_uid: 'res-1@airbnb.com',
+  }),
+  job({
+    id: 'job-2',
+    checkout_date: '2026-03-14',
+    status: 'pending',
+    source_event_uid: 'res-2@airbnb.com',
+  }),
+];
+
+Deno.test('planSync creates a job for each new reservation', async () => {
+  const plan = planSync({
+    events: mergeFeedEvents([await loadFeed('airbnb.ics')]),
+    existingJobs: [],
+    now: NOW,
+  });
+
+  assertEquals(plan.creates, [
+    {
+      source_event_uid: 'res-1@airbnb.com',
+      checkout_date: '2026-03-06',
+      checkin_date: '2026-03-10',
+      is_same_day_turnaround: false,
+    },
+    {
+      source_event_uid: 'res-2@airbnb.com',
+      checkout_date: '2026-03-14',
+      checkin_date: null,
+      is_same_day_turnaround: false,
+    },
+  ]);
+  assertEquals(plan.updates, []);
+  assertEquals(plan.cancels, []);
+});
+
+Deno.test('planSync leaves already synced reservations alone', async () => {
+  const plan = planSync({
+    events: mergeFeedEvents([await loadFeed('airbnb.ics')]),
+    existingJobs: syncedJobs,
+    now: NOW,
+  });
+
+  assertEquals(plan, { creates: [], updates: [], cancels: [] });
+});
+
+Deno.test('planSync moves the job of a reservation with a new checkout date', async () => {
+  const plan = planSync({
+    events: mergeFeedEvents([await loadFeed('airbnb-moved.ics')]),
+    existingJobs: syncedJobs,
+    now: NOW,
+  });
+
+  assertEquals(plan.creates, []);
+  assertEquals(plan.updates, [
+    {
+      job: syncedJobs[0],
+      changes: {
+        checkout_date: '2026-03-07',
+        checkin_date: null,
+        is_same_day_turnaround: false,
+      },
+      moved: true,
+    },
+  ]);
+});
+
+Deno.test('planSync cancels the job of a reservation that left the feed', async () => {
+  const plan = planSync({
+    events: mergeFeedEvents([await loadFeed('airbnb-moved.ics')]),
+    existingJobs: syncedJobs,
+    now: NOW,
+  });
+
+  assertEquals(plan.cancels, [{ job: syncedJobs[1] }]);
+});
+
+Deno.test('planSync does not cancel jobs that have already started', async () => {
+  const startedJob = { ...syncedJobs[1], status: 'in_progress' };
+  const plan = planSync({
+    events: mergeFeedEvents([await loadFeed('airbnb-moved.ics')]),
+    existingJobs: [syncedJobs[0], startedJob],
+    now: NOW,
+  });
+
+  assertEquals(plan.cancels, []);
+});
+
+Deno.test('planSync merges feeds and skips a stay listed on two channels', async () => {
+  const plan = planSync({
+    events: mergeFeedEvents([await loadFeed('airbnb.ics'), await loadFeed('vrbo.ics')]),
+    existingJobs: [],
+    now: NOW,
+  });
+
+  assertEquals(plan.creates, [
+    {
+      source_event_uid: 'res-1@airbnb.com',
+      checkout_date: '2026-03-06',
+      checkin_date: '2026-03-10',
+      is_same_day_turnaround: false,
+    },
+    {
+      source_event_uid: 'res-2@airbnb.com',
+      checkout_date: '2026-03-14',
+      checkin_date: '2026-03-14',
+      is_same_day_turnaround: true,
+    },
+    {
+      source_event_uid: 'vrbo-1',
+      checkout_date: '2026-03-18',
+      checkin_date: null,
+      is_same_day_turnaround: false,
+    },
+  ]);
+});
+
+Deno.test('planSync cancels nothing while a feed failed to load', async () => {
+  // Only the Airbnb feed loaded; the VRBO reservation's job must survive
+  const vrboJob = job({ id: 'job-3', checkout_date: '2026-03-18', source_event_uid: 'vrbo-1' });
+  const plan = planSync({
+    events: mergeFeedEvents([await loadFeed('airbnb-moved.ics')]),
+    existingJobs: [...syncedJobs, vrboJob],
+    allFeedsLoaded: false,
+    now: NOW,
+  });
+
+  assertEquals(plan.cancels, []);
+  assertEquals(plan.updates.map(update => update.job.id), ['job-1']);
+});
+
+Deno.test('planSync keeps a job when a higher-priority feed lists its stay under another UID', async () => {
+  // Tracked from the VRBO feed before the Airbnb feed was added ahead of it
+  const vrboJob = job({ id: 'job-2', checkout_date: '2026-03-14', source_event_uid: 'vrbo-dup-1' });
+  const plan = planSync({
+    events: mergeFeedEvents([await loadFeed('airbnb.ics'), await loadFeed('vrbo.ics')]),
+    existingJobs: [syncedJobs[0], vrboJob],
+    now: NOW,
+  });
+
+  assertEquals(plan.cancels, []);
+  assertEquals(plan.updates, [
+    {
+      job: vrboJob,
+      changes: {
+        source_event_uid: 'res-2@airbnb.com',
+        checkin_date: '2026-03-14',
+        is_same_day_turnaround: true,
+      },
+      moved: false,
+    },
+  ]);
+  assertEquals(plan.creates.map(create => create.source_event_uid), ['vrbo-1']);
+});
+
+Deno.test('planSync keeps a job when its feed is removed and another feed has the stay', async () => {
+  const plan = planSync({
+    events: mergeFeedEvents([await loadFeed('vrbo.ics')]),
+    existingJobs: [syncedJobs[1]],
+    now: NOW,
+  });
+
+  assertEquals(plan.cancels, []);
+  assertEquals(plan.updates, [
+    {
+      job: syncedJobs[1],
+      changes: {
+        source_event_uid: 'vrbo-dup-1',
+        checkin_date: '2026-03-14',
+        is_same_day_turnaround: true,
+      },
+      moved: false,
+    },
+  ]);
+});
@@ -0,0 +1,87 @@
+/**
+ * Cleaner reply parsing tests
+ * Reply codes must be read right, or YES and DONE reach the wrong job: deno test
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { parseMessageIntent } from '../_shared/job-replies.ts';
+
+Deno.test('parseMessageIntent reads a confirmation with its reply code', () => {
+  assertEquals(parseMessageIntent('YES 4F2'), {
+    intent: 'confirm',
+    keyword: 'YES',
+    code: '4F2',
+    hours: null,
+    items: [],
+    status: 'confirmed',
+    timestamp_field: 'confirmed_at',
+  });
+});
+
+Deno.test('parseMessageIntent accepts a lowercase code and no code at all', () => {
+  assertEquals(parseMessageIntent(' no 4f2 ').code, '4F2');
+  assertEquals(parseMessageIntent('no 4f2').intent, 'decline');
+  assertEquals(parseMessageIntent('Yes').code, null);
+  assertEquals(parseMessageIntent('Yes').intent, 'confirm');
+});
+
+Deno.test('parseMessageIntent reads hours worked from a completion', () => {
+  const reply = parseMessageIntent('DONE 4F2 3.5h');
+
+  assertEquals(reply.intent, 'complete');
+  assertEquals(reply.code, '4F2');
+  assertEquals(reply.hours, 3.5);
+  assertEquals(reply.status, 'completed');
+  assertEquals(parseMessageIntent('done 4f2 3.5 hours').hours, 3.5);
+  assertEquals(parseMessageIntent('Done 2 hrs').hours, 2);
+});
+
+Deno.test('parseMessageIntent tells an all-digit code from hours worked', () => {
+  assertEquals(parseMessageIntent('DONE 123'), {
+    intent: 'complete',
+    keyword: 'DONE',
+    code: '123',
+    hours: null,
+    items: [],
+    status: 'completed',
+    timestamp_field: 'completed_at',
+  });
+
+  const withHours = parseMessageIntent('DONE 123 4');
+  assertEquals(withHours.code, '123');
+  assertEquals(withHours.hours, 4);
+
+  const hoursOnly = parseMessageIntent('DONE 4');
+  assertEquals(hoursOnly.code, null);
+  assertEquals(hoursOnly.hours, 4);
+});
+
+Deno.test('parseMessageIntent reads checklist item numbers apart from the code', () => {
+  assertEquals(parseMessageIntent('CHECK 4F2 1 3'), {
+    intent: 'check',
+    keyword: 'CHECK',
+    code: '4F2',
+    hours: null,
+    items: [1, 3],
+    status: null,
+    timestamp_field: null,
+  });
+  assertEquals(parseMessageIntent('check 1, 3, 12').items, [1, 3, 12]);
+  assertEquals(parseMessageIntent('CHECK 4F2').intent, 'checklist');
+  assertEquals(parseMessageIntent('CHECK 123').code, '123');
+});
+
+Deno.test('parseMessageIntent treats any other words after a keyword as a message', () => {
+  for (const body of ['YES 4F2 thanks', 'yes please', 'Done for today', 'No problem at all']) {
+    const reply = parseMessageIntent(body);
+
+    assertEquals(reply.intent, 'unknown', body);
+    assertEquals(reply.code, null, body);
+    assertEquals(reply.status, null, body);
+  }
+});
+
+Deno.test('parseMessageIntent ignores messages without a keyword', () => {
+  assertEquals(parseMessageIntent('Running 10 minutes late').intent, 'unknown');
+  assertEquals(parseMessageIntent('').intent, 'unknown');
+});
@@ -0,0 +1,152 @@
+/**
+ * Job pricing tests
+ * Pay rules and holiday dates, which decide what a cleaner is owed: deno test
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  calculateJobAmount,
+  getHoliday,
+  type JobAddOns,
+  type JobRates,
+  type PricedJob,
+} from '../_shared/pricing.ts';
+
+const FLAT: JobRates = {
+  pay_type: 'flat',
+  flat_rate: 90,
+  hourly_rate: null,
+  estimated_hours: null,
+  cleaner_hourly_rate: null,
+};
+
+const HOURLY: JobRates = {
+  pay_type: 'hourly',
+  flat_rate: null,
+  hourly_rate: 25,
+  estimated_hours: 3,
+  cleaner_hourly_rate: 20,
+};
+
+const NO_ADD_ONS: JobAddOns = {
+  same_day_premium: null,
+  laundry_fee: null,
+  holiday_multiplier: null,
+};
+
+const ADD_ONS: JobAddOns = { same_day_premium: 15, laundry_fee: 10, holiday_multiplier: 1.5 };
+
+const JOB: PricedJob = {
+  checkout_date: '2026-03-06',
+  is_same_day_turnaround: false,
+  actual_hours: null,
+};
+
+Deno.test('getHoliday finds fixed-date holidays', () => {
+  assertEquals(getHoliday('2026-01-01'), "New Year's Day");
+  assertEquals(getHoliday('2026-07-04'), 'Independence Day');
+  assertEquals(getHoliday('2026-12-31'), "New Year's Eve");
+  assertEquals(getHoliday('2026-03-06'), null);
+});
+
+Deno.test('getHoliday puts Memorial Day on the last Monday of May', () => {
+  assertEquals(getHoliday('2026-05-25'), 'Memorial Day');
+  assertEquals(getHoliday('2026-05-18'), null);
+  // May 31 is itself a Monday
+  assertEquals(getHoliday('2027-05-31'), 'Memorial Day');
+  assertEquals(getHoliday('2027-05-24'), null);
+});
+
+Deno.test('getHoliday puts Labor Day on the first Monday of September', () => {
+  assertEquals(getHoliday('2026-09-07'), 'Labor Day');
+  assertEquals(getHoliday('2029-09-03'), 'Labor Day');
+});
+
+Deno.test('getHoliday puts Thanksgiving on the fourth Thursday of November', () => {
+  assertEquals(getHoliday('2026-11-26'), 'Thanksgiving');
+  // November starts on a Thursday
+  assertEquals(getHoliday('2029-11-22'), 'Thanksgiving');
+  assertEquals(getHoliday('2029-11-29'), null);
+});
+
+Deno.test('calculateJobAmount pays a flat fee whatever the hours', () => {
+  const price = calculateJobAmount(FLAT, NO_ADD_ONS, { ...JOB, actual_hours: 5 });
+
+  assertEquals(price?.pay_type, 'flat');
+  assertEquals(price?.base, 90);
+  assertEquals(price?.hours, null);
+  assertEquals(price?.total, 90);
+});
+
+Deno.test('calculateJobAmount pays hourly on the estimate until hours are reported', () => {
+  const estimated = calculateJobAmount(HOURLY, NO_ADD_ONS, JOB);
+  assertEquals(estimated?.hours, 3);
+  assertEquals(estimated?.hourly_rate, 25);
+  assertEquals(estimated?.total, 75);
+
+  const reported = calculateJobAmount(HOURLY, NO_ADD_ONS, { ...JOB, actual_hours: 3.5 });
+  assertEquals(reported?.hours, 3.5);
+  assertEquals(reported?.total, 87.5);
+});
+
+Deno.test("calculateJobAmount falls back to the cleaner's own hourly rate", () => {
+  const price = calculateJobAmount({ ...HOURLY, hourly_rate: null }, NO_ADD_ONS, JOB);
+
+  assertEquals(price?.hourly_rate, 20);
+  assertEquals(price?.total, 60);
+});
+
+Deno.test('calculateJobAmount gives no price without a rate or hours', () => {
+  assertEquals(calculateJobAmount({ ...FLAT, flat_rate: null }, NO_ADD_ONS, JOB), null);
+  assertEquals(calculateJobAmount({ ...HOURLY, estimated_hours: null }, NO_ADD_ONS, JOB), null);
+  const noRate = { ...HOURLY, hourly_rate: null, cleaner_hourly_rate: null };
+  assertEquals(calculateJobAmount(noRate, NO_ADD_ONS, JOB), null);
+
+  // A cleaner who isn't one of the property's cleaners has no pair rates
+  const notPaired: JobRates = {
+    pay_type: null,
+    flat_rate: null,
+    hourly_rate: null,
+    estimated_hours: null,
+    cleaner_hourly_rate: 20,
+  };
+  assertEquals(calculateJobAmount(notPaired, NO_ADD_ONS, JOB), null);
+});
+
+Deno.test('calculateJobAmount adds the same-day premium and laundry fee', () => {
+  const price = calculateJobAmount(FLAT, ADD_ONS, { ...JOB, is_same_day_turnaround: true });
+
+  assertEquals(price?.same_day_premium, 15);
+  assertEquals(price?.laundry_fee, 10);
+  assertEquals(price?.holiday, null);
+  assertEquals(price?.total, 115);
+  assertEquals(calculateJobAmount(FLAT, ADD_ONS, JOB)?.total, 100);
+});
+
+Deno.test('calculateJobAmount multiplies the whole amount on a holiday', () => {
+  const price = calculateJobAmount(FLAT, ADD_ONS, {
+    ...JOB,
+    checkout_date: '2026-11-26',
+    is_same_day_turnaround: true,
+  });
+
+  assertEquals(price?.holiday, 'Thanksgiving');
+  assertEquals(price?.holiday_multiplier, 1.5);
+  assertEquals(price?.total, 172.5);
+});
+
+Deno.test('calculateJobAmount ignores holidays without a multiplier', () => {
+  const price = calculateJobAmount(FLAT, NO_ADD_ONS, { ...JOB, checkout_date: '2026-12-25' });
+
+  assertEquals(price?.holiday, null);
+  assertEquals(price?.holiday_multiplier, 1);
+  assertEquals(price?.total, 90);
+});
+
+Deno.test('calculateJobAmount pays supplies back at cost, after the multiplier', () => {
+  const price = calculateJobAmount(FLAT, ADD_ONS, { ...JOB, checkout_date: '2026-12-25' }, 12.345);
+
+  assertEquals(price?.reimbursements, 12.35);
+  // (90 + 10) * 1.5 + 12.345
+  assertEquals(price?.total, 162.35);
+});
@@ -0,0 +1,81 @@
+/**
+ * Year-end report tests
+ * Which year a payment lands in and who needs a 1099-NEC: deno test
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { buildYearEndReport, get1099Threshold, type YearEndJob } from '../_shared/statements.ts';
+
+const CLEANERS = [
+  { id: 'c1', name: 'Ana', phone: '+15555550101' },
+  { id: 'c2', name: 'Ben', phone: '+15555550102' },
+  { id: 'c3', name: 'Cam', phone: '+15555550103' },
+];
+
+function paid(cleanerId: string, amount: number, paymentDate: string): YearEndJob {
+  return { cleaner_id: cleanerId, amount_owed: amount, payment_date: paymentDate };
+}
+
+function totalFor(report: ReturnType<typeof buildYearEndReport>, cleanerId: string) {
+  return report.cleaners.find((row) => row.cleaner_id === cleanerId);
+}
+
+Deno.test('get1099Threshold rises from $600 to $2,000 in 2026', () => {
+  assertEquals(get1099Threshold(2025), 600);
+  assertEquals(get1099Threshold(2026), 2000);
+  assertEquals(get1099Threshold(2027), 2000);
+});
+
+Deno.test('buildYearEndReport counts a New Year\'s Eve payment in the host\'s year', () => {
+  // 10pm Dec 31 in New York is already Jan 1 in UTC
+  const jobs = [paid('c1', 120, '2027-01-01T03:00:00.000Z')];
+
+  const newYork2026 = buildYearEndReport(2026, CLEANERS, jobs, 'America/New_York');
+  assertEquals(totalFor(newYork2026, 'c1')?.total_paid, 120);
+  assertEquals(totalFor(newYork2026, 'c1')?.job_count, 1);
+
+  const newYork2027 = buildYearEndReport(2027, CLEANERS, jobs, 'America/New_York');
+  assertEquals(totalFor(newYork2027, 'c1')?.total_paid, 0);
+
+  const utc2027 = buildYearEndReport(2027, CLEANERS, jobs);
+  assertEquals(totalFor(utc2027, 'c1')?.total_paid, 120);
+});
+
+Deno.test('buildYearEndReport takes plain payment dates as is', () => {
+  const jobs = [paid('c1', 80, '2026-12-31'), paid('c1', 90, '2027-01-01')];
+
+  const report = buildYearEndReport(2026, CLEANERS, jobs, 'Pacific/Honolulu');
+  assertEquals(totalFor(report, 'c1')?.total_paid, 80);
+  assertEquals(totalFor(report, 'c1')?.job_count, 1);
+});
+
+Deno.test('buildYearEndReport flags cleaners at or over $600 for 2025', () => {
+  const jobs = [
+    paid('c1', 599.99, '2025-06-01'),
+    paid('c2', 300, '2025-06-01'),
+    paid('c2', 300, '2025-07-01'),
+    paid('c3', 600.01, '2025-06-01'),
+  ];
+
+  const report = buildYearEndReport(2025, CLEANERS, jobs);
+  assertEquals(report.threshold, 600);
+  assertEquals(totalFor(report, 'c1')?.requires_1099, false);
+  assertEquals(totalFor(report, 'c2')?.requires_1099, true);
+  assertEquals(totalFor(report, 'c3')?.requires_1099, true);
+});
+
+Deno.test('buildYearEndReport flags cleaners at or over $2,000 from 2026', () => {
+  const jobs = [
+    paid('c1', 1999.99, '2026-06-01'),
+    paid('c2', 1000, '2026-06-01'),
+    paid('c2', 1000, '2026-07-01'),
+    paid('c3', 2000.01, '2026-06-01'),
+  ];
+
+  const report = buildYearEndReport(2026, CLEANERS, jobs);
+  assertEquals(report.threshold, 2000);
+  assertEquals(totalFor(report, 'c1')?.requires_1099, false);
+  assertEquals(totalFor(report, 'c2')?.requires_1099, true);
+  assertEquals(totalFor(report, 'c3')?.requires_1099, true);
+  assertEquals(report.total_paid, 6000);
+});
@@ -0,0 +1,50 @@
+/**
+ * Twilio webhook signature tests
+ * Uses the sample request from Twilio's security docs: deno test
+ */
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { verifyTwilioSignature } from '../_shared/twilio.ts';
+
+const AUTH_TOKEN = '12345';
+const WEBHOOK_URL = 'https://mycompany.com/myapp.php?foo=1&bar=2';
+const SIGNATURE = '0/KCTR6DLpKmkAf8muzZqo1nDgQ=';
+const PARAMS: Record<string, string> = {
+  CallSid: 'CA1234567890ABCDE',
+  Caller: '+12349013030',
+  Digits: '1234',
+  From: '+12349013030',
+  To: '+18005551212',
+};
+
+Deno.test('verifyTwilioSignature accepts the Twilio docs sample', async () => {
+  assert(await verifyTwilioSignature(SIGNATURE, WEBHOOK_URL, PARAMS, AUTH_TOKEN));
+});
+
+Deno.test('verifyTwilioSignature ignores the order parameters arrive in', async () => {
+  const reversed = Object.fromEntries(Object.entries(PARAMS).reverse());
+  assert(await verifyTwilioSignature(SIGNATURE, WEBHOOK_URL, reversed, AUTH_TOKEN));
+});
+
+Deno.test('verifyTwilioSignature rejects a tampered parameter', async () => {
+  const tampered = { ...PARAMS, Digits: '1235' };
+  assertEquals(await verifyTwilioSignature(SIGNATURE, WEBHOOK_URL, tampered, AUTH_TOKEN), false);
+});
+
+Deno.test('verifyTwilioSignature rejects an added parameter', async () => {
+  const extended = { ...PARAMS, Body: 'YES' };
+  assertEquals(await verifyTwilioSignature(SIGNATURE, WEBHOOK_URL, extended, AUTH_TOKEN), false);
+});
+
+Deno.test('verifyTwilioSignature rejects a different WEBHOOK_URL', async () => {
+  const otherUrl = 'https://mycompany.com/myapp.php?foo=1&bar=3';
+  assertEquals(await verifyTwilioSignature(SIGNATURE, otherUrl, PARAMS, AUTH_TOKEN), false);
+});
+
+Deno.test('verifyTwilioSignature rejects the wrong auth token', async () => {
+  assertEquals(await verifyTwilioSignature(SIGNATURE, WEBHOOK_URL, PARAMS, '54321'), false);
+});
+
+Deno.test('verifyTwilioSignature rejects a missing signature', async () => {
+  assertEquals(await verifyTwilioSignature('', WEBHOOK_URL, PARAMS, AUTH_TOKEN), false);
+});
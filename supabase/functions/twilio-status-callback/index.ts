@@ -0,0 +1,212 @@
+/**
+ * Twilio Status Callback Edge Function
+ * Records the delivery progress Twilio reports for each outbound message.
+ * When a message can't be delivered it is resent once if the problem may
+ * clear up, otherwise the host is sent a push so they can reach the cleaner
+ * another way.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import {
+  parseTwilioWebhook,
+  verifyTwilioSignature,
+  getTwilioStatusCallbackUrl,
+} from '../_shared/twilio.ts';
+import { errorResponse } from '../_shared/cors.ts';
+import { sendPushNotification } from '../_shared/push.ts';
+import { resendSms } from '../_shared/sms.ts';
+import {
+  describeSmsError,
+  isRetryableSmsError,
+  isSmsDeliveryFailure,
+  shouldApplySmsStatus,
+} from '../_shared/sms-status.ts';
+
+// Types
+interface SmsLog {
+  id: string;
+  cleaning_job_id: string | null;
+  cleaner_id: string | null;
+  phone: string;
+  message: string;
+  status: string | null;
+  retry_of: string | null;
+}
+
+interface Recipient {
+  cleaner: { id: string; name: string; user_id: string; sms_opt_out: boolean } | null;
+  job: { id: string; property: { name: string; user_id: string } } | null;
+}
+
+/**
+ * Find who a message was for and which host to tell
+ */
+async function findRecipient(supabase: any, log: SmsLog): Promise<Recipient> {
+  let job = null;
+  if (log.cleaning_job_id) {
+    const { data } = await supabase
+      .from('cleaning_jobs')
+      .select('id, property:properties(name, user_id)')
+      .eq('id', log.cleaning_job_id)
+      .single();
+    job = data;
+  }
+
+  // The same phone can belong to cleaners of different hosts, so go by the
+  // cleaner the message was logged for
+  let cleaner = null;
+  if (log.cleaner_id) {
+    const { data } = await supabase
+      .from('cleaners')
+      .select('id, name, user_id, sms_opt_out')
+      .eq('id', log.cleaner_id)
+      .maybeSingle();
+    cleaner = data;
+  }
+
+  return { cleaner, job };
+}
+
+/**
+ * Resend or report a message that wasn't delivered
+ */
+async function handleDeliveryFailure(
+  supabase: any,
+  log: SmsLog,
+  errorCode: string | null,
+  description: string
+): Promise<void> {
+  const { cleaner, job } = await findRecipient(supabase, log);
+
+  if (!cleaner) {
+    console.log('No cleaner found for undelivered message:', log.id);
+    return;
+  }
+
+  // A retry that fails comes back through here and is reported instead
+  if (isRetryableSmsError(errorCode) && !log.retry_of && !cleaner.sms_opt_out) {
+    const resent = await resendSms(supabase, log);
+    if (resent.success) {
+      console.log('Resent undelivered message:', log.id);
+      return;
+    }
+  }
+
+  const about = job?.property ? ` about ${job.property.name}` : '';
+
+  await sendPushNotification(
+    cleaner.user_id,
+    'sms_failed',
+    `Your text to ${cleaner.name}${about} wasn't delivered. ${description.replace(/\.$/, '')}.`,
+    job?.id ?? null,
+    supabase,
+    { cleaner_id: cleaner.id },
+    'Text Not Delivered'
+  );
+}
+
+/**
+ * Main handler
+ */
+serve(async (req) => {
+  // Only accept POST requests
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return errorResponse('Missing Supabase configuration', 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const twilioAuthToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+
+    if (!twilioAuthToken) {
+      return errorResponse('Missing Twilio configuration', 500);
+    }
+
+    // Parse Twilio callback data
+    const twilioData = await parseTwilioWebhook(req);
+
+    const signature = req.headers.get('x-twilio-signature') || '';
+    const callbackUrl = getTwilioStatusCallbackUrl(req);
+
+    if (!(await verifyTwilioSignature(signature, callbackUrl, twilioData, twilioAuthToken))) {
+      console.warn('Rejected Twilio status callback with invalid signature:', {
+        url: callbackUrl,
+        hasSignature: !!signature,
+      });
+      return new Response('Invalid Twilio signature', { status: 403 });
+    }
+
+    const messageSid = twilioData.MessageSid;
+    const status = twilioData.MessageStatus;
+    const errorCode = twilioData.ErrorCode || null;
+
+    if (!messageSid || !status) {
+      return errorResponse('Missing MessageSid or MessageStatus', 400);
+    }
+
+    // Messages carry their log ID on the callback URL, since the first
+    // callback can come in before the SID has been saved
+    const smsLogId = new URL(req.url).searchParams.get('sms_log_id');
+
+    let logQuery = supabase
+      .from('sms_logs')
+      .select('id, cleaning_job_id, cleaner_id, phone, message, status, retry_of');
+    logQuery = smsLogId ? logQuery.eq('id', smsLogId) : logQuery.eq('twilio_sid', messageSid);
+
+    const { data: log, error: logError } = await logQuery.maybeSingle();
+
+    if (logError) {
+      throw new Error(`Failed to look up message: ${logError.message}`);
+    }
+
+    // Messages sent outside the app have nothing to update
+    if (!log) {
+      console.log('No message logged for status callback:', messageSid);
+      return new Response(JSON.stringify({ received: true }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!shouldApplySmsStatus(log.status, status)) {
+      console.log('Ignoring out of order status:', { messageSid, current: log.status, status });
+      return new Response(JSON.stringify({ received: true }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const failed = isSmsDeliveryFailure(status);
+    const description = failed ? describeSmsError(errorCode, twilioData.ErrorMessage) : null;
+
+    const { error: updateError } = await supabase
+      .from('sms_logs')
+      .update({ status, error_message: description, twilio_sid: messageSid })
+      .eq('id', log.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update message status: ${updateError.message}`);
+    }
+
+    console.log('Message status updated:', { messageSid, status, errorCode });
+
+    if (failed) {
+      await handleDeliveryFailure(supabase, log as SmsLog, errorCode, description!);
+    }
+
+    return new Response(JSON.stringify({ received: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Twilio status callback error:', error);
+    return errorResponse(error.message || 'Internal server error', 500);
+  }
+});
@@ -1,6 +1,6 @@
 /**
  * Twilio Webhook Handler Edge Function
- * Handles incoming SMS messages from cleaners
+ * Handles incoming SMS messages from cleaners, and the photos they send by MMS
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
@@ -9,19 +9,52 @@ import {
   parseTwilioWebhook,
   createTwiMLResponse,
   formatPhoneNumber,
+  verifyTwilioSignature,
+  getTwilioWebhookUrl,
+  getTwilioMedia,
+  downloadTwilioMedia,
+  type TwilioMedia,
 } from '../_shared/twilio.ts';
 import { errorResponse } from '../_shared/cors.ts';
+import { sendPushNotification } from '../_shared/push.ts';
+import { closeOffer, offerJobToNextCleaner } from '../_shared/job-offers.ts';
+import { formatDateForSms, getJobReplyCode } from '../_shared/job-messages.ts';
+import { repriceJob } from '../_shared/job-pricing.ts';
+import { getJobChecklist } from '../_shared/job-checklists.ts';
+import { formatChecklistForSms, getChecklistCompletionError } from '../_shared/checklists.ts';
+import {
+  JOB_PHOTOS_BUCKET,
+  getPhotoPath,
+  getPhotoCompletionError,
+  getPhotoExtension,
+} from '../_shared/job-photos.ts';
+import {
+  MAINTENANCE_SEVERITY_LABELS,
+  parseIssueReport,
+  type IssueReport,
+} from '../_shared/maintenance.ts';
+import { matchInventoryItems, parseLowStockReport } from '../_shared/inventory.ts';
+import { toLocalDateString, addDaysToDateString } from '../_shared/calendar-sync.ts';
+import { parseMessageIntent } from '../_shared/job-replies.ts';
+import {
+  JOB_STATUS_LABELS,
+  canTransitionJobStatus,
+  type JobStatus,
+} from '../_shared/job-status.ts';
 
 // Types
 interface CleaningJob {
   id: string;
   property_id: string;
   cleaner_id: string;
-  status: string;
+  status: JobStatus;
   checkout_date: string;
   property?: {
     name: string;
     user_id: string;
+    require_checklist_completion: boolean;
+    min_completion_photos: number;
+    timezone: string | null;
   };
 }
 
@@ -32,128 +65,555 @@ interface Cleaner {
   user_id: string;
 }
 
+// Most jobs listed back to a cleaner whose reply matched several
+const MAX_LISTED_JOBS = 5;
+
+// Photos sent this long after a DONE still count for that cleaning
+const RECENT_COMPLETION_HOURS = 12;
+
+const JOB_PROPERTY_COLUMNS = `
+  property:properties (
+    name,
+    user_id,
+    require_checklist_completion,
+    min_completion_photos,
+    timezone
+  )
+`;
+
 /**
- * Parse SMS body for keywords
+ * Today's date at the job's property
  */
-function parseMessageIntent(body: string): {
-  intent: 'confirm' | 'decline' | 'complete' | 'unknown';
-  status: string | null;
-  timestamp_field: string | null;
-} {
-  const normalizedBody = body.trim().toLowerCase();
-
-  // Confirmation keywords
-  if (['yes', 'y', 'confirm', 'ok', 'okay', 'accept', 'confirmed'].includes(normalizedBody)) {
-    return {
-      intent: 'confirm',
-      status: 'confirmed',
-      timestamp_field: 'confirmed_at',
-    };
-  }
+function propertyToday(job: CleaningJob, now: Date): string {
+  return toLocalDateString(now, job.property?.timezone || 'UTC');
+}
 
-  // Decline keywords
-  if (['no', 'n', 'decline', 'cancel', 'nope', 'declined', 'cancelled'].includes(normalizedBody)) {
-    return {
-      intent: 'decline',
-      status: 'cancelled',
-      timestamp_field: 'cancelled_at',
-    };
-  }
+/**
+ * Find the open jobs cleaners can still act on, soonest first
+ * @param cleanerIds - The cleaner, or every cleaner row sharing a phone
+ */
+async function findOpenJobs(cleanerIds: string[], supabase: any): Promise<CleaningJob[]> {
+  // Look for jobs in the next 30 days. Properties span time zones, so fetch a
+  // UTC range wide enough for all of them and narrow it down per property
+  const now = new Date();
+  const utcToday = toLocalDateString(now);
 
-  // Completion keywords
-  if (['done', 'complete', 'completed', 'finished', 'finish'].includes(normalizedBody)) {
-    return {
-      intent: 'complete',
-      status: 'completed',
-      timestamp_field: 'completed_at',
-    };
+  const { data, error } = await supabase
+    .from('cleaning_jobs')
+    .select(`*, ${JOB_PROPERTY_COLUMNS}`)
+    .in('cleaner_id', cleanerIds)
+    .in('status', ['pending', 'offered', 'confirmed', 'in_progress'])
+    .gte('checkout_date', addDaysToDateString(utcToday, -1))
+    .lte('checkout_date', addDaysToDateString(utcToday, 31))
+    .order('checkout_date', { ascending: true });
+
+  if (error) {
+    console.error('Error finding open jobs:', error);
+    return [];
   }
 
-  return {
-    intent: 'unknown',
-    status: null,
-    timestamp_field: null,
-  };
+  return (data || []).filter((job: CleaningJob) => {
+    const today = propertyToday(job, now);
+    return job.checkout_date >= today && job.checkout_date <= addDaysToDateString(today, 30);
+  });
 }
 
 /**
- * Find recent pending job for cleaner
+ * Work out which cleaner a message is from when hosts share a cleaner's phone
+ * A reply code picks the cleaner whose job it is; otherwise it's the cleaner
+ * last texted on that phone, then the only one with open jobs
+ * @returns The cleaner, or null if it's still unclear
  */
-async function findRecentJob(cleanerId: string, supabase: any): Promise<CleaningJob | null> {
-  // Look for jobs in the next 30 days with pending or confirmed status
-  const today = new Date().toISOString().split('T')[0];
-  const futureDate = new Date();
-  futureDate.setDate(futureDate.getDate() + 30);
-  const futureDateStr = futureDate.toISOString().split('T')[0];
+async function resolveCleaner(
+  supabase: any,
+  cleaners: Cleaner[],
+  phone: string,
+  message: string
+): Promise<Cleaner | null> {
+  if (cleaners.length === 1) return cleaners[0];
+
+  const cleanerIds = cleaners.map((cleaner) => cleaner.id);
+  const byId = (cleanerId: string) => cleaners.find((cleaner) => cleaner.id === cleanerId) || null;
+  const openJobs = await findOpenJobs(cleanerIds, supabase);
+
+  const words = message.toUpperCase().split(/\s+/);
+  const codedOwners = new Set(
+    openJobs
+      .filter((openJob) => words.includes(getJobReplyCode(openJob.id)))
+      .map((openJob) => openJob.cleaner_id)
+  );
+  if (codedOwners.size === 1) return byId([...codedOwners][0]);
+
+  const { data: lastOutbound, error } = await supabase
+    .from('sms_logs')
+    .select('cleaner_id')
+    .eq('phone', phone)
+    .eq('direction', 'outbound')
+    .in('cleaner_id', cleanerIds)
+    .order('created_at', { ascending: false })
+    .limit(1);
 
-  const { data, error } = await supabase
+  if (error) {
+    console.error('Error finding last message to cleaner:', error);
+  }
+  if (lastOutbound?.[0]) return byId(lastOutbound[0].cleaner_id);
+
+  const owners = new Set(openJobs.map((openJob) => openJob.cleaner_id));
+  return owners.size === 1 ? byId([...owners][0]) : null;
+}
+
+/**
+ * Find the job a message without a status keyword is about, like photos or
+ * an issue report
+ * A reply code anywhere in the message picks the job; otherwise it's the
+ * cleaning underway, then one finished in the last few hours, then one
+ * confirmed for today
+ */
+async function findCurrentJob(
+  supabase: any,
+  cleanerId: string,
+  openJobs: CleaningJob[],
+  message: string
+): Promise<CleaningJob | null> {
+  const since = new Date(Date.now() - RECENT_COMPLETION_HOURS * 60 * 60 * 1000);
+
+  const { data: recentlyCompleted, error } = await supabase
     .from('cleaning_jobs')
-    .select(`
-      *,
-      property:properties (
-        name,
-        user_id
-      )
-    `)
+    .select(`*, ${JOB_PROPERTY_COLUMNS}`)
     .eq('cleaner_id', cleanerId)
-    .in('status', ['pending', 'confirmed'])
-    .gte('checkout_date', today)
-    .lte('checkout_date', futureDateStr)
-    .order('checkout_date', { ascending: true })
-    .limit(1)
+    .eq('status', 'completed')
+    .gte('completed_at', since.toISOString())
+    .order('completed_at', { ascending: false });
+
+  if (error) {
+    console.error('Error finding recently completed jobs:', error);
+  }
+
+  const candidates: CleaningJob[] = [...openJobs, ...(recentlyCompleted || [])];
+  const words = message.toUpperCase().split(/\s+/);
+  const coded = candidates.filter((candidate) => words.includes(getJobReplyCode(candidate.id)));
+  if (coded.length === 1) return coded[0];
+
+  const now = new Date();
+
+  return (
+    openJobs.find((openJob) => openJob.status === 'in_progress') ||
+    recentlyCompleted?.[0] ||
+    openJobs.find(
+      (openJob) =>
+        openJob.status === 'confirmed' && openJob.checkout_date === propertyToday(openJob, now)
+    ) ||
+    null
+  );
+}
+
+/**
+ * Where an MMS's photos are saved: the table that records them, their folder
+ * in the bucket and the column linking them to their job or issue
+ */
+interface PhotoTarget {
+  table: 'job_photos' | 'maintenance_issue_photos';
+  folder: string;
+  link: Record<string, string>;
+}
+
+const jobPhotoTarget = (jobId: string): PhotoTarget => ({
+  table: 'job_photos',
+  folder: jobId,
+  link: { cleaning_job_id: jobId },
+});
+
+const issuePhotoTarget = (issueId: string): PhotoTarget => ({
+  table: 'maintenance_issue_photos',
+  folder: `issues/${issueId}`,
+  link: { maintenance_issue_id: issueId },
+});
+
+/**
+ * Copy the photos on an MMS into storage and record them
+ * Attachments that aren't photos, or fail to copy, are skipped
+ * @returns How many photos were saved
+ */
+async function storePhotos(
+  supabase: any,
+  target: PhotoTarget,
+  messageSid: string,
+  media: TwilioMedia[]
+): Promise<number> {
+  let stored = 0;
+
+  for (const [index, item] of media.entries()) {
+    const extension = getPhotoExtension(item.contentType);
+    if (!extension) continue;
+
+    try {
+      const photo = await downloadTwilioMedia(item.url);
+      const path = getPhotoPath(target.folder, messageSid, index, extension);
+
+      const { error: uploadError } = await supabase.storage
+        .from(JOB_PHOTOS_BUCKET)
+        .upload(path, photo, { contentType: item.contentType, upsert: true });
+
+      if (uploadError) {
+        throw new Error(`Failed to save photo: ${uploadError.message}`);
+      }
+
+      const { error: insertError } = await supabase.from(target.table).insert({
+        ...target.link,
+        storage_path: path,
+        content_type: item.contentType,
+        twilio_message_sid: messageSid,
+      });
+
+      if (insertError) {
+        throw new Error(`Failed to record photo: ${insertError.message}`);
+      }
+
+      stored += 1;
+    } catch (photoError) {
+      console.error('Error storing photo:', photoError);
+    }
+  }
+
+  return stored;
+}
+
+async function countJobPhotos(supabase: any, jobId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('job_photos')
+    .select('id', { count: 'exact', head: true })
+    .eq('cleaning_job_id', jobId);
+
+  if (error) {
+    throw new Error(`Failed to count photos: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Build the reply listing a cleaner's jobs when we can't tell which one they meant
+ */
+function buildJobListMessage(jobs: CleaningJob[], keyword: string, prefix: string): string {
+  const lines = jobs.slice(0, MAX_LISTED_JOBS).map(
+    (job, index) =>
+      `${index + 1}) ${job.property?.name || 'Unknown Property'}, ${formatDateForSms(job.checkout_date)}: ${keyword} ${getJobReplyCode(job.id)}`
+  );
+
+  return `${prefix} Reply with the code for the cleaning you mean:\n${lines.join('\n')}`;
+}
+
+/**
+ * Tick off the checklist items a cleaner listed, or send the checklist back
+ * when they didn't list any
+ * @returns The reply to send
+ */
+async function handleChecklistReply(
+  supabase: any,
+  job: CleaningJob,
+  itemNumbers: number[]
+): Promise<string> {
+  const propertyName = job.property?.name || 'Unknown Property';
+  const replyCode = getJobReplyCode(job.id);
+  const checklist = await getJobChecklist(supabase, job.id);
+
+  if (checklist.length === 0) {
+    return `There's no checklist for your cleaning at ${propertyName}.`;
+  }
+
+  if (itemNumbers.length === 0) {
+    return `Checklist for ${propertyName} (* = required):\n${formatChecklistForSms(checklist)}\nReply CHECK ${replyCode} with the numbers you finish (e.g. CHECK ${replyCode} 1 3).`;
+  }
+
+  const unknown = itemNumbers.filter((number) => number < 1 || number > checklist.length);
+  if (unknown.length > 0) {
+    return `The checklist for ${propertyName} has items 1 to ${checklist.length}, so we couldn't tick off ${unknown.join(', ')}. Reply CHECK ${replyCode} to see the list.`;
+  }
+
+  const toComplete = itemNumbers
+    .map((number) => checklist[number - 1])
+    .filter((item) => !item.completed_at);
+
+  if (toComplete.length > 0) {
+    const completedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('job_checklist_items')
+      .update({ completed_at: completedAt })
+      .in('id', toComplete.map((item) => item.id));
+
+    if (error) {
+      throw new Error(`Failed to update checklist: ${error.message}`);
+    }
+
+    for (const item of toComplete) {
+      item.completed_at = completedAt;
+    }
+  }
+
+  const remaining = checklist.filter((item) => !item.completed_at);
+  if (remaining.length === 0) {
+    return `Checklist complete for ${propertyName}! Reply DONE ${replyCode} when you finish.`;
+  }
+
+  const requiredLeft = remaining.filter((item) => item.is_mandatory).length;
+  return `Got it. ${checklist.length - remaining.length} of ${checklist.length} done at ${propertyName}${
+    requiredLeft > 0 ? `, ${requiredLeft} required still open` : ''
+  }.`;
+}
+
+type InboundSms = {
+  jobId: string | null;
+  cleanerId: string | null;
+  phone: string;
+  body: string;
+  sid: string;
+  status: string;
+};
+
+/**
+ * The property a cleaner's report is about: the job's, or the cleaner's only
+ * property when there's no job to go on
+ */
+async function findReportProperty(
+  supabase: any,
+  cleanerId: string,
+  job: CleaningJob | null
+): Promise<{ id: string; name: string } | null> {
+  if (job) {
+    return { id: job.property_id, name: job.property?.name || 'Unknown Property' };
+  }
+
+  const { data: assignments } = await supabase
+    .from('property_cleaners')
+    .select('property:properties (id, name)')
+    .eq('cleaner_id', cleanerId);
+
+  return assignments?.length === 1 ? assignments[0].property : null;
+}
+
+/**
+ * Open a maintenance ticket from a cleaner's ISSUE text and let the host know
+ * The ticket goes on the job the cleaner is at, or their only property
+ * @returns The reply to send
+ */
+async function handleIssueReport(
+  supabase: any,
+  cleaner: Cleaner,
+  report: IssueReport,
+  media: TwilioMedia[],
+  sms: InboundSms
+): Promise<string> {
+  if (!report.description && media.length === 0) {
+    await logInboundSms(supabase, sms);
+    return "Please describe the issue after ISSUE, e.g. ISSUE broken lamp in the bedroom. Add URGENT for anything that can't wait, and send photos if you can.";
+  }
+
+  const job = await findCurrentJob(
+    supabase,
+    cleaner.id,
+    await findOpenJobs([cleaner.id], supabase),
+    sms.body
+  );
+
+  const property = await findReportProperty(supabase, cleaner.id, job);
+  if (!property) {
+    await logInboundSms(supabase, sms);
+    return "We couldn't tell which property this is about. Please send it again with the job code from our text (e.g. ISSUE 4F2 broken lamp).";
+  }
+
+  // The job code only says where the issue is, so it's not part of the description
+  let description = report.description;
+  if (job && description.split(/\s+/)[0].toUpperCase() === getJobReplyCode(job.id)) {
+    description = description.split(/\s+/).slice(1).join(' ');
+  }
+
+  const { data: issue, error } = await supabase
+    .from('maintenance_issues')
+    .insert({
+      property_id: property.id,
+      cleaning_job_id: job?.id ?? null,
+      cleaner_id: cleaner.id,
+      description: description || 'See photos',
+      severity: report.severity,
+      status: 'open',
+    })
+    .select('id')
     .single();
 
   if (error) {
-    console.error('Error finding recent job:', error);
-    return null;
+    throw new Error(`Failed to create maintenance issue: ${error.message}`);
   }
 
-  return data;
+  await logInboundSms(supabase, { ...sms, jobId: job?.id ?? null, status: 'processed' });
+
+  const photos =
+    media.length > 0 ? await storePhotos(supabase, issuePhotoTarget(issue.id), sms.sid, media) : 0;
+
+  await sendPushNotification(
+    cleaner.user_id,
+    'maintenance_issue',
+    `${cleaner.name} reported a ${MAINTENANCE_SEVERITY_LABELS[report.severity].toLowerCase()} issue at ${property.name}: ${description || 'see photos'}`,
+    job?.id ?? null,
+    supabase,
+    { issue_id: issue.id, property_id: property.id },
+    'Maintenance Issue'
+  );
+
+  return `Thanks ${cleaner.name}, we've let your host know about the issue at ${property.name}${
+    photos > 0 ? ` and saved ${photos} ${photos === 1 ? 'photo' : 'photos'}` : ''
+  }.`;
 }
 
 /**
- * Send push notification to host
+ * Put the supplies a cleaner says are running low on the shopping list and
+ * let the host know
+ * Supplies are named, or given as the numbers of the job's checklist items
+ * @returns The reply to send, or null if nothing in the message is a supply
+ * the property tracks or an item on the job's checklist
  */
-async function sendPushNotification(
-  userId: string,
-  type: string,
-  message: string,
-  jobId: string,
-  supabase: any
-) {
-  try {
-    // Get user's push token
-    const { data: profile, error } = await supabase
-      .from('profiles')
-      .select('expo_push_token')
-      .eq('id', userId)
-      .single();
-
-    if (error || !profile?.expo_push_token) {
-      console.log('No push token found for user:', userId);
-      return;
+async function handleLowStockReport(
+  supabase: any,
+  cleaner: Cleaner,
+  sms: InboundSms
+): Promise<string | null> {
+  const job = await findCurrentJob(
+    supabase,
+    cleaner.id,
+    await findOpenJobs([cleaner.id], supabase),
+    sms.body
+  );
+
+  // The job code only says where, so it's not one of the supplies
+  const report = parseLowStockReport(
+    job ? sms.body.replace(new RegExp(`\\b${getJobReplyCode(job.id)}\\b`, 'i'), '') : sms.body
+  )!;
+
+  if (report.names.length === 0 && report.checklist_numbers.length === 0) {
+    return null;
+  }
+
+  const property = await findReportProperty(supabase, cleaner.id, job);
+  if (!property) {
+    return null;
+  }
+
+  const checklist =
+    job && report.checklist_numbers.length > 0 ? await getJobChecklist(supabase, job.id) : [];
+  const checklistNumbers = report.checklist_numbers.filter((number) => checklist[number - 1]);
+  const unknownNumbers = report.checklist_numbers.filter((number) => !checklist[number - 1]);
+  const names = [
+    ...report.names,
+    ...checklistNumbers.map((number) => checklist[number - 1].label),
+  ];
+
+  const { data: inventory, error: inventoryError } = await supabase
+    .from('inventory_items')
+    .select('id, name')
+    .eq('property_id', property.id);
+
+  if (inventoryError) {
+    throw new Error(`Failed to fetch inventory: ${inventoryError.message}`);
+  }
+
+  const { matched, unmatched } = matchInventoryItems<{ id: string; name: string }>(
+    inventory || [],
+    names
+  );
+
+  // "Low battery, running late" names nothing we know of
+  if (matched.length === 0 && checklistNumbers.length === 0) {
+    return null;
+  }
+
+  if (matched.length > 0) {
+    const reportedAt = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from('inventory_items')
+      .update({
+        on_hand: null,
+        low_reported_at: reportedAt,
+        low_reported_by: cleaner.id,
+        updated_at: reportedAt,
+      })
+      .in('id', matched.map((item) => item.id));
+
+    if (updateError) {
+      throw new Error(`Failed to record low stock: ${updateError.message}`);
     }
+  }
 
-    // Send push notification via Expo
-    const expoPushUrl = 'https://exp.host/--/api/v2/push/send';
-    const notification = {
-      to: profile.expo_push_token,
-      sound: 'default',
-      title: 'Cleaning Job Update',
-      body: message,
-      data: { type, job_id: jobId },
-    };
+  await logInboundSms(supabase, { ...sms, jobId: job?.id ?? null, status: 'processed' });
+
+  // Supplies the property doesn't track yet still go to the host
+  const reported = [...matched.map((item) => item.name), ...unmatched];
+  if (reported.length > 0) {
+    await sendPushNotification(
+      cleaner.user_id,
+      'low_stock',
+      `${cleaner.name} says ${property.name} is low on ${reported.join(', ')}`,
+      job?.id ?? null,
+      supabase,
+      { property_id: property.id },
+      'Supplies Running Low'
+    );
+  }
 
-    await fetch(expoPushUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(notification),
-    });
-  } catch (error) {
-    console.error('Error sending push notification:', error);
+  const replies: string[] = [];
+  if (matched.length > 0) {
+    replies.push(
+      `Thanks ${cleaner.name}, ${matched.map((item) => item.name).join(', ')} ${
+        matched.length === 1 ? 'is' : 'are'
+      } on the shopping list for ${property.name}.`
+    );
+  }
+  if (unmatched.length > 0) {
+    replies.push(
+      matched.length > 0
+        ? `We've also told your host about ${unmatched.join(', ')}.`
+        : `Thanks ${cleaner.name}, we've told your host ${property.name} is low on ${unmatched.join(', ')}.`
+    );
   }
+  if (unknownNumbers.length > 0) {
+    replies.push(
+      job
+        ? `The checklist for ${property.name} has items 1 to ${checklist.length}, so we couldn't find ${unknownNumbers.join(', ')}.`
+        : 'Checklist numbers need the job code from our text (e.g. LOW 4F2 4 7).'
+    );
+  }
+
+  return replies.join(' ');
+}
+
+/**
+ * Pass a message the webhook can't act on to the host's inbox
+ */
+async function forwardToHost(supabase: any, cleaner: Cleaner, sms: InboundSms): Promise<void> {
+  await logInboundSms(supabase, sms);
+
+  await sendPushNotification(
+    cleaner.user_id,
+    'sms_received',
+    `${cleaner.name}: ${sms.body}`,
+    null,
+    supabase,
+    { cleaner_id: cleaner.id },
+    'New Message'
+  );
+}
+
+/**
+ * Log an inbound SMS
+ */
+async function logInboundSms(supabase: any, params: InboundSms): Promise<void> {
+  await supabase.from('sms_logs').insert({
+    cleaning_job_id: params.jobId,
+    cleaner_id: params.cleanerId,
+    phone: params.phone,
+    message: params.body,
+    direction: 'inbound',
+    twilio_sid: params.sid,
+    status: params.status,
+  });
 }
 
 /**
@@ -176,13 +636,36 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const twilioAuthToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+
+    if (!twilioAuthToken) {
+      return errorResponse('Missing Twilio configuration', 500);
+    }
+
     // Parse Twilio webhook data
     const twilioData = await parseTwilioWebhook(req);
+
+    // Only Twilio can update jobs; anything unsigned or tampered with is turned away
+    const signature = req.headers.get('x-twilio-signature') || '';
+    const webhookUrl = getTwilioWebhookUrl(req);
+
+    if (!(await verifyTwilioSignature(signature, webhookUrl, twilioData, twilioAuthToken))) {
+      console.warn('Rejected Twilio webhook with invalid signature:', {
+        url: webhookUrl,
+        hasSignature: !!signature,
+      });
+      return new Response('Invalid Twilio signature', { status: 403 });
+    }
     const fromPhone = twilioData.From;
     const messageBody = twilioData.Body || '';
     const messageSid = twilioData.MessageSid;
 
-    console.log('Received SMS:', { fromPhone, messageBody, messageSid });
+    console.log('Received SMS:', {
+      fromPhone,
+      messageBody,
+      messageSid,
+      numMedia: twilioData.NumMedia || '0',
+    });
 
     // Format phone number
     const formattedPhone = formatPhoneNumber(fromPhone);
@@ -197,11 +680,12 @@ serve(async (req) => {
       console.log('Cleaner not found for phone:', formattedPhone);
 
       // Log SMS anyway
-      await supabase.from('sms_logs').insert({
+      await logInboundSms(supabase, {
+        jobId: null,
+        cleanerId: null,
         phone: formattedPhone,
-        message: messageBody,
-        direction: 'inbound',
-        twilio_sid: messageSid,
+        body: messageBody,
+        sid: messageSid,
         status: 'received',
       });
 
@@ -210,50 +694,242 @@ serve(async (req) => {
       );
     }
 
-    const cleaner: Cleaner = cleaners[0];
+    // Hosts can share a cleaner, so the same phone may be on several cleaner rows
+    const cleaner = await resolveCleaner(supabase, cleaners, formattedPhone, messageBody);
+
+    if (!cleaner) {
+      for (const sharedCleaner of cleaners as Cleaner[]) {
+        await forwardToHost(supabase, sharedCleaner, {
+          jobId: null,
+          cleanerId: sharedCleaner.id,
+          phone: formattedPhone,
+          body: messageBody,
+          sid: messageSid,
+          status: 'received',
+        });
+      }
+
+      return createTwiMLResponse(
+        "You clean for more than one host, so we've passed your message on to each of them. To update a job, reply with the job code from our text (e.g. YES 4F2)."
+      );
+    }
 
     // Parse message intent
-    const { intent, status, timestamp_field } = parseMessageIntent(messageBody);
+    const { intent, keyword, code, hours, items, status, timestamp_field } =
+      parseMessageIntent(messageBody);
+
+    const unmatched: InboundSms = {
+      jobId: null,
+      cleanerId: cleaner.id,
+      phone: formattedPhone,
+      body: messageBody,
+      sid: messageSid,
+      status: 'received',
+    };
+
+    const media = getTwilioMedia(twilioData);
+
+    // Issue reports become maintenance tickets for the host
+    const issueReport = parseIssueReport(messageBody);
+    if (issueReport) {
+      return createTwiMLResponse(
+        await handleIssueReport(supabase, cleaner, issueReport, media, unmatched)
+      );
+    }
+
+    // Low stock reports go on the shopping list once they name a supply or
+    // checklist item; anything else starting with "low" is a message for the host
+    if (parseLowStockReport(messageBody)) {
+      const lowStockReply = await handleLowStockReport(supabase, cleaner, unmatched);
+      if (lowStockReply) {
+        return createTwiMLResponse(lowStockReply);
+      }
+    }
+
+    // Photos without a keyword are proof of a cleaning rather than a reply
+    if (media.length > 0 && intent === 'unknown') {
+      const photoJob = await findCurrentJob(
+        supabase,
+        cleaner.id,
+        await findOpenJobs([cleaner.id], supabase),
+        messageBody
+      );
+
+      if (!photoJob) {
+        await logInboundSms(supabase, unmatched);
+
+        return createTwiMLResponse(
+          "We couldn't tell which cleaning these photos are for. Please send them again with the job code from our text (e.g. 4F2)."
+        );
+      }
+
+      await logInboundSms(supabase, { ...unmatched, jobId: photoJob.id, status: 'processed' });
+
+      const stored = await storePhotos(supabase, jobPhotoTarget(photoJob.id), messageSid, media);
+      const photoPropertyName = photoJob.property?.name || 'Unknown Property';
+
+      if (stored === 0) {
+        return createTwiMLResponse(
+          `We couldn't save your photos for ${photoPropertyName}. Please try sending them again.`
+        );
+      }
+
+      let photoReply = `Got ${stored} ${stored === 1 ? 'photo' : 'photos'} for ${photoPropertyName}. Thanks!`;
+      const minPhotos = photoJob.property?.min_completion_photos || 0;
+      if (minPhotos > 0 && photoJob.status !== 'completed') {
+        const total = await countJobPhotos(supabase, photoJob.id);
+        if (total < minPhotos) {
+          photoReply += ` ${total} of ${minPhotos} photos needed so far.`;
+        }
+      }
+
+      return createTwiMLResponse(photoReply);
+    }
 
     if (intent === 'unknown') {
-      // Log SMS
-      await supabase.from('sms_logs').insert({
-        phone: formattedPhone,
-        message: messageBody,
-        direction: 'inbound',
-        twilio_sid: messageSid,
-        status: 'received',
-      });
+      await forwardToHost(supabase, cleaner, unmatched);
 
       return createTwiMLResponse(
-        'Please reply with YES to confirm, NO to decline, or DONE when completed.'
+        "We've passed your message on to your host. To update a job, reply with YES to confirm, NO to decline, START when you arrive, or DONE when completed, followed by the job code from our text (e.g. YES 4F2). For hourly jobs, add your hours to DONE (e.g. DONE 4F2 3.5). Reply CHECK with item numbers to tick off your checklist, LOW with supplies that are running out, or ISSUE to report something broken."
       );
     }
 
-    // Find recent job for this cleaner
-    const job = await findRecentJob(cleaner.id, supabase);
+    const openJobs = await findOpenJobs([cleaner.id], supabase);
 
-    if (!job) {
-      // Log SMS
-      await supabase.from('sms_logs').insert({
-        cleaning_job_id: null,
-        phone: formattedPhone,
-        message: messageBody,
-        direction: 'inbound',
-        twilio_sid: messageSid,
-        status: 'received',
-      });
+    if (openJobs.length === 0) {
+      await logInboundSms(supabase, unmatched);
 
       return createTwiMLResponse(
         'No upcoming cleaning jobs found. Contact your property manager if you believe this is an error.'
       );
     }
 
+    // Checklist replies don't change the job's status
+    const checklistReply = intent === 'check' || intent === 'checklist';
+
+    // A decline takes the job back to staffing
+    const targetStatus: JobStatus = status || 'declined';
+
+    // Work out which job the reply is about
+    let job: CleaningJob;
+    if (code) {
+      const matches = openJobs.filter((openJob) => getJobReplyCode(openJob.id) === code);
+
+      if (matches.length !== 1) {
+        await logInboundSms(supabase, unmatched);
+
+        return createTwiMLResponse(
+          buildJobListMessage(
+            matches.length > 1 ? matches : openJobs,
+            keyword,
+            matches.length > 1
+              ? `More than one cleaning matches ${code}.`
+              : `We couldn't find a cleaning with code ${code}.`
+          )
+        );
+      }
+
+      job = matches[0];
+    } else {
+      // Without a code the reply is only clear if one job can take it; for a
+      // checklist that's the cleaning underway
+      const actionable = openJobs.filter((openJob) =>
+        checklistReply
+          ? openJob.status === 'in_progress'
+          : openJob.status !== targetStatus && canTransitionJobStatus(openJob.status, targetStatus)
+      );
+
+      if (actionable.length > 1) {
+        await logInboundSms(supabase, unmatched);
+
+        return createTwiMLResponse(
+          buildJobListMessage(actionable, keyword, 'You have more than one upcoming cleaning.')
+        );
+      }
+
+      job = actionable[0] || openJobs[0];
+    }
+
+    // Log SMS
+    await logInboundSms(supabase, {
+      jobId: job.id,
+      cleanerId: cleaner.id,
+      phone: formattedPhone,
+      body: messageBody,
+      sid: messageSid,
+      status: 'processed',
+    });
+
+    // Photos sent along with a reply belong to the job it's about
+    if (media.length > 0) {
+      await storePhotos(supabase, jobPhotoTarget(job.id), messageSid, media);
+    }
+
+    const propertyName = job.property?.name || 'Unknown Property';
+
+    if (checklistReply) {
+      return createTwiMLResponse(await handleChecklistReply(supabase, job, items));
+    }
+
+    // Replies have to follow the same lifecycle as the app
+    if (job.status === targetStatus) {
+      return createTwiMLResponse(
+        `Your cleaning at ${propertyName} on ${formatDateForSms(job.checkout_date)} is already ${JOB_STATUS_LABELS[job.status].toLowerCase()}.`
+      );
+    }
+    if (!canTransitionJobStatus(job.status, targetStatus)) {
+      return createTwiMLResponse(
+        `Your cleaning at ${propertyName} on ${formatDateForSms(job.checkout_date)} is ${JOB_STATUS_LABELS[job.status].toLowerCase()}, so we couldn't update it. Contact your property manager if this is wrong.`
+      );
+    }
+
+    // Declines go to the next cleaner; the host only hears if nobody is left
+    if (intent === 'decline') {
+      await closeOffer(supabase, job.id, cleaner.id, 'declined');
+      await offerJobToNextCleaner(supabase, job.id);
+
+      return createTwiMLResponse(
+        `No problem, ${cleaner.name}. We'll find someone else for ${propertyName}.`
+      );
+    }
+
+    // Some properties want every required checklist item done first...
+    if (intent === 'complete') {
+      const checklistError = getChecklistCompletionError(
+        await getJobChecklist(supabase, job.id),
+        !!job.property?.require_checklist_completion
+      );
+
+      if (checklistError) {
+        return createTwiMLResponse(
+          `${checklistError}. Reply CHECK ${getJobReplyCode(job.id)} with their numbers once they're done, then DONE again.`
+        );
+      }
+
+      // ...and photos of the finished unit
+      const minPhotos = job.property?.min_completion_photos || 0;
+      if (minPhotos > 0) {
+        const photoError = getPhotoCompletionError(
+          await countJobPhotos(supabase, job.id),
+          minPhotos
+        );
+
+        if (photoError) {
+          return createTwiMLResponse(
+            `${photoError}. Text photos of the finished unit, then DONE ${getJobReplyCode(job.id)} again.`
+          );
+        }
+      }
+    }
+
     // Update job status
     const updateData: any = {
       status,
       [timestamp_field!]: new Date().toISOString(),
     };
+    if (hours !== null) {
+      updateData.actual_hours = hours;
+    }
 
     const { error: updateError } = await supabase
       .from('cleaning_jobs')
@@ -265,29 +941,27 @@ serve(async (req) => {
       throw new Error('Failed to update job status');
     }
 
-    // Log SMS
-    await supabase.from('sms_logs').insert({
-      cleaning_job_id: job.id,
-      phone: formattedPhone,
-      message: messageBody,
-      direction: 'inbound',
-      twilio_sid: messageSid,
-      status: 'processed',
-    });
+    if (intent === 'confirm') {
+      await closeOffer(supabase, job.id, cleaner.id, 'accepted');
+    }
 
-    // Send push notification to host
-    const propertyName = job.property?.name || 'Unknown Property';
+    // Hourly jobs are paid for the hours actually worked
+    if (hours !== null) {
+      try {
+        await repriceJob(supabase, job.id);
+      } catch (priceError) {
+        console.error('Error repricing job:', priceError);
+      }
+    }
+
+    // Send push notification to host (arrivals don't need one)
     let notificationType = '';
     let notificationMessage = '';
 
     switch (intent) {
       case 'confirm':
         notificationType = 'job_confirmed';
-        notificationMessage = `${cleaner.name} confirmed cleaning at ${propertyName} on ${job.checkout_date}`;
-        break;
-      case 'decline':
-        notificationType = 'job_declined';
-        notificationMessage = `${cleaner.name} declined cleaning at ${propertyName} on ${job.checkout_date}`;
+        notificationMessage = `${cleaner.name} confirmed cleaning at ${propertyName} on ${formatDateForSms(job.checkout_date)}`;
         break;
       case 'complete':
         notificationType = 'job_completed';
@@ -295,7 +969,7 @@ serve(async (req) => {
         break;
     }
 
-    if (job.property?.user_id) {
+    if (notificationType && job.property?.user_id) {
       await sendPushNotification(
         job.property.user_id,
         notificationType,
@@ -309,13 +983,31 @@ serve(async (req) => {
     let responseMessage = '';
     switch (intent) {
       case 'confirm':
-        responseMessage = `Thanks ${cleaner.name}! Your cleaning at ${propertyName} on ${job.checkout_date} is confirmed.`;
+        responseMessage = `Thanks ${cleaner.name}! Your cleaning at ${propertyName} on ${formatDateForSms(job.checkout_date)} is confirmed.`;
         break;
-      case 'decline':
-        responseMessage = `Your decline has been noted. The property manager has been notified.`;
+      case 'start': {
+        responseMessage = `Thanks ${cleaner.name}! Cleaning at ${propertyName} marked as started. Reply DONE when you finish.`;
+
+        try {
+          const checklist = await getJobChecklist(supabase, job.id);
+          if (checklist.length > 0) {
+            responseMessage += `\nYour checklist (* = required):\n${formatChecklistForSms(checklist)}\nReply CHECK ${getJobReplyCode(job.id)} with the numbers as you finish them.`;
+          }
+        } catch (checklistError) {
+          console.error('Error fetching checklist:', checklistError);
+        }
+
+        const minPhotos = job.property?.min_completion_photos || 0;
+        if (minPhotos > 0) {
+          responseMessage += `\nPlease text at least ${minPhotos} ${minPhotos === 1 ? 'photo' : 'photos'} of the finished unit before DONE.`;
+        }
         break;
+      }
       case 'complete':
-        responseMessage = `Great work! Cleaning marked as complete. Thanks ${cleaner.name}!`;
+        responseMessage =
+          hours !== null
+            ? `Great work! Cleaning marked as complete with ${hours} hours logged. Thanks ${cleaner.name}!`
+            : `Great work! Cleaning marked as complete. Thanks ${cleaner.name}!`;
         break;
     }
 
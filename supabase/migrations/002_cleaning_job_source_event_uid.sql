@@ -0,0 +1,9 @@
+-- Link each cleaning job to the iCal reservation it was created from, so a
+-- calendar sync can tell moved and cancelled reservations apart from new ones.
+
+alter table public.cleaning_jobs
+  add column if not exists source_event_uid text;
+
+create index if not exists cleaning_jobs_property_source_event_uid_idx
+  on public.cleaning_jobs (property_id, source_event_uid)
+  where source_event_uid is not null;
@@ -0,0 +1,43 @@
+-- Calendar feeds: a property can sync several iCal feeds (Airbnb, VRBO,
+-- Booking.com, ...). Sync reads only this table, so every existing
+-- properties.ical_url is copied in as the property's first feed.
+
+create table if not exists public.calendar_feeds (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties (id) on delete cascade,
+  name text not null,
+  ical_url text not null,
+  last_synced timestamptz,
+  sync_error text,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists calendar_feeds_property_id_idx
+  on public.calendar_feeds (property_id);
+
+insert into public.calendar_feeds (property_id, name, ical_url, last_synced, created_at)
+select p.id, 'Calendar', p.ical_url, p.last_synced, p.created_at
+from public.properties p
+where coalesce(p.ical_url, '') <> ''
+  and not exists (
+    select 1 from public.calendar_feeds f where f.property_id = p.id
+  );
+
+alter table public.calendar_feeds enable row level security;
+
+create policy "Users can manage feeds of own properties"
+  on public.calendar_feeds for all
+  using (
+    exists (
+      select 1 from public.properties p
+      where p.id = calendar_feeds.property_id and p.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.properties p
+      where p.id = calendar_feeds.property_id and p.user_id = auth.uid()
+    )
+  );
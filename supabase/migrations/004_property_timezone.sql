@@ -0,0 +1,5 @@
+-- Each property's IANA time zone, used to turn reservations into local
+-- checkout dates and to decide what "today" is at the property.
+
+alter table public.properties
+  add column if not exists timezone text not null default 'UTC';
@@ -0,0 +1,11 @@
+-- Checkout and check-in times of day, in the property's time zone. Properties
+-- carry the defaults; a job can override either for a late checkout or an
+-- early check-in.
+
+alter table public.properties
+  add column if not exists default_checkout_time time not null default '11:00',
+  add column if not exists default_checkin_time time not null default '16:00';
+
+alter table public.cleaning_jobs
+  add column if not exists checkout_time time,
+  add column if not exists checkin_time time;
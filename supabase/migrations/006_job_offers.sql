@@ -0,0 +1,42 @@
+-- Backup-cleaner escalation: the order backups are asked in, how long a
+-- cleaner has to answer, and one job_offers row each time a job is put to a
+-- cleaner.
+
+alter table public.properties
+  add column if not exists offer_timeout_hours integer not null default 12
+    check (offer_timeout_hours > 0);
+
+alter table public.property_cleaners
+  add column if not exists priority integer not null default 0;
+
+create table if not exists public.job_offers (
+  id uuid primary key default gen_random_uuid(),
+  cleaning_job_id uuid not null references public.cleaning_jobs (id) on delete cascade,
+  cleaner_id uuid not null references public.cleaners (id) on delete cascade,
+  offered_at timestamptz not null default now(),
+  responded_at timestamptz,
+  response text check (response in ('accepted', 'declined', 'expired', 'released')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists job_offers_cleaning_job_id_idx
+  on public.job_offers (cleaning_job_id);
+
+-- The escalation sweep looks for offers still waiting on an answer
+create index if not exists job_offers_open_idx
+  on public.job_offers (offered_at)
+  where response is null;
+
+alter table public.job_offers enable row level security;
+
+-- Offers are written by the edge functions; hosts can read those for their jobs
+create policy "Users can view offers for own jobs"
+  on public.job_offers for select
+  using (
+    exists (
+      select 1
+      from public.cleaning_jobs j
+      join public.properties p on p.id = j.property_id
+      where j.id = job_offers.cleaning_job_id and p.user_id = auth.uid()
+    )
+  );
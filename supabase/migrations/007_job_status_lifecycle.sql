@@ -0,0 +1,11 @@
+-- Job status lifecycle: the staffing and progress statuses a cleaning job
+-- moves through, and when the cleaner started work.
+
+alter type public.job_status add value if not exists 'unassigned';
+alter type public.job_status add value if not exists 'offered';
+alter type public.job_status add value if not exists 'declined';
+alter type public.job_status add value if not exists 'in_progress';
+alter type public.job_status add value if not exists 'needs_review';
+
+alter table public.cleaning_jobs
+  add column if not exists started_at timestamptz;
@@ -0,0 +1,18 @@
+-- Scheduled SMS dispatch: how many days before a cleaning its cleaner is
+-- texted, and when the day-before reminder went out.
+
+alter table public.properties
+  add column if not exists sms_lead_days integer not null default 3
+    check (sms_lead_days between 0 and 14);
+
+alter table public.cleaning_jobs
+  add column if not exists reminder_sent_at timestamptz;
+
+-- The dispatcher looks for jobs whose offer hasn't been texted yet
+create index if not exists cleaning_jobs_unsent_idx
+  on public.cleaning_jobs (checkout_date)
+  where sms_sent_at is null;
+
+-- Failed offer texts are counted per job to stop retrying a bad number
+create index if not exists sms_logs_cleaning_job_id_idx
+  on public.sms_logs (cleaning_job_id);
@@ -0,0 +1,30 @@
+-- Stripe webhook ledger: every event is recorded before it's applied so
+-- retries don't re-run side effects, and the profile remembers which
+-- subscription state it holds so late events can't move it backwards.
+
+alter table public.profiles
+  add column if not exists stripe_subscription_id text,
+  add column if not exists subscription_created_at timestamptz,
+  add column if not exists subscription_period_start timestamptz,
+  add column if not exists subscription_event_at timestamptz;
+
+create table if not exists public.stripe_events (
+  id text primary key,
+  type text not null,
+  stripe_created_at timestamptz not null,
+  payload jsonb not null,
+  status text not null
+    check (status in ('processing', 'processed', 'skipped', 'failed')),
+  error_message text,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz,
+  replay_count integer not null default 0,
+  last_replayed_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists stripe_events_status_idx
+  on public.stripe_events (status, received_at);
+
+-- Only the edge functions (service role) read or write the ledger
+alter table public.stripe_events enable row level security;
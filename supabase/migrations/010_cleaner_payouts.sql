@@ -0,0 +1,13 @@
+-- Stripe Connect payouts: each cleaner's connected account, and the transfer
+-- that paid each job so a failed transfer can find its jobs again.
+
+alter table public.cleaners
+  add column if not exists stripe_account_id text unique,
+  add column if not exists payouts_enabled boolean not null default false;
+
+alter table public.cleaning_jobs
+  add column if not exists stripe_transfer_id text;
+
+create index if not exists cleaning_jobs_stripe_transfer_id_idx
+  on public.cleaning_jobs (stripe_transfer_id)
+  where stripe_transfer_id is not null;
@@ -0,0 +1,16 @@
+-- Job pricing: flat or hourly pay for each cleaner at each property, the
+-- property's add-ons, and the hours a cleaner reports with DONE.
+
+alter table public.properties
+  add column if not exists same_day_premium numeric(10, 2) check (same_day_premium >= 0),
+  add column if not exists laundry_fee numeric(10, 2) check (laundry_fee >= 0),
+  add column if not exists holiday_multiplier numeric(4, 2) check (holiday_multiplier >= 1);
+
+alter table public.property_cleaners
+  add column if not exists pay_type text check (pay_type in ('flat', 'hourly')),
+  add column if not exists flat_rate numeric(10, 2) check (flat_rate >= 0),
+  add column if not exists hourly_rate numeric(10, 2) check (hourly_rate >= 0),
+  add column if not exists estimated_hours numeric(5, 2) check (estimated_hours > 0);
+
+alter table public.cleaning_jobs
+  add column if not exists actual_hours numeric(5, 2) check (actual_hours > 0);
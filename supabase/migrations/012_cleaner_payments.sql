@@ -0,0 +1,31 @@
+-- Cleaner settlements: every payment to a cleaner, however it was made, and
+-- the payment that settled each job.
+
+create table if not exists public.cleaner_payments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  cleaner_id uuid not null references public.cleaners (id) on delete cascade,
+  amount numeric(10, 2) not null check (amount >= 0),
+  method text not null
+    check (method in ('venmo', 'zelle', 'check', 'cash', 'stripe', 'other')),
+  reference text,
+  notes text,
+  period_start date,
+  period_end date,
+  paid_at timestamptz not null default now(),
+  reversed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists cleaner_payments_cleaner_id_idx
+  on public.cleaner_payments (cleaner_id, paid_at desc);
+
+alter table public.cleaning_jobs
+  add column if not exists payment_id uuid references public.cleaner_payments (id) on delete set null;
+
+alter table public.cleaner_payments enable row level security;
+
+create policy "Users can manage own cleaner payments"
+  on public.cleaner_payments for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,7 @@
+-- Private bucket for exported cleaner statements. Only the
+-- export-cleaner-statement function (service role) writes to it, and hosts
+-- download through the signed URLs it returns.
+
+insert into storage.buckets (id, name, public)
+values ('statements', 'statements', false)
+on conflict (id) do nothing;
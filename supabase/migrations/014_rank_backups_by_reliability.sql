@@ -0,0 +1,5 @@
+-- Lets a host have the most reliable backup cleaner asked next instead of
+-- following their list order.
+
+alter table public.properties
+  add column if not exists rank_backups_by_reliability boolean not null default false;
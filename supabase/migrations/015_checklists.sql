@@ -0,0 +1,70 @@
+-- Cleaning checklists: each property's template items, copied onto every job
+-- so later template edits don't rewrite jobs already under way.
+
+alter table public.properties
+  add column if not exists require_checklist_completion boolean not null default false;
+
+create table if not exists public.checklist_items (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties (id) on delete cascade,
+  label text not null,
+  category text not null check (category in ('room', 'restock', 'instruction')),
+  is_mandatory boolean not null default false,
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists checklist_items_property_id_idx
+  on public.checklist_items (property_id, position);
+
+create table if not exists public.job_checklist_items (
+  id uuid primary key default gen_random_uuid(),
+  cleaning_job_id uuid not null references public.cleaning_jobs (id) on delete cascade,
+  checklist_item_id uuid references public.checklist_items (id) on delete set null,
+  label text not null,
+  category text not null check (category in ('room', 'restock', 'instruction')),
+  is_mandatory boolean not null default false,
+  position integer not null default 0,
+  completed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists job_checklist_items_cleaning_job_id_idx
+  on public.job_checklist_items (cleaning_job_id, position);
+
+alter table public.checklist_items enable row level security;
+alter table public.job_checklist_items enable row level security;
+
+create policy "Users can manage checklists of own properties"
+  on public.checklist_items for all
+  using (
+    exists (
+      select 1 from public.properties p
+      where p.id = checklist_items.property_id and p.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.properties p
+      where p.id = checklist_items.property_id and p.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can manage checklists of own jobs"
+  on public.job_checklist_items for all
+  using (
+    exists (
+      select 1
+      from public.cleaning_jobs j
+      join public.properties p on p.id = j.property_id
+      where j.id = job_checklist_items.cleaning_job_id and p.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.cleaning_jobs j
+      join public.properties p on p.id = j.property_id
+      where j.id = job_checklist_items.cleaning_job_id and p.user_id = auth.uid()
+    )
+  );
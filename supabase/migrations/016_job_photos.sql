@@ -0,0 +1,51 @@
+-- Photos cleaners text in by MMS: a private bucket holding the files, one
+-- job_photos row per photo, and how many photos a property needs before a
+-- cleaning can be marked done.
+
+alter table public.properties
+  add column if not exists min_completion_photos integer not null default 0
+    check (min_completion_photos >= 0);
+
+create table if not exists public.job_photos (
+  id uuid primary key default gen_random_uuid(),
+  cleaning_job_id uuid not null references public.cleaning_jobs (id) on delete cascade,
+  storage_path text not null unique,
+  content_type text not null,
+  twilio_message_sid text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists job_photos_cleaning_job_id_idx
+  on public.job_photos (cleaning_job_id, created_at);
+
+alter table public.job_photos enable row level security;
+
+-- Photos are saved by twilio-webhook (service role); hosts can see their own
+create policy "Users can view photos of own jobs"
+  on public.job_photos for select
+  using (
+    exists (
+      select 1
+      from public.cleaning_jobs j
+      join public.properties p on p.id = j.property_id
+      where j.id = job_photos.cleaning_job_id and p.user_id = auth.uid()
+    )
+  );
+
+insert into storage.buckets (id, name, public)
+values ('job-photos', 'job-photos', false)
+on conflict (id) do nothing;
+
+-- Hosts sign links to a photo file only through the job it belongs to
+create policy "Users can view photo files of own jobs"
+  on storage.objects for select
+  using (
+    bucket_id = 'job-photos'
+    and exists (
+      select 1
+      from public.job_photos ph
+      join public.cleaning_jobs j on j.id = ph.cleaning_job_id
+      join public.properties p on p.id = j.property_id
+      where ph.storage_path = storage.objects.name and p.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,75 @@
+-- Maintenance issues cleaners report by SMS, with any photos sent along.
+-- Issue photos share the job-photos bucket under issues/<issue id>/.
+
+create table if not exists public.maintenance_issues (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties (id) on delete cascade,
+  cleaning_job_id uuid references public.cleaning_jobs (id) on delete set null,
+  cleaner_id uuid references public.cleaners (id) on delete set null,
+  description text not null,
+  severity text not null default 'medium'
+    check (severity in ('low', 'medium', 'high', 'urgent')),
+  status text not null default 'open'
+    check (status in ('open', 'in_progress', 'resolved', 'dismissed')),
+  cost numeric(10, 2) check (cost >= 0),
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists maintenance_issues_property_id_idx
+  on public.maintenance_issues (property_id, created_at desc);
+
+create table if not exists public.maintenance_issue_photos (
+  id uuid primary key default gen_random_uuid(),
+  maintenance_issue_id uuid not null references public.maintenance_issues (id) on delete cascade,
+  storage_path text not null unique,
+  content_type text not null,
+  twilio_message_sid text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists maintenance_issue_photos_issue_id_idx
+  on public.maintenance_issue_photos (maintenance_issue_id, created_at);
+
+alter table public.maintenance_issues enable row level security;
+alter table public.maintenance_issue_photos enable row level security;
+
+create policy "Users can manage issues at own properties"
+  on public.maintenance_issues for all
+  using (
+    exists (
+      select 1 from public.properties p
+      where p.id = maintenance_issues.property_id and p.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.properties p
+      where p.id = maintenance_issues.property_id and p.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can view photos of own issues"
+  on public.maintenance_issue_photos for select
+  using (
+    exists (
+      select 1
+      from public.maintenance_issues i
+      join public.properties p on p.id = i.property_id
+      where i.id = maintenance_issue_photos.maintenance_issue_id and p.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can view photo files of own issues"
+  on storage.objects for select
+  using (
+    bucket_id = 'job-photos'
+    and exists (
+      select 1
+      from public.maintenance_issue_photos ph
+      join public.maintenance_issues i on i.id = ph.maintenance_issue_id
+      join public.properties p on p.id = i.property_id
+      where ph.storage_path = storage.objects.name and p.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,67 @@
+-- Supplies kept at each property with their par levels, and supplies cleaners
+-- bought on a job that are paid back with it.
+
+create table if not exists public.inventory_items (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties (id) on delete cascade,
+  name text not null,
+  unit text,
+  par_level integer not null default 1 check (par_level >= 0),
+  on_hand integer check (on_hand >= 0),
+  low_reported_at timestamptz,
+  low_reported_by uuid references public.cleaners (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists inventory_items_property_id_idx
+  on public.inventory_items (property_id, name);
+
+create table if not exists public.supply_expenses (
+  id uuid primary key default gen_random_uuid(),
+  cleaning_job_id uuid not null references public.cleaning_jobs (id) on delete cascade,
+  cleaner_id uuid references public.cleaners (id) on delete set null,
+  description text not null,
+  amount numeric(10, 2) not null check (amount > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists supply_expenses_cleaning_job_id_idx
+  on public.supply_expenses (cleaning_job_id);
+
+alter table public.inventory_items enable row level security;
+alter table public.supply_expenses enable row level security;
+
+create policy "Users can manage supplies at own properties"
+  on public.inventory_items for all
+  using (
+    exists (
+      select 1 from public.properties p
+      where p.id = inventory_items.property_id and p.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.properties p
+      where p.id = inventory_items.property_id and p.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can manage supply expenses of own jobs"
+  on public.supply_expenses for all
+  using (
+    exists (
+      select 1
+      from public.cleaning_jobs j
+      join public.properties p on p.id = j.property_id
+      where j.id = supply_expenses.cleaning_job_id and p.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.cleaning_jobs j
+      join public.properties p on p.id = j.property_id
+      where j.id = supply_expenses.cleaning_job_id and p.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,74 @@
+-- Host SMS inbox: every message is kept against the cleaner it was to or
+-- from, so hosts who share a cleaner's phone never see each other's threads,
+-- and inbound messages stay unread until the host opens the conversation.
+
+alter table public.sms_logs
+  add column if not exists cleaner_id uuid references public.cleaners (id) on delete set null,
+  add column if not exists read_at timestamptz;
+
+-- Earlier messages go to the cleaner of the job's host, or to the only
+-- cleaner with that phone when they weren't about a job
+update public.sms_logs l
+set cleaner_id = c.id
+from public.cleaners c
+where l.cleaner_id is null
+  and c.phone = l.phone
+  and (
+    exists (
+      select 1
+      from public.cleaning_jobs j
+      join public.properties p on p.id = j.property_id
+      where j.id = l.cleaning_job_id and p.user_id = c.user_id
+    )
+    or (
+      l.cleaning_job_id is null
+      and (select count(*) from public.cleaners other where other.phone = l.phone) = 1
+    )
+  );
+
+create index if not exists sms_logs_cleaner_id_idx
+  on public.sms_logs (cleaner_id, created_at desc);
+
+create index if not exists sms_logs_unread_idx
+  on public.sms_logs (cleaner_id)
+  where direction = 'inbound' and read_at is null;
+
+-- The newest message with each cleaner, for the inbox list
+create or replace view public.latest_sms_logs
+  with (security_invoker = true) as
+  select distinct on (cleaner_id) *
+  from public.sms_logs
+  where cleaner_id is not null
+  order by cleaner_id, created_at desc;
+
+alter table public.sms_logs enable row level security;
+
+create policy "Users can view messages with own cleaners"
+  on public.sms_logs for select
+  using (
+    exists (
+      select 1 from public.cleaners c
+      where c.id = sms_logs.cleaner_id and c.user_id = auth.uid()
+    )
+    or exists (
+      select 1
+      from public.cleaning_jobs j
+      join public.properties p on p.id = j.property_id
+      where j.id = sms_logs.cleaning_job_id and p.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can mark messages with own cleaners read"
+  on public.sms_logs for update
+  using (
+    exists (
+      select 1 from public.cleaners c
+      where c.id = sms_logs.cleaner_id and c.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.cleaners c
+      where c.id = sms_logs.cleaner_id and c.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,16 @@
+-- SMS delivery tracking: Twilio status callbacks update each outbound message,
+-- and a message that wasn't delivered is resent at most once.
+
+alter table public.sms_logs
+  add column if not exists retry_of uuid references public.sms_logs (id) on delete set null;
+
+-- Callbacks for messages logged before their ID went on the callback URL
+-- are matched by SID
+create index if not exists sms_logs_twilio_sid_idx
+  on public.sms_logs (twilio_sid)
+  where twilio_sid is not null;
+
+-- Two resends racing can't both be logged, so only one is sent
+create unique index if not exists sms_logs_retry_of_idx
+  on public.sms_logs (retry_of)
+  where retry_of is not null;
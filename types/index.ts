@@ -2,6 +2,19 @@
  * TypeScript types for the Cleaner Scheduler app
  */
 
+import type { JobStatus } from '../supabase/functions/_shared/job-status';
+import type { PayType } from '../supabase/functions/_shared/pricing';
+import type { ReliabilityProfile } from '../supabase/functions/_shared/reliability';
+import type {
+  ChecklistCategory,
+  JobChecklistItem,
+} from '../supabase/functions/_shared/checklists';
+import type {
+  MaintenanceSeverity,
+  MaintenanceStatus,
+} from '../supabase/functions/_shared/maintenance';
+import type { InventoryItem } from '../supabase/functions/_shared/inventory';
+
 // Database types
 export interface Profile {
   id: string;
@@ -19,7 +32,29 @@ export interface Property {
   name: string;
   address: string | null;
   ical_url: string;
+  timezone: string;
+  default_checkout_time: string;
+  default_checkin_time: string;
+  offer_timeout_hours: number;
+  sms_lead_days: number;
+  same_day_premium: number | null;
+  laundry_fee: number | null;
+  holiday_multiplier: number | null;
+  rank_backups_by_reliability: boolean;
+  require_checklist_completion: boolean;
+  min_completion_photos: number;
+  last_synced: string | null;
+  active: boolean;
+  created_at: string;
+}
+
+export interface CalendarFeed {
+  id: string;
+  property_id: string;
+  name: string;
+  ical_url: string;
   last_synced: string | null;
+  sync_error: string | null;
   active: boolean;
   created_at: string;
 }
@@ -31,6 +66,9 @@ export interface Cleaner {
   phone: string;
   hourly_rate: number | null;
   active: boolean;
+  sms_opt_out: boolean;
+  stripe_account_id: string | null;
+  payouts_enabled: boolean;
   created_at: string;
 }
 
@@ -39,39 +77,132 @@ export interface PropertyCleaner {
   property_id: string;
   cleaner_id: string;
   is_primary: boolean;
+  priority: number;
+  pay_type: PayType | null;
+  flat_rate: number | null;
+  hourly_rate: number | null;
+  estimated_hours: number | null;
   created_at: string;
   // Joined data
   property?: Property;
   cleaner?: Cleaner;
 }
 
+export interface JobOffer {
+  id: string;
+  cleaning_job_id: string;
+  cleaner_id: string;
+  offered_at: string;
+  responded_at: string | null;
+  response: OfferResponse | null;
+  created_at: string;
+}
+
 export interface CleaningJob {
   id: string;
   property_id: string;
   cleaner_id: string | null;
   checkout_date: string;
   checkin_date: string | null;
+  checkout_time: string | null;
+  checkin_time: string | null;
+  is_same_day_turnaround: boolean;
   status: JobStatus;
   sms_sent_at: string | null;
   confirmed_at: string | null;
+  started_at: string | null;
   completed_at: string | null;
+  reminder_sent_at: string | null;
+  actual_hours: number | null;
   amount_owed: number | null;
   payment_status: PaymentStatus;
+  payment_date: string | null;
+  payment_id: string | null;
+  stripe_transfer_id: string | null;
   notes: string | null;
+  source_event_uid: string | null;
   created_at: string;
   // Joined data
   property?: Property;
   cleaner?: Cleaner;
 }
 
+export interface CleanerPayment {
+  id: string;
+  user_id: string;
+  cleaner_id: string;
+  amount: number;
+  method: SettlementMethod;
+  reference: string | null;
+  notes: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  paid_at: string;
+  reversed_at: string | null;
+  created_at: string;
+  // Joined data
+  jobs?: CleaningJob[];
+}
+
+export interface JobPhoto {
+  id: string;
+  cleaning_job_id: string;
+  storage_path: string;
+  content_type: string;
+  twilio_message_sid: string | null;
+  created_at: string;
+}
+
+export interface MaintenanceIssue {
+  id: string;
+  property_id: string;
+  cleaning_job_id: string | null;
+  cleaner_id: string | null;
+  description: string;
+  severity: MaintenanceSeverity;
+  status: MaintenanceStatus;
+  cost: number | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  property?: Property;
+  cleaner?: Cleaner | null;
+}
+
+export interface MaintenanceIssuePhoto {
+  id: string;
+  maintenance_issue_id: string;
+  storage_path: string;
+  content_type: string;
+  twilio_message_sid: string | null;
+  created_at: string;
+}
+
+export interface SupplyExpense {
+  id: string;
+  cleaning_job_id: string;
+  cleaner_id: string | null;
+  description: string;
+  amount: number;
+  created_at: string;
+}
+
 export interface SmsLog {
   id: string;
   cleaning_job_id: string | null;
+  /** The cleaner the message was to or from, or null for an unknown number */
+  cleaner_id: string | null;
   phone: string;
   message: string;
   direction: 'outbound' | 'inbound';
   twilio_sid: string | null;
   status: string | null;
+  error_message: string | null;
+  /** When the host saw an inbound message, or null while it's unread */
+  read_at: string | null;
+  /** The undelivered message this one sent again */
+  retry_of: string | null;
   created_at: string;
 }
 
@@ -86,24 +217,85 @@ export type SubscriptionStatus =
   | 'incomplete_expired'
   | null;
 
-export type JobStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled';
-
 export type PaymentStatus = 'unpaid' | 'paid';
 
+export type SettlementMethod = 'venmo' | 'zelle' | 'check' | 'cash' | 'stripe' | 'other';
+
+export type PayPeriodFrequency = 'weekly' | 'semimonthly' | 'monthly';
+
+export type OfferResponse = 'accepted' | 'declined' | 'expired' | 'released';
+
 // API request/response types
 export interface CreatePropertyInput {
   name: string;
   address?: string;
   ical_url: string;
+  timezone?: string;
+  default_checkout_time?: string;
+  default_checkin_time?: string;
+}
+
+export interface CreateCalendarFeedInput {
+  name: string;
+  ical_url: string;
 }
 
 export interface UpdatePropertyInput {
   name?: string;
   address?: string;
-  ical_url?: string;
+  timezone?: string;
+  default_checkout_time?: string;
+  default_checkin_time?: string;
+  offer_timeout_hours?: number;
+  sms_lead_days?: number;
+  same_day_premium?: number | null;
+  laundry_fee?: number | null;
+  holiday_multiplier?: number | null;
+  rank_backups_by_reliability?: boolean;
+  require_checklist_completion?: boolean;
+  min_completion_photos?: number;
   active?: boolean;
 }
 
+export interface CreateChecklistItemInput {
+  property_id: string;
+  label: string;
+  category: ChecklistCategory;
+  is_mandatory?: boolean;
+}
+
+export interface UpdateChecklistItemInput {
+  label?: string;
+  category?: ChecklistCategory;
+  is_mandatory?: boolean;
+}
+
+export interface UpdateMaintenanceIssueInput {
+  severity?: MaintenanceSeverity;
+  status?: MaintenanceStatus;
+  cost?: number | null;
+}
+
+export interface CreateInventoryItemInput {
+  property_id: string;
+  name: string;
+  unit?: string | null;
+  par_level: number;
+}
+
+export interface UpdateInventoryItemInput {
+  name?: string;
+  unit?: string | null;
+  par_level?: number;
+  on_hand?: number | null;
+}
+
+export interface CreateSupplyExpenseInput {
+  cleaning_job_id: string;
+  description: string;
+  amount: number;
+}
+
 export interface CreateCleanerInput {
   name: string;
   phone: string;
@@ -122,20 +314,45 @@ export interface CreateJobInput {
   cleaner_id?: string;
   checkout_date: string;
   checkin_date?: string;
+  checkout_time?: string;
+  checkin_time?: string;
   notes?: string;
 }
 
 export interface UpdateJobInput {
   cleaner_id?: string;
   status?: JobStatus;
+  checkout_time?: string | null;
+  checkin_time?: string | null;
   notes?: string;
+  actual_hours?: number | null;
   amount_owed?: number;
   payment_status?: PaymentStatus;
 }
 
+export interface UpdateCleanerPricingInput {
+  pay_type: PayType | null;
+  flat_rate: number | null;
+  hourly_rate: number | null;
+  estimated_hours: number | null;
+}
+
+export interface PropertySyncResult {
+  property_id: string;
+  property_name: string;
+  success: boolean;
+  jobs_created: number;
+  jobs_updated: number;
+  jobs_cancelled: number;
+  feed_errors: string[];
+  parse_errors: string[];
+  error?: string;
+}
+
 // UI types
 export interface PropertyWithCleaners extends Property {
   cleaners: PropertyCleaner[];
+  calendar_feeds: CalendarFeed[];
   upcoming_jobs?: CleaningJob[];
 }
 
@@ -144,12 +361,112 @@ export interface CleanerWithStats extends Cleaner {
   unpaid_amount: number;
   last_job_date: string | null;
   assigned_properties: Property[];
+  reliability: ReliabilityProfile;
 }
 
 export interface JobWithDetails extends CleaningJob {
   property: Property;
   cleaner: Cleaner | null;
   sms_logs: SmsLog[];
+  checklist: JobChecklistItem[];
+  photos: JobPhotoWithUrl[];
+  expenses: SupplyExpense[];
+}
+
+export interface JobPhotoWithUrl extends JobPhoto {
+  /** Short-lived link to the photo, or null if one couldn't be made */
+  url: string | null;
+}
+
+export interface MaintenanceIssueWithDetails extends MaintenanceIssue {
+  property: Property;
+  cleaner: Cleaner | null;
+  photos: MaintenanceIssuePhotoWithUrl[];
+}
+
+export interface MaintenanceIssuePhotoWithUrl extends MaintenanceIssuePhoto {
+  /** Short-lived link to the photo, or null if one couldn't be made */
+  url: string | null;
+}
+
+export interface InventoryItemWithProperty extends InventoryItem {
+  property: Pick<Property, 'id' | 'name'>;
+}
+
+export interface ReassignCandidate {
+  cleaner: Cleaner;
+  is_property_cleaner: boolean;
+  is_primary: boolean;
+  booked_jobs: CleaningJob[];
+}
+
+export interface ReassignJobResult {
+  success: boolean;
+  job_id: string;
+  cleaner_id: string;
+  new_cleaner_notified: boolean;
+  previous_cleaner_released: boolean;
+}
+
+export interface Conversation {
+  cleaner: Cleaner;
+  last_message: SmsLog | null;
+  unread_count: number;
+}
+
+export interface SendMessageResult {
+  success: boolean;
+  cleaner_id: string;
+  sid: string | null;
+}
+
+export interface RetrySmsResult {
+  success: boolean;
+  sms_log_id: string;
+  sid: string | null;
+}
+
+export interface SettleJobsInput {
+  cleaner_id: string;
+  job_ids: string[];
+  method: SettlementMethod;
+  reference?: string;
+  notes?: string;
+  period_start?: string;
+  period_end?: string;
+  paid_at?: string;
+}
+
+export interface PayPeriod {
+  start: string;
+  end: string;
+  jobs: CleaningJob[];
+  total: number;
+  running_total: number;
+}
+
+export interface CleanerPayoutOnboarding {
+  cleaner_id: string;
+  account_id: string;
+  payouts_enabled: boolean;
+  url: string;
+  expires_at: number;
+}
+
+export interface CleanerPayoutResult {
+  success: boolean;
+  cleaner_id: string;
+  transfer_id: string;
+  payment_id: string | null;
+  amount: number;
+  job_ids: string[];
+  payment_date: string;
+}
+
+export interface StatementExport {
+  url: string;
+  file_name: string;
+  expires_at: string;
 }
 
 // Form validation types
@@ -157,6 +474,9 @@ export interface PropertyFormData {
   name: string;
   address: string;
   ical_url: string;
+  timezone: string;
+  default_checkout_time: string;
+  default_checkin_time: string;
 }
 
 export interface CleanerFormData {
@@ -180,29 +500,83 @@ export interface ApiError {
 
 // Notification types
 export interface PushNotificationData {
-  type: 'job_confirmed' | 'job_declined' | 'job_completed' | 'sync_failed' | 'payment_failed';
+  type:
+    | 'job_confirmed'
+    | 'job_declined'
+    | 'job_unassigned'
+    | 'job_completed'
+    | 'sync_failed'
+    | 'payment_failed'
+    | 'maintenance_issue'
+    | 'low_stock'
+    | 'sms_received'
+    | 'sms_failed';
   job_id?: string;
+  issue_id?: string;
   property_id?: string;
   cleaner_id?: string;
   message: string;
 }
 
-// iCal types
-export interface ICalEvent {
-  uid: string;
-  summary: string;
-  description?: string;
-  start: Date;
-  end: Date;
-  location?: string;
-}
-
-export interface ParsedCheckout {
-  date: Date;
-  event: ICalEvent;
-  has_same_day_checkin: boolean;
-  next_checkin_date?: Date;
-}
+// Pricing types (defined by the shared pricing rules)
+export type {
+  PayType,
+  JobRates,
+  JobAddOns,
+  JobPriceBreakdown,
+} from '../supabase/functions/_shared/pricing';
+
+// Statement types (defined by the shared statements module)
+export type {
+  CleanerPaymentSummary,
+  StatementLine,
+  CleanerStatement,
+  YearEndCleanerTotal,
+  YearEndReport,
+  StatementFormat,
+} from '../supabase/functions/_shared/statements';
+
+// Reliability types (defined by the shared reliability scoring)
+export type { ReliabilityProfile } from '../supabase/functions/_shared/reliability';
+
+// Checklist types (defined by the shared checklists module)
+export type {
+  ChecklistCategory,
+  ChecklistTemplateItem,
+  JobChecklistItem,
+  ChecklistProgress,
+} from '../supabase/functions/_shared/checklists';
+
+// Maintenance types (defined by the shared maintenance module)
+export type {
+  MaintenanceSeverity,
+  MaintenanceStatus,
+  IssueReport,
+} from '../supabase/functions/_shared/maintenance';
+
+// Inventory types (defined by the shared inventory module)
+export type {
+  InventoryItem,
+  ShoppingListEntry,
+  LowStockReport,
+} from '../supabase/functions/_shared/inventory';
+
+// SMS delivery types (defined by the shared SMS status module)
+export type { SmsDeliveryStatus } from '../supabase/functions/_shared/sms-status';
+
+// iCal types (defined by the shared calendar-sync engine)
+export type {
+  ICalEvent,
+  ParsedCheckout,
+  SyncJob,
+  SyncPlan,
+} from '../supabase/functions/_shared/calendar-sync';
+
+// Cleaning window types (defined by the shared cleaning-window module)
+export type { CleaningWindow } from '../supabase/functions/_shared/cleaning-window';
+
+// Job status types (defined by the shared job-status module)
+export type { JobStatus };
 
 // Stripe types
 export interface SubscriptionPlan {
@@ -279,13 +653,15 @@ export interface StripeError {
 }
 
 // Analytics types
-export interface CleanerPaymentSummary {
-  cleaner_id: string;
-  cleaner_name: string;
-  total_jobs: number;
-  total_paid: number;
-  total_unpaid: number;
-  last_payment_date: string | null;
+export interface PropertyMonthStats {
+  month: string; // YYYY-MM
+  total_cleanings: number;
+  total_cost: number;
+  avg_cost_per_cleaning: number;
+  same_day_turnarounds: number;
+  offers_answered: number;
+  offers_declined: number;
+  avg_confirmation_minutes: number | null;
 }
 
 export interface PropertyStats {
@@ -295,4 +671,22 @@ export interface PropertyStats {
   total_cost: number;
   avg_cost_per_cleaning: number;
   last_cleaning_date: string | null;
+  same_day_turnarounds: number;
+  same_day_rate: number;
+  // Offers a cleaner accepted, declined or let expire
+  offers_answered: number;
+  offers_declined: number;
+  decline_rate: number | null;
+  // From sms_sent_at to confirmed_at
+  avg_confirmation_minutes: number | null;
+  monthly: PropertyMonthStats[];
+}
+
+export interface PropertyAnalytics {
+  start_date: string;
+  end_date: string;
+  months: string[];
+  properties: PropertyStats[];
+  // All properties together, for comparison
+  overall: PropertyStats;
 }
@@ -0,0 +1,214 @@
+/**
+ * Property analytics utilities
+ * Rolls cleaning jobs and SMS offers up into per-property, per-month stats
+ */
+
+import { format as dateFnsFormat, parseISO, addMonths, startOfMonth } from 'date-fns';
+import type {
+  CleaningJob,
+  JobOffer,
+  Property,
+  PropertyAnalytics,
+  PropertyMonthStats,
+  PropertyStats,
+} from '../types';
+
+export type AnalyticsJob = Pick<
+  CleaningJob,
+  | 'property_id'
+  | 'checkout_date'
+  | 'status'
+  | 'is_same_day_turnaround'
+  | 'amount_owed'
+  | 'sms_sent_at'
+  | 'confirmed_at'
+>;
+
+export type AnalyticsOffer = Pick<JobOffer, 'response'> & {
+  cleaning_job: Pick<CleaningJob, 'property_id' | 'checkout_date'>;
+};
+
+interface Tally {
+  cleanings: number;
+  cost: number;
+  lastCleaning: string | null;
+  sameDay: number;
+  answered: number;
+  declined: number;
+  confirmMinutes: number;
+  confirmCount: number;
+}
+
+const emptyTally = (): Tally => ({
+  cleanings: 0,
+  cost: 0,
+  lastCleaning: null,
+  sameDay: 0,
+  answered: 0,
+  declined: 0,
+  confirmMinutes: 0,
+  confirmCount: 0,
+});
+
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+function tallyTotals(tally: Tally): Omit<PropertyMonthStats, 'month'> {
+  return {
+    total_cleanings: tally.cleanings,
+    total_cost: toCents(tally.cost),
+    avg_cost_per_cleaning: tally.cleanings > 0 ? toCents(tally.cost / tally.cleanings) : 0,
+    same_day_turnarounds: tally.sameDay,
+    offers_answered: tally.answered,
+    offers_declined: tally.declined,
+    avg_confirmation_minutes:
+      tally.confirmCount > 0 ? Math.round(tally.confirmMinutes / tally.confirmCount) : null,
+  };
+}
+
+const tallyToMonthStats = (month: string, tally: Tally): PropertyMonthStats => ({
+  month,
+  ...tallyTotals(tally),
+});
+
+function tallyToStats(
+  property: { id: string; name: string },
+  tally: Tally,
+  monthly: PropertyMonthStats[]
+): PropertyStats {
+  return {
+    property_id: property.id,
+    property_name: property.name,
+    ...tallyTotals(tally),
+    last_cleaning_date: tally.lastCleaning,
+    same_day_rate: tally.cleanings > 0 ? tally.sameDay / tally.cleanings : 0,
+    decline_rate: tally.answered > 0 ? tally.declined / tally.answered : null,
+    monthly,
+  };
+}
+
+function addTally(into: Tally, from: Tally): void {
+  into.cleanings += from.cleanings;
+  into.cost += from.cost;
+  into.sameDay += from.sameDay;
+  into.answered += from.answered;
+  into.declined += from.declined;
+  into.confirmMinutes += from.confirmMinutes;
+  into.confirmCount += from.confirmCount;
+  if (from.lastCleaning && (!into.lastCleaning || from.lastCleaning > into.lastCleaning)) {
+    into.lastCleaning = from.lastCleaning;
+  }
+}
+
+/**
+ * Lists the months (YYYY-MM) a date range touches, oldest first
+ * @param startDate - Date string (YYYY-MM-DD)
+ * @param endDate - Date string (YYYY-MM-DD)
+ */
+export function getMonthsInRange(startDate: string, endDate: string): string[] {
+  const months: string[] = [];
+  const last = dateFnsFormat(parseISO(endDate), 'yyyy-MM');
+  let month = startOfMonth(parseISO(startDate));
+
+  while (dateFnsFormat(month, 'yyyy-MM') <= last) {
+    months.push(dateFnsFormat(month, 'yyyy-MM'));
+    month = addMonths(month, 1);
+  }
+
+  return months;
+}
+
+/**
+ * Builds per-property and per-month stats
+ *
+ * Cleanings and costs count completed jobs. Confirmation time is measured on
+ * every job that was texted and confirmed, and the decline rate on offers a
+ * cleaner answered or let expire (offers the host withdrew don't count).
+ * Everything is bucketed by the job's checkout month.
+ *
+ * @param properties - Properties to report on, in display order
+ * @param jobs - Jobs with a checkout date in the range
+ * @param offers - Offers for jobs with a checkout date in the range
+ * @param startDate - Date string (YYYY-MM-DD)
+ * @param endDate - Date string (YYYY-MM-DD)
+ * @returns Stats for each property and for all of them together
+ */
+export function buildPropertyAnalytics(
+  properties: Pick<Property, 'id' | 'name'>[],
+  jobs: AnalyticsJob[],
+  offers: AnalyticsOffer[],
+  startDate: string,
+  endDate: string
+): PropertyAnalytics {
+  const months = getMonthsInRange(startDate, endDate);
+  const tallies = new Map<string, Map<string, Tally>>(
+    properties.map((property) => [
+      property.id,
+      new Map(months.map((month) => [month, emptyTally()])),
+    ])
+  );
+
+  const tallyFor = (propertyId: string, checkoutDate: string) =>
+    tallies.get(propertyId)?.get(checkoutDate.slice(0, 7));
+
+  for (const job of jobs) {
+    const tally = tallyFor(job.property_id, job.checkout_date);
+    if (!tally) continue;
+
+    if (job.status === 'completed') {
+      tally.cleanings += 1;
+      tally.cost += job.amount_owed || 0;
+      if (job.is_same_day_turnaround) tally.sameDay += 1;
+      if (!tally.lastCleaning || job.checkout_date > tally.lastCleaning) {
+        tally.lastCleaning = job.checkout_date;
+      }
+    }
+
+    if (job.sms_sent_at && job.confirmed_at) {
+      const minutes =
+        (parseISO(job.confirmed_at).getTime() - parseISO(job.sms_sent_at).getTime()) / 60000;
+      // A host confirming by hand before the text went out isn't a response time
+      if (minutes >= 0) {
+        tally.confirmMinutes += minutes;
+        tally.confirmCount += 1;
+      }
+    }
+  }
+
+  for (const offer of offers) {
+    if (!offer.response || offer.response === 'released') continue;
+
+    const tally = tallyFor(offer.cleaning_job.property_id, offer.cleaning_job.checkout_date);
+    if (!tally) continue;
+
+    tally.answered += 1;
+    if (offer.response === 'declined') tally.declined += 1;
+  }
+
+  const overallTally = emptyTally();
+  const overallMonths = new Map(months.map((month) => [month, emptyTally()]));
+
+  const propertyStats = properties.map((property) => {
+    const propertyTally = emptyTally();
+    const monthly = months.map((month) => {
+      const tally = tallies.get(property.id)!.get(month)!;
+      addTally(propertyTally, tally);
+      addTally(overallMonths.get(month)!, tally);
+      return tallyToMonthStats(month, tally);
+    });
+
+    addTally(overallTally, propertyTally);
+    return tallyToStats(property, propertyTally, monthly);
+  });
+
+  return {
+    start_date: startDate,
+    end_date: endDate,
+    months,
+    properties: propertyStats,
+    overall: tallyToStats(
+      { id: 'all', name: 'All Properties' },
+      overallTally,
+      months.map((month) => tallyToMonthStats(month, overallMonths.get(month)!))
+    ),
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Checklist utilities
+ * Defined in the shared module so the app numbers and gates checklists the
+ * same way the SMS webhook does
+ */
+
+export {
+  CHECKLIST_CATEGORIES,
+  CHECKLIST_CATEGORY_LABELS,
+  copyChecklistTemplate,
+  getChecklistCompletionError,
+  getChecklistProgress,
+  sortChecklist,
+} from '../supabase/functions/_shared/checklists';
@@ -0,0 +1,15 @@
+/**
+ * Cleaning window utilities
+ * Defined in the shared module so SMS sent by Edge Functions quote the same
+ * times the app shows
+ */
+
+export {
+  DEFAULT_CHECKOUT_TIME,
+  DEFAULT_CHECKIN_TIME,
+  parseTimeOfDay,
+  formatTimeOfDay,
+  getCleaningWindow,
+  getCleaningWindowMinutes,
+  formatCleaningWindow,
+} from '../supabase/functions/_shared/cleaning-window';
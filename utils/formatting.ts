@@ -5,13 +5,62 @@
 import { format as dateFnsFormat, formatDistanceToNow, parseISO } from 'date-fns';
 import { parsePhoneNumber } from 'libphonenumber-js';
 
+/**
+ * Gets the IANA time zone the device is set to
+ * @returns Time zone name (e.g., "America/Denver"), or UTC if unknown
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch (error) {
+    return 'UTC';
+  }
+}
+
+/**
+ * Shifts a moment so its local fields show the wall-clock time in a time zone
+ * Lets date-fns (which only knows the device zone) format property-local times
+ * @param date - Moment in time
+ * @param timeZone - IANA time zone
+ * @returns Date whose local fields match the wall clock in timeZone
+ */
+function toZonedTime(date: Date, timeZone: string): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  return new Date(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+}
+
 /**
  * Formats a date using date-fns
+ * Plain dates ("2024-01-15") are calendar days and never shift between zones;
+ * timestamps are shown in timeZone when one is given
  * @param date - Date string or Date object
  * @param format - Optional format string (default: 'MMM d, yyyy')
+ * @param timeZone - Optional IANA time zone, e.g. the property's
  * @returns Formatted date string
  */
-export function formatDate(date: string | Date, format: string = 'MMM d, yyyy'): string {
+export function formatDate(
+  date: string | Date,
+  format: string = 'MMM d, yyyy',
+  timeZone?: string
+): string {
   try {
     if (!date) {
       return '';
@@ -33,6 +82,11 @@ export function formatDate(date: string | Date, format: string = 'MMM d, yyyy'):
       return '';
     }
 
+    const isPlainDate = typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date);
+    if (timeZone && !isPlainDate) {
+      dateObj = toZonedTime(dateObj, timeZone);
+    }
+
     return dateFnsFormat(dateObj, format);
   } catch (error) {
     console.error('Error formatting date:', error);
@@ -161,6 +215,17 @@ export function formatRelativeTime(date: string | Date): string {
   }
 }
 
+/**
+ * Formats a length of time in minutes compactly (e.g., "45m", "2h 5m", "1d 3h")
+ * @param minutes - Whole minutes
+ * @returns Formatted duration
+ */
+export function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${Math.floor(minutes / (24 * 60))}d ${Math.floor((minutes % (24 * 60)) / 60)}h`;
+}
+
 /**
  * Truncates text to a maximum length and adds ellipsis
  * @param text - Text to truncate
@@ -1,10 +1,27 @@
 /**
  * iCal parsing utilities for calendar synchronization
  * Supports Airbnb, VRBO, Booking.com, and other iCal formats
+ *
+ * Sync logic lives in the shared calendar-sync engine so the app and the
+ * calendar-sync Edge Function make the same decisions.
  */
 
 import ICAL from 'ical.js';
 import { ICalEvent, ParsedCheckout } from '../types';
+import {
+  fetchICalData,
+  parseICalData as parseICalDataWith,
+} from '../supabase/functions/_shared/calendar-sync';
+
+export {
+  extractCheckouts,
+  detectSameDayTurnaround,
+  filterUpcomingCheckouts,
+  mergeFeedEvents,
+  planSync,
+  toLocalDateString,
+  addDaysToDateString,
+} from '../supabase/functions/_shared/calendar-sync';
 
 /**
  * Fetches and parses iCal data from a URL
@@ -13,32 +30,7 @@ import { ICalEvent, ParsedCheckout } from '../types';
  */
 export async function parseICalFromUrl(url: string): Promise<ICalEvent[]> {
   try {
-    if (!url || typeof url !== 'string') {
-      throw new Error('Invalid iCal URL');
-    }
-
-    // Convert webcal:// to https://
-    const fetchUrl = url.replace(/^webcal:\/\//i, 'https://');
-
-    // Fetch the iCal data
-    const response = await fetch(fetchUrl, {
-      method: 'GET',
-      headers: {
-        'Accept': 'text/calendar, application/ics, text/plain',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch iCal: ${response.status} ${response.statusText}`);
-    }
-
-    const icalData = await response.text();
-
-    if (!icalData || icalData.trim().length === 0) {
-      throw new Error('iCal data is empty');
-    }
-
-    // Parse the iCal data
+    const icalData = await fetchICalData(url);
     return parseICalData(icalData);
   } catch (error) {
     console.error('Error parsing iCal from URL:', error);
@@ -52,210 +44,25 @@ export async function parseICalFromUrl(url: string): Promise<ICalEvent[]> {
  * @returns Array of parsed events
  */
 export function parseICalData(icalData: string): ICalEvent[] {
-  try {
-    // Parse the iCal string
-    const jcalData = ICAL.parse(icalData);
-    const comp = new ICAL.Component(jcalData);
-    const vevents = comp.getAllSubcomponents('vevent');
-
-    const events: ICalEvent[] = [];
-
-    for (const vevent of vevents) {
-      try {
-        const event = new ICAL.Event(vevent);
-
-        // Extract event properties
-        const uid = event.uid || '';
-        const summary = event.summary || 'Untitled Event';
-        const description = event.description || '';
-        const location = event.location || '';
-
-        // Get start and end times
-        let startDate: Date;
-        let endDate: Date;
-
-        if (event.startDate) {
-          startDate = event.startDate.toJSDate();
-        } else {
-          // Skip events without start date
-          continue;
-        }
-
-        if (event.endDate) {
-          endDate = event.endDate.toJSDate();
-        } else {
-          // If no end date, assume same as start date
-          endDate = new Date(startDate);
-        }
-
-        events.push({
-          uid,
-          summary,
-          description,
-          start: startDate,
-          end: endDate,
-          location,
-        });
-      } catch (eventError) {
-        console.error('Error parsing individual event:', eventError);
-        // Continue with other events
-      }
-    }
-
-    return events;
-  } catch (error) {
-    console.error('Error parsing iCal data:', error);
-    throw new Error('Failed to parse iCal data. Please check the format.');
-  }
+  return parseICalDataWith(icalData, ICAL);
 }
 
 /**
- * Extracts checkout dates from iCal events
- * Identifies events that represent reservations/bookings
- * @param events - Array of iCal events
- * @returns Array of parsed checkouts with metadata
+ * Guesses a display name for a calendar feed from its URL
+ * @param url - iCal URL of the feed
+ * @returns Platform name (e.g., "Airbnb") or a generic fallback
  */
-export function extractCheckouts(events: ICalEvent[]): ParsedCheckout[] {
-  try {
-    if (!Array.isArray(events) || events.length === 0) {
-      return [];
-    }
-
-    // Sort events by end date (checkout date)
-    const sortedEvents = [...events].sort((a, b) => a.end.getTime() - b.end.getTime());
-
-    const checkouts: ParsedCheckout[] = [];
-
-    for (let i = 0; i < sortedEvents.length; i++) {
-      const event = sortedEvents[i];
-
-      // Skip events that are not bookings
-      // Typically, blocked dates or unavailable dates have specific keywords
-      const summary = event.summary.toLowerCase();
-      const isBlocked =
-        summary.includes('blocked') ||
-        summary.includes('unavailable') ||
-        summary.includes('not available') ||
-        summary === 'busy';
-
-      if (isBlocked) {
-        continue;
-      }
-
-      // The end date is the checkout date
-      const checkoutDate = event.end;
-
-      // Check if there's a same-day check-in (next reservation starts on checkout day)
-      const hasSameDayCheckin = detectSameDayTurnaround(checkoutDate, sortedEvents);
-
-      // Find the next check-in date
-      let nextCheckinDate: Date | undefined;
-      for (let j = i + 1; j < sortedEvents.length; j++) {
-        const nextEvent = sortedEvents[j];
-        const nextSummary = nextEvent.summary.toLowerCase();
-        const isNextBlocked =
-          nextSummary.includes('blocked') ||
-          nextSummary.includes('unavailable') ||
-          nextSummary.includes('not available') ||
-          nextSummary === 'busy';
-
-        if (!isNextBlocked) {
-          nextCheckinDate = nextEvent.start;
-          break;
-        }
-      }
-
-      checkouts.push({
-        date: checkoutDate,
-        event,
-        has_same_day_checkin: hasSameDayCheckin,
-        next_checkin_date: nextCheckinDate,
-      });
-    }
-
-    return checkouts;
-  } catch (error) {
-    console.error('Error extracting checkouts:', error);
-    return [];
+export function getCalendarSourceName(url: string): string {
+  if (/airbnb\./i.test(url)) {
+    return 'Airbnb';
   }
-}
-
-/**
- * Detects if there's a same-day turnaround (checkout and check-in on same day)
- * @param checkoutDate - Checkout date to check
- * @param events - All iCal events
- * @returns True if there's a same-day check-in
- */
-export function detectSameDayTurnaround(checkoutDate: Date, events: ICalEvent[]): boolean {
-  try {
-    if (!checkoutDate || !Array.isArray(events)) {
-      return false;
-    }
-
-    // Get the checkout date at midnight for comparison
-    const checkoutDay = new Date(checkoutDate);
-    checkoutDay.setHours(0, 0, 0, 0);
-
-    // Check if any event starts on the same day
-    for (const event of events) {
-      const eventStartDay = new Date(event.start);
-      eventStartDay.setHours(0, 0, 0, 0);
-
-      // If an event starts on the same day as checkout
-      if (eventStartDay.getTime() === checkoutDay.getTime()) {
-        // Make sure it's not a blocked/unavailable event
-        const summary = event.summary.toLowerCase();
-        const isBlocked =
-          summary.includes('blocked') ||
-          summary.includes('unavailable') ||
-          summary.includes('not available') ||
-          summary === 'busy';
-
-        if (!isBlocked) {
-          return true;
-        }
-      }
-    }
-
-    return false;
-  } catch (error) {
-    console.error('Error detecting same-day turnaround:', error);
-    return false;
+  if (/vrbo\.|homeaway\./i.test(url)) {
+    return 'VRBO';
   }
-}
-
-/**
- * Filters checkouts to only include upcoming ones within specified days
- * @param checkouts - Array of parsed checkouts
- * @param days - Number of days to look ahead (default: 30)
- * @returns Filtered array of upcoming checkouts
- */
-export function filterUpcomingCheckouts(
-  checkouts: ParsedCheckout[],
-  days: number = 30
-): ParsedCheckout[] {
-  try {
-    if (!Array.isArray(checkouts) || checkouts.length === 0) {
-      return [];
-    }
-
-    const now = new Date();
-    now.setHours(0, 0, 0, 0); // Start of today
-
-    const futureDate = new Date(now);
-    futureDate.setDate(futureDate.getDate() + days);
-
-    return checkouts.filter(checkout => {
-      const checkoutDay = new Date(checkout.date);
-      checkoutDay.setHours(0, 0, 0, 0);
-
-      // Include checkouts from today onwards, up to specified days
-      return checkoutDay >= now && checkoutDay <= futureDate;
-    });
-  } catch (error) {
-    console.error('Error filtering upcoming checkouts:', error);
-    return [];
+  if (/booking\.com/i.test(url)) {
+    return 'Booking.com';
   }
+  return 'Calendar';
 }
 
 /**
@@ -275,9 +82,7 @@ export function groupCheckoutsByMonth(
 
     for (const checkout of checkouts) {
       // Create a key like "2024-01" for January 2024
-      const monthKey = `${checkout.date.getFullYear()}-${String(
-        checkout.date.getMonth() + 1
-      ).padStart(2, '0')}`;
+      const monthKey = checkout.checkout_day.slice(0, 7);
 
       if (!grouped.has(monthKey)) {
         grouped.set(monthKey, []);
@@ -8,6 +8,7 @@ export {
   validateEmail,
   validatePhone,
   validateICalUrl,
+  validateTimeZone,
   validatePassword,
   sanitizeInput,
   type PasswordValidationResult,
@@ -19,8 +20,10 @@ export {
   formatCurrency,
   formatPhone,
   formatRelativeTime,
+  formatMinutes,
   truncateText,
   formatDateRange,
+  getDeviceTimeZone,
 } from './formatting';
 
 // iCal parsing utilities
@@ -31,9 +34,90 @@ export {
   detectSameDayTurnaround,
   filterUpcomingCheckouts,
   groupCheckoutsByMonth,
+  getCalendarSourceName,
+  mergeFeedEvents,
+  planSync,
+  toLocalDateString,
   validateICalFormat,
 } from './ical-parser';
 
+// Cleaning window utilities
+export {
+  DEFAULT_CHECKOUT_TIME,
+  DEFAULT_CHECKIN_TIME,
+  parseTimeOfDay,
+  formatTimeOfDay,
+  getCleaningWindow,
+  getCleaningWindowMinutes,
+  formatCleaningWindow,
+} from './cleaning-window';
+
+// Job status utilities
+export {
+  JOB_STATUSES,
+  UPCOMING_JOB_STATUSES,
+  JOB_STATUS_LABELS,
+  canTransitionJobStatus,
+  getJobStatusTransitionError,
+  getStaffingStatus,
+} from './job-status';
+
+// Pricing utilities
+export { calculateJobAmount, getHoliday } from './pricing';
+
+// Statement utilities
+export {
+  buildCleanerStatement,
+  buildYearEndReport,
+  get1099Threshold,
+  statementToCsv,
+} from './statements';
+
+// Reliability utilities
+export { calculateReliability, compareReliability } from './reliability';
+
+// Checklist utilities
+export {
+  CHECKLIST_CATEGORIES,
+  CHECKLIST_CATEGORY_LABELS,
+  getChecklistCompletionError,
+  getChecklistProgress,
+  sortChecklist,
+} from './checklists';
+
+// Job photo utilities
+export { JOB_PHOTOS_BUCKET, getPhotoCompletionError } from './job-photos';
+
+// Inventory utilities
+export { isLowStock, getRestockQuantity, buildShoppingList } from './inventory';
+
+// Maintenance utilities
+export {
+  MAINTENANCE_SEVERITIES,
+  MAINTENANCE_STATUSES,
+  OPEN_MAINTENANCE_STATUSES,
+  MAINTENANCE_SEVERITY_LABELS,
+  MAINTENANCE_STATUS_LABELS,
+} from './maintenance';
+
+// SMS delivery utilities
+export {
+  SMS_FAILED_STATUSES,
+  SMS_ERROR_DESCRIPTIONS,
+  isSmsDeliveryFailure,
+  describeSmsError,
+} from './sms-status';
+
+// Analytics utilities
+export { buildPropertyAnalytics, getMonthsInRange } from './analytics';
+
+// Pay period utilities
+export {
+  PAY_PERIOD_FREQUENCY_LABELS,
+  getPayPeriod,
+  groupJobsByPayPeriod,
+} from './pay-periods';
+
 // Notification utilities
 export {
   registerForPushNotifications,
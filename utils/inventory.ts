@@ -0,0 +1,11 @@
+/**
+ * Inventory utilities
+ * Defined in the shared module so the app works out what needs buying the
+ * same way the SMS webhook reads low stock reports
+ */
+
+export {
+  isLowStock,
+  getRestockQuantity,
+  buildShoppingList,
+} from '../supabase/functions/_shared/inventory';
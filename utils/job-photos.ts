@@ -0,0 +1,7 @@
+/**
+ * Job photo utilities
+ * Defined in the shared module so the app applies the same photo minimum as
+ * the SMS webhook
+ */
+
+export { JOB_PHOTOS_BUCKET, getPhotoCompletionError } from '../supabase/functions/_shared/job-photos';
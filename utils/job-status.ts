@@ -0,0 +1,14 @@
+/**
+ * Job status utilities
+ * Defined in the shared module so the app and the Twilio webhook follow the
+ * same lifecycle
+ */
+
+export {
+  JOB_STATUSES,
+  UPCOMING_JOB_STATUSES,
+  JOB_STATUS_LABELS,
+  canTransitionJobStatus,
+  getJobStatusTransitionError,
+  getStaffingStatus,
+} from '../supabase/functions/_shared/job-status';
@@ -0,0 +1,13 @@
+/**
+ * Maintenance utilities
+ * Defined in the shared module so the app offers the same severities and
+ * statuses the SMS webhook files issues under
+ */
+
+export {
+  MAINTENANCE_SEVERITIES,
+  MAINTENANCE_STATUSES,
+  OPEN_MAINTENANCE_STATUSES,
+  MAINTENANCE_SEVERITY_LABELS,
+  MAINTENANCE_STATUS_LABELS,
+} from '../supabase/functions/_shared/maintenance';
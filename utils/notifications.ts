@@ -126,7 +126,12 @@ export async function sendLocalNotification(
       switch (data.type) {
         case 'job_confirmed':
         case 'job_declined':
+        case 'job_unassigned':
         case 'job_completed':
+        case 'maintenance_issue':
+        case 'low_stock':
+        case 'sms_received':
+        case 'sms_failed':
           channelId = 'cleaning-jobs';
           break;
         case 'payment_failed':
@@ -180,7 +185,12 @@ export async function scheduleNotification(
       switch (data.type) {
         case 'job_confirmed':
         case 'job_declined':
+        case 'job_unassigned':
         case 'job_completed':
+        case 'maintenance_issue':
+        case 'low_stock':
+        case 'sms_received':
+        case 'sms_failed':
           channelId = 'cleaning-jobs';
           break;
         case 'payment_failed':
@@ -268,6 +278,7 @@ export function handleNotificationResponse(response: any): void {
     switch (data.type) {
       case 'job_confirmed':
       case 'job_declined':
+      case 'job_unassigned':
       case 'job_completed':
         if (data.job_id) {
           // Return job_id for navigation
@@ -289,6 +300,38 @@ export function handleNotificationResponse(response: any): void {
         }
         break;
 
+      case 'maintenance_issue':
+        if (data.issue_id) {
+          // Return issue_id for navigation to the issue
+          return data.issue_id;
+        }
+        break;
+
+      case 'low_stock':
+        if (data.property_id) {
+          // Return property_id for navigation to the property's supplies
+          return data.property_id;
+        }
+        break;
+
+      case 'sms_received':
+        if (data.cleaner_id) {
+          // Return cleaner_id for navigation to the conversation
+          return data.cleaner_id;
+        }
+        break;
+
+      case 'sms_failed':
+        if (data.job_id) {
+          // Return job_id for navigation to the job the text was about
+          return data.job_id;
+        }
+        if (data.cleaner_id) {
+          // Return cleaner_id for navigation to the conversation
+          return data.cleaner_id;
+        }
+        break;
+
       default:
         console.log('Unknown notification type:', data.type);
     }
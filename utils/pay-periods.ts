@@ -0,0 +1,104 @@
+/**
+ * Pay period utilities
+ * Groups a cleaner's jobs into the periods the host settles up in
+ */
+
+import {
+  format as dateFnsFormat,
+  parseISO,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  setDate,
+} from 'date-fns';
+import type { CleaningJob, PayPeriod, PayPeriodFrequency } from '../types';
+
+export const PAY_PERIOD_FREQUENCY_LABELS: Record<PayPeriodFrequency, string> = {
+  weekly: 'Weekly',
+  semimonthly: 'Twice a Month',
+  monthly: 'Monthly',
+};
+
+/**
+ * Gets the pay period a date falls in
+ * Weeks run Monday to Sunday; twice-monthly periods split on the 15th
+ * @param date - Date string (YYYY-MM-DD)
+ * @param frequency - How often the host pays
+ * @returns Period start and end dates (YYYY-MM-DD)
+ */
+export function getPayPeriod(
+  date: string,
+  frequency: PayPeriodFrequency
+): { start: string; end: string } {
+  const day = parseISO(date);
+  let start: Date;
+  let end: Date;
+
+  switch (frequency) {
+    case 'weekly':
+      start = startOfWeek(day, { weekStartsOn: 1 });
+      end = endOfWeek(day, { weekStartsOn: 1 });
+      break;
+    case 'semimonthly':
+      if (day.getDate() <= 15) {
+        start = startOfMonth(day);
+        end = setDate(day, 15);
+      } else {
+        start = setDate(day, 16);
+        end = endOfMonth(day);
+      }
+      break;
+    case 'monthly':
+      start = startOfMonth(day);
+      end = endOfMonth(day);
+      break;
+  }
+
+  return {
+    start: dateFnsFormat(start, 'yyyy-MM-dd'),
+    end: dateFnsFormat(end, 'yyyy-MM-dd'),
+  };
+}
+
+/**
+ * Groups jobs into pay periods, oldest first, with each period's total and
+ * the running total of everything up to and including it
+ * @param jobs - Jobs to group (uses checkout_date and amount_owed)
+ * @param frequency - How often the host pays
+ * @returns Pay periods with their jobs
+ */
+export function groupJobsByPayPeriod(
+  jobs: CleaningJob[],
+  frequency: PayPeriodFrequency
+): PayPeriod[] {
+  const periods = new Map<string, PayPeriod>();
+
+  for (const job of jobs) {
+    const { start, end } = getPayPeriod(job.checkout_date, frequency);
+    let period = periods.get(start);
+
+    if (!period) {
+      period = { start, end, jobs: [], total: 0, running_total: 0 };
+      periods.set(start, period);
+    }
+
+    period.jobs.push(job);
+    period.total += job.amount_owed || 0;
+  }
+
+  const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+  let runningTotal = 0;
+  return Array.from(periods.values())
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .map((period) => {
+      runningTotal += period.total;
+      return {
+        ...period,
+        jobs: period.jobs.sort((a, b) => a.checkout_date.localeCompare(b.checkout_date)),
+        total: toCents(period.total),
+        running_total: toCents(runningTotal),
+      };
+    });
+}
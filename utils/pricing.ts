@@ -0,0 +1,7 @@
+/**
+ * Pricing utilities
+ * Defined in the shared module so jobs created in the app and by calendar
+ * sync are priced the same way
+ */
+
+export { calculateJobAmount, getHoliday } from '../supabase/functions/_shared/pricing';
@@ -0,0 +1,11 @@
+/**
+ * Reliability utilities
+ * Defined in the shared module so the score the app shows is the one backup
+ * ordering uses
+ */
+
+export {
+  RELIABILITY_LOOKBACK_DAYS,
+  calculateReliability,
+  compareReliability,
+} from '../supabase/functions/_shared/reliability';
@@ -0,0 +1,12 @@
+/**
+ * SMS delivery utilities
+ * Defined in the shared module so the app reads delivery failures the same
+ * way the status callback records them
+ */
+
+export {
+  SMS_FAILED_STATUSES,
+  SMS_ERROR_DESCRIPTIONS,
+  isSmsDeliveryFailure,
+  describeSmsError,
+} from '../supabase/functions/_shared/sms-status';
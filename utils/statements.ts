@@ -0,0 +1,13 @@
+/**
+ * Statement utilities
+ * Defined in the shared module so statements shown in the app match the
+ * files the export function produces
+ */
+
+export {
+  buildCleanerStatement,
+  buildYearEndReport,
+  get1099Threshold,
+  getStatementFileName,
+  statementToCsv,
+} from '../supabase/functions/_shared/statements';
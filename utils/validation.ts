@@ -105,6 +105,24 @@ export function validateICalUrl(url: string): boolean {
   }
 }
 
+/**
+ * Validates an IANA time zone name (e.g., "Pacific/Honolulu")
+ * @param timeZone - Time zone to validate
+ * @returns True if the runtime recognizes the time zone
+ */
+export function validateTimeZone(timeZone: string): boolean {
+  if (!timeZone || typeof timeZone !== 'string') {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timeZone.trim() });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
 /**
  * Password validation result
  */